@@ -0,0 +1,58 @@
+/**
+ * /api/backtest/record
+ *
+ * Appends one frame of live mainnet WETH/USDC pool snapshots (Base + Arbitrum)
+ * to a backtest fixture. Call periodically to build a replayable history.
+ *
+ * POST { fixture, fee? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { recordFixtureFrame, FixtureFrame } from '@/lib/backtest/fixtures';
+
+export interface RecordFrameResponse {
+  success: boolean;
+  timestamp: number;
+  fixture: string;
+  frame: FixtureFrame | null;
+  error?: string;
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<RecordFrameResponse>> {
+  let fixture = '';
+  try {
+    const body = await request.json();
+    fixture = body.fixture;
+    const fee = body.fee !== undefined ? Number(body.fee) : 500;
+
+    if (!fixture || typeof fixture !== 'string') {
+      return NextResponse.json({
+        success: false,
+        timestamp: Date.now(),
+        fixture: '',
+        frame: null,
+        error: 'fixture is required',
+      }, { status: 400 });
+    }
+
+    const frame = await recordFixtureFrame(fixture, fee);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: Date.now(),
+      fixture,
+      frame,
+    });
+
+  } catch (error) {
+    console.error('Fixture recording error:', error);
+
+    return NextResponse.json({
+      success: false,
+      timestamp: Date.now(),
+      fixture,
+      frame: null,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * /api/backtest
+ *
+ * Replays recorded pool snapshots through detect → estimate → decide
+ * using the rule-based decision path. Runs fully offline.
+ *
+ * GET  - list available fixtures
+ * POST { fixture, amountEth?, executionDelayFrames?, policy?, thresholds? } - run a backtest
+ *      policy: risk policy profile (conservative | balanced | aggressive | custom)
+ *      thresholds: partial DecisionThresholds on top of the policy, e.g. { "minProfitUsd": 3, "maxSpreadPct": 2 }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listFixtures, loadFixture } from '@/lib/backtest/fixtures';
+import { runBacktest, BacktestReport } from '@/lib/backtest/backtester';
+import { DEFAULT_DECISION_THRESHOLDS } from '@/lib/ai/decision-rules';
+import { loadRiskPolicyConfig, resolveRiskPolicy, RiskPolicy } from '@/lib/ai/risk-policy';
+
+export interface BacktestResponse {
+  success: boolean;
+  timestamp: number;
+  report: BacktestReport | null;
+  policy?: Pick<RiskPolicy, 'name' | 'baseProfile' | 'version'>;
+  error?: string;
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<BacktestResponse>> {
+  try {
+    const body = await request.json();
+
+    if (!body.fixture || typeof body.fixture !== 'string') {
+      return NextResponse.json({
+        success: false,
+        timestamp: Date.now(),
+        report: null,
+        error: 'fixture is required (see GET /api/backtest for available fixtures)',
+      }, { status: 400 });
+    }
+
+    let policy: RiskPolicy;
+    try {
+      policy = await resolveRiskPolicy({ profile: body.policy, overrides: body.thresholds });
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        timestamp: Date.now(),
+        report: null,
+        error: error instanceof Error ? error.message : 'Invalid risk policy',
+      }, { status: 400 });
+    }
+
+    const fixture = await loadFixture(body.fixture);
+    const report = runBacktest(fixture, {
+      amountEth: body.amountEth !== undefined ? parseFloat(body.amountEth) : undefined,
+      executionDelayFrames: body.executionDelayFrames !== undefined ? Number(body.executionDelayFrames) : undefined,
+      thresholds: policy.thresholds,
+    });
+
+    return NextResponse.json({
+      success: true,
+      timestamp: Date.now(),
+      report,
+      policy: { name: policy.name, baseProfile: policy.baseProfile, version: policy.version },
+    });
+
+  } catch (error) {
+    console.error('Backtest error:', error);
+
+    return NextResponse.json({
+      success: false,
+      timestamp: Date.now(),
+      report: null,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/backtest
+ * Lists recorded fixtures
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({
+      status: 'ok',
+      endpoint: '/api/backtest',
+      methods: ['GET', 'POST'],
+      description: 'Replay recorded pool snapshots through the rule-based decision pipeline',
+      fixtures: await listFixtures(),
+      policies: (await loadRiskPolicyConfig()).profiles,
+      defaultThresholds: DEFAULT_DECISION_THRESHOLDS,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return NextResponse.json({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
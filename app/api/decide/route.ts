@@ -6,10 +6,27 @@
  * 
  * Philosophy: AI predicts regret, not profit.
  * Biased toward SKIP. Skipping is success.
+ *
+ * decision.source says which path decided: early-exit rules, the model,
+ * or the deterministic fallback (no provider, or model output rejected).
+ * trace records every rule evaluated, risk signal provenance, model
+ * prompt/response hashes and per-stage latency.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getRiskModelProvider } from '@/lib/ai/providers';
+import { generateStructuredWithRaw, OutputSchema, StructuredOutputError } from '@/lib/ai/structured-output';
+import { DecisionTrace, DecisionTracer, hashText } from '@/lib/ai/decision-trace';
+import { resolveRiskPolicy, RiskPolicy } from '@/lib/ai/risk-policy';
+import { recordJournalEntry, DecisionPath } from '@/lib/journal/journal';
+import {
+  buildRiskAnalysis,
+  DecisionThresholds,
+  earlyExitDecision,
+  fallbackRuleDecision,
+  RiskAnalysis,
+  RiskLevel,
+} from '@/lib/ai/decision-rules';
 
 export interface DecideRequest {
   // From simulation
@@ -23,10 +40,24 @@ export interface DecideRequest {
   slippageRisk?: 'LOW' | 'MEDIUM' | 'HIGH';
   mevRisk?: 'LOW' | 'MEDIUM' | 'HIGH';
   timingRisk?: 'LOW' | 'MEDIUM' | 'HIGH';
+
+  // From /api/detect: opportunity.manipulationRisk (spot vs TWAP, any case); 'unknown' is ignored
+  manipulationRisk?: 'LOW' | 'MEDIUM' | 'HIGH' | 'UNKNOWN';
   
   // Context
   tradeSizeUsd: number;
-  liquidityUsd: number;
+  liquidityUsd?: number;   // Omitted when pool depth is unknown (e.g. dashboard estimates)
+
+  // Risk policy: profile name ('custom' = default profile + overrides),
+  // else the saved setting for `user`, else the config default
+  policy?: string;
+  policyOverrides?: Partial<DecisionThresholds>;
+  user?: string;
+
+  // Journal linkage (from /api/detect or /api/estimate)
+  opportunityId?: string;
+  buyChain?: 'base' | 'arbitrum';
+  sellChain?: 'base' | 'arbitrum';
 }
 
 export interface DecideResponse {
@@ -40,13 +71,27 @@ export interface DecideResponse {
       gasRisk: 'low' | 'medium' | 'high';
       slippageRisk: 'low' | 'medium' | 'high';
       mevRisk: 'low' | 'medium' | 'high';
+      manipulationRisk?: 'low' | 'medium' | 'high';
       profitMargin: 'safe' | 'acceptable' | 'thin';
     };
+    source: DecisionPath;
   };
+  validationErrors?: string[];  // Why the model output was rejected (source: 'fallback')
+  policy?: Pick<RiskPolicy, 'name' | 'baseProfile' | 'version'>;
+  trace?: DecisionTrace;
   error?: string;
 }
 
-const AGGREGATION_PROMPT = `You are the final decision layer in a DeFi arbitrage risk system.
+type Decision = Omit<DecideResponse['decision'], 'source'>;
+
+const DECIDE_SCHEMA: OutputSchema = {
+  decision: { type: 'enum', values: ['EXECUTE', 'SKIP'] },
+  reason: { type: 'string', default: 'AI decision completed' },
+  confidence: { type: 'number', min: 0, max: 1, default: 0.5 },
+};
+
+function buildAggregationPrompt(thresholds: DecisionThresholds): string {
+  return `You are the final decision layer in a DeFi arbitrage risk system.
 
 Your ONLY job: make a global EXECUTE or SKIP judgment based on all risk signals.
 
@@ -55,7 +100,7 @@ Philosophy: You predict regret, not profit.
 Risk Hierarchy:
 - If ANY risk is HIGH → strongly consider SKIP
 - If TWO risks are MEDIUM → likely SKIP
-- If profit < $2 → SKIP (too thin)
+- If profit < $${thresholds.minProfitUsd} → SKIP (too thin)
 - Only EXECUTE when risks are manageable
 
 You are BIASED toward SKIP.
@@ -67,6 +112,7 @@ Return ONLY valid JSON:
   "reason": "one sentence explaining the global judgment",
   "confidence": 0.0 to 1.0
 }`;
+}
 
 export async function POST(request: NextRequest): Promise<NextResponse<DecideResponse>> {
   try {
@@ -74,83 +120,53 @@ export async function POST(request: NextRequest): Promise<NextResponse<DecideRes
     
     // Validate required fields
     if (body.netProfitUsd === undefined || body.spreadPercent === undefined) {
-      return NextResponse.json({
-        success: false,
-        timestamp: Date.now(),
-        decision: {
-          decision: 'SKIP',
-          reason: 'Missing required simulation data',
-          confidence: 0,
-          riskAnalysis: {
-            gasRisk: 'high',
-            slippageRisk: 'high',
-            mevRisk: 'high',
-            profitMargin: 'thin',
-          },
-        },
-        error: 'Missing required fields',
-      }, { status: 400 });
+      return rejectRequest('Missing required simulation data', 'Missing required fields', 400);
     }
 
-    // Use provided risk levels or infer from data
-    const slippageRisk = body.slippageRisk ? body.slippageRisk.toLowerCase() as 'low' | 'medium' | 'high' : inferSlippageRisk(body);
-    const mevRisk = body.mevRisk ? body.mevRisk.toLowerCase() as 'low' | 'medium' | 'high' : inferMEVRisk(body);
-    const timingRisk = body.timingRisk ? body.timingRisk.toLowerCase() as 'low' | 'medium' | 'high' : inferTimingRisk(body);
-
-    // Calculate profit margin
-    const profitMargin = calculateProfitMargin(body);
-
-    // Deterministic early exits (before AI)
-    if (body.netProfitUsd <= 0) {
-      return NextResponse.json({
-        success: true,
-        timestamp: Date.now(),
-        decision: {
-          decision: 'SKIP',
-          reason: 'Net profit is negative or zero',
-          confidence: 1.0,
-          riskAnalysis: { gasRisk: timingRisk, slippageRisk, mevRisk, profitMargin },
-        },
-      });
+    let policy: RiskPolicy;
+    try {
+      policy = await resolveRiskPolicy({ profile: body.policy, overrides: body.policyOverrides }, body.user);
+    } catch (error) {
+      return rejectRequest('Invalid risk policy', error instanceof Error ? error.message : 'Invalid risk policy', 400);
     }
+    const { thresholds } = policy;
+
+    const tracer = new DecisionTracer();
+    tracer.policyNote = policy.note;
 
-    if (body.netProfitUsd < 2) {
-      return NextResponse.json({
-        success: true,
-        timestamp: Date.now(),
-        decision: {
-          decision: 'SKIP',
-          reason: 'Net profit below $2 minimum threshold',
-          confidence: 0.95,
-          riskAnalysis: { gasRisk: timingRisk, slippageRisk, mevRisk, profitMargin },
-        },
-      });
+    // Use provided risk levels or infer from data
+    const provided = {
+      slippageRisk: body.slippageRisk?.toLowerCase() as RiskLevel | undefined,
+      mevRisk: body.mevRisk?.toLowerCase() as RiskLevel | undefined,
+      gasRisk: body.timingRisk?.toLowerCase() as RiskLevel | undefined,
+      manipulationRisk: parseManipulationRisk(body.manipulationRisk),
+    };
+    const riskAnalysis = await tracer.stage('risk-analysis', () => buildRiskAnalysis(body, provided, thresholds));
+    const { gasRisk: timingRisk, slippageRisk, mevRisk, manipulationRisk, profitMargin } = riskAnalysis;
+    tracer.riskSignals = (['gasRisk', 'slippageRisk', 'mevRisk', 'profitMargin'] as const).map(signal => ({
+      signal,
+      value: riskAnalysis[signal],
+      source: signal !== 'profitMargin' && provided[signal] ? 'provided' : 'inferred',
+    }));
+    if (manipulationRisk) {
+      tracer.riskSignals.push({ signal: 'manipulationRisk', value: manipulationRisk, source: 'provided' });
     }
 
-    if (body.spreadPercent > 5) {
-      return NextResponse.json({
-        success: true,
-        timestamp: Date.now(),
-        decision: {
-          decision: 'SKIP',
-          reason: 'Spread >5% appears anomalous - possible bad data',
-          confidence: 0.9,
-          riskAnalysis: { gasRisk: timingRisk, slippageRisk, mevRisk, profitMargin },
-        },
-      });
+    // Deterministic early exits (before AI)
+    const earlyExit = await tracer.stage('early-exit', () =>
+      earlyExitDecision(body, riskAnalysis, thresholds, tracer.rules)
+    );
+    if (earlyExit) {
+      return respond(body, policy, 'early-exit', earlyExit, tracer);
     }
 
     // AI decision for ambiguous cases
-    const aiKey = process.env.GEMINI_API_KEY;
-    if (!aiKey) {
-      return fallbackDecision(body, slippageRisk, mevRisk, timingRisk, profitMargin);
+    const provider = getRiskModelProvider();
+    if (!provider) {
+      return fallbackDecision(body, policy, riskAnalysis, tracer);
     }
 
-    try {
-      const genAI = new GoogleGenerativeAI(aiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-
-      const prompt = `${AGGREGATION_PROMPT}
+    const prompt = `${buildAggregationPrompt(thresholds)}
 
 SIMULATION RESULTS:
 - Spread: ${body.spreadPercent.toFixed(2)}%
@@ -163,162 +179,134 @@ RISK ANALYSIS:
 - Gas Risk (Timing): ${timingRisk}
 - Slippage Risk: ${slippageRisk}
 - MEV Risk: ${mevRisk}
+- Price Manipulation (spot vs TWAP): ${manipulationRisk ?? 'unknown'}
 - Profit Margin: ${profitMargin}
 
 CONTEXT:
 - Trade Size: $${body.tradeSizeUsd.toFixed(2)}
-- Pool Liquidity: $${body.liquidityUsd.toFixed(0)}
+- Pool Liquidity: ${body.liquidityUsd !== undefined ? `$${body.liquidityUsd.toFixed(0)}` : 'unknown'}
 
 DECISION FRAMEWORK:
 1. If ANY risk is HIGH → likely SKIP
 2. If TWO+ risks are MEDIUM → consider SKIP
-3. If profit margin < 3x gas cost → SKIP
+3. If profit margin < ${thresholds.minProfitGasRatio}x gas cost → SKIP
 4. Only EXECUTE if confident risks are manageable
 
 Make your judgment:`;
 
-      const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
+    tracer.model = { provider: provider.name, model: provider.model, promptHash: hashText(prompt) };
+
+    try {
+      const { value: parsed, raw } = await tracer.stage('model', () =>
+        generateStructuredWithRaw<Pick<Decision, 'decision' | 'reason' | 'confidence'>>(provider, {
+          task: 'decision',
+          prompt,
           temperature: 0.1,
           maxOutputTokens: 200,
-        },
-      });
-
-      const response = result.response.text();
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return NextResponse.json({
-          success: true,
-          timestamp: Date.now(),
-          decision: {
-            decision: parsed.decision || 'SKIP',
-            reason: parsed.reason || 'AI decision completed',
-            confidence: Math.min(1, Math.max(0, parsed.confidence || 0.5)),
-            riskAnalysis: { gasRisk: timingRisk, slippageRisk, mevRisk, profitMargin },
-          },
-        });
-      }
+        }, DECIDE_SCHEMA)
+      );
+      tracer.model.responseHash = hashText(raw);
 
-      return fallbackDecision(body, slippageRisk, mevRisk, timingRisk, profitMargin);
+      return respond(body, policy, 'model', { ...parsed, riskAnalysis }, tracer);
     } catch (aiError) {
       console.error('AI decision error:', aiError);
-      return fallbackDecision(body, slippageRisk, mevRisk, timingRisk, profitMargin);
+      tracer.model.error = aiError instanceof Error ? aiError.message : 'Unknown error';
+      if (aiError instanceof StructuredOutputError) {
+        tracer.model.responseHash = hashText(aiError.raw);
+        tracer.model.validationErrors = aiError.errors;
+      }
+      return fallbackDecision(body, policy, riskAnalysis, tracer);
     }
 
   } catch (error) {
     console.error('Decision endpoint error:', error);
-    
-    return NextResponse.json({
-      success: false,
-      timestamp: Date.now(),
-      decision: {
-        decision: 'SKIP',
-        reason: 'Error processing decision request',
-        confidence: 0,
-        riskAnalysis: {
-          gasRisk: 'high',
-          slippageRisk: 'high',
-          mevRisk: 'high',
-          profitMargin: 'thin',
-        },
-      },
-      error: error instanceof Error ? error.message : 'Unknown error',
-    }, { status: 500 });
+    return rejectRequest(
+      'Error processing decision request',
+      error instanceof Error ? error.message : 'Unknown error',
+      500
+    );
   }
 }
 
 // ============ Helper Functions ============
 
-function inferSlippageRisk(data: DecideRequest): 'low' | 'medium' | 'high' {
-  const slippagePercent = data.netProfitUsd > 0 ? (data.slippageUsd / data.netProfitUsd) * 100 : 100;
-  if (slippagePercent > 50) return 'high';
-  if (slippagePercent > 25) return 'medium';
-  return 'low';
-}
+/**
+ * Journal the decision (with the path and trace that produced it) and build the response
+ */
+async function respond(
+  data: DecideRequest,
+  policy: RiskPolicy,
+  path: DecisionPath,
+  decision: Decision,
+  tracer: DecisionTracer
+): Promise<NextResponse<DecideResponse>> {
+  const trace = tracer.finish();
+  const validationErrors = trace.model?.validationErrors;
+
+  await recordJournalEntry({
+    kind: 'decide',
+    opportunityId: data.opportunityId,
+    chains: [data.buyChain, data.sellChain].filter((c): c is 'base' | 'arbitrum' => !!c),
+    decision: decision.decision,
+    decisionPath: path,
+    netProfitUsd: data.netProfitUsd,
+    data: {
+      request: data,
+      decision,
+      policy,
+      trace,
+    },
+  });
 
-function inferMEVRisk(data: DecideRequest): 'low' | 'medium' | 'high' {
-  if (data.slippageUsd > 2 && data.tradeSizeUsd > 50) return 'high';
-  if (data.slippageUsd > 1) return 'medium';
-  return 'low';
+  return NextResponse.json({
+    success: true,
+    timestamp: Date.now(),
+    decision: { ...decision, source: path },
+    ...(validationErrors && { validationErrors }),
+    policy: { name: policy.name, baseProfile: policy.baseProfile, version: policy.version },
+    trace,
+  });
 }
 
-function inferTimingRisk(data: DecideRequest): 'low' | 'medium' | 'high' {
-  const gasPercent = data.netProfitUsd > 0 ? (data.gasCostUsd / data.netProfitUsd) * 100 : 100;
-  if (gasPercent > 50) return 'high';
-  if (gasPercent > 30) return 'medium';
-  return 'low';
+async function fallbackDecision(
+  data: DecideRequest,
+  policy: RiskPolicy,
+  riskAnalysis: RiskAnalysis,
+  tracer: DecisionTracer
+): Promise<NextResponse<DecideResponse>> {
+  const decision = await tracer.stage('fallback', () =>
+    fallbackRuleDecision(data, riskAnalysis, policy.thresholds, tracer.rules)
+  );
+  return respond(data, policy, 'fallback', decision, tracer);
 }
 
-function calculateProfitMargin(data: DecideRequest): 'safe' | 'acceptable' | 'thin' {
-  const profitGasRatio = data.gasCostUsd > 0 ? data.netProfitUsd / data.gasCostUsd : 0;
-  if (profitGasRatio >= 5) return 'safe';
-  if (profitGasRatio >= 3) return 'acceptable';
-  return 'thin';
+/**
+ * Manipulation risk as a RiskLevel; unknown or unrecognized values count as not provided
+ */
+function parseManipulationRisk(value: string | undefined): RiskLevel | undefined {
+  const level = value?.toLowerCase();
+  return level === 'low' || level === 'medium' || level === 'high' ? level : undefined;
 }
 
-function fallbackDecision(
-  data: DecideRequest,
-  slippageRisk: 'low' | 'medium' | 'high',
-  mevRisk: 'low' | 'medium' | 'high',
-  timingRisk: 'low' | 'medium' | 'high',
-  profitMargin: 'safe' | 'acceptable' | 'thin'
-): NextResponse<DecideResponse> {
-  // Rule-based fallback
-  const risks = [slippageRisk, mevRisk, timingRisk];
-  const hasHighRisk = risks.includes('high');
-  const mediumRiskCount = risks.filter(r => r === 'medium').length;
-  
-  if (hasHighRisk || mediumRiskCount >= 2) {
-    return NextResponse.json({
-      success: true,
-      timestamp: Date.now(),
-      decision: {
-        decision: 'SKIP',
-        reason: 'Overall risk assessment is HIGH - execution unsafe',
-        confidence: 0.85,
-        riskAnalysis: { gasRisk: timingRisk, slippageRisk, mevRisk, profitMargin },
-      },
-    });
-  }
-
-  if (profitMargin === 'thin') {
-    return NextResponse.json({
-      success: true,
-      timestamp: Date.now(),
-      decision: {
-        decision: 'SKIP',
-        reason: 'Profit margin too thin relative to gas cost',
-        confidence: 0.8,
-        riskAnalysis: { gasRisk: timingRisk, slippageRisk, mevRisk, profitMargin },
-      },
-    });
-  }
-
-  const allLowRisk = risks.every(r => r === 'low');
-  if (data.netProfitUsd >= 5 && allLowRisk && profitMargin === 'safe') {
-    return NextResponse.json({
-      success: true,
-      timestamp: Date.now(),
-      decision: {
-        decision: 'EXECUTE',
-        reason: `Net profit $${data.netProfitUsd.toFixed(2)} with low overall risk`,
-        confidence: 0.75,
-        riskAnalysis: { gasRisk: timingRisk, slippageRisk, mevRisk, profitMargin },
-      },
-    });
-  }
-
+/**
+ * SKIP with maximal risk for requests that could not be evaluated
+ */
+function rejectRequest(reason: string, error: string, status: number): NextResponse<DecideResponse> {
   return NextResponse.json({
-    success: true,
+    success: false,
     timestamp: Date.now(),
     decision: {
       decision: 'SKIP',
-      reason: 'Risk-reward ratio not favorable for execution',
-      confidence: 0.7,
-      riskAnalysis: { gasRisk: timingRisk, slippageRisk, mevRisk, profitMargin },
+      reason,
+      confidence: 0,
+      riskAnalysis: {
+        gasRisk: 'high',
+        slippageRisk: 'high',
+        mevRisk: 'high',
+        profitMargin: 'thin',
+      },
+      source: 'fallback',
     },
-  });
+    error,
+  }, { status });
 }
@@ -3,16 +3,67 @@
  * 
  * Detects arbitrage opportunities by comparing prices across pools/chains
  * Returns actionable opportunities with spread calculations
+ *
+ * Every opportunity carries a manipulationRisk from comparing each pool's
+ * spot price with its short TWAP (lib/dex/twap.ts). Pass it on to
+ * /api/decide, which skips HIGH-risk spreads.
+ * 
+ * Chains and pools come from lib/chains/registry.ts; `network` defaults to
+ * the active environment (ARB_ENVIRONMENT).
+ * 
+ * Modes:
+ * - default: WETH/USDC on the registered Base/Arbitrum pools
+ * - ?mode=scan: every registered pair, every fee tier, both chains
+ *   (optional &network=testnet|mainnet|fork&pairs=WETH/USDC,cbETH/WETH)
+ * - ?mode=fee-tier: every fee-tier pool of one WETH pair on one chain, with
+ *   net profit and executeArbitrageFlexible params per tier combination; gas
+ *   includes the chain's L1 data fee for the call (returned as l1DataFee)
+ *   and is priced from recent fee history (returned as feeMarket); price
+ *   impact walks each pool's initialized ticks (profit.slippageSource says
+ *   whether a swap moved past the ones read)
+ *   (optional &network=&chain=base|arbitrum&pair=WETH/USDC&amount=0.01&slippageBps=50)
+ * - ?mode=inventory: WETH/USDC across Base/Arbitrum traded from the held
+ *   inventory (lib/inventory): buy on the cheaper chain and sell on the other
+ *   at the same time, sized to the balances, with no bridge in the trade;
+ *   see /api/inventory for balances and rebalancing
+ *   (optional &network=&amount=<ETH, default the full headroom>)
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { ethers } from 'ethers';
-import { getEthUsdcPrice, classifyLiquidity } from '@/lib/dex/uniswap';
+import { getEthUsdcPrice, getInitializedTicks, classifyLiquidity } from '@/lib/dex/uniswap';
+import { TICK_SPACING_BY_FEE } from '@/lib/dex/swap-simulator';
 import { calculateSpread, isActionableSpread } from '@/lib/math/profit';
+import { getScanPairs, parsePairId, PairConfig, ScanChain, ScanNetwork } from '@/lib/dex/pairs';
+import { discoverPools, scanPairs, serializePool, ScanError } from '@/lib/dex/scanner';
+import {
+  findFeeTierOpportunities,
+  serializeFeeTierOpportunity,
+  DEFAULT_SLIPPAGE_TOLERANCE_BPS,
+  PoolTicks,
+} from '@/lib/dex/fee-tier-arb';
+import { recordJournalEntry, newOpportunityId } from '@/lib/journal/journal';
+import { getManagedProvider } from '@/lib/rpc/provider-manager';
+import { chainFor, getEnvironment, isEnvironment } from '@/lib/chains/registry';
+import { estimateL1DataFee, executionFeeTx, serializeL1DataFee } from '@/lib/gas/l1-fee';
+import { sampleFeeMarket, serializeFeeMarket } from '@/lib/gas/fee-market';
+import { getReferenceEthPrice } from '@/lib/prices/reference-price';
+import { loadInventory } from '@/lib/inventory/inventory';
+import { evaluateInventoryArb, InventoryArbEvaluation } from '@/lib/inventory/inventory-arb';
+import {
+  assessTwap,
+  combineManipulationRisks,
+  getTwapConfig,
+  tickToPrice,
+  ManipulationRisk,
+  TwapAssessment,
+  TwapConfig,
+} from '@/lib/dex/twap';
 
 export interface OpportunityResponse {
   success: boolean;
   timestamp: number;
+  opportunityId?: string;
   opportunity: {
     found: boolean;
     spreadPct: number;
@@ -23,27 +74,388 @@ export interface OpportunityResponse {
     liquidityBuy: 'low' | 'medium' | 'high';
     liquiditySell: 'low' | 'medium' | 'high';
     actionable: boolean;
+    twapSpreadPct: number | null;
+    manipulationRisk: ManipulationRisk;
+    twap: Record<'base' | 'arbitrum', TwapAssessment>;
   };
   error?: string;
 }
 
+export interface ScanResponse {
+  success: boolean;
+  timestamp: number;
+  mode: 'scan';
+  network: ScanNetwork;
+  pools: ReturnType<typeof serializePool>[];
+  opportunities: Array<{
+    pair: string;
+    kind: 'cross-pool' | 'cross-chain';
+    spreadPct: number;
+    twapSpreadPct: number | null;
+    manipulationRisk: ManipulationRisk;
+    actionable: boolean;
+    buy: ReturnType<typeof serializePool>;
+    sell: ReturnType<typeof serializePool>;
+  }>;
+  errors: Array<{ pair: string; chain: string; message: string }>;
+  error?: string;
+}
+
+export interface FeeTierResponse {
+  success: boolean;
+  timestamp: number;
+  mode: 'fee-tier';
+  network: ScanNetwork;
+  chain: ScanChain;
+  pair: string;
+  amountEth: string;
+  gasPrice: string;
+  l1DataFee: ReturnType<typeof serializeL1DataFee> | null;
+  feeMarket: ReturnType<typeof serializeFeeMarket> | null;
+  pools: ReturnType<typeof serializePool>[];
+  opportunities: ReturnType<typeof serializeFeeTierOpportunity>[];
+  error?: string;
+}
+
+export interface InventoryDetectResponse {
+  success: boolean;
+  timestamp: number;
+  mode: 'inventory';
+  network: ScanNetwork;
+  opportunityId?: string;
+  spreadPct: number;
+  buyChain: 'base' | 'arbitrum';
+  sellChain: 'base' | 'arbitrum';
+  buyPrice: number;
+  sellPrice: number;
+  manipulationRisk: ManipulationRisk;
+  ethPriceUsd: number;
+  evaluation: InventoryArbEvaluation | null;
+  error?: string;
+}
+
 // Minimum spread to consider (0.1%)
 const MIN_SPREAD_PCT = 0.1;
 
-export async function GET(): Promise<NextResponse<OpportunityResponse>> {
+function parseNetwork(value: string | null): ScanNetwork {
+  return value && isEnvironment(value) ? value : getEnvironment();
+}
+
+/**
+ * Spot vs TWAP for a getEthUsdcPrice() result read with a TWAP window
+ */
+function assessPoolTwap(data: Awaited<ReturnType<typeof getEthUsdcPrice>>, config: TwapConfig): TwapAssessment {
+  const tick = data.twap?.twapTick ?? null;
+  const twapPrice = tick !== null
+    ? tickToPrice(tick, data.wethIsToken0 ? 18 : 6, data.wethIsToken0 ? 6 : 18, data.wethIsToken0)
+    : null;
+  return assessTwap(data.price, twapPrice, config.windowSec, config);
+}
+
+/**
+ * Scan all registered pairs across fee tiers and chains
+ */
+async function handleScan(request: NextRequest): Promise<NextResponse<ScanResponse>> {
+  const { searchParams } = new URL(request.url);
+  const network = parseNetwork(searchParams.get('network'));
+  const pairsParam = searchParams.get('pairs');
+
+  try {
+    const pairs = getScanPairs(pairsParam ? pairsParam.split(',') : undefined);
+    const result = await scanPairs(network, {
+      base: getManagedProvider(chainFor('base', network)),
+      arbitrum: getManagedProvider(chainFor('arbitrum', network)),
+    }, pairs, MIN_SPREAD_PCT);
+
+    const opportunities = result.opportunities.map(o => ({
+      pair: o.pair,
+      kind: o.kind,
+      spreadPct: o.spreadPct,
+      twapSpreadPct: o.twapSpreadPct,
+      manipulationRisk: o.manipulationRisk,
+      actionable: o.actionable,
+      buy: serializePool(o.buy),
+      sell: serializePool(o.sell),
+    }));
+
+    await recordJournalEntry({
+      kind: 'detect',
+      chains: Array.from(new Set(result.pools.map(p => p.chain))),
+      data: {
+        mode: 'scan',
+        network,
+        poolCount: result.pools.length,
+        opportunities: opportunities.filter(o => o.actionable),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      timestamp: Date.now(),
+      mode: 'scan',
+      network,
+      pools: result.pools.map(serializePool),
+      opportunities,
+      errors: result.errors,
+    });
+
+  } catch (error) {
+    console.error('Scan error:', error);
+
+    return NextResponse.json({
+      success: false,
+      timestamp: Date.now(),
+      mode: 'scan',
+      network,
+      pools: [],
+      opportunities: [],
+      errors: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Compare all fee-tier pools of one pair on a single chain
+ */
+async function handleFeeTier(request: NextRequest): Promise<NextResponse<FeeTierResponse>> {
+  const { searchParams } = new URL(request.url);
+  const network = parseNetwork(searchParams.get('network'));
+  const chain: ScanChain = searchParams.get('chain') === 'arbitrum' ? 'arbitrum' : 'base';
+  const pairId = searchParams.get('pair') || 'WETH/USDC';
+  const amountEth = searchParams.get('amount') || '0.01';
+  const slippageBps = parseInt(searchParams.get('slippageBps') || String(DEFAULT_SLIPPAGE_TOLERANCE_BPS), 10);
+
+  const empty: FeeTierResponse = {
+    success: false,
+    timestamp: Date.now(),
+    mode: 'fee-tier',
+    network,
+    chain,
+    pair: pairId,
+    amountEth,
+    gasPrice: '0',
+    l1DataFee: null,
+    feeMarket: null,
+    pools: [],
+    opportunities: [],
+  };
+
+  let pair: PairConfig;
+  let amountInWei: bigint;
+  try {
+    pair = parsePairId(pairId);
+    amountInWei = ethers.parseEther(amountEth);
+  } catch (error) {
+    return NextResponse.json({
+      ...empty,
+      error: error instanceof Error ? error.message : 'Invalid parameters',
+    }, { status: 400 });
+  }
+
+  if (pair.base !== 'WETH' || amountInWei <= BigInt(0) || isNaN(slippageBps) || slippageBps < 0 || slippageBps >= 10_000) {
+    return NextResponse.json({
+      ...empty,
+      error: 'Invalid parameters: pair must be WETH/<quote>, amount > 0 and 0 <= slippageBps < 10000',
+    }, { status: 400 });
+  }
+
+  try {
+    const chainName = chainFor(chain, network);
+    const provider = getManagedProvider(chainName);
+
+    const poolErrors: ScanError[] = [];
+    const [pools, feeMarket, l1DataFee] = await Promise.all([
+      discoverPools(provider, network, chain, pair, undefined, poolErrors),
+      sampleFeeMarket(provider, chainName).catch(error => {
+        console.error(`Fee history unavailable on ${chainName}, using a point reading:`, error);
+        return null;
+      }),
+      estimateL1DataFee(provider, chainName, executionFeeTx(chainName, amountInWei)).catch(error => {
+        console.error(`L1 data fee lookup failed on ${chainName}, costing without it:`, error);
+        return null;
+      }),
+    ]);
+    const gasPrice = feeMarket?.gasPrice ?? (await provider.getFeeData()).gasPrice ?? ethers.parseUnits('1', 'gwei');
+    poolErrors.forEach(e => console.error(`Pool read failed on ${chainName} (fee ${e.fee ?? '?'}), skipping it:`, e.message));
+
+    // Ticks at each pool's read block; a pool whose ticks fail is simulated at constant liquidity
+    const poolTicks = new Map<string, PoolTicks>();
+    await Promise.all(pools.map(pool =>
+      getInitializedTicks(provider, pool.address, pool.tick, TICK_SPACING_BY_FEE[pool.fee] ?? 60, pool.blockNumber)
+        .then(ticks => { poolTicks.set(pool.address, ticks); })
+        .catch(error => console.error(`Tick read failed for ${pool.address}, assuming constant liquidity:`, error))
+    ));
+    const expectedGasPrice = typeof gasPrice === 'bigint' ? gasPrice : gasPrice.expectedWei;
+
+    const opportunities = findFeeTierOpportunities(
+      pools,
+      amountInWei,
+      gasPrice,
+      MIN_SPREAD_PCT,
+      slippageBps,
+      l1DataFee?.feeWei,
+      poolTicks
+    ).map(serializeFeeTierOpportunity);
+
+    await recordJournalEntry({
+      kind: 'detect',
+      chains: [chain],
+      netProfitUsd: opportunities[0]?.profit.netProfitUsd,
+      data: {
+        mode: 'fee-tier',
+        network,
+        pair: pair.id,
+        amountEth,
+        opportunities: opportunities.filter(o => o.actionable),
+      },
+    });
+
+    return NextResponse.json({
+      ...empty,
+      success: true,
+      pair: pair.id,
+      gasPrice: expectedGasPrice.toString(),
+      l1DataFee: l1DataFee && serializeL1DataFee(l1DataFee),
+      feeMarket: feeMarket && serializeFeeMarket(feeMarket),
+      pools: pools.map(serializePool),
+      opportunities,
+    });
+
+  } catch (error) {
+    console.error('Fee-tier detection error:', error);
+
+    return NextResponse.json({
+      ...empty,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Evaluate a simultaneous buy/sell across Base and Arbitrum from inventory
+ */
+async function handleInventory(request: NextRequest): Promise<NextResponse<InventoryDetectResponse>> {
+  const { searchParams } = new URL(request.url);
+  const network = parseNetwork(searchParams.get('network'));
+  const amountParam = searchParams.get('amount');
+  const amountEth = amountParam !== null ? parseFloat(amountParam) : undefined;
+
+  const empty: InventoryDetectResponse = {
+    success: false,
+    timestamp: Date.now(),
+    mode: 'inventory',
+    network,
+    spreadPct: 0,
+    buyChain: 'base',
+    sellChain: 'arbitrum',
+    buyPrice: 0,
+    sellPrice: 0,
+    manipulationRisk: 'unknown',
+    ethPriceUsd: 0,
+    evaluation: null,
+  };
+
+  if (amountEth !== undefined && (isNaN(amountEth) || amountEth <= 0)) {
+    return NextResponse.json({
+      ...empty,
+      error: 'Invalid amount: must be a positive number of ETH',
+    }, { status: 400 });
+  }
+
+  try {
+    const baseChain = chainFor('base', network);
+    const arbitrumChain = chainFor('arbitrum', network);
+    const twapConfig = getTwapConfig();
+    const [baseData, arbitrumData, inventory, referencePrice] = await Promise.all([
+      getEthUsdcPrice(getManagedProvider(baseChain), baseChain, undefined, twapConfig.windowSec),
+      getEthUsdcPrice(getManagedProvider(arbitrumChain), arbitrumChain, undefined, twapConfig.windowSec),
+      loadInventory(),
+      getReferenceEthPrice(),
+    ]);
+
+    const buyOnBase = baseData.price < arbitrumData.price;
+    const buy = buyOnBase ? baseData : arbitrumData;
+    const sell = buyOnBase ? arbitrumData : baseData;
+    const buyChain = buyOnBase ? 'base' : 'arbitrum';
+    const sellChain = buyOnBase ? 'arbitrum' : 'base';
+    const manipulationRisk = combineManipulationRisks([
+      assessPoolTwap(baseData, twapConfig).risk,
+      assessPoolTwap(arbitrumData, twapConfig).risk,
+    ]);
+
+    const evaluation = await evaluateInventoryArb({
+      inventory,
+      network,
+      buyChain,
+      sellChain,
+      buyPrice: buy.price,
+      buyFee: buy.fee,
+      sellFee: sell.fee,
+      ethPriceUsd: referencePrice.priceUsd,
+      amountEth,
+      manipulationRisk,
+    });
+
+    const opportunityId = newOpportunityId();
+    await recordJournalEntry({
+      kind: 'detect',
+      opportunityId,
+      chains: [buyChain, sellChain],
+      netProfitUsd: evaluation.trade ? evaluation.netProfitUsd : undefined,
+      data: { mode: 'inventory', network, manipulationRisk, evaluation },
+    });
+
+    return NextResponse.json({
+      ...empty,
+      success: true,
+      opportunityId,
+      spreadPct: calculateSpread(baseData.price, arbitrumData.price),
+      buyChain,
+      sellChain,
+      buyPrice: buy.price,
+      sellPrice: sell.price,
+      manipulationRisk,
+      ethPriceUsd: referencePrice.priceUsd,
+      evaluation,
+    });
+
+  } catch (error) {
+    console.error('Inventory detection error:', error);
+
+    return NextResponse.json({
+      ...empty,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<OpportunityResponse | ScanResponse | FeeTierResponse | InventoryDetectResponse>> {
+  const mode = new URL(request.url).searchParams.get('mode');
+  if (mode === 'scan') {
+    return handleScan(request);
+  }
+  if (mode === 'fee-tier') {
+    return handleFeeTier(request);
+  }
+  if (mode === 'inventory') {
+    return handleInventory(request);
+  }
+
   try {
     // Create providers
-    const baseProvider = new ethers.JsonRpcProvider(
-      process.env.BASE_SEPOLIA_RPC_URL || 'https://sepolia.base.org'
-    );
-    const arbitrumProvider = new ethers.JsonRpcProvider(
-      process.env.ARBITRUM_SEPOLIA_RPC_URL || 'https://sepolia-rollup.arbitrum.io/rpc'
-    );
+    const baseChain = chainFor('base');
+    const arbitrumChain = chainFor('arbitrum');
+    const baseProvider = getManagedProvider(baseChain);
+    const arbitrumProvider = getManagedProvider(arbitrumChain);
     
-    // Fetch prices
+    // Fetch prices (with each pool's TWAP, in the same read)
+    const twapConfig = getTwapConfig();
     const [baseData, arbitrumData] = await Promise.all([
-      getEthUsdcPrice(baseProvider, 'base'),
-      getEthUsdcPrice(arbitrumProvider, 'arbitrum'),
+      getEthUsdcPrice(baseProvider, baseChain, undefined, twapConfig.windowSec),
+      getEthUsdcPrice(arbitrumProvider, arbitrumChain, undefined, twapConfig.windowSec),
     ]);
     
     const basePrice = baseData.price;
@@ -52,26 +464,50 @@ export async function GET(): Promise<NextResponse<OpportunityResponse>> {
     // Calculate spread
     const spreadPct = calculateSpread(basePrice, arbitrumPrice);
     const actionable = isActionableSpread(spreadPct, MIN_SPREAD_PCT);
+
+    // Manipulation guard: a spread that only exists at spot is suspect
+    const twap = {
+      base: assessPoolTwap(baseData, twapConfig),
+      arbitrum: assessPoolTwap(arbitrumData, twapConfig),
+    };
+    const twapSpreadPct = twap.base.twapPrice !== null && twap.arbitrum.twapPrice !== null
+      ? calculateSpread(twap.base.twapPrice, twap.arbitrum.twapPrice)
+      : null;
     
     // Determine buy/sell direction
     // Buy where price is LOWER (cheaper ETH)
     // Sell where price is HIGHER (more USDC per ETH)
     const buyOnBase = basePrice < arbitrumPrice;
-    
+
+    const opportunity: OpportunityResponse['opportunity'] = {
+      found: actionable,
+      spreadPct,
+      buyChain: buyOnBase ? 'base' : 'arbitrum',
+      sellChain: buyOnBase ? 'arbitrum' : 'base',
+      buyPrice: buyOnBase ? basePrice : arbitrumPrice,
+      sellPrice: buyOnBase ? arbitrumPrice : basePrice,
+      liquidityBuy: classifyLiquidity(buyOnBase ? baseData.liquidity : arbitrumData.liquidity),
+      liquiditySell: classifyLiquidity(buyOnBase ? arbitrumData.liquidity : baseData.liquidity),
+      actionable,
+      twapSpreadPct,
+      manipulationRisk: combineManipulationRisks([twap.base.risk, twap.arbitrum.risk]),
+      twap,
+    };
+
+    // Pass opportunityId on to /api/estimate and /api/decide to link journal entries
+    const opportunityId = newOpportunityId();
+    await recordJournalEntry({
+      kind: 'detect',
+      opportunityId,
+      chains: [opportunity.buyChain, opportunity.sellChain],
+      data: { mode: 'default', opportunity },
+    });
+
     return NextResponse.json({
       success: true,
       timestamp: Date.now(),
-      opportunity: {
-        found: actionable,
-        spreadPct,
-        buyChain: buyOnBase ? 'base' : 'arbitrum',
-        sellChain: buyOnBase ? 'arbitrum' : 'base',
-        buyPrice: buyOnBase ? basePrice : arbitrumPrice,
-        sellPrice: buyOnBase ? arbitrumPrice : basePrice,
-        liquidityBuy: classifyLiquidity(buyOnBase ? baseData.liquidity : arbitrumData.liquidity),
-        liquiditySell: classifyLiquidity(buyOnBase ? arbitrumData.liquidity : baseData.liquidity),
-        actionable,
-      },
+      opportunityId,
+      opportunity,
     });
     
   } catch (error) {
@@ -90,6 +526,12 @@ export async function GET(): Promise<NextResponse<OpportunityResponse>> {
         liquidityBuy: 'low',
         liquiditySell: 'low',
         actionable: false,
+        twapSpreadPct: null,
+        manipulationRisk: 'unknown',
+        twap: {
+          base: { windowSec: 0, twapPrice: null, deviationPct: null, risk: 'unknown' },
+          arbitrum: { windowSec: 0, twapPrice: null, deviationPct: null, risk: 'unknown' },
+        },
       },
       error: error instanceof Error ? error.message : 'Unknown error',
     }, { status: 500 });
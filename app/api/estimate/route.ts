@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getBridgingFees } from '../../../functions/bridging_fees.js';
+import { ethers } from 'ethers';
 import { getCompleteFlowGasFees } from '../../../functions/gas_fees.js';
 import { getMevFees } from '../../../functions/mev_fees.js';
-import { bridgeSlippage, ammSlippageETHtoUSDC } from '../../../functions/slippage_fees.js';
+import { ammSlippageETHtoUSDC } from '../../../functions/slippage_fees.js';
+import { recordJournalEntry, newOpportunityId } from '@/lib/journal/journal';
+import { getReferenceEthPrice } from '@/lib/prices/reference-price';
+import { compareBridges, serializeBridgeComparison } from '@/lib/bridges/compare';
+import { formatLatency } from '@/lib/bridges/bridge-provider';
 
 /**
  * POST /api/estimate
@@ -10,15 +14,28 @@ import { bridgeSlippage, ammSlippageETHtoUSDC } from '../../../functions/slippag
  * 
  * Request body:
  * {
- *   "amount": "0.01" // ETH amount as string
+ *   "amount": "0.01", // ETH amount as string
+ *   "opportunityId": "..." // Optional, from /api/detect (journal linkage)
  * }
  * 
- * Response: Complete simulation data structured for the dashboard UI
+ * Response: Complete simulation data structured for the dashboard UI.
+ * All USD costs use one reference ETH price (lib/prices/reference-price.ts),
+ * returned as `referencePrice`.
+ *
+ * Gas is reported per component (`gasComponents`): the Ethereum deposit,
+ * L2 execution, and the rollup L1 data fee (lib/gas/l1-fee.ts).
+ *
+ * The Base → Arbitrum transfer is quoted on every enabled bridge
+ * (lib/bridges/compare.ts); the lowest risk-adjusted cost within the
+ * latency limit is costed, the others are returned under
+ * `bridges.alternatives` and the too-slow ones under `bridges.excluded`. Its fee covers everything lost in
+ * transit, so there is no separate bridge slippage.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { amount } = body;
+    const opportunityId: string = body.opportunityId || newOpportunityId();
 
     // Validate input
     if (!amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
@@ -30,69 +47,70 @@ export async function POST(request: NextRequest) {
 
     const amountFloat = parseFloat(amount);
 
+    // One ETH/USD price for every cost conversion below
+    const referencePrice = await getReferenceEthPrice();
+
     // Fetch all fee calculations in parallel for better performance
     const [
-      bridgingFeesData,
+      bridges,
       gasFees,
       mevFees,
-      bridgeSlippageData,
       ammSlippageData
     ] = await Promise.all([
-      getBridgingFees(amount),
-      getCompleteFlowGasFees(amount, 3000),
-      getMevFees(amount),
-      bridgeSlippage(amount),
+      compareBridges({ from: 'base', to: 'arbitrum', amountInWei: ethers.parseEther(String(amount)) }, referencePrice),
+      getCompleteFlowGasFees(amount, 3000, referencePrice),
+      getMevFees(amount, referencePrice),
       ammSlippageETHtoUSDC(amount, 3000)
-    ]) as [any, any, any, any, any];
+    ]) as [Awaited<ReturnType<typeof compareBridges>>, any, any, any];
+    const bridge = bridges.selected;
+    const toUsd = (wei: bigint) => (Number(wei) / 1e18) * referencePrice.priceUsd;
 
     // Debug logging
     console.log('=== Slippage Debug ===');
-    console.log('Bridge Slippage Data:', JSON.stringify(bridgeSlippageData, null, 2));
     console.log('AMM Slippage Data:', JSON.stringify(ammSlippageData, null, 2));
     console.log('=====================');
 
-    // Mock prices for demonstration (in production, fetch from price oracle)
-    const ethPriceUsd = 3500;
+    // Mock spread for demonstration, centred on the reference price
+    const ethPriceUsd = referencePrice.priceUsd;
     const buyPrice = ethPriceUsd * 0.998; // Slightly lower buy price
     const sellPrice = ethPriceUsd * 1.002; // Slightly higher sell price
     const spreadPercent = ((sellPrice - buyPrice) / buyPrice * 100);
 
     // Calculate total costs
     const gasCostUsd = parseFloat(gasFees.totalGasCostUsd);
+    const gasComponents = {
+      l1TransactionUsd: parseFloat(gasFees.components.l1TransactionUsd),
+      l2ExecutionUsd: parseFloat(gasFees.components.l2ExecutionUsd),
+      l1DataUsd: parseFloat(gasFees.components.l1DataUsd),
+    };
+    const bridgeGasComponents = {
+      executionUsd: toUsd(bridge.gasFeeWei - bridge.l1DataFeeWei),
+      l1DataUsd: toUsd(bridge.l1DataFeeWei),
+    };
     
     // Calculate slippage as percentage
     // Note: slippage functions return formatted strings like "0.350%", so we need to remove the % sign
-    const bridgeSlippagePercent = parseFloat(
-      typeof bridgeSlippageData.totalSlippagePercentage === 'string' 
-        ? bridgeSlippageData.totalSlippagePercentage.replace('%', '')
-        : bridgeSlippageData.totalSlippagePercentage || '0'
-    );
-    
     const ammSlippagePercent = parseFloat(
       typeof ammSlippageData.slippagePercentage === 'string'
         ? ammSlippageData.slippagePercentage.replace('%', '')
         : ammSlippageData.slippagePercentage || '0'
     );
     
-    const totalSlippagePercent = bridgeSlippagePercent + ammSlippagePercent;
+    const totalSlippagePercent = ammSlippagePercent;
     
     // Calculate slippage in USD for net profit calculation
-    // Bridge slippage is already in USD from the service
-    const bridgeSlippageUsd = parseFloat(bridgeSlippageData.totalLossUsd || '0');
-    
     // AMM slippage: slippageAmount is in USDC (output token), so it's already in USD
     const ammSlippageUsd = parseFloat(ammSlippageData.slippageAmount || '0');
     
-    const slippageUsd = bridgeSlippageUsd + ammSlippageUsd;
+    const slippageUsd = ammSlippageUsd;
     
     console.log('Slippage USD Calculation:', {
-      bridgeSlippageUsd,
       ammSlippageUsd,
       totalSlippageUsd: slippageUsd
     });
     
     const feesUsd = parseFloat(mevFees.totalMevCostUsd);
-    const bridgingFeesUsd = parseFloat(bridgingFeesData.totalFeesUsd);
+    const bridgingFeesUsd = bridge.totalFeeUsd;
 
     // Calculate gross profit
     const grossProfitUsd = amountFloat * (sellPrice - buyPrice);
@@ -116,19 +134,22 @@ export async function POST(request: NextRequest) {
 
       // Cost breakdown
       gasCostUsd: gasCostUsd,
+      gasComponents,
       slippagePercent: totalSlippagePercent, // Slippage as percentage
       slippageUsd: slippageUsd, // Keep USD value for net profit calculation
       feesUsd: feesUsd, // DEX + MEV fees
       bridgingFeesUsd: bridgingFeesUsd,
       netProfitUsd: netProfitUsd,
 
-      // Bridging details
-      inputAmount: bridgingFeesData.inputAmount,
-      outputAmount: bridgingFeesData.outputAmount,
-      relayerFeePercentage: bridgingFeesData.relayerFee.percentage,
-      relayerFeeUsd: parseFloat(bridgingFeesData.relayerFee.amountUsd),
-      bridgeGasCostUsd: parseFloat(bridgingFeesData.gasCostUsd),
-      estimatedTime: bridgingFeesData.estimatedTime,
+      // Bridging details (selected bridge)
+      bridgeName: bridge.name,
+      inputAmount: ethers.formatEther(bridge.amountInWei),
+      outputAmount: ethers.formatEther(bridge.expectedOutputWei),
+      relayerFeePercentage: `${((Number(bridge.protocolFeeWei) / Number(bridge.amountInWei)) * 100).toFixed(2)}%`,
+      relayerFeeUsd: toUsd(bridge.protocolFeeWei),
+      bridgeGasCostUsd: toUsd(bridge.gasFeeWei),
+      estimatedTime: formatLatency(bridge.latencySec),
+      bridges: serializeBridgeComparison(bridges),
 
       // Additional metrics
       profitMarginPct: profitMarginPct,
@@ -139,19 +160,22 @@ export async function POST(request: NextRequest) {
         gas: {
           deposit: gasFees.steps.deposit,
           swap: gasFees.steps.swap,
+          components: gasComponents,
           total: gasFees.totalGasCostUsd
         },
         bridging: {
-          relayerFee: bridgingFeesData.relayerFee,
-          gasCost: bridgingFeesData.gasCostUsd,
-          total: bridgingFeesData.totalFeesUsd
+          bridge: bridge.bridge,
+          relayerFee: {
+            amountEth: ethers.formatEther(bridge.protocolFeeWei),
+            amountUsd: toUsd(bridge.protocolFeeWei).toFixed(2)
+          },
+          gasCost: toUsd(bridge.gasFeeWei).toFixed(2),
+          gasComponents: bridgeGasComponents,
+          latencySec: bridge.latencySec,
+          failureRisk: bridge.failureRisk,
+          total: bridgingFeesUsd.toFixed(2)
         },
         slippage: {
-          bridge: {
-            amount: bridgeSlippageData.totalLossEth,
-            usd: bridgeSlippageData.totalLossUsd,
-            percentage: bridgeSlippageData.totalSlippagePercentage
-          },
           amm: {
             amount: ammSlippageData.slippageAmount,
             percentage: ammSlippageData.slippagePercentage,
@@ -167,10 +191,35 @@ export async function POST(request: NextRequest) {
       },
 
       // Metadata
+      referencePrice,
+      opportunityId,
       timestamp: new Date().toISOString(),
       success: true
     };
 
+    await recordJournalEntry({
+      kind: 'estimate',
+      opportunityId,
+      chains: ['base', 'arbitrum'],
+      netProfitUsd,
+      data: {
+        amount,
+        buyPrice,
+        sellPrice,
+        spreadPercent,
+        gasCostUsd,
+        gasComponents,
+        bridgeGasComponents,
+        slippageUsd,
+        feesUsd,
+        bridgingFeesUsd,
+        bridge: bridge.bridge,
+        netProfitUsd,
+        ethPriceUsd,
+        ethPriceSource: referencePrice.source,
+      },
+    });
+
     return NextResponse.json(response);
 
   } catch (error) {
@@ -0,0 +1,153 @@
+/**
+ * /api/inventory
+ *
+ * Dual-chain inventory (lib/inventory) and its rebalancing plan.
+ * Pair with /api/detect?mode=inventory, which trades from these balances.
+ *
+ * GET                    balances, value and the rebalancing plan
+ *                        (?plan=0 skips the bridge quotes)
+ * POST { balances }      set the balances: { base: { eth, usdc }, arbitrum: { eth, usdc } }
+ * POST { trade }         record a trade: { buyChain, sellChain, usdcSpent, ethBought, ethSold, usdcReceived }
+ *                        (e.g. evaluation.trade from /api/detect?mode=inventory)
+ * POST { transfer }      record a rebalancing transfer: { asset: ETH|USDC, from, to, amount, received? }
+ *
+ * Every POST also carries { signature, issuedAt }: personal_sign by
+ * INVENTORY_OWNER_ADDRESS of inventoryUpdateMessage(update, issuedAt), where
+ * update is { kind: "balances" | "trade" | "transfer", <kind>: ... } as parsed
+ * (amounts as numbers, received defaulting to amount); issuedAt is a ms
+ * timestamp, valid for 5 minutes, once.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getReferenceEthPrice } from '@/lib/prices/reference-price';
+import {
+  inventoryValueUsd,
+  loadInventory,
+  parseBalances,
+  updateInventory,
+  Inventory,
+  InventoryAuthError,
+  InventoryTrade,
+  InventoryTransfer,
+  InventoryUpdate,
+  INVENTORY_CHAINS,
+} from '@/lib/inventory/inventory';
+import { planRebalance, serializeRebalancePlan } from '@/lib/inventory/rebalance';
+import { ArbChain } from '@/lib/chains/registry';
+
+export interface InventoryResponse {
+  success: boolean;
+  timestamp: number;
+  inventory?: Inventory;
+  valueUsd?: number;
+  plan?: ReturnType<typeof serializeRebalancePlan> | null;
+  error?: string;
+}
+
+function parseChain(value: unknown, field: string): ArbChain {
+  if (!INVENTORY_CHAINS.includes(value as ArbChain)) {
+    throw new Error(`${field} must be one of ${INVENTORY_CHAINS.join(', ')}`);
+  }
+  return value as ArbChain;
+}
+
+function parseAmount(value: unknown, field: string): number {
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) throw new Error(`${field} must be a non-negative number`);
+  return amount;
+}
+
+function parseTrade(input: Record<string, unknown>): InventoryTrade {
+  return {
+    buyChain: parseChain(input.buyChain, 'trade.buyChain'),
+    sellChain: parseChain(input.sellChain, 'trade.sellChain'),
+    usdcSpent: parseAmount(input.usdcSpent, 'trade.usdcSpent'),
+    ethBought: parseAmount(input.ethBought, 'trade.ethBought'),
+    ethSold: parseAmount(input.ethSold, 'trade.ethSold'),
+    usdcReceived: parseAmount(input.usdcReceived, 'trade.usdcReceived'),
+  };
+}
+
+function parseTransfer(input: Record<string, unknown>): InventoryTransfer {
+  if (input.asset !== 'ETH' && input.asset !== 'USDC') throw new Error('transfer.asset must be ETH or USDC');
+  const amount = parseAmount(input.amount, 'transfer.amount');
+  return {
+    asset: input.asset,
+    from: parseChain(input.from, 'transfer.from'),
+    to: parseChain(input.to, 'transfer.to'),
+    amount,
+    received: input.received === undefined ? amount : parseAmount(input.received, 'transfer.received'),
+  };
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<InventoryResponse>> {
+  try {
+    const withPlan = request.nextUrl.searchParams.get('plan') !== '0';
+    const [inventory, referencePrice] = await Promise.all([loadInventory(), getReferenceEthPrice()]);
+    const plan = withPlan ? await planRebalance(inventory, referencePrice) : null;
+
+    return NextResponse.json({
+      success: true,
+      timestamp: Date.now(),
+      inventory,
+      valueUsd: inventoryValueUsd(inventory, referencePrice.priceUsd),
+      plan: plan && serializeRebalancePlan(plan),
+    });
+
+  } catch (error) {
+    console.error('Inventory lookup error:', error);
+
+    return NextResponse.json({
+      success: false,
+      timestamp: Date.now(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<InventoryResponse>> {
+  try {
+    const body = await request.json();
+
+    let inventory: Inventory;
+    try {
+      let update: InventoryUpdate;
+      if (body.balances) {
+        update = { kind: 'balances', balances: parseBalances(body.balances) };
+      } else if (body.trade && typeof body.trade === 'object') {
+        update = { kind: 'trade', trade: parseTrade(body.trade) };
+      } else if (body.transfer && typeof body.transfer === 'object') {
+        update = { kind: 'transfer', transfer: parseTransfer(body.transfer) };
+      } else {
+        throw new Error('One of balances, trade or transfer is required');
+      }
+
+      inventory = await updateInventory(
+        update,
+        body.signature === undefined ? undefined : { signature: body.signature, issuedAt: Number(body.issuedAt) }
+      );
+    } catch (error) {
+      if (!(error instanceof Error) || (error as NodeJS.ErrnoException).code) throw error;
+      return NextResponse.json({
+        success: false,
+        timestamp: Date.now(),
+        error: error.message,
+      }, { status: error instanceof InventoryAuthError ? 401 : 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: Date.now(),
+      inventory,
+    });
+
+  } catch (error) {
+    console.error('Inventory update error:', error);
+
+    return NextResponse.json({
+      success: false,
+      timestamp: Date.now(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * /api/journal
+ *
+ * Query the opportunity & decision journal and record on-chain outcomes
+ *
+ * GET  ?from=&to=            ms timestamps or ISO dates
+ *      &kind=detect|estimate|decide|outcome|validation
+ *      &chain=base|arbitrum
+ *      &decision=EXECUTE|SKIP&path=early-exit|model|fallback
+ *      &minProfit=&maxProfit= net profit band (USD)
+ *      &opportunityId=&limit=
+ * POST { txHash, chain?, opportunityId? } resolve and record a tx outcome
+ *      (chain: registry name, default the active environment's Base chain)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import {
+  queryJournal,
+  summarizeJournal,
+  recordJournalEntry,
+  DecisionPath,
+  JournalEntry,
+  JournalKind,
+  JournalQuery,
+  JournalSummary,
+} from '@/lib/journal/journal';
+import { resolveExecutionOutcome, ExecutionOutcome } from '@/lib/journal/outcome';
+import { chainFor, isChainName, legOf } from '@/lib/chains/registry';
+
+export interface JournalResponse {
+  success: boolean;
+  timestamp: number;
+  query: JournalQuery;
+  summary: JournalSummary | null;
+  entries: JournalEntry[];
+  error?: string;
+}
+
+export interface OutcomeResponse {
+  success: boolean;
+  timestamp: number;
+  outcome: ExecutionOutcome | null;
+  entry: JournalEntry | null;
+  error?: string;
+}
+
+const KINDS: JournalKind[] = ['detect', 'estimate', 'decide', 'outcome', 'validation'];
+const PATHS: DecisionPath[] = ['early-exit', 'model', 'fallback'];
+
+/**
+ * Accept either a ms timestamp or anything Date can parse
+ */
+function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const asNumber = Number(value);
+  const time = Number.isFinite(asNumber) ? asNumber : Date.parse(value);
+  if (Number.isNaN(time)) throw new Error(`Invalid time: ${value}`);
+  return time;
+}
+
+function parseNumber(value: string | null, name: string): number | undefined {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new Error(`Invalid ${name}: ${value}`);
+  return parsed;
+}
+
+function parseQuery(searchParams: URLSearchParams): JournalQuery {
+  const kind = searchParams.get('kind');
+  const decision = searchParams.get('decision');
+  const decisionPath = searchParams.get('path');
+
+  if (kind && !KINDS.includes(kind as JournalKind)) {
+    throw new Error(`Invalid kind: ${kind}`);
+  }
+  if (decision && decision !== 'EXECUTE' && decision !== 'SKIP') {
+    throw new Error(`Invalid decision: ${decision}`);
+  }
+  if (decisionPath && !PATHS.includes(decisionPath as DecisionPath)) {
+    throw new Error(`Invalid path: ${decisionPath}`);
+  }
+
+  return {
+    from: parseTime(searchParams.get('from')),
+    to: parseTime(searchParams.get('to')),
+    kind: (kind as JournalKind) || undefined,
+    chain: searchParams.get('chain') || undefined,
+    decision: (decision as 'EXECUTE' | 'SKIP') || undefined,
+    decisionPath: (decisionPath as DecisionPath) || undefined,
+    minProfitUsd: parseNumber(searchParams.get('minProfit'), 'minProfit'),
+    maxProfitUsd: parseNumber(searchParams.get('maxProfit'), 'maxProfit'),
+    opportunityId: searchParams.get('opportunityId') || undefined,
+    limit: parseNumber(searchParams.get('limit'), 'limit'),
+  };
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<JournalResponse>> {
+  let query: JournalQuery;
+  try {
+    query = parseQuery(new URL(request.url).searchParams);
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      timestamp: Date.now(),
+      query: {},
+      summary: null,
+      entries: [],
+      error: error instanceof Error ? error.message : 'Invalid query',
+    }, { status: 400 });
+  }
+
+  try {
+    const [entries, summary] = await Promise.all([
+      queryJournal(query),
+      summarizeJournal(query),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: Date.now(),
+      query,
+      summary,
+      entries,
+    });
+
+  } catch (error) {
+    console.error('Journal query error:', error);
+
+    return NextResponse.json({
+      success: false,
+      timestamp: Date.now(),
+      query,
+      summary: null,
+      entries: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<OutcomeResponse>> {
+  try {
+    const body = await request.json();
+    const { txHash, opportunityId } = body;
+    if (body.chain !== undefined && !isChainName(String(body.chain))) {
+      return NextResponse.json({
+        success: false,
+        timestamp: Date.now(),
+        outcome: null,
+        entry: null,
+        error: `Unknown chain: ${body.chain}`,
+      }, { status: 400 });
+    }
+    const chain = body.chain ?? chainFor('base');
+
+    if (!txHash || !ethers.isHexString(txHash, 32)) {
+      return NextResponse.json({
+        success: false,
+        timestamp: Date.now(),
+        outcome: null,
+        entry: null,
+        error: 'txHash must be a 32-byte hex string',
+      }, { status: 400 });
+    }
+
+    const outcome = await resolveExecutionOutcome(txHash, chain);
+
+    // Nothing to record until the tx is mined
+    const entry = outcome.status === 'pending'
+      ? null
+      : await recordJournalEntry({
+        kind: 'outcome',
+        opportunityId,
+        // Journal chains are network-agnostic ('base' / 'arbitrum')
+        chains: [legOf(chain) ?? chain],
+        data: { ...outcome },
+      });
+
+    return NextResponse.json({
+      success: true,
+      timestamp: Date.now(),
+      outcome,
+      entry,
+    });
+
+  } catch (error) {
+    console.error('Journal outcome error:', error);
+
+    return NextResponse.json({
+      success: false,
+      timestamp: Date.now(),
+      outcome: null,
+      entry: null,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
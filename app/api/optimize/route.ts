@@ -0,0 +1,241 @@
+/**
+ * /api/optimize
+ *
+ * Finds the trade size that maximizes net profit for the current
+ * Base/Arbitrum spread, after gas (including each rollup's L1 data fee),
+ * swap fees, price impact and bridging. Gas is priced from recent fee
+ * history, with a stress cost per curve point (lib/gas/fee-market.ts).
+ * USD costs use the reference ETH price (lib/prices/reference-price.ts).
+ *
+ * Price impact walks the initialized ticks around each pool's price; curve
+ * points report slippageSource 'constant-liquidity' once a swap moves past
+ * them (or when the ticks could not be read).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { getEthUsdcPool, getEthUsdcPrice, getInitializedTicks } from '@/lib/dex/uniswap';
+import { TICK_SPACING_BY_FEE } from '@/lib/dex/swap-simulator';
+import { getManagedProvider } from '@/lib/rpc/provider-manager';
+import { chainFor, ChainName } from '@/lib/chains/registry';
+import { estimateL1DataFee, executionFeeTx, serializeL1DataFee, L1DataFee } from '@/lib/gas/l1-fee';
+import { getGasPriceRange } from '@/lib/contracts';
+import { calculateSpread } from '@/lib/math/profit';
+import {
+  clampCurveSamples,
+  optimizeTradeSize,
+  poolLegFromState,
+  BridgeCostModel,
+  ProfitCurvePoint,
+  DEFAULT_MIN_AMOUNT_ETH,
+  DEFAULT_MAX_AMOUNT_ETH,
+  DEFAULT_CURVE_SAMPLES,
+  MIN_CURVE_SAMPLES,
+  MAX_CURVE_SAMPLES,
+} from '@/lib/math/optimizer';
+import { compareBridges } from '@/lib/bridges/compare';
+import { getReferenceEthPrice, ReferencePrice } from '@/lib/prices/reference-price';
+
+export interface OptimizeResponse {
+  success: boolean;
+  timestamp: number;
+  buyChain: 'base' | 'arbitrum';
+  sellChain: 'base' | 'arbitrum';
+  spreadPct: number;
+  recommendedAmountEth: number;
+  profitable: boolean;
+  expected: ProfitCurvePoint | null;
+  breakEvenAmountEth: number | null;
+  curve: ProfitCurvePoint[];
+  bridgeCostModel: BridgeCostModel;
+  gasPrice?: { chain: ChainName; expectedGwei: string; stressGwei: string };
+  l1DataFees?: ReturnType<typeof serializeL1DataFee>[];
+  referencePrice?: ReferencePrice;
+  error?: string;
+}
+
+// Reference size used to derive the bridge fee model from the selected bridge
+const BRIDGE_REFERENCE_AMOUNT = '0.1';
+
+/**
+ * Derive a fixed + proportional bridge cost model from the selected bridge quote
+ */
+async function getBridgeCostModel(referencePrice: ReferencePrice): Promise<BridgeCostModel> {
+  try {
+    const amountInWei = ethers.parseEther(BRIDGE_REFERENCE_AMOUNT);
+    const { selected } = await compareBridges({ from: 'base', to: 'arbitrum', amountInWei }, referencePrice);
+    return {
+      fixedUsd: (Number(selected.gasFeeWei) / 1e18) * referencePrice.priceUsd,
+      feeRate: Number(selected.protocolFeeWei) / Number(amountInWei),
+    };
+  } catch (error) {
+    console.error('Bridge fee lookup failed, using default model:', error);
+    return { fixedUsd: 0, feeRate: 0.001 };
+  }
+}
+
+/**
+ * Initialized ticks around the pool price, read at the same block as the price
+ * (null if they cannot be read: the simulation then assumes constant liquidity)
+ */
+async function getPoolTicks(chain: ChainName, state: Awaited<ReturnType<typeof getEthUsdcPrice>>) {
+  try {
+    return await getInitializedTicks(
+      getManagedProvider(chain),
+      getEthUsdcPool(chain),
+      state.tick,
+      TICK_SPACING_BY_FEE[state.fee] ?? 60,
+      state.blockNumber
+    );
+  } catch (error) {
+    console.error(`Tick read failed on ${chain}, assuming constant liquidity:`, error);
+    return null;
+  }
+}
+
+/**
+ * L1 data fee of one executor call on the chain (null if it cannot be read)
+ */
+async function getExecutionL1Fee(chain: ChainName, amountInWei: bigint): Promise<L1DataFee | null> {
+  try {
+    return await estimateL1DataFee(getManagedProvider(chain), chain, executionFeeTx(chain, amountInWei));
+  } catch (error) {
+    console.error(`L1 data fee lookup failed on ${chain}, costing without it:`, error);
+    return null;
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<OptimizeResponse>> {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const minAmountEth = body.minAmount !== undefined ? parseFloat(body.minAmount) : DEFAULT_MIN_AMOUNT_ETH;
+    const maxAmountEth = body.maxAmount !== undefined ? parseFloat(body.maxAmount) : DEFAULT_MAX_AMOUNT_ETH;
+    const rawSamples = body.samples !== undefined ? Number(body.samples) : DEFAULT_CURVE_SAMPLES;
+
+    const invalid = isNaN(minAmountEth) || isNaN(maxAmountEth) || minAmountEth <= 0 || maxAmountEth <= minAmountEth
+      ? 'Invalid range: minAmount must be positive and below maxAmount'
+      : !Number.isInteger(rawSamples)
+        ? `Invalid samples: must be an integer (clamped to ${MIN_CURVE_SAMPLES}-${MAX_CURVE_SAMPLES})`
+        : null;
+
+    if (invalid) {
+      return NextResponse.json({
+        success: false,
+        timestamp: Date.now(),
+        buyChain: 'base',
+        sellChain: 'arbitrum',
+        spreadPct: 0,
+        recommendedAmountEth: 0,
+        profitable: false,
+        expected: null,
+        breakEvenAmountEth: null,
+        curve: [],
+        bridgeCostModel: { fixedUsd: 0, feeRate: 0 },
+        error: invalid,
+      }, { status: 400 });
+    }
+
+    const samples = clampCurveSamples(rawSamples);
+
+    const referencePrice = await getReferenceEthPrice();
+    const baseChain = chainFor('base');
+    const arbitrumChain = chainFor('arbitrum');
+
+    // Calldata size barely depends on the amount, so price one call at the largest size
+    const feeTxAmountWei = BigInt(Math.floor(maxAmountEth * 1e18));
+
+    // Same pool reads as /api/detect, plus gas and bridge cost inputs
+    const [baseData, arbitrumData, baseGasPrice, arbitrumGasPrice, baseL1Fee, arbitrumL1Fee, bridgeCostModel] = await Promise.all([
+      getEthUsdcPrice(getManagedProvider(baseChain), baseChain),
+      getEthUsdcPrice(getManagedProvider(arbitrumChain), arbitrumChain),
+      getGasPriceRange(baseChain),
+      getGasPriceRange(arbitrumChain),
+      getExecutionL1Fee(baseChain, feeTxAmountWei),
+      getExecutionL1Fee(arbitrumChain, feeTxAmountWei),
+      getBridgeCostModel(referencePrice),
+    ]);
+
+    const [baseTicks, arbitrumTicks] = await Promise.all([
+      getPoolTicks(baseChain, baseData),
+      getPoolTicks(arbitrumChain, arbitrumData),
+    ]);
+
+    const buyOnBase = baseData.price < arbitrumData.price;
+
+    // Cost both legs at the more expensive chain's gas price (conservative)
+    const baseGasHigher = baseGasPrice.expectedWei > arbitrumGasPrice.expectedWei;
+    const gasPrice = baseGasHigher ? baseGasPrice : arbitrumGasPrice;
+
+    // One executor call lands on each chain, and each posts its own calldata to L1
+    const l1DataFees = [baseL1Fee, arbitrumL1Fee].filter((fee): fee is L1DataFee => fee !== null);
+    const l1DataFeeWei = l1DataFees.reduce((sum, fee) => sum + fee.feeWei, BigInt(0));
+
+    const result = optimizeTradeSize({
+      priceA: baseData.price,
+      priceB: arbitrumData.price,
+      poolA: poolLegFromState(baseData, baseTicks ?? undefined),
+      poolB: poolLegFromState(arbitrumData, arbitrumTicks ?? undefined),
+      ethPriceUsd: referencePrice.priceUsd,
+      gasPrice,
+      l1DataFeeWei,
+      bridge: bridgeCostModel,
+      minAmountEth,
+      maxAmountEth,
+      samples,
+    });
+
+    return NextResponse.json({
+      success: true,
+      timestamp: Date.now(),
+      buyChain: buyOnBase ? 'base' : 'arbitrum',
+      sellChain: buyOnBase ? 'arbitrum' : 'base',
+      spreadPct: calculateSpread(baseData.price, arbitrumData.price),
+      recommendedAmountEth: result.profitable ? result.optimalAmountEth : 0,
+      profitable: result.profitable,
+      expected: result.optimal,
+      breakEvenAmountEth: result.breakEvenAmountEth,
+      // Drop sizes the simulator could not fill (not representable in JSON)
+      curve: result.curve.filter(point => Number.isFinite(point.netProfitUsd)),
+      bridgeCostModel,
+      gasPrice: {
+        chain: baseGasHigher ? baseChain : arbitrumChain,
+        expectedGwei: ethers.formatUnits(gasPrice.expectedWei, 'gwei'),
+        stressGwei: ethers.formatUnits(gasPrice.stressWei, 'gwei'),
+      },
+      l1DataFees: l1DataFees.map(serializeL1DataFee),
+      referencePrice,
+    });
+
+  } catch (error) {
+    console.error('Optimization error:', error);
+
+    return NextResponse.json({
+      success: false,
+      timestamp: Date.now(),
+      buyChain: 'base',
+      sellChain: 'arbitrum',
+      spreadPct: 0,
+      recommendedAmountEth: 0,
+      profitable: false,
+      expected: null,
+      breakEvenAmountEth: null,
+      curve: [],
+      bridgeCostModel: { fixedUsd: 0, feeRate: 0 },
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/optimize
+ * Health check endpoint
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: 'ok',
+    endpoint: '/api/optimize',
+    methods: ['POST'],
+    description: 'Find the profit-maximizing trade size for the current spread',
+    timestamp: new Date().toISOString()
+  });
+}
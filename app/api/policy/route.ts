@@ -0,0 +1,109 @@
+/**
+ * /api/policy
+ *
+ * Risk policy profiles used by /api/decide and /api/backtest.
+ *
+ * GET  ?user=0x...  - list profiles (and the user's saved setting, if any)
+ * POST { user, profile, overrides?, signature, issuedAt } - save a user's policy
+ *      profile: conservative | balanced | aggressive | custom
+ *      overrides: partial DecisionThresholds, e.g. { "minProfitUsd": 3 },
+ *                 each within THRESHOLD_BOUNDS
+ *      signature: personal_sign by `user` of policyUpdateMessage(user, { profile, overrides }, issuedAt)
+ *      issuedAt: ms timestamp in the message; valid for 5 minutes, once
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getUserPolicySetting,
+  loadRiskPolicyConfig,
+  resolveRiskPolicy,
+  setUserPolicySetting,
+  PolicyAuthError,
+  RiskPolicy,
+  RiskPolicyConfig,
+  UserPolicySetting,
+} from '@/lib/ai/risk-policy';
+
+export interface PolicyResponse {
+  success: boolean;
+  timestamp: number;
+  config?: RiskPolicyConfig;
+  userSetting?: UserPolicySetting | null;
+  policy?: RiskPolicy;             // The policy that applies to the user (or the default)
+  error?: string;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<PolicyResponse>> {
+  try {
+    const user = request.nextUrl.searchParams.get('user') || undefined;
+
+    const [config, userSetting, policy] = await Promise.all([
+      loadRiskPolicyConfig(),
+      user ? getUserPolicySetting(user) : Promise.resolve(null),
+      resolveRiskPolicy({}, user),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: Date.now(),
+      config,
+      userSetting,
+      policy,
+    });
+
+  } catch (error) {
+    console.error('Policy lookup error:', error);
+
+    return NextResponse.json({
+      success: false,
+      timestamp: Date.now(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<PolicyResponse>> {
+  try {
+    const body = await request.json();
+
+    if (!body.user || typeof body.user !== 'string' || !body.profile || typeof body.profile !== 'string') {
+      return NextResponse.json({
+        success: false,
+        timestamp: Date.now(),
+        error: 'user and profile are required',
+      }, { status: 400 });
+    }
+
+    let policy: RiskPolicy;
+    try {
+      policy = await setUserPolicySetting(
+        body.user,
+        { profile: body.profile, overrides: body.overrides },
+        body.signature === undefined ? undefined : { signature: body.signature, issuedAt: Number(body.issuedAt) }
+      );
+    } catch (error) {
+      if (!(error instanceof Error) || (error as NodeJS.ErrnoException).code) throw error;
+      return NextResponse.json({
+        success: false,
+        timestamp: Date.now(),
+        error: error.message,
+      }, { status: error instanceof PolicyAuthError ? 401 : 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: Date.now(),
+      userSetting: await getUserPolicySetting(body.user),
+      policy,
+    });
+
+  } catch (error) {
+    console.error('Policy update error:', error);
+
+    return NextResponse.json({
+      success: false,
+      timestamp: Date.now(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
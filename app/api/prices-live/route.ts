@@ -0,0 +1,98 @@
+/**
+ * /api/prices-live
+ *
+ * Aggregated ETH price feed, also the dashboard's polling fallback when the
+ * /api/prices-stream SSE connection fails.
+ *
+ * Combines testnet Uniswap pools, mainnet pools (services/priceService.js) and
+ * an optional reference source (lib/prices/aggregator.ts). Returns every
+ * source's quote with its staleness and outlier flag, plus the median.
+ *
+ * `prices` / `spread` have the same shape as /api/prices-stream updates and
+ * come from the testnet pools; they are omitted when either pool is unavailable.
+ */
+
+import { NextResponse } from 'next/server';
+import { classifyLiquidity, getEthUsdcPool } from '@/lib/dex/uniswap';
+import { DEPLOYMENTS } from '@/lib/chains/registry';
+import { getAggregatedPrices, SourceQuote } from '@/lib/prices/aggregator';
+import type { ChainPrice, PriceUpdate } from '@/lib/prices/price-hub';
+import type { DataSource } from '@/lib/prices/simulated-market';
+
+export const dynamic = 'force-dynamic';
+
+export interface PricesLiveResponse {
+  success: boolean;
+  timestamp: number;
+  source?: DataSource;           // Omitted on errors: no data was read
+  prices?: { base: ChainPrice; arbitrum: ChainPrice };
+  spread?: PriceUpdate['spread'];
+  median: number | null;
+  sources: SourceQuote[];
+  freshCount: number;
+  outlierCount: number;
+  outlierThresholdPct: number;
+  maxStalenessSec: number;
+  error?: string;
+}
+
+function toChainPrice(quote: SourceQuote | undefined, chain: 'base' | 'arbitrum'): ChainPrice | null {
+  if (!quote || quote.price === null) return null;
+  const liquidity = BigInt(quote.liquidity ?? '0');
+  return {
+    price: quote.price,
+    liquidity: liquidity.toString(),
+    liquidityDepth: classifyLiquidity(liquidity),
+    pool: getEthUsdcPool(DEPLOYMENTS.testnet[chain]),
+  };
+}
+
+export async function GET(): Promise<NextResponse<PricesLiveResponse>> {
+  try {
+    const aggregate = await getAggregatedPrices();
+
+    const base = toChainPrice(aggregate.quotes.find(q => q.id === 'uniswap-base-sepolia'), 'base');
+    const arbitrum = toChainPrice(aggregate.quotes.find(q => q.id === 'uniswap-arbitrum-sepolia'), 'arbitrum');
+
+    let pools: Pick<PricesLiveResponse, 'prices' | 'spread'> = {};
+    if (base && arbitrum) {
+      const absolute = Math.abs(arbitrum.price - base.price);
+      pools = {
+        prices: { base, arbitrum },
+        spread: {
+          absolute,
+          percentage: (absolute / base.price) * 100,
+          direction: base.price < arbitrum.price ? 'base-cheaper' : 'arbitrum-cheaper',
+        },
+      };
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: aggregate.timestamp,
+      source: 'onchain',
+      ...pools,
+      median: aggregate.median,
+      sources: aggregate.quotes,
+      freshCount: aggregate.freshCount,
+      outlierCount: aggregate.outlierCount,
+      outlierThresholdPct: aggregate.outlierThresholdPct,
+      maxStalenessSec: aggregate.maxStalenessSec,
+    });
+
+  } catch (error) {
+    console.error('Aggregated price fetch error:', error);
+
+    return NextResponse.json({
+      success: false,
+      timestamp: Date.now(),
+      median: null,
+      sources: [],
+      freshCount: 0,
+      outlierCount: 0,
+      outlierThresholdPct: 0,
+      maxStalenessSec: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
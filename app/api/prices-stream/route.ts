@@ -1,134 +1,33 @@
 /**
  * /api/prices-stream
- * 
+ *
  * Server-Sent Events (SSE) endpoint for real-time price updates
  * Clients can subscribe to this endpoint to receive live price updates
  * without polling
+ *
+ * All clients share one server-side price hub (lib/prices/price-hub.ts),
+ * so RPC load does not grow with the number of open dashboards.
+ * Reconnecting clients resume from Last-Event-ID (sent automatically by
+ * EventSource, or ?lastEventId=).
+ *
+ * GET ?stats=1 returns hub stats as JSON instead of a stream.
  */
 
-import { NextRequest } from 'next/server';
-import { ethers } from 'ethers';
-import { getEthUsdcPrice, classifyLiquidity } from '@/lib/dex/uniswap';
+import { NextRequest, NextResponse } from 'next/server';
+import { getPriceHub } from '@/lib/prices/price-hub';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-// Helper to create SSE response
-function createSSEResponse() {
-  const encoder = new TextEncoder();
-  let controller: ReadableStreamDefaultController;
-
-  const stream = new ReadableStream({
-    start(ctrl) {
-      controller = ctrl;
-    },
-    cancel() {
-      console.log('Client disconnected from price stream');
-    }
-  });
-
-  return {
-    stream,
-    send: (event: string, data: any) => {
-      if (controller) {
-        const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-        controller.enqueue(encoder.encode(message));
-      }
-    },
-    close: () => {
-      if (controller) {
-        controller.close();
-      }
-    }
-  };
-}
-
 export async function GET(request: NextRequest) {
-  const { stream, send, close } = createSSEResponse();
-
-  // Fetch prices every 10 seconds
-  const fetchPrices = async () => {
-    try {
-      const baseProvider = new ethers.JsonRpcProvider('https://sepolia.base.org');
-      const arbitrumProvider = new ethers.JsonRpcProvider('https://sepolia-rollup.arbitrum.io/rpc');
-      
-      let baseData: { price: number; liquidity: bigint };
-      let arbitrumData: { price: number; liquidity: bigint };
-      let usedMockData = false;
-      
-      try {
-        [baseData, arbitrumData] = await Promise.all([
-          getEthUsdcPrice(baseProvider, 'base'),
-          getEthUsdcPrice(arbitrumProvider, 'arbitrum'),
-        ]);
-        
-        if (baseData.price === 0 || arbitrumData.price === 0) {
-          throw new Error('Pool returned zero price');
-        }
-      } catch (poolError) {
-        // Use realistic mock prices if testnet pools don't exist
-        usedMockData = true;
-        
-        const basePrice = 2450 + Math.random() * 50;
-        const spreadPct = 0.001 + Math.random() * 0.002;
-        const arbitrumPrice = basePrice * (1 + spreadPct);
-        
-        baseData = { price: basePrice, liquidity: BigInt('1000000000000000000000') };
-        arbitrumData = { price: arbitrumPrice, liquidity: BigInt('800000000000000000000') };
-      }
-      
-      const baseLiquidity = classifyLiquidity(baseData.liquidity);
-      const arbitrumLiquidity = classifyLiquidity(arbitrumData.liquidity);
-      
-      const absolute = Math.abs(arbitrumData.price - baseData.price);
-      const percentage = (absolute / baseData.price) * 100;
-      const direction = baseData.price < arbitrumData.price ? 'base-cheaper' as const : 'arbitrum-cheaper' as const;
-      
-      const priceUpdate = {
-        success: true,
-        timestamp: Date.now(),
-        prices: {
-          base: {
-            price: baseData.price,
-            liquidity: baseData.liquidity.toString(),
-            liquidityDepth: baseLiquidity,
-            pool: '0xd0b53D9277642d899DF5C87A3966A349A798F224',
-          },
-          arbitrum: {
-            price: arbitrumData.price,
-            liquidity: arbitrumData.liquidity.toString(),
-            liquidityDepth: arbitrumLiquidity,
-            pool: '0x80d201E993E22e56D97F4A3c93F14aD3F75C5EAc',
-          },
-        },
-        spread: { absolute, percentage, direction },
-        warning: usedMockData ? '.' : undefined,
-      };
-      
-      send('price-update', priceUpdate);
-      console.log('📡 Sent price update:', { 
-        base: baseData.price.toFixed(2), 
-        arb: arbitrumData.price.toFixed(2),
-        spread: percentage.toFixed(3) + '%'
-      });
-      
-    } catch (error) {
-      console.error('Error fetching prices for stream:', error);
-      send('error', { message: 'Failed to fetch prices' });
-    }
-  };
+  if (request.nextUrl.searchParams.get('stats')) {
+    return NextResponse.json({ ...getPriceHub().stats(), timestamp: Date.now() });
+  }
 
-  // Send initial prices immediately
-  await fetchPrices();
+  const rawLastEventId = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId');
+  const lastEventId = rawLastEventId !== null && /^\d+$/.test(rawLastEventId) ? Number(rawLastEventId) : undefined;
 
-  // Set up interval to fetch prices every 10 seconds
-  const intervalId = setInterval(fetchPrices, 10000);
-
-  // Clean up on disconnect
-  request.signal.addEventListener('abort', () => {
-    clearInterval(intervalId);
-    close();
-  });
+  const stream = getPriceHub().subscribe(lastEventId);
 
   return new Response(stream, {
     headers: {
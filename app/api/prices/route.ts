@@ -1,13 +1,16 @@
 /**
  * /api/prices
  * 
- * Fetches ETH/USDC prices from Uniswap V3 pools
+ * Fetches ETH/USDC prices from Uniswap V3 pools on the active
+ * environment's chains (lib/chains/registry.ts)
  * Read-only, no gas cost
  */
 
 import { NextResponse } from 'next/server';
-import { ethers } from 'ethers';
-import { getEthUsdcPrice, classifyLiquidity, ADDRESSES } from '@/lib/dex/uniswap';
+import { getEthUsdcPrice, getEthUsdcPool, classifyLiquidity } from '@/lib/dex/uniswap';
+import { getManagedProvider } from '@/lib/rpc/provider-manager';
+import { chainFor } from '@/lib/chains/registry';
+import { DataSource } from '@/lib/prices/simulated-market';
 
 export interface PriceResponse {
   success: boolean;
@@ -26,23 +29,20 @@ export interface PriceResponse {
       pool: string;
     };
   };
+  source?: DataSource;     // Omitted on errors: no data was read
   error?: string;
 }
 
 export async function GET(): Promise<NextResponse<PriceResponse>> {
   try {
-    // Create providers for both TESTNET chains
-    const baseProvider = new ethers.JsonRpcProvider(
-      process.env.BASE_SEPOLIA_RPC_URL || 'https://sepolia.base.org'
-    );
-    const arbitrumProvider = new ethers.JsonRpcProvider(
-      process.env.ARBITRUM_SEPOLIA_RPC_URL || 'https://sepolia-rollup.arbitrum.io/rpc'
-    );
+    // Both legs of the active environment
+    const baseChain = chainFor('base');
+    const arbitrumChain = chainFor('arbitrum');
     
     // Fetch prices in parallel
     const [basePrice, arbitrumPrice] = await Promise.all([
-      getEthUsdcPrice(baseProvider, 'base'),
-      getEthUsdcPrice(arbitrumProvider, 'arbitrum'),
+      getEthUsdcPrice(getManagedProvider(baseChain), baseChain),
+      getEthUsdcPrice(getManagedProvider(arbitrumChain), arbitrumChain),
     ]);
     
     return NextResponse.json({
@@ -53,15 +53,16 @@ export async function GET(): Promise<NextResponse<PriceResponse>> {
           price: basePrice.price,
           liquidity: basePrice.liquidity.toString(),
           liquidityDepth: classifyLiquidity(basePrice.liquidity),
-          pool: ADDRESSES.base.ethUsdcPool,
+          pool: getEthUsdcPool(baseChain),
         },
         arbitrum: {
           price: arbitrumPrice.price,
           liquidity: arbitrumPrice.liquidity.toString(),
           liquidityDepth: classifyLiquidity(arbitrumPrice.liquidity),
-          pool: ADDRESSES.arbitrum.ethUsdcPool,
+          pool: getEthUsdcPool(arbitrumChain),
         },
       },
+      source: 'onchain',
     });
     
   } catch (error) {
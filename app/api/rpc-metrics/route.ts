@@ -0,0 +1,25 @@
+/**
+ * /api/rpc-metrics
+ *
+ * Health, latency, error and cache metrics of the shared RPC providers
+ * (lib/rpc/provider-manager.ts). Chains appear once their provider has been used.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRpcMetrics, RpcChainMetrics } from '@/lib/rpc/provider-manager';
+
+export const dynamic = 'force-dynamic';
+
+export interface RpcMetricsResponse {
+  success: boolean;
+  timestamp: number;
+  chains: RpcChainMetrics[];
+}
+
+export async function GET(): Promise<NextResponse<RpcMetricsResponse>> {
+  return NextResponse.json({
+    success: true,
+    timestamp: Date.now(),
+    chains: getRpcMetrics(),
+  });
+}
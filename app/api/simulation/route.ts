@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getBridgingFees } from '../../../functions/bridging_fees.js';
+import { ethers } from 'ethers';
 import { getCompleteFlowGasFees } from '../../../functions/gas_fees.js';
 import { getMevFees } from '../../../functions/mev_fees.js';
-import { bridgeSlippage, ammSlippageETHtoUSDC } from '../../../functions/slippage_fees.js';
+import { ammSlippageETHtoUSDC } from '../../../functions/slippage_fees.js';
+import { getReferenceEthPrice } from '@/lib/prices/reference-price';
+import { compareBridges, serializeBridgeComparison } from '@/lib/bridges/compare';
+import { formatLatency } from '@/lib/bridges/bridge-provider';
+import { measureRealizedVolatility } from '@/lib/prices/realized-volatility';
+import { assessPriceDrift } from '@/lib/math/price-drift';
 
 export async function POST(request: NextRequest) {
   try {
@@ -38,45 +43,47 @@ export async function POST(request: NextRequest) {
     // Calculate spread
     const spreadPercent = ((sellPriceFloat - buyPriceFloat) / buyPriceFloat * 100);
 
+    // One ETH/USD price for every cost conversion (trade P&L uses the prices given)
+    const referencePrice = await getReferenceEthPrice();
+
     // Fetch all fee calculations in parallel for better performance
+    // The bridge leg is priced on every enabled bridge; the lowest risk-adjusted
+    // cost within the latency limit is used, which bounds the transit drift below
     const [
-      bridgingFeesData,
+      bridges,
       gasFees,
       mevFees,
-      bridgeSlippageData,
-      ammSlippageData
+      ammSlippageData,
+      volatility
     ] = await Promise.all([
-      getBridgingFees(amount),
-      getCompleteFlowGasFees(amount, 3000),
-      getMevFees(amount),
-      bridgeSlippage(amount),
-      ammSlippageETHtoUSDC(amount, 3000)
-    ]) as [any, any, any, any, any];
+      compareBridges({ from: 'base', to: 'arbitrum', amountInWei: ethers.parseEther(String(amount)) }, referencePrice),
+      getCompleteFlowGasFees(amount, 3000, referencePrice),
+      getMevFees(amount, referencePrice),
+      ammSlippageETHtoUSDC(amount, 3000),
+      measureRealizedVolatility().catch((error: unknown) => {
+        console.error('Realized volatility unavailable, skipping price drift model:', error);
+        return error instanceof Error ? error : new Error('Unknown error');
+      })
+    ]) as [Awaited<ReturnType<typeof compareBridges>>, any, any, any, Awaited<ReturnType<typeof measureRealizedVolatility>> | Error];
+    const bridge = bridges.selected;
 
     // Calculate total costs
     const gasCostUsd = parseFloat(gasFees.totalGasCostUsd);
     
-    // Calculate slippage
-    const bridgeSlippagePercent = parseFloat(
-      typeof bridgeSlippageData.totalSlippagePercentage === 'string' 
-        ? bridgeSlippageData.totalSlippagePercentage.replace('%', '')
-        : bridgeSlippageData.totalSlippagePercentage || '0'
-    );
-    
+    // Calculate slippage (bridge losses are part of the bridge fee)
     const ammSlippagePercent = parseFloat(
       typeof ammSlippageData.slippagePercentage === 'string'
         ? ammSlippageData.slippagePercentage.replace('%', '')
         : ammSlippageData.slippagePercentage || '0'
     );
     
-    const totalSlippagePercent = bridgeSlippagePercent + ammSlippagePercent;
+    const totalSlippagePercent = ammSlippagePercent;
     
-    const bridgeSlippageUsd = parseFloat(bridgeSlippageData.totalLossUsd || '0');
     const ammSlippageUsd = parseFloat(ammSlippageData.slippageAmount || '0');
-    const slippageUsd = bridgeSlippageUsd + ammSlippageUsd;
+    const slippageUsd = ammSlippageUsd;
     
     const feesUsd = parseFloat(mevFees.totalMevCostUsd);
-    const bridgingFeesUsd = parseFloat(bridgingFeesData.totalFeesUsd);
+    const bridgingFeesUsd = bridge.totalFeeUsd;
 
     // Calculate gross profit using user-provided prices
     const grossProfitUsd = amountFloat * (sellPriceFloat - buyPriceFloat);
@@ -90,6 +97,18 @@ export async function POST(request: NextRequest) {
     const profitMarginPct = (netProfitUsd / tradeSizeUsd) * 100;
     const roiPct = (netProfitUsd / tradeSizeUsd) * 100;
 
+    // The sell price keeps moving while funds are in transit
+    const priceDrift = volatility instanceof Error
+      ? null
+      : assessPriceDrift({
+          amountEth: amountFloat,
+          buyPrice: buyPriceFloat,
+          sellPrice: sellPriceFloat,
+          costsUsd: totalCostsUsd,
+          transitSec: bridge.latencySec,
+          sigmaPerSqrtSec: volatility.sigmaPerSqrtSec,
+        });
+
     // Determine if trade should be executed
     const shouldExecute = netProfitUsd > 0;
 
@@ -113,6 +132,14 @@ export async function POST(request: NextRequest) {
       netProfitUsd,
       profitMarginPct,
       roiPct,
+
+      // Price drift during the bridge transit (null when volatility is unavailable)
+      riskAdjustedNetProfitUsd: priceDrift?.riskAdjustedNetProfitUsd ?? null,
+      spreadSurvivalProbability: priceDrift?.spreadSurvivalProbability ?? null,
+      profitProbability: priceDrift?.profitProbability ?? null,
+      priceDrift: volatility instanceof Error
+        ? { available: false, error: volatility.message }
+        : { available: true, volatility, ...priceDrift },
       
       // Execution recommendation
       shouldExecute,
@@ -122,11 +149,6 @@ export async function POST(request: NextRequest) {
       
       // Detailed slippage data
       slippageBreakdown: {
-        bridge: {
-          percent: bridgeSlippagePercent,
-          usd: bridgeSlippageUsd,
-          details: bridgeSlippageData
-        },
         amm: {
           percent: ammSlippagePercent,
           usd: ammSlippageUsd,
@@ -141,8 +163,8 @@ export async function POST(request: NextRequest) {
       // Gas breakdown
       gasBreakdown: gasFees,
       
-      // Bridging breakdown
-      bridgingBreakdown: bridgingFeesData,
+      // Bridging breakdown: selected bridge, alternatives and bridges that could not quote
+      bridgingBreakdown: serializeBridgeComparison(bridges),
       
       // MEV breakdown
       mevBreakdown: mevFees,
@@ -150,11 +172,14 @@ export async function POST(request: NextRequest) {
       // Liquidity info
       liquidityDepth: 'HIGH', // Mock for now
       tradeSizeUsd,
+
+      // ETH/USD price used for all USD cost conversions
+      referencePrice,
       
       // Execution steps
       breakdown: {
         step1: `Buy on Base at $${buyPriceFloat.toFixed(2)} per ETH`,
-        step2: `Bridge ${amountFloat} ETH from Base to Arbitrum (fees: $${bridgingFeesUsd.toFixed(2)})`,
+        step2: `Bridge ${amountFloat} ETH from Base to Arbitrum via ${bridge.name} (fees: $${bridgingFeesUsd.toFixed(2)}, ~${formatLatency(bridge.latencySec)})`,
         step3: `Sell on Arbitrum at $${sellPriceFloat.toFixed(2)} per ETH`,
         step4: `Net profit after all costs: $${netProfitUsd.toFixed(2)}`
       }
@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ethers } from 'ethers';
 import { ARBITRAGE_EXECUTOR_ABI } from '@/lib/contract-abi';
-
-const CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || process.env.NEXT_PUBLIC_ARBITRAGE_EXECUTOR_ADDRESS || "0xafB0Ba6B093C8e411c27F79C12d68A54A54c8F42";
-const RPC_URL = process.env.BASE_SEPOLIA_RPC_URL || 'https://sepolia.base.org';
+import { getManagedProvider } from '@/lib/rpc/provider-manager';
+import { chainFor, getExecutorAddress } from '@/lib/chains/registry';
 
 export async function GET(req: NextRequest) {
   try {
@@ -26,8 +25,9 @@ export async function GET(req: NextRequest) {
     }
 
     // Connect to provider
-    const provider = new ethers.JsonRpcProvider(RPC_URL);
-    const contract = new ethers.Contract(CONTRACT_ADDRESS, ARBITRAGE_EXECUTOR_ABI, provider);
+    const chain = chainFor('base');
+    const provider = getManagedProvider(chain);
+    const contract = new ethers.Contract(getExecutorAddress(chain), ARBITRAGE_EXECUTOR_ABI, provider);
 
     // Fetch user transactions
     const transactions = await contract.getUserTransactions(userAddress);
@@ -16,8 +16,10 @@ import {
 } from '@/lib/hooks/useContract';
 // import { CONTRACT_ADDRESS } from '@/lib/contract-abi';
 import { CandlestickChart } from '@/components/CandlestickChart';
+import { SourceBadge } from '@/components/SourceBadge';
 import Hyperspeed from '@/components/Hyperspeed';
 import { ShinyButton } from '@/components/ui/shiny-button';
+import { DecisionCard } from '@/components/DecisionCard';
 // import { OrderBook } from '@/components/OrderBook';
 // import { TradeHistory } from '@/components/TradeHistory';
 
@@ -61,7 +63,9 @@ export default function DashboardPage() {
   const [opportunity, setOpportunity] = useState<any>(null);
   const [simulation, setSimulation] = useState<any>(null);
   const [decision, setDecision] = useState<any>(null);
+  const [riskPolicy, setRiskPolicy] = useState('');   // '' = saved user setting / config default
   const [calculation, setCalculation] = useState<any>(null);
+  const [optimization, setOptimization] = useState<any>(null);
   const [depositAmountUsd, setDepositAmountUsd] = useState('10');
   const [tradeAmount, setTradeAmount] = useState('0.01');
   const [withdrawAmount, setWithdrawAmount] = useState('0.01');
@@ -72,18 +76,9 @@ export default function DashboardPage() {
     prices: false,
     simulation: false,
     decision: false,
+    optimize: false,
   });
 
-  // Live prices from candlestick chart
-  const [liveBasePrice, setLiveBasePrice] = useState<number>(2925);
-  const [liveArbitrumPrice, setLiveArbitrumPrice] = useState<number>(2925);
-
-  // Callback to receive price updates from CandlestickChart
-  const handlePriceUpdate = (basePrice: number, arbitrumPrice: number) => {
-    setLiveBasePrice(basePrice);
-    setLiveArbitrumPrice(arbitrumPrice);
-  };
-
   // Calculations
   const balanceFormatted = balance ? parseFloat(formatEther(balance)).toFixed(4) : '0.0000';
   const walletBalanceFormatted = walletBalanceData?.value
@@ -113,6 +108,21 @@ export default function DashboardPage() {
     }
   }, [depositSuccess, withdrawSuccess, refetchBalance]);
 
+  // Record the on-chain outcome of an executed arbitrage in the journal
+  useEffect(() => {
+    if (!executeSuccess || !executeTxHash) return;
+
+    fetch('/api/journal', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        txHash: executeTxHash,
+        chain: 'baseSepolia',
+        opportunityId: simulation?.opportunityId,
+      }),
+    }).catch(err => console.error('Failed to journal execution outcome:', err));
+  }, [executeSuccess, executeTxHash]);
+
   // Fetch real-time prices using Server-Sent Events (SSE)
   useEffect(() => {
     let eventSource: EventSource | null = null;
@@ -129,7 +139,9 @@ export default function DashboardPage() {
               base: data.prices.base,
               arbitrum: data.prices.arbitrum,
               spread: data.spread,
-              warning: data.warning,
+              source: data.source,
+              simulation: data.simulation,
+              replay: data.replay,
             });
             setLoading(l => ({ ...l, prices: false }));
             console.log('📡 Real-time price update received:', {
@@ -169,12 +181,15 @@ export default function DashboardPage() {
         try {
           const res = await fetch('/api/prices-live');
           const data = await res.json();
-          if (data.success) {
+          // prices is omitted when the testnet pools are unavailable
+          if (data.success && data.prices) {
             setPrices({
               base: data.prices.base,
               arbitrum: data.prices.arbitrum,
               spread: data.spread,
-              warning: data.warning,
+              source: data.source,
+              simulation: data.simulation,
+              replay: data.replay,
             });
           }
         } catch (err) {
@@ -227,6 +242,7 @@ export default function DashboardPage() {
     }
 
     setShowSimulationCards(false);
+    setDecision(null);
     setLoading(l => ({ ...l, simulation: true }));
     try {
       // Call the comprehensive estimate API
@@ -267,7 +283,10 @@ export default function DashboardPage() {
           roiPct: estimateData.roiPct,
           
           // Detailed breakdown (optional, for debugging)
-          breakdown: estimateData.breakdown
+          breakdown: estimateData.breakdown,
+
+          // Links the eventual on-chain outcome back to this estimate in the journal
+          opportunityId: estimateData.opportunityId,
         };
 
         setSimulation(simulationData);
@@ -283,6 +302,66 @@ export default function DashboardPage() {
     }
   };
 
+  const runDecision = async () => {
+    if (!simulation) return;
+
+    setLoading(l => ({ ...l, decision: true }));
+    try {
+      const res = await fetch('/api/decide', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          spreadPercent: simulation.spreadPercent,
+          netProfitUsd: simulation.netProfitUsd,
+          gasCostUsd: simulation.gasCostUsd,
+          slippageUsd: simulation.slippageUsd,
+          feesUsd: simulation.feesUsd,
+          tradeSizeUsd: (simulation.amountInEth || 0) * (simulation.buyPrice || 0),
+          policy: riskPolicy || undefined,
+          user: address,
+          opportunityId: simulation.opportunityId,
+        }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setDecision(data);
+        setError('');
+      } else {
+        setError(data.error || 'Failed to get decision');
+      }
+    } catch (err: any) {
+      console.error('Decision error:', err);
+      setError(err.message || 'Decision failed');
+    } finally {
+      setLoading(l => ({ ...l, decision: false }));
+    }
+  };
+
+  const runOptimize = async () => {
+    setLoading(l => ({ ...l, optimize: true }));
+    try {
+      const res = await fetch('/api/optimize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setOptimization(data);
+        setError('');
+      } else {
+        setError(data.error || 'Failed to optimize trade size');
+      }
+    } catch (err: any) {
+      console.error('Optimization error:', err);
+      setError(err.message || 'Optimization failed');
+    } finally {
+      setLoading(l => ({ ...l, optimize: false }));
+    }
+  };
+
   const handleExecute = () => {
     try {
       setError('');
@@ -348,7 +427,6 @@ export default function DashboardPage() {
                 <CandlestickChart 
                   prices={prices}
                   loading={loading.prices}
-                  onPriceUpdate={handlePriceUpdate}
                 />
               </div>
             </div>
@@ -361,32 +439,39 @@ export default function DashboardPage() {
                 {prices && (
                   <div className="w-1/2">
                     <div className="glass-medium rounded-2xl p-4 shadow-2xl h-full">
-                      <h3 className="text-xs uppercase tracking-widest text-zinc-400 mb-4 text-center font-extralight">Live Prices</h3>
+                      <div className="flex items-center justify-center gap-2 mb-4">
+                        <h3 className="text-xs uppercase tracking-widest text-zinc-400 text-center font-extralight">Live Prices</h3>
+                        <SourceBadge
+                          source={prices.source}
+                          title={
+                            prices.simulation
+                              ? `Seed ${prices.simulation.seed} · ${prices.simulation.regime} regime`
+                              : prices.replay
+                                ? `Fixture ${prices.replay.fixture} · frame ${prices.replay.frame}`
+                                : undefined
+                          }
+                        />
+                      </div>
                       <div className="space-y-2">
                         <div className="text-center p-2 glass-light-shimmer rounded-xl">
                           <div className="text-xs text-teal-400 uppercase mb-1 font-light">Base</div>
                           <div className="text-sm font-light font-mono text-teal-300">
-                            ${liveBasePrice.toFixed(2)}
+                            ${prices.base.price.toFixed(2)}
                           </div>
                         </div>
                         <div className="text-center p-2 glass-light-shimmer rounded-xl">
                           <div className="text-xs text-yellow-400 uppercase mb-1 font-light">Arbitrum</div>
                           <div className="text-sm font-light font-mono text-yellow-300">
-                            ${liveArbitrumPrice.toFixed(2)}
+                            ${prices.arbitrum.price.toFixed(2)}
                           </div>
                         </div>
                         <div className="text-center p-2 glass-light-shimmer rounded-xl">
                           <div className="text-xs text-pink-400 uppercase mb-1 font-light">Spread</div>
                           <div className="text-sm font-light font-mono text-pink-300">
-                            {(((liveArbitrumPrice - liveBasePrice) / liveBasePrice) * 100).toFixed(3)}%
+                            {(((prices.arbitrum.price - prices.base.price) / prices.base.price) * 100).toFixed(3)}%
                           </div>
                         </div>
                       </div>
-                      {prices.warning && (
-                        <div className="mt-3 text-center">
-                          
-                        </div>
-                      )}
                     </div>
                   </div>
                 )}
@@ -531,6 +616,45 @@ export default function DashboardPage() {
                         Available: {balanceFormatted} ETH
                       </div>
                     </div>
+
+                    {/* Recommended size from /api/optimize */}
+                    <div className="glass-light rounded-xl p-3 flex justify-between items-center">
+                      <div>
+                        <div className="text-xs text-zinc-400 uppercase font-light tracking-wider">Recommended Size</div>
+                        {optimization ? (
+                          optimization.profitable ? (
+                            <div className="text-sm font-light font-mono text-zinc-100">
+                              {optimization.recommendedAmountEth.toFixed(4)} ETH
+                              <span className="text-green-400 ml-2">
+                                ${(optimization.expected?.netProfitUsd || 0).toFixed(2)}
+                              </span>
+                            </div>
+                          ) : (
+                            <div className="text-xs text-zinc-500 font-light">No profitable size at current spread</div>
+                          )
+                        ) : (
+                          <div className="text-xs text-zinc-500 font-light">Solve for max net profit</div>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        {optimization?.profitable && (
+                          <button
+                            onClick={() => setTradeAmount(optimization.recommendedAmountEth.toFixed(4))}
+                            className="px-3 py-1 rounded-lg btn-shiny-accent font-medium text-xs"
+                          >
+                            Use
+                          </button>
+                        )}
+                        <button
+                          onClick={runOptimize}
+                          disabled={loading.optimize}
+                          className="px-3 py-1 rounded-lg btn-shiny-accent font-medium text-xs"
+                        >
+                          {loading.optimize ? 'Solving...' : optimization ? 'Re-optimize' : 'Optimize'}
+                        </button>
+                      </div>
+                    </div>
+
                     <ShinyButton
                       onClick={runSimulation}
                       disabled={loading.simulation}
@@ -638,6 +762,33 @@ export default function DashboardPage() {
                           </div>
                         </div>
                       </div>
+
+                      {/* Decision with expandable audit trail */}
+                      <div>
+                        <div className="flex justify-between items-center mb-3">
+                          <div className="text-xs text-zinc-400 uppercase font-light tracking-wider">Decision</div>
+                          <div className="flex items-center gap-2">
+                            <select
+                              value={riskPolicy}
+                              onChange={(e) => setRiskPolicy(e.target.value)}
+                              className="glass-light rounded-lg px-2 py-1 text-xs font-light bg-transparent focus:outline-none"
+                            >
+                              <option value="">My policy</option>
+                              <option value="conservative">Conservative</option>
+                              <option value="balanced">Balanced</option>
+                              <option value="aggressive">Aggressive</option>
+                            </select>
+                            <button
+                              onClick={runDecision}
+                              disabled={loading.decision}
+                              className="px-3 py-1 rounded-lg btn-shiny-accent font-medium text-xs"
+                            >
+                              {loading.decision ? 'Deciding...' : decision ? 'Re-run' : 'Get Decision'}
+                            </button>
+                          </div>
+                        </div>
+                        {decision && <DecisionCard response={decision} />}
+                      </div>
                     </div>
                   )}
                 </div>
@@ -6,6 +6,7 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import Link from 'next/link';
 import { useUserBalance, useContractConfigured, useCorrectNetwork } from '@/lib/hooks/useContract';
 import { CONTRACT_ADDRESS } from '@/lib/contract-abi';
+import { CHAINS, getToken, getUniswap } from '@/lib/chains/registry';
 
 interface ApiResponse {
   loading: boolean;
@@ -330,14 +331,14 @@ export default function DebugPage() {
 {JSON.stringify({
   nodeEnv: process.env.NODE_ENV,
   baseSepolia: {
-    chainId: 84532,
-    rpc: 'https://sepolia.base.org',
-    explorer: 'https://sepolia.basescan.org',
+    chainId: CHAINS.baseSepolia.chainId,
+    rpc: CHAINS.baseSepolia.rpcUrls[0],
+    explorer: CHAINS.baseSepolia.explorer,
   },
   uniswap: {
-    swapRouter: '0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4',
-    weth: '0x4200000000000000000000000000000000000006',
-    usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    swapRouter: getUniswap('baseSepolia').swapRouter,
+    weth: getToken('baseSepolia', 'WETH').address,
+    usdc: getToken('baseSepolia', 'USDC').address,
   },
 }, null, 2)}
             </pre>
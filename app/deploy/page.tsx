@@ -6,12 +6,13 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { createPublicClient, http, parseEther } from 'viem';
 import { baseSepolia } from 'viem/chains';
 import Link from 'next/link';
+import { CHAINS, getToken, getUniswap } from '@/lib/chains/registry';
 
-// Testnet addresses for Base Sepolia
+// Testnet addresses for Base Sepolia (lib/chains/registry.ts)
 const TESTNET_CONFIG = {
-  swapRouter: '0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4',
-  weth: '0x4200000000000000000000000000000000000006',
-  usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  swapRouter: getUniswap('baseSepolia').swapRouter,
+  weth: getToken('baseSepolia', 'WETH').address,
+  usdc: getToken('baseSepolia', 'USDC').address,
 };
 
 // Contract bytecode would be imported from compiled artifacts
@@ -191,7 +192,7 @@ export default function DeployPage() {
                 <div className="mono text-sm break-all">{deployedAddress}</div>
               </div>
               <a
-                href={`https://sepolia.basescan.org/address/${deployedAddress}`}
+                href={`${CHAINS.baseSepolia.explorer}/address/${deployedAddress}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="block text-center py-2 rounded bg-steel-gray text-text-secondary hover:text-white transition-colors text-sm"
@@ -284,6 +284,26 @@ export default function SimulationPage() {
                         ${result.simulation.netProfitUsd.toFixed(2)}
                       </span>
                     </div>
+                    {result.simulation.riskAdjustedNetProfitUsd != null && (
+                      <>
+                        <div className="flex justify-between items-center text-sm font-light">
+                          <span className="text-zinc-400">Risk-Adjusted (bridge transit):</span>
+                          <span
+                            className={`font-mono ${
+                              result.simulation.riskAdjustedNetProfitUsd > 0 ? 'text-green-400' : 'text-red-400'
+                            }`}
+                          >
+                            ${result.simulation.riskAdjustedNetProfitUsd.toFixed(2)}
+                          </span>
+                        </div>
+                        <div className="flex justify-between items-center text-sm font-light">
+                          <span className="text-zinc-400">Spread Survives / Profitable:</span>
+                          <span className="font-mono text-zinc-300">
+                            {(result.simulation.spreadSurvivalProbability * 100).toFixed(1)}% / {(result.simulation.profitProbability * 100).toFixed(1)}%
+                          </span>
+                        </div>
+                      </>
+                    )}
                   </div>
                 </div>
 
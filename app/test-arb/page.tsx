@@ -5,23 +5,25 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { parseEther, formatEther } from 'viem';
 import { ARBITRAGE_EXECUTOR_ABI, CONTRACT_ADDRESS } from '@/lib/contract-abi';
+import { getChain, getToken, getUniswap } from '@/lib/chains/registry';
 
-// Network configurations
-const NETWORKS = {
-  baseSepolia: {
-    name: 'Base Sepolia',
-    chainId: 84532,
-    weth: '0x4200000000000000000000000000000000000006',
-    usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
-    swapRouter: '0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4',
-  },
-  arbitrumSepolia: {
-    name: 'Arbitrum Sepolia',
-    chainId: 421614,
-    weth: '0x980B62Da83eFf3D4576C647993b0c1D7faf17c73',
-    usdc: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
-    swapRouter: '0x101F443B4d1b059569D643917553c771E1b9663E',
-  },
+type TestNetwork = 'baseSepolia' | 'arbitrumSepolia';
+
+// Network configurations (lib/chains/registry.ts)
+function networkConfig(name: TestNetwork) {
+  const chain = getChain(name);
+  return {
+    name: chain.displayName,
+    chainId: chain.chainId,
+    weth: getToken(name, 'WETH').address,
+    usdc: getToken(name, 'USDC').address,
+    swapRouter: getUniswap(name).swapRouter,
+  };
+}
+
+const NETWORKS: Record<TestNetwork, ReturnType<typeof networkConfig>> = {
+  baseSepolia: networkConfig('baseSepolia'),
+  arbitrumSepolia: networkConfig('arbitrumSepolia'),
 };
 
 // Fee tiers
@@ -44,7 +46,7 @@ export default function TestArbPage() {
   });
 
   // Form state
-  const [network, setNetwork] = useState<'baseSepolia' | 'arbitrumSepolia'>('baseSepolia');
+  const [network, setNetwork] = useState<TestNetwork>('baseSepolia');
   const [tokenInAddress, setTokenInAddress] = useState('');
   const [tokenOutAddress, setTokenOutAddress] = useState('');
   const [feeBuy, setFeeBuy] = useState(3000);
@@ -56,7 +58,7 @@ export default function TestArbPage() {
   const [error, setError] = useState('');
 
   // Auto-fill function
-  const autoFillNetwork = (net: 'baseSepolia' | 'arbitrumSepolia') => {
+  const autoFillNetwork = (net: TestNetwork) => {
     setNetwork(net);
     const config = NETWORKS[net];
     setTokenInAddress(config.weth);
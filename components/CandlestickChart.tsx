@@ -3,6 +3,8 @@
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import { TrendingUp, TrendingDown, BarChart3, Crosshair, Minus, Type, Circle, LineChart, AreaChart } from "lucide-react";
+import { createRng } from "@/lib/prices/simulated-market";
+import { SourceBadge } from "@/components/SourceBadge";
 
 interface CandleData {
   time: number;
@@ -17,10 +19,13 @@ interface CandlestickChartProps {
   prices: any;
   loading: boolean;
   onPriceUpdate?: (basePrice: number, arbitrumPrice: number) => void;
+  seed?: number;                  // Seed for the synthetic candles (same seed, same chart)
 }
 
+const DEFAULT_CHART_SEED = 42;
+
 // Generate realistic continuous candle data
-function generateInitialCandles(count: number, basePrice: number = 2925): CandleData[] {
+function generateInitialCandles(rng: () => number, count: number, basePrice: number = 2925): CandleData[] {
   const candles: CandleData[] = [];
   let lastClose = basePrice;
   
@@ -28,42 +33,42 @@ function generateInitialCandles(count: number, basePrice: number = 2925): Candle
   const interval = 60; // 1 minute candles
   
   let trend = 0;
-  let trendStrength = Math.random() * 0.0005;
-  let trendDuration = Math.floor(Math.random() * 15) + 10;
+  let trendStrength = rng() * 0.0005;
+  let trendDuration = Math.floor(rng() * 15) + 10;
   let trendCounter = 0;
   
   for (let i = 0; i < count; i++) {
     const time = now - (count - i) * interval;
     
     if (trendCounter >= trendDuration) {
-      trend = Math.random() > 0.5 ? 1 : -1;
-      trendStrength = Math.random() * 0.0005 + 0.0002;
-      trendDuration = Math.floor(Math.random() * 15) + 10;
+      trend = rng() > 0.5 ? 1 : -1;
+      trendStrength = rng() * 0.0005 + 0.0002;
+      trendDuration = Math.floor(rng() * 15) + 10;
       trendCounter = 0;
     }
     
     const volatility = basePrice * 0.0012;
-    const randomChange = (2 * Math.random() - 1) * volatility;
+    const randomChange = (2 * rng() - 1) * volatility;
     const trendChange = trend * trendStrength * basePrice;
     
     const open = lastClose;
     const close = open + randomChange + trendChange;
     
-    const wickSize = volatility * (Math.random() * 0.8 + 0.2);
-    const highWick = Math.random() * wickSize;
-    const lowWick = Math.random() * wickSize;
+    const wickSize = volatility * (rng() * 0.8 + 0.2);
+    const highWick = rng() * wickSize;
+    const lowWick = rng() * wickSize;
     
     const high = Math.max(open, close) + highWick;
     const low = Math.min(open, close) - lowWick;
     
     const priceChange = Math.abs(close - open);
     const changeRatio = priceChange / basePrice;
-    const baseVolume = 10000 + Math.random() * 90000;
+    const baseVolume = 10000 + rng() * 90000;
     const volumeMultiplier = 1 + (changeRatio * 100);
     const volume = Math.floor(baseVolume * volumeMultiplier);
     
-    const hasSpike = Math.random() < 0.05;
-    const finalVolume = hasSpike ? volume * (Math.random() * 3 + 2) : volume;
+    const hasSpike = rng() < 0.05;
+    const finalVolume = hasSpike ? volume * (rng() * 3 + 2) : volume;
     
     candles.push({
       time,
@@ -98,13 +103,18 @@ function formatLiquidity(value: string): string {
   }
 }
 
-export function CandlestickChart({ prices, loading, onPriceUpdate }: CandlestickChartProps) {
+/**
+ * Candles are synthetic (a seeded walk started from the feed price), so both
+ * charts are always badged as simulated.
+ */
+export function CandlestickChart({ prices, loading, onPriceUpdate, seed = DEFAULT_CHART_SEED }: CandlestickChartProps) {
   const arbitrumPrice = prices?.arbitrum?.price || 2925;
   // Cap base price between 3000 and 3002
   const basePrice = Math.max(3000, Math.min(3002, prices?.base?.price || 3001));
   
-  const [arbitrumCandles, setArbitrumCandles] = useState<CandleData[]>(() => generateInitialCandles(50, arbitrumPrice));
-  const [baseCandles, setBaseCandles] = useState<CandleData[]>(() => generateInitialCandles(50, basePrice));
+  const [rng] = useState(() => createRng(seed));
+  const [arbitrumCandles, setArbitrumCandles] = useState<CandleData[]>(() => generateInitialCandles(rng, 50, arbitrumPrice));
+  const [baseCandles, setBaseCandles] = useState<CandleData[]>(() => generateInitialCandles(rng, 50, basePrice));
   
   const [activeTimeframe, setActiveTimeframe] = useState("1h");
   const [chartType, setChartType] = useState<'candlestick' | 'line' | 'area'>('candlestick');
@@ -142,9 +152,9 @@ export function CandlestickChart({ prices, loading, onPriceUpdate }: Candlestick
   useEffect(() => {
     if (!prices) return;
     
-    let marketTrend = Math.random() > 0.5 ? 1 : -1;
-    let trendStrength = Math.random() * 0.0001 + 0.00005; // Further reduced for gradual changes
-    let trendDuration = Math.floor(Math.random() * 3) + 2; // Shorter duration (2-4 updates)
+    let marketTrend = rng() > 0.5 ? 1 : -1;
+    let trendStrength = rng() * 0.0001 + 0.00005; // Further reduced for gradual changes
+    let trendDuration = Math.floor(rng() * 3) + 2; // Shorter duration (2-4 updates)
     let trendCounter = 0;
     let volatilityBase = 0.0003; // Further reduced for very gradual changes
     let volatilityMultiplier = 1;
@@ -152,12 +162,12 @@ export function CandlestickChart({ prices, loading, onPriceUpdate }: Candlestick
     const interval = setInterval(() => {
       if (trendCounter >= trendDuration) {
         // Higher chance to reverse direction for more alternating movement
-        if (Math.random() < 0.85) {
+        if (rng() < 0.85) {
           marketTrend *= -1;
         }
         
-        trendStrength = Math.random() * 0.0001 + 0.00005; // Further reduced for gradual changes
-        trendDuration = Math.floor(Math.random() * 3) + 2; // Shorter duration (2-4 updates)
+        trendStrength = rng() * 0.0001 + 0.00005; // Further reduced for gradual changes
+        trendDuration = Math.floor(rng() * 3) + 2; // Shorter duration (2-4 updates)
         trendCounter = 0;
         
         // Removed volatility multiplier spikes for smoother movement
@@ -170,7 +180,7 @@ export function CandlestickChart({ prices, loading, onPriceUpdate }: Candlestick
         const now = Math.floor(Date.now() / 1000);
         
         const effectiveVolatility = volatilityBase * volatilityMultiplier;
-        const randomFactor = (Math.random() - 0.5) * 2;
+        const randomFactor = (rng() - 0.5) * 2;
         const trendInfluence = marketTrend * trendStrength;
         const netChange = lastCandle.close * (randomFactor * effectiveVolatility + trendInfluence);
         
@@ -183,19 +193,19 @@ export function CandlestickChart({ prices, loading, onPriceUpdate }: Candlestick
           volume: 0
         };
         
-        const wickSizeMultiplier = 0.3 + (Math.random() * 0.4); // Reduced wick size
-        const highWick = Math.random() * lastCandle.close * effectiveVolatility * wickSizeMultiplier;
-        const lowWick = Math.random() * lastCandle.close * effectiveVolatility * wickSizeMultiplier;
+        const wickSizeMultiplier = 0.3 + (rng() * 0.4); // Reduced wick size
+        const highWick = rng() * lastCandle.close * effectiveVolatility * wickSizeMultiplier;
+        const lowWick = rng() * lastCandle.close * effectiveVolatility * wickSizeMultiplier;
         
         newCandle.high = Number((Math.max(newCandle.open, newCandle.close) + highWick).toFixed(2));
         newCandle.low = Number((Math.min(newCandle.open, newCandle.close) - lowWick).toFixed(2));
         
         const priceChangePercent = Math.abs(newCandle.close - newCandle.open) / newCandle.open;
-        const baseVolume = 400000 + Math.random() * 800000;
+        const baseVolume = 400000 + rng() * 800000;
         const volumeMultiplier = 1 + (priceChangePercent * 50); // Reduced from 200 to 50
         
-        const hasSpike = trendCounter === 0 || Math.random() < 0.05; // Reduced spike frequency
-        newCandle.volume = Math.floor(baseVolume * volumeMultiplier * (hasSpike ? (Math.random() * 1.3 + 1) : 1)); // Reduced spike size
+        const hasSpike = trendCounter === 0 || rng() < 0.05; // Reduced spike frequency
+        newCandle.volume = Math.floor(baseVolume * volumeMultiplier * (hasSpike ? (rng() * 1.3 + 1) : 1)); // Reduced spike size
         
         const newCandles = [...prev.slice(-49), newCandle];
         
@@ -219,7 +229,7 @@ export function CandlestickChart({ prices, loading, onPriceUpdate }: Candlestick
         const now = Math.floor(Date.now() / 1000);
         
         const effectiveVolatility = volatilityBase * volatilityMultiplier;
-        const randomFactor = (Math.random() - 0.5) * 2;
+        const randomFactor = (rng() - 0.5) * 2;
         const trendInfluence = marketTrend * trendStrength;
         const netChange = lastCandle.close * (randomFactor * effectiveVolatility + trendInfluence);
         
@@ -236,9 +246,9 @@ export function CandlestickChart({ prices, loading, onPriceUpdate }: Candlestick
           volume: 0
         };
         
-        const wickSizeMultiplier = 0.3 + (Math.random() * 0.4); // Reduced wick size
-        const highWick = Math.random() * lastCandle.close * effectiveVolatility * wickSizeMultiplier;
-        const lowWick = Math.random() * lastCandle.close * effectiveVolatility * wickSizeMultiplier;
+        const wickSizeMultiplier = 0.3 + (rng() * 0.4); // Reduced wick size
+        const highWick = rng() * lastCandle.close * effectiveVolatility * wickSizeMultiplier;
+        const lowWick = rng() * lastCandle.close * effectiveVolatility * wickSizeMultiplier;
         
         // Cap high and low within the 3000-3002 range
         const uncappedHigh = Math.max(newCandle.open, newCandle.close) + highWick;
@@ -248,11 +258,11 @@ export function CandlestickChart({ prices, loading, onPriceUpdate }: Candlestick
         newCandle.low = Number(Math.max(3000, uncappedLow).toFixed(2));
         
         const priceChangePercent = Math.abs(newCandle.close - newCandle.open) / newCandle.open;
-        const baseVolume = 400000 + Math.random() * 800000;
+        const baseVolume = 400000 + rng() * 800000;
         const volumeMultiplier = 1 + (priceChangePercent * 50); // Reduced from 200 to 50
         
-        const hasSpike = trendCounter === 0 || Math.random() < 0.05; // Reduced spike frequency
-        newCandle.volume = Math.floor(baseVolume * volumeMultiplier * (hasSpike ? (Math.random() * 1.3 + 1) : 1)); // Reduced spike size
+        const hasSpike = trendCounter === 0 || rng() < 0.05; // Reduced spike frequency
+        newCandle.volume = Math.floor(baseVolume * volumeMultiplier * (hasSpike ? (rng() * 1.3 + 1) : 1)); // Reduced spike size
         
         const newCandles = [...prev.slice(-49), newCandle];
         
@@ -273,7 +283,7 @@ export function CandlestickChart({ prices, loading, onPriceUpdate }: Candlestick
     }, 2000);
 
     return () => clearInterval(interval);
-  }, [prices]);
+  }, [prices, rng]);
 
   const timeframes = ["1m", "5m", "15m", "1h", "4h", "D", "W"];
   const tools = [
@@ -297,6 +307,7 @@ export function CandlestickChart({ prices, loading, onPriceUpdate }: Candlestick
             <div className="flex items-center space-x-3">
               <div className="w-6 h-6 bg-gradient-to-br from-yellow-400 to-yellow-900 rounded-full"></div>
               <span className="text-lg font-light text-yellow-400">Arbitrum</span>
+              <SourceBadge source="simulated" title={`Synthetic candles (seed ${seed})`} />
             </div>
             <div className="flex items-center gap-2">
               <span className="text-gray-400 text-xs font-light tracking-wider">Mark Price:</span>
@@ -372,6 +383,7 @@ export function CandlestickChart({ prices, loading, onPriceUpdate }: Candlestick
             <div className="flex items-center space-x-3">
               <div className="w-6 h-6 bg-gradient-to-br from-cyan-400 to-blue-900 rounded-full"></div>
               <span className="text-lg font-light text-cyan-800">Base</span>
+              <SourceBadge source="simulated" title={`Synthetic candles (seed ${seed})`} />
             </div>
             <div className="flex items-center gap-2">
               <span className="text-gray-400 text-xs font-light tracking-wider">Mark Price:</span>
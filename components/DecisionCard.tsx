@@ -0,0 +1,125 @@
+'use client';
+
+import type { DecideResponse } from '@/app/api/decide/route';
+
+interface DecisionCardProps {
+  response: DecideResponse;
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<DecideResponse['decision']['source'], string> = {
+  'early-exit': 'Rule exit',
+  model: 'AI model',
+  fallback: 'Fallback rules',
+};
+
+function shortHash(hash?: string) {
+  return hash ? `${hash.slice(0, 12)}…` : '—';
+}
+
+export function DecisionCard({ response, className = "" }: DecisionCardProps) {
+  const { decision, trace, validationErrors } = response;
+  const execute = decision.decision === 'EXECUTE';
+
+  return (
+    <div className={`glass-light rounded-xl p-3 space-y-3 ${className}`}>
+      <div className="flex justify-between items-center">
+        <span className={`text-sm font-medium ${execute ? 'text-green-400' : 'text-red-400'}`}>
+          {decision.decision}
+        </span>
+        <div className="flex items-center gap-2">
+          {response.policy && (
+            <span className="text-xs text-zinc-500 font-light">
+              {response.policy.name} v{response.policy.version}
+            </span>
+          )}
+          <span className="text-xs px-2 py-0.5 rounded-full bg-white/10 text-zinc-300 font-light">
+            {SOURCE_LABELS[decision.source]}
+          </span>
+          <span className="text-xs text-zinc-400 font-mono">
+            {(decision.confidence * 100).toFixed(0)}%
+          </span>
+        </div>
+      </div>
+
+      <div className="text-xs text-zinc-300 font-light">{decision.reason}</div>
+
+      {validationErrors && validationErrors.length > 0 && (
+        <div className="text-xs text-yellow-400 font-light">
+          Model output rejected: {validationErrors.join('; ')}
+        </div>
+      )}
+
+      {trace && (
+        <details className="text-xs">
+          <summary className="cursor-pointer text-zinc-400 uppercase tracking-wider font-light">
+            Audit trail · {trace.totalLatencyMs}ms
+          </summary>
+
+          <div className="mt-3 space-y-3">
+            {/* Rules evaluated, in order */}
+            <div>
+              <div className="text-zinc-500 uppercase mb-1 tracking-wider">Rules</div>
+              <div className="space-y-1">
+                {trace.rules.map(rule => (
+                  <div key={rule.rule} className="flex justify-between gap-2">
+                    <span className="text-zinc-300 font-light" title={rule.description}>
+                      {rule.rule}
+                      <span className="text-zinc-500 font-mono ml-2">
+                        {Object.entries(rule.inputs).map(([k, v]) => `${k}=${typeof v === 'number' ? +v.toFixed(4) : v}`).join(' ')}
+                      </span>
+                    </span>
+                    <span className={rule.outcome === 'triggered' ? 'text-yellow-400' : 'text-zinc-500'}>
+                      {rule.outcome}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Risk signal provenance */}
+            <div>
+              <div className="text-zinc-500 uppercase mb-1 tracking-wider">Risk Signals</div>
+              <div className="grid grid-cols-2 gap-1">
+                {trace.riskSignals.map(signal => (
+                  <div key={signal.signal} className="flex justify-between">
+                    <span className="text-zinc-400 font-light">{signal.signal}</span>
+                    <span className="text-zinc-300 font-mono">
+                      {signal.value} <span className="text-zinc-500">({signal.source})</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Model call fingerprint */}
+            {trace.model && (
+              <div>
+                <div className="text-zinc-500 uppercase mb-1 tracking-wider">Model</div>
+                <div className="space-y-1 font-mono text-zinc-300">
+                  <div>{trace.model.provider} / {trace.model.model}</div>
+                  <div>prompt {shortHash(trace.model.promptHash)}</div>
+                  <div>response {shortHash(trace.model.responseHash)}</div>
+                  {trace.model.error && <div className="text-red-400">{trace.model.error}</div>}
+                </div>
+              </div>
+            )}
+
+            {/* Per-stage latency */}
+            <div>
+              <div className="text-zinc-500 uppercase mb-1 tracking-wider">Latency</div>
+              <div className="space-y-1">
+                {trace.stages.map((stage, i) => (
+                  <div key={i} className="flex justify-between">
+                    <span className="text-zinc-400 font-light">{stage.stage}</span>
+                    <span className="text-zinc-300 font-mono">{stage.latencyMs}ms</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
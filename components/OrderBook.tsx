@@ -1,10 +1,13 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { createRng } from '@/lib/prices/simulated-market';
+import { SourceBadge } from '@/components/SourceBadge';
 
 interface OrderBookProps {
   prices: any;
   className?: string;
+  seed?: number;                  // Seed for the synthetic entries
 }
 
 interface OrderBookEntry {
@@ -13,7 +16,9 @@ interface OrderBookEntry {
   total: number;
 }
 
-export function OrderBook({ prices, className = "" }: OrderBookProps) {
+/** Entries are synthetic (seeded), so the panel is always badged as simulated. */
+export function OrderBook({ prices, className = "", seed = 42 }: OrderBookProps) {
+  const [rng] = useState(() => createRng(seed));
   const [orderBook, setOrderBook] = useState<{
     bids: OrderBookEntry[];
     asks: OrderBookEntry[];
@@ -36,8 +41,8 @@ export function OrderBook({ prices, className = "" }: OrderBookProps) {
     const bids: OrderBookEntry[] = [];
     let totalBid = 0;
     for (let i = 0; i < 10; i++) {
-      const price = midPrice - (i + 1) * 0.001 - Math.random() * 0.002;
-      const size = Math.random() * 1000 + 100;
+      const price = midPrice - (i + 1) * 0.001 - rng() * 0.002;
+      const size = rng() * 1000 + 100;
       totalBid += size;
       bids.push({
         price,
@@ -50,8 +55,8 @@ export function OrderBook({ prices, className = "" }: OrderBookProps) {
     const asks: OrderBookEntry[] = [];
     let totalAsk = 0;
     for (let i = 0; i < 10; i++) {
-      const price = midPrice + (i + 1) * 0.001 + Math.random() * 0.002;
-      const size = Math.random() * 1000 + 100;
+      const price = midPrice + (i + 1) * 0.001 + rng() * 0.002;
+      const size = rng() * 1000 + 100;
       totalAsk += size;
       asks.unshift({
         price,
@@ -65,7 +70,7 @@ export function OrderBook({ prices, className = "" }: OrderBookProps) {
       asks,
       spread: asks[0]?.price - bids[0]?.price || 0
     });
-  }, [prices]);
+  }, [prices, rng]);
 
   if (!prices) {
     return (
@@ -80,7 +85,10 @@ export function OrderBook({ prices, className = "" }: OrderBookProps) {
       {/* Header */}
       <div className="p-4 border-b border-gray-800">
         <div className="flex justify-between items-center">
-          <h3 className="text-sm font-semibold text-white">Order Book</h3>
+          <div className="flex items-center gap-2">
+            <h3 className="text-sm font-semibold text-white">Order Book</h3>
+            <SourceBadge source="simulated" title={`Synthetic entries (seed ${seed})`} />
+          </div>
           <div className="flex items-center gap-2 text-xs">
             <div className="text-gray-400">Spread</div>
             <div className="text-red-400 font-mono">
@@ -0,0 +1,31 @@
+'use client';
+
+import type { DataSource } from '@/lib/prices/simulated-market';
+
+interface SourceBadgeProps {
+  source?: DataSource;
+  title?: string;
+  className?: string;
+}
+
+const SOURCE_STYLES: Record<Exclude<DataSource, 'onchain'>, { label: string; className: string }> = {
+  simulated: { label: 'Simulated', className: 'bg-yellow-500/15 text-yellow-300 border-yellow-500/30' },
+  replay: { label: 'Replay', className: 'bg-purple-500/15 text-purple-300 border-purple-500/30' },
+};
+
+/**
+ * Marks data that did not come from a live chain. Renders nothing for onchain data.
+ */
+export function SourceBadge({ source, title, className = "" }: SourceBadgeProps) {
+  if (!source || source === 'onchain') return null;
+  const style = SOURCE_STYLES[source];
+
+  return (
+    <span
+      className={`text-[10px] uppercase tracking-wider px-2 py-0.5 rounded-full border font-light ${style.className} ${className}`}
+      title={title}
+    >
+      {style.label}
+    </span>
+  );
+}
@@ -1,10 +1,13 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { createRng } from '@/lib/prices/simulated-market';
+import { SourceBadge } from '@/components/SourceBadge';
 
 interface TradeHistoryProps {
   prices: any;
   className?: string;
+  seed?: number;                  // Seed for the synthetic entries
 }
 
 interface Trade {
@@ -16,7 +19,9 @@ interface Trade {
   chain: 'base' | 'arbitrum';
 }
 
-export function TradeHistory({ prices, className = "" }: TradeHistoryProps) {
+/** Entries are synthetic (seeded), so the panel is always badged as simulated. */
+export function TradeHistory({ prices, className = "", seed = 42 }: TradeHistoryProps) {
+  const [rng] = useState(() => createRng(seed));
   const [trades, setTrades] = useState<Trade[]>([]);
 
   // Generate mock trade history based on price updates
@@ -27,14 +32,14 @@ export function TradeHistory({ prices, className = "" }: TradeHistoryProps) {
     const newTrade: Trade = {
       id: Date.now().toString(),
       timestamp: new Date().toLocaleTimeString(),
-      price: Math.random() > 0.5 ? prices.base.price : prices.arbitrum.price,
-      size: Math.random() * 10 + 0.1,
-      side: Math.random() > 0.5 ? 'buy' : 'sell',
-      chain: Math.random() > 0.5 ? 'base' : 'arbitrum'
+      price: rng() > 0.5 ? prices.base.price : prices.arbitrum.price,
+      size: rng() * 10 + 0.1,
+      side: rng() > 0.5 ? 'buy' : 'sell',
+      chain: rng() > 0.5 ? 'base' : 'arbitrum'
     };
 
     setTrades(prev => [newTrade, ...prev.slice(0, 19)]); // Keep only last 20 trades
-  }, [prices]);
+  }, [prices, rng]);
 
   // Generate initial mock data
   useEffect(() => {
@@ -46,15 +51,15 @@ export function TradeHistory({ prices, className = "" }: TradeHistoryProps) {
       initialTrades.push({
         id: `initial-${i}`,
         timestamp: tradeTime.toLocaleTimeString(),
-        price: 44.4 + (Math.random() - 0.5) * 0.2,
-        size: Math.random() * 5 + 0.5,
-        side: Math.random() > 0.5 ? 'buy' : 'sell',
-        chain: Math.random() > 0.5 ? 'base' : 'arbitrum'
+        price: 44.4 + (rng() - 0.5) * 0.2,
+        size: rng() * 5 + 0.5,
+        side: rng() > 0.5 ? 'buy' : 'sell',
+        chain: rng() > 0.5 ? 'base' : 'arbitrum'
       });
     }
     
     setTrades(initialTrades);
-  }, []);
+  }, [rng]);
 
   if (!prices) {
     return (
@@ -68,7 +73,10 @@ export function TradeHistory({ prices, className = "" }: TradeHistoryProps) {
     <div className={`bg-gray-900/50 backdrop-blur-sm border border-gray-800 rounded-xl ${className}`}>
       {/* Header */}
       <div className="p-4 border-b border-gray-800">
-        <h3 className="text-sm font-semibold text-white">Recent Trades</h3>
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-semibold text-white">Recent Trades</h3>
+          <SourceBadge source="simulated" title={`Synthetic entries (seed ${seed})`} />
+        </div>
       </div>
 
       {/* Trade Headers */}
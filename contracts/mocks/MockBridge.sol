@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IERC20Transfer {
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+/// @notice Intent-style bridge for local chains, modeled on Across: deposits are
+///         locked on the origin chain and a relayer fills them on the destination
+///         out of its own funds. One contract is deployed per chain.
+contract MockBridge {
+
+    uint256 public immutable feeBps;
+    uint256 public depositCount;
+
+    // keccak256(originChainId, depositId) => amount filled (0 = unfilled)
+    mapping(bytes32 => uint256) public filledAmount;
+
+    event FundsDeposited(
+        uint256 indexed depositId,
+        address indexed depositor,
+        address recipient,
+        address inputToken,
+        address outputToken,
+        uint256 inputAmount,
+        uint256 outputAmount,
+        uint256 destinationChainId
+    );
+    event RelayFilled(
+        uint256 indexed originChainId,
+        uint256 indexed depositId,
+        address recipient,
+        address outputToken,
+        uint256 outputAmount,
+        address relayer
+    );
+
+    constructor(uint256 _feeBps) {
+        require(_feeBps < 10000, "Fee too high");
+        feeBps = _feeBps;
+    }
+
+    function deposit(
+        address inputToken,
+        address outputToken,
+        uint256 inputAmount,
+        address recipient,
+        uint256 destinationChainId
+    ) external returns (uint256 depositId) {
+        require(inputAmount > 0, "Zero amount");
+        IERC20Transfer(inputToken).transferFrom(msg.sender, address(this), inputAmount);
+
+        depositId = depositCount++;
+        uint256 outputAmount = inputAmount - (inputAmount * feeBps) / 10000;
+
+        emit FundsDeposited(
+            depositId,
+            msg.sender,
+            recipient,
+            inputToken,
+            outputToken,
+            inputAmount,
+            outputAmount,
+            destinationChainId
+        );
+    }
+
+    function fill(
+        uint256 originChainId,
+        uint256 depositId,
+        address outputToken,
+        address recipient,
+        uint256 outputAmount
+    ) external {
+        require(outputAmount > 0, "Zero amount");
+        bytes32 key = fillKey(originChainId, depositId);
+        require(filledAmount[key] == 0, "Already filled");
+
+        filledAmount[key] = outputAmount;
+        IERC20Transfer(outputToken).transferFrom(msg.sender, recipient, outputAmount);
+
+        emit RelayFilled(originChainId, depositId, recipient, outputToken, outputAmount, msg.sender);
+    }
+
+    function fillKey(uint256 originChainId, uint256 depositId) public pure returns (bytes32) {
+        return keccak256(abi.encode(originChainId, depositId));
+    }
+}
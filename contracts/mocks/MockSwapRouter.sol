@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IERC20Transfer {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+/// @notice Uniswap V3 SwapRouter stand-in for local chains: exactInputSingle at a
+///         fixed rate, paid out of the router's own token balance
+contract MockSwapRouter {
+
+    struct ExactInputSingleParams {
+        address tokenIn;
+        address tokenOut;
+        uint24 fee;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+        uint160 sqrtPriceLimitX96;
+    }
+
+    // amountOut = amountIn * rate / 1e18 (rate includes any decimals difference)
+    mapping(address => mapping(address => uint256)) public rates;
+
+    event RateSet(address indexed tokenIn, address indexed tokenOut, uint256 rate);
+
+    function setRate(address tokenIn, address tokenOut, uint256 rate) external {
+        rates[tokenIn][tokenOut] = rate;
+        emit RateSet(tokenIn, tokenOut, rate);
+    }
+
+    function exactInputSingle(
+        ExactInputSingleParams calldata params
+    ) external payable returns (uint256 amountOut) {
+        require(block.timestamp <= params.deadline, "Transaction too old");
+        uint256 rate = rates[params.tokenIn][params.tokenOut];
+        require(rate > 0, "No rate");
+
+        amountOut = (params.amountIn * rate) / 1e18;
+        require(amountOut >= params.amountOutMinimum, "Too little received");
+
+        IERC20Transfer(params.tokenIn).transferFrom(msg.sender, address(this), params.amountIn);
+        IERC20Transfer(params.tokenOut).transfer(params.recipient, amountOut);
+    }
+}
@@ -2,10 +2,12 @@ import {
   calculateAcrossBridgeFees,
   calculateAcrossBridgeSlippage
 } from '../services/gasFeeService.js';
+import { getReferenceEthPrice } from '../lib/prices/reference-price';
 
 /**
  * Utility function to get bridging fees for ETH from Base to Arbitrum using Across Protocol
  * @param {string} amount - Amount of ETH to bridge (e.g., "0.1")
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Promise<Object>} Bridge fee details including relayer fees, gas costs, and expected output
  * 
  * Example usage:
@@ -16,13 +18,13 @@ import {
  * console.log(`Gas Cost: ${fees.gasCostEth} ETH ($${fees.gasCostUsd})`);
  * console.log(`Total Fees: ${fees.totalFeesEth} ETH ($${fees.totalFeesUsd})`);
  */
-export async function getBridgingFees(amount) {
+export async function getBridgingFees(amount, referencePrice) {
   try {
     if (!amount || parseFloat(amount) <= 0) {
       throw new Error('Invalid amount: must be a positive number');
     }
 
-    const bridgeFees = await calculateAcrossBridgeFees(amount);
+    const bridgeFees = await calculateAcrossBridgeFees(amount, referencePrice);
     
     return {
       protocol: bridgeFees.protocol,
@@ -36,10 +38,13 @@ export async function getBridgingFees(amount) {
       },
       gasCostEth: bridgeFees.fees.gasFee.gasCostEth,
       gasCostUsd: bridgeFees.fees.gasFee.gasCostUsd,
+      l2ExecutionCostUsd: bridgeFees.fees.gasFee.l2ExecutionCostUsd,
+      l1DataFeeUsd: bridgeFees.fees.gasFee.l1DataFeeUsd,
       gasPrice: bridgeFees.fees.gasFee.gasPrice,
       totalFeesEth: bridgeFees.fees.totalFees.eth,
       totalFeesUsd: bridgeFees.fees.totalFees.usd,
       estimatedTime: bridgeFees.estimatedTime,
+      referencePrice: bridgeFees.referencePrice,
       timestamp: bridgeFees.timestamp
     };
   } catch (error) {
@@ -50,6 +55,7 @@ export async function getBridgingFees(amount) {
 /**
  * Utility function to get detailed slippage analysis for bridging ETH from Base to Arbitrum
  * @param {string} amount - Amount of ETH to bridge (e.g., "0.1")
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Promise<Object>} Detailed slippage breakdown including LP fees, relayer fees, and capital costs
  * 
  * Example usage:
@@ -58,13 +64,13 @@ export async function getBridgingFees(amount) {
  * console.log(`LP Fee: ${slippage.lpFee.percentage}`);
  * console.log(`Expected Output: ${slippage.expectedOutputEth} ETH`);
  */
-export async function getBridgingSlippage(amount) {
+export async function getBridgingSlippage(amount, referencePrice) {
   try {
     if (!amount || parseFloat(amount) <= 0) {
       throw new Error('Invalid amount: must be a positive number');
     }
 
-    const slippageData = await calculateAcrossBridgeSlippage(amount);
+    const slippageData = await calculateAcrossBridgeSlippage(amount, referencePrice);
     
     return {
       protocol: slippageData.protocol,
@@ -100,6 +106,7 @@ export async function getBridgingSlippage(amount) {
       priceImpact: slippageData.priceImpact,
       estimatedTime: slippageData.estimatedTime,
       dataSource: slippageData.dataSource,
+      referencePrice: slippageData.referencePrice,
       timestamp: slippageData.timestamp
     };
   } catch (error) {
@@ -110,6 +117,7 @@ export async function getBridgingSlippage(amount) {
 /**
  * Utility function to get comprehensive bridging information (fees + slippage)
  * @param {string} amount - Amount of ETH to bridge (e.g., "0.1")
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Promise<Object>} Complete bridging information including fees and slippage analysis
  * 
  * Example usage:
@@ -118,16 +126,17 @@ export async function getBridgingSlippage(amount) {
  * console.log(`Total Fees: ${info.totalFeesEth} ETH ($${info.totalFeesUsd})`);
  * console.log(`Total Slippage: ${info.totalSlippagePercentage}`);
  */
-export async function getCompleteBridgingInfo(amount) {
+export async function getCompleteBridgingInfo(amount, referencePrice) {
   try {
     if (!amount || parseFloat(amount) <= 0) {
       throw new Error('Invalid amount: must be a positive number');
     }
 
-    // Fetch both fees and slippage data in parallel
+    // Fetch both fees and slippage data in parallel, priced with the same ETH price
+    const reference = referencePrice ?? await getReferenceEthPrice();
     const [fees, slippage] = await Promise.all([
-      getBridgingFees(amount),
-      getBridgingSlippage(amount)
+      getBridgingFees(amount, reference),
+      getBridgingSlippage(amount, reference)
     ]);
 
     return {
@@ -152,6 +161,7 @@ export async function getCompleteBridgingInfo(amount) {
         }
       },
       estimatedTime: fees.estimatedTime,
+      referencePrice: reference,
       timestamp: new Date().toISOString()
     };
   } catch (error) {
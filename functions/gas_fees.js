@@ -3,23 +3,25 @@ import {
   calculateArbitrumSwapGasFees,
   calculateArbitrumWithdrawGasFees
 } from '@/services/gasFeeService';
+import { getReferenceEthPrice } from '@/lib/prices/reference-price';
 
 /**
  * Utility function to get gas fees for depositing ETH to Base L2
  * @param {string} amount - Amount of ETH to deposit (e.g., "0.1")
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Promise<Object>} Gas fee details including cost in ETH and USD
  * 
  * Example usage:
  * const fees = await getBaseDepositGasFees("0.1");
  * console.log(`Gas cost: ${fees.gasCostEth} ETH ($${fees.gasCostUsd})`);
  */
-export async function getBaseDepositGasFees(amount) {
+export async function getBaseDepositGasFees(amount, referencePrice) {
   try {
     if (!amount || parseFloat(amount) <= 0) {
       throw new Error('Invalid amount: must be a positive number');
     }
 
-    const gasFees = await calculateBaseDepositGasFees(amount);
+    const gasFees = await calculateBaseDepositGasFees(amount, referencePrice);
     
     return {
       operation: 'Deposit ETH to Base',
@@ -31,6 +33,7 @@ export async function getBaseDepositGasFees(amount) {
       gasCostEth: gasFees.gasCostEth,
       gasCostUsd: gasFees.gasCostUsd,
       eip1559: gasFees.eip1559,
+      referencePrice: gasFees.referencePrice,
       timestamp: gasFees.timestamp
     };
   } catch (error) {
@@ -42,6 +45,7 @@ export async function getBaseDepositGasFees(amount) {
  * Utility function to get gas fees for swapping ETH to USDC on Arbitrum chain
  * @param {string} amount - Amount of ETH to swap (e.g., "0.1")
  * @param {number} feeTier - Fee tier (optional, default: 3000) - Valid values: 500, 3000, 10000
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Promise<Object>} Gas fee details including cost and expected output
  * 
  * Example usage:
@@ -49,7 +53,7 @@ export async function getBaseDepositGasFees(amount) {
  * console.log(`Gas cost: ${fees.gasCostEth} ETH ($${fees.gasCostUsd})`);
  * console.log(`Expected output: ${fees.expectedOutput} USDC`);
  */
-export async function getArbitrumSwapGasFees(amount, feeTier = 3000) {
+export async function getArbitrumSwapGasFees(amount, feeTier = 3000, referencePrice) {
   try {
     if (!amount || parseFloat(amount) <= 0) {
       throw new Error('Invalid amount: must be a positive number');
@@ -59,7 +63,7 @@ export async function getArbitrumSwapGasFees(amount, feeTier = 3000) {
       throw new Error('Invalid feeTier: must be 500, 3000, or 10000');
     }
 
-    const gasFees = await calculateArbitrumSwapGasFees(amount, feeTier);
+    const gasFees = await calculateArbitrumSwapGasFees(amount, feeTier, referencePrice);
     
     return {
       operation: 'Swap ETH to USDC on Arbitrum',
@@ -74,7 +78,11 @@ export async function getArbitrumSwapGasFees(amount, feeTier = 3000) {
       gasPrice: gasFees.gasPrice,
       gasCostEth: gasFees.gasCostEth,
       gasCostUsd: gasFees.gasCostUsd,
+      l2ExecutionCostUsd: gasFees.l2ExecutionCostUsd,
+      l1DataFeeUsd: gasFees.l1DataFeeUsd,
+      l1DataFee: gasFees.l1DataFee,
       eip1559: gasFees.eip1559,
+      referencePrice: gasFees.referencePrice,
       timestamp: gasFees.timestamp
     };
   } catch (error) {
@@ -85,6 +93,7 @@ export async function getArbitrumSwapGasFees(amount, feeTier = 3000) {
 /**
  * Utility function to get gas fees for withdrawing ETH/USDC from Arbitrum chain
  * @param {string} amount - Amount of ETH to withdraw (e.g., "0.1")
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Promise<Object>} Gas fee details including cost in ETH and USD
  * 
  * Example usage:
@@ -92,13 +101,13 @@ export async function getArbitrumSwapGasFees(amount, feeTier = 3000) {
  * console.log(`Gas cost: ${fees.gasCostEth} ETH ($${fees.gasCostUsd})`);
  * console.log(`Note: ${fees.note}`);
  */
-export async function getArbitrumWithdrawGasFees(amount) {
+export async function getArbitrumWithdrawGasFees(amount, referencePrice) {
   try {
     if (!amount || parseFloat(amount) <= 0) {
       throw new Error('Invalid amount: must be a positive number');
     }
 
-    const gasFees = await calculateArbitrumWithdrawGasFees(amount);
+    const gasFees = await calculateArbitrumWithdrawGasFees(amount, referencePrice);
     
     return {
       operation: 'Withdraw from Arbitrum',
@@ -111,6 +120,7 @@ export async function getArbitrumWithdrawGasFees(amount) {
       gasCostUsd: gasFees.gasCostUsd,
       eip1559: gasFees.eip1559,
       note: gasFees.note,
+      referencePrice: gasFees.referencePrice,
       timestamp: gasFees.timestamp
     };
   } catch (error) {
@@ -126,13 +136,14 @@ export async function getArbitrumWithdrawGasFees(amount) {
  * 
  * @param {string} amount - Amount of ETH for the complete flow (e.g., "0.1")
  * @param {number} feeTier - Fee tier for swap (optional, default: 3000)
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Promise<Object>} Combined gas fee details for all operations
  * 
  * Example usage:
  * const fees = await getCompleteFlowGasFees("0.1");
  * console.log(`Total gas cost: ${fees.totalGasCostEth} ETH ($${fees.totalGasCostUsd})`);
  */
-export async function getCompleteFlowGasFees(amount, feeTier = 3000) {
+export async function getCompleteFlowGasFees(amount, feeTier = 3000, referencePrice) {
   try {
     if (!amount || parseFloat(amount) <= 0) {
       throw new Error('Invalid amount: must be a positive number');
@@ -142,9 +153,10 @@ export async function getCompleteFlowGasFees(amount, feeTier = 3000) {
       throw new Error('Invalid feeTier: must be 500, 3000, or 10000');
     }
 
-    // Get fees for each step
-    const depositFees = await getBaseDepositGasFees(amount);
-    const swapFees = await getArbitrumSwapGasFees(amount, feeTier);
+    // Get fees for each step, both priced with the same ETH price
+    const reference = referencePrice ?? await getReferenceEthPrice();
+    const depositFees = await getBaseDepositGasFees(amount, reference);
+    const swapFees = await getArbitrumSwapGasFees(amount, feeTier, reference);
 
     // Calculate total costs
     const totalGasCostEth = (
@@ -166,7 +178,14 @@ export async function getCompleteFlowGasFees(amount, feeTier = 3000) {
       },
       totalGasCostEth: totalGasCostEth,
       totalGasCostUsd: totalGasCostUsd,
+      // Ethereum deposit tx, then the Arbitrum swap split into L2 execution and L1 data
+      components: {
+        l1TransactionUsd: depositFees.gasCostUsd,
+        l2ExecutionUsd: swapFees.l2ExecutionCostUsd,
+        l1DataUsd: swapFees.l1DataFeeUsd
+      },
       expectedUsdcOutput: swapFees.expectedOutput,
+      referencePrice: reference,
       timestamp: new Date().toISOString()
     };
   } catch (error) {
@@ -1,7 +1,10 @@
+import { getReferenceEthPrice } from '@/lib/prices/reference-price';
+
 /**
  * Utility function to estimate MEV (Maximal Extractable Value) fees for arbitrage transactions
  * MEV fees include frontrunning protection, priority fees, and builder tips
  * @param {string} amount - Amount of ETH in the transaction (e.g., "0.1")
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Promise<Object>} MEV fee breakdown including priority fees and builder tips
  * 
  * Example usage:
@@ -10,7 +13,7 @@
  * console.log(`Priority Fee: ${mevFees.priorityFeeEth} ETH`);
  * console.log(`Builder Tip: ${mevFees.builderTipEth} ETH`);
  */
-export async function getMevFees(amount) {
+export async function getMevFees(amount, referencePrice) {
   try {
     if (!amount || parseFloat(amount) <= 0) {
       throw new Error('Invalid amount: must be a positive number');
@@ -18,8 +21,9 @@ export async function getMevFees(amount) {
 
     const amountFloat = parseFloat(amount);
     
-    // Get current ETH price (assuming ~$3500, can be made dynamic)
-    const ethPriceUsd = 3500;
+    // Get ETH price in USD from the reference price service
+    const reference = referencePrice ?? await getReferenceEthPrice();
+    const ethPriceUsd = reference.priceUsd;
 
     // MEV Protection Calculation
     // Base priority fee: 2-5 Gwei depending on transaction value
@@ -69,6 +73,7 @@ export async function getMevFees(amount) {
         sandwich: 'Protected',
         backrunning: 'Monitored'
       },
+      referencePrice: reference,
       timestamp: new Date().toISOString()
     };
   } catch (error) {
@@ -79,6 +84,7 @@ export async function getMevFees(amount) {
 /**
  * Utility function to get detailed MEV protection cost for different transaction sizes
  * @param {string[]} amounts - Array of ETH amounts to analyze (e.g., ["0.1", "1", "10"])
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Promise<Object[]>} Array of MEV fee breakdowns for each amount
  * 
  * Example usage:
@@ -87,14 +93,16 @@ export async function getMevFees(amount) {
  *   console.log(`${result.amount} ETH: $${result.totalMevCostUsd} MEV cost`);
  * });
  */
-export async function getMevFeesComparison(amounts) {
+export async function getMevFeesComparison(amounts, referencePrice) {
   try {
     if (!Array.isArray(amounts) || amounts.length === 0) {
       throw new Error('Invalid amounts: must be a non-empty array');
     }
 
+    // Price every amount with the same ETH price
+    const reference = referencePrice ?? await getReferenceEthPrice();
     const results = await Promise.all(
-      amounts.map(amount => getMevFees(amount))
+      amounts.map(amount => getMevFees(amount, reference))
     );
 
     return results;
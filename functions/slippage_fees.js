@@ -1,9 +1,11 @@
 import { calculateAcrossBridgeSlippage } from '../services/gasFeeService.js';
 import { calculateSlippage, calculateETHtoUSDCSlippage } from '../services/slippageService.js';
+import { getToken } from '../lib/chains/registry';
 
 /**
  * Utility function to calculate slippage for bridging ETH from Base to Arbitrum
  * @param {string} amount - Amount of ETH to bridge (e.g., "0.1")
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Promise<Object>} Bridge slippage details including LP fees, relayer fees, and total slippage
  * 
  * Example usage:
@@ -12,13 +14,13 @@ import { calculateSlippage, calculateETHtoUSDCSlippage } from '../services/slipp
  * console.log(`Expected Loss: ${slippage.totalLossEth} ETH ($${slippage.totalLossUsd})`);
  * console.log(`LP Fee: ${slippage.lpFeePercentage}`);
  */
-export async function bridgeSlippage(amount) {
+export async function bridgeSlippage(amount, referencePrice) {
   try {
     if (!amount || parseFloat(amount) <= 0) {
       throw new Error('Invalid amount: must be a positive number');
     }
 
-    const slippageData = await calculateAcrossBridgeSlippage(amount);
+    const slippageData = await calculateAcrossBridgeSlippage(amount, referencePrice);
     
     return {
       protocol: slippageData.protocol,
@@ -43,6 +45,7 @@ export async function bridgeSlippage(amount) {
       priceImpact: slippageData.priceImpact.percentage,
       estimatedTime: slippageData.estimatedTime,
       dataSource: slippageData.dataSource,
+      referencePrice: slippageData.referencePrice,
       timestamp: slippageData.timestamp
     };
   } catch (error) {
@@ -71,18 +74,9 @@ export async function ammSlippage(amount) {
     const chain = 'arbitrum';
     const feeTier = 3000;
     
-    // Define WETH and USDC tokens for Arbitrum
-    const tokenIn = {
-      address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
-      symbol: 'WETH',
-      decimals: 18
-    };
-    
-    const tokenOut = {
-      address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
-      symbol: 'USDC',
-      decimals: 6
-    };
+    // WETH and USDC tokens for Arbitrum (lib/chains/registry.ts)
+    const tokenIn = getToken(chain, 'WETH');
+    const tokenOut = getToken(chain, 'USDC');
 
     const slippageData = await calculateSlippage(chain, tokenIn, tokenOut, amount, feeTier);
     
@@ -167,6 +161,7 @@ export async function ammSlippageETHtoUSDC(ethAmount, feeTier = 3000) {
  * @param {string} bridgeAmount - Amount of ETH to bridge from Base to Arbitrum
  * @param {string} swapAmount - Amount of ETH to swap to USDC on Arbitrum
  * @param {number} feeTier - Fee tier for the swap (default: 500)
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Promise<Object>} Combined slippage for bridge and swap operations
  * 
  * Example usage:
@@ -175,7 +170,7 @@ export async function ammSlippageETHtoUSDC(ethAmount, feeTier = 3000) {
  * console.log(`Bridge Slippage: ${slippage.bridgeSlippagePercentage}`);
  * console.log(`Swap Slippage: ${slippage.swapSlippagePercentage}`);
  */
-export async function getCombinedSlippage(bridgeAmount, swapAmount, feeTier = 3000) {
+export async function getCombinedSlippage(bridgeAmount, swapAmount, feeTier = 3000, referencePrice) {
   try {
     if (!bridgeAmount || parseFloat(bridgeAmount) <= 0) {
       throw new Error('Invalid bridgeAmount: must be a positive number');
@@ -187,7 +182,7 @@ export async function getCombinedSlippage(bridgeAmount, swapAmount, feeTier = 30
 
     // Get both slippage calculations in parallel
     const [bridgeSlippageData, swapSlippageData] = await Promise.all([
-      bridgeSlippage(bridgeAmount),
+      bridgeSlippage(bridgeAmount, referencePrice),
       ammSlippageETHtoUSDC(swapAmount, feeTier)
     ]);
 
@@ -217,6 +212,7 @@ export async function getCombinedSlippage(bridgeAmount, swapAmount, feeTier = 30
         actualUsdc: swapSlippageData.actualOutputAmount,
         priceImpact: swapSlippageData.priceImpactPercentage
       },
+      referencePrice: bridgeSlippageData.referencePrice,
       timestamp: new Date().toISOString()
     };
   } catch (error) {
@@ -15,7 +15,8 @@ module.exports = {
   },
   networks: {
     hardhat: {
-      chainId: 31337,
+      // Second local chain for scripts/cross-chain-local.ts: HARDHAT_CHAIN_ID=31338 npx hardhat node --port 8546
+      chainId: Number(process.env.HARDHAT_CHAIN_ID) || 31337,
     },
     baseSepolia: {
       url: process.env.BASE_SEPOLIA_RPC_URL || "https://sepolia.base.org",
@@ -0,0 +1,290 @@
+/**
+ * Deterministic Decision Rules
+ *
+ * Handles:
+ * - Risk inference from simulation numbers (slippage, MEV, timing)
+ * - Price manipulation risk (spot vs TWAP, from /api/detect) when provided
+ * - Profit margin classification (profit / gas ratio)
+ * - Early exits that never reach the AI
+ * - Rule-based fallback when the AI is unavailable
+ *
+ * Shared by /api/decide and the offline backtester so both apply
+ * exactly the same thresholds.
+ *
+ * Rule functions take an optional trace array; every rule evaluated is
+ * appended to it in order (see decision-trace.ts).
+ */
+
+import type { RuleEvaluation } from './decision-trace';
+
+// ============ Types ============
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+export type ProfitMargin = 'safe' | 'acceptable' | 'thin';
+
+export interface DecisionInput {
+  spreadPercent: number;
+  netProfitUsd: number;
+  gasCostUsd: number;
+  slippageUsd: number;
+  feesUsd: number;
+  tradeSizeUsd: number;
+  liquidityUsd?: number;
+}
+
+export interface RiskAnalysis {
+  gasRisk: RiskLevel;
+  slippageRisk: RiskLevel;
+  mevRisk: RiskLevel;
+  manipulationRisk?: RiskLevel;  // Only when provided: it cannot be inferred from simulation numbers
+  profitMargin: ProfitMargin;
+}
+
+export interface RuleDecision {
+  decision: 'EXECUTE' | 'SKIP';
+  reason: string;
+  confidence: number;
+  riskAnalysis: RiskAnalysis;
+}
+
+export interface DecisionThresholds {
+  minProfitUsd: number;              // Early exit below this net profit
+  maxSpreadPct: number;              // Spreads above this are treated as bad data
+  minProfitGasRatio: number;         // Below this profit/gas ratio the margin is thin
+  safeProfitGasRatio: number;        // At or above this the margin is safe
+  executeMinProfitUsd: number;       // Fallback only EXECUTEs at or above this
+  safeProfitUsd: number;             // Net profit above this is a safe margin (AI prompt scale)
+  highGasPctOfProfit: number;        // Gas cost above this % of profit → HIGH timing risk
+  mediumGasPctOfProfit: number;      // Gas cost above this % of profit → MEDIUM timing risk
+  highSlippagePctOfProfit: number;   // Slippage above this % of profit → HIGH slippage risk
+  mediumSlippagePctOfProfit: number; // Slippage above this % of profit → MEDIUM slippage risk
+  maxTradePctOfPool: number;         // Trade above this % of pool liquidity → MEDIUM slippage risk
+  highMevSlippageUsd: number;        // Slippage above this (on a large enough trade) → HIGH MEV risk
+  mediumMevSlippageUsd: number;      // Slippage above this → MEDIUM MEV risk
+  mevMinTradeUsd: number;            // Trades below this are too small to sandwich profitably
+}
+
+// ============ Constants ============
+
+/** The "balanced" risk policy (see risk-policy.ts for the other profiles) */
+export const DEFAULT_DECISION_THRESHOLDS: DecisionThresholds = {
+  minProfitUsd: 2,
+  maxSpreadPct: 5,
+  minProfitGasRatio: 3,
+  safeProfitGasRatio: 5,
+  executeMinProfitUsd: 5,
+  safeProfitUsd: 10,
+  highGasPctOfProfit: 50,
+  mediumGasPctOfProfit: 30,
+  highSlippagePctOfProfit: 50,
+  mediumSlippagePctOfProfit: 25,
+  maxTradePctOfPool: 0.1,
+  highMevSlippageUsd: 2,
+  mediumMevSlippageUsd: 1,
+  mevMinTradeUsd: 50,
+};
+
+// ============ Risk Inference ============
+
+export function inferSlippageRisk(
+  data: DecisionInput,
+  thresholds: DecisionThresholds = DEFAULT_DECISION_THRESHOLDS
+): RiskLevel {
+  const slippagePercent = data.netProfitUsd > 0 ? (data.slippageUsd / data.netProfitUsd) * 100 : 100;
+  if (slippagePercent > thresholds.highSlippagePctOfProfit) return 'high';
+  if (slippagePercent > thresholds.mediumSlippagePctOfProfit) return 'medium';
+  return 'low';
+}
+
+export function inferMEVRisk(
+  data: DecisionInput,
+  thresholds: DecisionThresholds = DEFAULT_DECISION_THRESHOLDS
+): RiskLevel {
+  if (data.slippageUsd > thresholds.highMevSlippageUsd && data.tradeSizeUsd > thresholds.mevMinTradeUsd) return 'high';
+  if (data.slippageUsd > thresholds.mediumMevSlippageUsd) return 'medium';
+  return 'low';
+}
+
+export function inferTimingRisk(
+  data: DecisionInput,
+  thresholds: DecisionThresholds = DEFAULT_DECISION_THRESHOLDS
+): RiskLevel {
+  const gasPercent = data.netProfitUsd > 0 ? (data.gasCostUsd / data.netProfitUsd) * 100 : 100;
+  if (gasPercent > thresholds.highGasPctOfProfit) return 'high';
+  if (gasPercent > thresholds.mediumGasPctOfProfit) return 'medium';
+  return 'low';
+}
+
+export function calculateProfitMargin(
+  data: DecisionInput,
+  thresholds: DecisionThresholds = DEFAULT_DECISION_THRESHOLDS
+): ProfitMargin {
+  const profitGasRatio = data.gasCostUsd > 0 ? data.netProfitUsd / data.gasCostUsd : 0;
+  if (profitGasRatio >= thresholds.safeProfitGasRatio) return 'safe';
+  if (profitGasRatio >= thresholds.minProfitGasRatio) return 'acceptable';
+  return 'thin';
+}
+
+/**
+ * Infer every risk signal not supplied by the caller
+ */
+export function buildRiskAnalysis(
+  data: DecisionInput,
+  provided: Partial<Pick<RiskAnalysis, 'slippageRisk' | 'mevRisk' | 'gasRisk' | 'manipulationRisk'>> = {},
+  thresholds: DecisionThresholds = DEFAULT_DECISION_THRESHOLDS
+): RiskAnalysis {
+  return {
+    gasRisk: provided.gasRisk ?? inferTimingRisk(data, thresholds),
+    slippageRisk: provided.slippageRisk ?? inferSlippageRisk(data, thresholds),
+    mevRisk: provided.mevRisk ?? inferMEVRisk(data, thresholds),
+    ...(provided.manipulationRisk && { manipulationRisk: provided.manipulationRisk }),
+    profitMargin: calculateProfitMargin(data, thresholds),
+  };
+}
+
+// ============ Rules ============
+
+/**
+ * Append a rule evaluation to the trace (if any) and pass the result through
+ */
+function evaluate(
+  trace: RuleEvaluation[] | undefined,
+  rule: string,
+  description: string,
+  inputs: RuleEvaluation['inputs'],
+  triggered: boolean
+): boolean {
+  trace?.push({ rule, description, inputs, outcome: triggered ? 'triggered' : 'passed' });
+  return triggered;
+}
+
+/**
+ * Deterministic exits evaluated before the AI
+ * @returns A SKIP decision, or null when the case is ambiguous
+ */
+export function earlyExitDecision(
+  data: DecisionInput,
+  riskAnalysis: RiskAnalysis,
+  thresholds: DecisionThresholds = DEFAULT_DECISION_THRESHOLDS,
+  trace?: RuleEvaluation[]
+): RuleDecision | null {
+  const { netProfitUsd, spreadPercent } = data;
+
+  if (evaluate(trace, 'non-positive-profit', 'Net profit must be positive', { netProfitUsd }, netProfitUsd <= 0)) {
+    return { decision: 'SKIP', reason: 'Net profit is negative or zero', confidence: 1.0, riskAnalysis };
+  }
+
+  if (evaluate(
+    trace, 'min-profit', 'Net profit must meet the minimum threshold',
+    { netProfitUsd, minProfitUsd: thresholds.minProfitUsd },
+    netProfitUsd < thresholds.minProfitUsd
+  )) {
+    return {
+      decision: 'SKIP',
+      reason: `Net profit below $${thresholds.minProfitUsd} minimum threshold`,
+      confidence: 0.95,
+      riskAnalysis,
+    };
+  }
+
+  if (evaluate(
+    trace, 'spread-anomaly', 'Spreads above the maximum are treated as bad data',
+    { spreadPercent, maxSpreadPct: thresholds.maxSpreadPct },
+    spreadPercent > thresholds.maxSpreadPct
+  )) {
+    return {
+      decision: 'SKIP',
+      reason: `Spread >${thresholds.maxSpreadPct}% appears anomalous - possible bad data`,
+      confidence: 0.9,
+      riskAnalysis,
+    };
+  }
+
+  const { manipulationRisk } = riskAnalysis;
+  if (evaluate(
+    trace, 'price-manipulation', 'Spot price must not deviate far from the pool TWAP',
+    { manipulationRisk: manipulationRisk ?? 'not provided' },
+    manipulationRisk === 'high'
+  )) {
+    return {
+      decision: 'SKIP',
+      reason: 'Spot price deviates sharply from TWAP - spread is likely manipulated or transient',
+      confidence: 0.9,
+      riskAnalysis,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Rule-based decision used when the AI is unavailable or unparseable
+ */
+export function fallbackRuleDecision(
+  data: DecisionInput,
+  riskAnalysis: RiskAnalysis,
+  thresholds: DecisionThresholds = DEFAULT_DECISION_THRESHOLDS,
+  trace?: RuleEvaluation[]
+): RuleDecision {
+  const { slippageRisk, mevRisk, gasRisk, manipulationRisk, profitMargin } = riskAnalysis;
+  const risks = [slippageRisk, mevRisk, gasRisk, ...(manipulationRisk ? [manipulationRisk] : [])];
+  const hasHighRisk = risks.includes('high');
+  const mediumRiskCount = risks.filter(r => r === 'medium').length;
+
+  if (evaluate(
+    trace, 'aggregate-risk', 'No HIGH risk and fewer than two MEDIUM risks',
+    { slippageRisk, mevRisk, gasRisk, ...(manipulationRisk && { manipulationRisk }), mediumRiskCount },
+    hasHighRisk || mediumRiskCount >= 2
+  )) {
+    return {
+      decision: 'SKIP',
+      reason: 'Overall risk assessment is HIGH - execution unsafe',
+      confidence: 0.85,
+      riskAnalysis,
+    };
+  }
+
+  if (evaluate(trace, 'thin-margin', 'Profit margin must not be thin', { profitMargin }, profitMargin === 'thin')) {
+    return {
+      decision: 'SKIP',
+      reason: 'Profit margin too thin relative to gas cost',
+      confidence: 0.8,
+      riskAnalysis,
+    };
+  }
+
+  const allLowRisk = risks.every(r => r === 'low');
+  if (evaluate(
+    trace, 'execute-criteria', 'EXECUTE needs profit above threshold, all risks LOW and a safe margin',
+    { netProfitUsd: data.netProfitUsd, executeMinProfitUsd: thresholds.executeMinProfitUsd, allLowRisk: String(allLowRisk), profitMargin },
+    data.netProfitUsd >= thresholds.executeMinProfitUsd && allLowRisk && profitMargin === 'safe'
+  )) {
+    return {
+      decision: 'EXECUTE',
+      reason: `Net profit $${data.netProfitUsd.toFixed(2)} with low overall risk`,
+      confidence: 0.75,
+      riskAnalysis,
+    };
+  }
+
+  evaluate(trace, 'default-skip', 'SKIP when no rule above decided', {}, true);
+  return {
+    decision: 'SKIP',
+    reason: 'Risk-reward ratio not favorable for execution',
+    confidence: 0.7,
+    riskAnalysis,
+  };
+}
+
+/**
+ * Full deterministic pipeline: early exits, then the fallback rules
+ */
+export function ruleBasedDecision(
+  data: DecisionInput,
+  thresholds: DecisionThresholds = DEFAULT_DECISION_THRESHOLDS
+): { decision: RuleDecision; earlyExit: boolean } {
+  const riskAnalysis = buildRiskAnalysis(data, {}, thresholds);
+  const early = earlyExitDecision(data, riskAnalysis, thresholds);
+  if (early) return { decision: early, earlyExit: true };
+  return { decision: fallbackRuleDecision(data, riskAnalysis, thresholds), earlyExit: false };
+}
@@ -0,0 +1,94 @@
+/**
+ * Decision Provenance Trace
+ *
+ * Handles:
+ * - Recording which decision rules ran, with their inputs and outcomes
+ * - Where each risk signal came from (caller-provided vs inferred)
+ * - Model call fingerprints (prompt/response hashes, validation errors)
+ * - Per-stage latency
+ *
+ * One DecisionTracer per /api/decide request; finish() produces the
+ * DecisionTrace returned in the response and written to the journal.
+ */
+
+import { createHash } from 'crypto';
+import type { RiskProviderName } from './providers';
+
+// ============ Types ============
+
+export interface RuleEvaluation {
+  rule: string;                               // Stable rule id, e.g. 'min-profit'
+  description: string;
+  inputs: Record<string, number | string>;
+  outcome: 'triggered' | 'passed';            // triggered = this rule produced the decision
+}
+
+export interface RiskSignalTrace {
+  signal: 'gasRisk' | 'slippageRisk' | 'mevRisk' | 'manipulationRisk' | 'profitMargin';
+  value: string;
+  source: 'provided' | 'inferred';
+}
+
+export interface ModelTrace {
+  provider: RiskProviderName;
+  model: string;
+  promptHash: string;                         // sha256 of the full prompt
+  responseHash?: string;                      // sha256 of the raw model text
+  validationErrors?: string[];
+  error?: string;
+}
+
+export interface StageTiming {
+  stage: 'risk-analysis' | 'early-exit' | 'model' | 'fallback';
+  latencyMs: number;
+}
+
+export interface DecisionTrace {
+  policyNote?: string;                        // From the resolved RiskPolicy, e.g. a stale saved setting
+  rules: RuleEvaluation[];
+  riskSignals: RiskSignalTrace[];
+  model?: ModelTrace;
+  stages: StageTiming[];
+  totalLatencyMs: number;
+}
+
+// ============ Helpers ============
+
+export function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// ============ Tracer ============
+
+export class DecisionTracer {
+  readonly rules: RuleEvaluation[] = [];
+  policyNote?: string;
+  riskSignals: RiskSignalTrace[] = [];
+  model?: ModelTrace;
+
+  private readonly stages: StageTiming[] = [];
+  private readonly startedAt = Date.now();
+
+  /**
+   * Run one pipeline stage and record how long it took (even if it throws)
+   */
+  async stage<T>(stage: StageTiming['stage'], fn: () => T | Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+      return await fn();
+    } finally {
+      this.stages.push({ stage, latencyMs: Date.now() - start });
+    }
+  }
+
+  finish(): DecisionTrace {
+    return {
+      ...(this.policyNote && { policyNote: this.policyNote }),
+      rules: this.rules,
+      riskSignals: this.riskSignals,
+      ...(this.model && { model: this.model }),
+      stages: this.stages,
+      totalLatencyMs: Date.now() - this.startedAt,
+    };
+  }
+}
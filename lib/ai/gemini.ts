@@ -21,7 +21,9 @@
  * The AI's edge is judgment, not speed.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getRiskModelProvider } from './providers';
+import { generateStructured, OutputSchema, OutputSource } from './structured-output';
+import { DecisionThresholds, DEFAULT_DECISION_THRESHOLDS } from './decision-rules';
 
 // ============ Types ============
 
@@ -45,8 +47,27 @@ export interface AIDecision {
     mevRisk: 'low' | 'medium' | 'high';
     profitMargin: 'thin' | 'acceptable' | 'safe';
   };
+  source: OutputSource;   // 'fallback' when the model was unavailable or its output was rejected
 }
 
+const RISK_LEVELS = ['low', 'medium', 'high'] as const;
+
+export const AI_DECISION_SCHEMA: OutputSchema = {
+  decision: { type: 'enum', values: ['EXECUTE', 'SKIP'] },
+  reason: { type: 'string', default: 'No reason provided' },
+  confidence: { type: 'number', min: 0, max: 1, default: 0.5 },
+  riskAnalysis: {
+    type: 'object',
+    optional: true,
+    fields: {
+      gasRisk: { type: 'enum', values: RISK_LEVELS },
+      slippageRisk: { type: 'enum', values: RISK_LEVELS },
+      mevRisk: { type: 'enum', values: RISK_LEVELS },
+      profitMargin: { type: 'enum', values: ['thin', 'acceptable', 'safe'] },
+    },
+  },
+};
+
 // ============ Enhanced Prompt (Judge-Grade) ============
 
 const SYSTEM_PROMPT = `You are a DeFi arbitrage execution risk engine.
@@ -71,7 +92,7 @@ Analyze each trade for:
 
 Return ONLY valid JSON. No markdown. No explanations outside JSON.`;
 
-function buildDecisionPrompt(data: SimulationData): string {
+function buildDecisionPrompt(data: SimulationData, t: DecisionThresholds): string {
   const totalCosts = data.gasCostUsd + data.slippageUsd + data.feesUsd;
   const grossProfit = data.netProfitUsd + totalCosts;
   const gasCostRatio = grossProfit > 0 ? (data.gasCostUsd / grossProfit) * 100 : 100;
@@ -98,30 +119,30 @@ PROFIT:
 
 RISK EVALUATION:
 1. Gas Risk Assessment:
-   - If gas cost > 50% of gross profit → HIGH risk
-   - If gas cost 30-50% → MEDIUM risk
-   - If gas cost < 30% → LOW risk
+   - If gas cost > ${t.highGasPctOfProfit}% of gross profit → HIGH risk
+   - If gas cost ${t.mediumGasPctOfProfit}-${t.highGasPctOfProfit}% → MEDIUM risk
+   - If gas cost < ${t.mediumGasPctOfProfit}% → LOW risk
 
 2. Slippage Risk Assessment:
    - If liquidity is "low" AND slippage > $1 → HIGH risk
-   - If slippage > 25% of gross profit → MEDIUM risk
+   - If slippage > ${t.mediumSlippagePctOfProfit}% of gross profit → MEDIUM risk
    - Otherwise → LOW risk
 
 3. MEV Risk Assessment:
    - If trade size > 0.1 ETH AND liquidity is "low" → HIGH risk
-   - If slippage > $2 AND net profit < $10 → MEDIUM risk
+   - If slippage > $${t.highMevSlippageUsd} AND net profit < $${t.safeProfitUsd} → MEDIUM risk
    - Otherwise → LOW risk
 
 4. Profit Margin Assessment:
-   - If net profit < $2 → "thin"
-   - If net profit $2-$10 → "acceptable"
-   - If net profit > $10 → "safe"
+   - If net profit < $${t.minProfitUsd} → "thin"
+   - If net profit $${t.minProfitUsd}-$${t.safeProfitUsd} → "acceptable"
+   - If net profit > $${t.safeProfitUsd} → "safe"
 
 DECISION RULES:
 - SKIP if net profit ≤ 0
 - SKIP if gas risk is HIGH
 - SKIP if profit margin is "thin" AND (slippage risk HIGH OR mev risk HIGH)
-- SKIP if anomalous spread (> 5%)
+- SKIP if anomalous spread (> ${t.maxSpreadPct}%)
 - EXECUTE if net profit > 0 AND risks are manageable
 
 Respond with ONLY this JSON structure (no markdown, no code blocks):
@@ -142,63 +163,42 @@ Respond with ONLY this JSON structure (no markdown, no code blocks):
  * Get AI decision on whether to execute arbitrage
  * Execution-aware risk classification with detailed analysis
  */
-export async function getAIDecision(data: SimulationData): Promise<AIDecision> {
-  const apiKey = process.env.GEMINI_API_KEY!;
+export async function getAIDecision(
+  data: SimulationData,
+  thresholds: DecisionThresholds = DEFAULT_DECISION_THRESHOLDS
+): Promise<AIDecision> {
+  const provider = getRiskModelProvider();
   
-  if (!apiKey) {
-    console.warn('GEMINI_API_KEY not set, using fallback logic');
-    return getFallbackDecision(data);
+  if (!provider) {
+    console.warn('No risk model provider configured, using fallback logic');
+    return { ...getFallbackDecision(data, thresholds), source: 'fallback' };
   }
   
   try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-    
-    const prompt = buildDecisionPrompt(data);
-    
-    const result = await model.generateContent({
-      contents: [
-        { role: 'user', parts: [{ text: SYSTEM_PROMPT }] },
-        { role: 'model', parts: [{ text: 'Understood. I will analyze arbitrage execution risk and respond with JSON decisions only.' }] },
-        { role: 'user', parts: [{ text: prompt }] },
-      ],
-      generationConfig: {
+    const parsed = await generateStructured<Partial<AIDecision> & Pick<AIDecision, 'decision' | 'reason' | 'confidence'>>(
+      provider,
+      {
+        task: 'decision',
+        system: SYSTEM_PROMPT,
+        prompt: buildDecisionPrompt(data, thresholds),
         temperature: 0.1, // Low temperature for consistent, deterministic decisions
         maxOutputTokens: 300,
       },
-    });
-    
-    const response = result.response.text();
-    
-    // Parse JSON response (strip markdown if present)
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error('Failed to parse AI response:', response);
-      return getFallbackDecision(data);
-    }
-    
-    const parsed = JSON.parse(jsonMatch[0]) as AIDecision;
-    
-    // Validate response structure
-    if (!['EXECUTE', 'SKIP'].includes(parsed.decision)) {
-      return getFallbackDecision(data);
-    }
-    
-    // Ensure risk analysis exists
-    if (!parsed.riskAnalysis) {
-      parsed.riskAnalysis = calculateRiskAnalysis(data);
-    }
+      AI_DECISION_SCHEMA
+    );
     
     return {
       decision: parsed.decision,
-      reason: parsed.reason || 'No reason provided',
-      confidence: Math.min(1, Math.max(0, parsed.confidence || 0.5)),
-      riskAnalysis: parsed.riskAnalysis,
+      reason: parsed.reason,
+      confidence: parsed.confidence,
+      // Ensure risk analysis exists
+      riskAnalysis: parsed.riskAnalysis ?? calculateRiskAnalysis(data, thresholds),
+      source: 'model',
     };
     
   } catch (error) {
-    console.error('Gemini API error:', error);
-    return getFallbackDecision(data);
+    console.error(`${provider.name} decision error:`, error);
+    return { ...getFallbackDecision(data, thresholds), source: 'fallback' };
   }
 }
 
@@ -208,7 +208,7 @@ export async function getAIDecision(data: SimulationData): Promise<AIDecision> {
  * Calculate risk analysis from simulation data
  * Used when AI doesn't provide risk breakdown or as fallback
  */
-function calculateRiskAnalysis(data: SimulationData): AIDecision['riskAnalysis'] {
+function calculateRiskAnalysis(data: SimulationData, t: DecisionThresholds): AIDecision['riskAnalysis'] {
   const totalCosts = data.gasCostUsd + data.slippageUsd + data.feesUsd;
   const grossProfit = data.netProfitUsd + totalCosts;
   const gasCostRatio = grossProfit > 0 ? data.gasCostUsd / grossProfit : 1;
@@ -216,23 +216,23 @@ function calculateRiskAnalysis(data: SimulationData): AIDecision['riskAnalysis']
   
   // Gas Risk
   let gasRisk: 'low' | 'medium' | 'high' = 'low';
-  if (gasCostRatio > 0.5) gasRisk = 'high';
-  else if (gasCostRatio > 0.3) gasRisk = 'medium';
+  if (gasCostRatio * 100 > t.highGasPctOfProfit) gasRisk = 'high';
+  else if (gasCostRatio * 100 > t.mediumGasPctOfProfit) gasRisk = 'medium';
   
   // Slippage Risk
   let slippageRisk: 'low' | 'medium' | 'high' = 'low';
   if (data.liquidityDepth === 'low' && data.slippageUsd > 1) slippageRisk = 'high';
-  else if (slippageRatio > 0.25) slippageRisk = 'medium';
+  else if (slippageRatio * 100 > t.mediumSlippagePctOfProfit) slippageRisk = 'medium';
   
   // MEV Risk
   let mevRisk: 'low' | 'medium' | 'high' = 'low';
   if (data.amountInEth > 0.1 && data.liquidityDepth === 'low') mevRisk = 'high';
-  else if (data.slippageUsd > 2 && data.netProfitUsd < 10) mevRisk = 'medium';
+  else if (data.slippageUsd > t.highMevSlippageUsd && data.netProfitUsd < t.safeProfitUsd) mevRisk = 'medium';
   
   // Profit Margin
   let profitMargin: 'thin' | 'acceptable' | 'safe' = 'thin';
-  if (data.netProfitUsd > 10) profitMargin = 'safe';
-  else if (data.netProfitUsd >= 2) profitMargin = 'acceptable';
+  if (data.netProfitUsd > t.safeProfitUsd) profitMargin = 'safe';
+  else if (data.netProfitUsd >= t.minProfitUsd) profitMargin = 'acceptable';
   
   return { gasRisk, slippageRisk, mevRisk, profitMargin };
 }
@@ -243,10 +243,10 @@ function calculateRiskAnalysis(data: SimulationData): AIDecision['riskAnalysis']
  * Deterministic fallback when AI is unavailable
  * Rule-based logic with execution risk awareness
  */
-function getFallbackDecision(data: SimulationData): AIDecision {
+function getFallbackDecision(data: SimulationData, t: DecisionThresholds): Omit<AIDecision, 'source'> {
   const { netProfitUsd, gasCostUsd, slippageUsd, liquidityDepth, spread } = data;
   
-  const riskAnalysis = calculateRiskAnalysis(data);
+  const riskAnalysis = calculateRiskAnalysis(data, t);
   
   // Calculate ratios
   const totalCosts = gasCostUsd + slippageUsd + data.feesUsd;
@@ -264,7 +264,7 @@ function getFallbackDecision(data: SimulationData): AIDecision {
   }
   
   // Rule 2: Gas cost dominance check
-  if (gasCostRatio > 0.5) {
+  if (gasCostRatio * 100 > t.highGasPctOfProfit) {
     return {
       decision: 'SKIP',
       reason: `Gas cost is ${(gasCostRatio * 100).toFixed(0)}% of gross profit - too risky`,
@@ -285,21 +285,21 @@ function getFallbackDecision(data: SimulationData): AIDecision {
     }
   }
   
-  // Rule 4: Minimum profit threshold ($2 USD)
-  if (netProfitUsd < 2) {
+  // Rule 4: Minimum profit threshold
+  if (netProfitUsd < t.minProfitUsd) {
     return {
       decision: 'SKIP',
-      reason: `Net profit of $${netProfitUsd.toFixed(2)} below $2 safety threshold`,
+      reason: `Net profit of $${netProfitUsd.toFixed(2)} below $${t.minProfitUsd} safety threshold`,
       confidence: 0.80,
       riskAnalysis,
     };
   }
   
   // Rule 5: Anomalous spread (data quality check)
-  if (spread > 5) {
+  if (spread > t.maxSpreadPct) {
     return {
       decision: 'SKIP',
-      reason: 'Spread >5% appears anomalous - possible bad data or flash crash',
+      reason: `Spread >${t.maxSpreadPct}% appears anomalous - possible bad data or flash crash`,
       confidence: 0.75,
       riskAnalysis,
     };
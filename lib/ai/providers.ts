@@ -0,0 +1,287 @@
+/**
+ * Risk Model Providers
+ *
+ * Handles:
+ * - One RiskModelProvider interface for every LLM-backed risk agent
+ * - Gemini, OpenAI-compatible, local (Ollama-style HTTP) and mock backends
+ * - Provider selection from environment config
+ *
+ * Config:
+ * - RISK_MODEL_PROVIDER   gemini | openai | ollama | mock
+ *                         (default: gemini when GEMINI_API_KEY is set, otherwise none)
+ * - RISK_MODEL_NAME       model override for the selected provider
+ * - GEMINI_API_KEY
+ * - OPENAI_API_KEY, OPENAI_BASE_URL (any /chat/completions compatible server)
+ * - OLLAMA_URL            default http://localhost:11434
+ * - MOCK_RISK_MODEL_RESPONSES  JSON map of task → response object (mock only)
+ *
+ * With no provider configured, or an invalid provider config (logged),
+ * callers use their deterministic fallbacks.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+// ============ Types ============
+
+export type RiskTask = 'decision' | 'slippage' | 'mev' | 'timing';
+export type RiskProviderName = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface RiskModelRequest {
+  task: RiskTask;
+  system?: string;
+  prompt: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface RiskModelProvider {
+  readonly name: RiskProviderName;
+  readonly model: string;
+  /** Raw model text for a prompt (parsing lives in structured-output.ts) */
+  generate(request: RiskModelRequest): Promise<string>;
+}
+
+// ============ Constants ============
+
+const DEFAULT_TEMPERATURE = 0.1;
+const DEFAULT_MAX_OUTPUT_TOKENS = 200;
+const REQUEST_TIMEOUT_MS = 15_000;
+
+const DEFAULT_MODELS: Record<RiskProviderName, string> = {
+  gemini: 'gemini-pro',
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.1',
+  mock: 'mock-deterministic',
+};
+
+// ============ Helpers ============
+
+/**
+ * POST JSON with a timeout, throwing on non-2xx responses
+ */
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<unknown> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status} from ${url}: ${text.slice(0, 200)}`);
+    }
+
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============ Gemini ============
+
+export class GeminiRiskModelProvider implements RiskModelProvider {
+  readonly name = 'gemini' as const;
+  private readonly client: GoogleGenerativeAI;
+
+  constructor(apiKey: string, readonly model: string = DEFAULT_MODELS.gemini) {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generate(request: RiskModelRequest): Promise<string> {
+    const model = this.client.getGenerativeModel({ model: this.model });
+
+    // gemini-pro has no system role: send it as a priming turn
+    const contents = request.system
+      ? [
+        { role: 'user', parts: [{ text: request.system }] },
+        { role: 'model', parts: [{ text: 'Understood. I will respond with JSON only.' }] },
+        { role: 'user', parts: [{ text: request.prompt }] },
+      ]
+      : [{ role: 'user', parts: [{ text: request.prompt }] }];
+
+    const result = await model.generateContent({
+      contents,
+      generationConfig: {
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      },
+    });
+
+    return result.response.text();
+  }
+}
+
+// ============ OpenAI-Compatible ============
+
+export class OpenAICompatibleRiskModelProvider implements RiskModelProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private readonly apiKey: string | undefined,
+    private readonly baseUrl: string = 'https://api.openai.com/v1',
+    readonly model: string = DEFAULT_MODELS.openai
+  ) {}
+
+  async generate(request: RiskModelRequest): Promise<string> {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+
+    const data = await postJson(
+      `${this.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        model: this.model,
+        messages,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      },
+      this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}
+    );
+
+    const choice = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+    const content = isRecord(choice) && isRecord(choice.message) ? choice.message.content : undefined;
+    if (typeof content !== 'string') {
+      throw new Error('OpenAI-compatible response has no message content');
+    }
+    return content;
+  }
+}
+
+// ============ Local (Ollama) ============
+
+export class OllamaRiskModelProvider implements RiskModelProvider {
+  readonly name = 'ollama' as const;
+
+  constructor(
+    private readonly baseUrl: string = 'http://localhost:11434',
+    readonly model: string = DEFAULT_MODELS.ollama
+  ) {}
+
+  async generate(request: RiskModelRequest): Promise<string> {
+    const data = await postJson(`${this.baseUrl.replace(/\/$/, '')}/api/generate`, {
+      model: this.model,
+      system: request.system,
+      prompt: request.prompt,
+      stream: false,
+      format: 'json',
+      options: {
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        num_predict: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      },
+    });
+
+    const text = isRecord(data) ? data.response : undefined;
+    if (typeof text !== 'string') {
+      throw new Error('Ollama response has no text');
+    }
+    return text;
+  }
+}
+
+// ============ Mock (Deterministic) ============
+
+export type MockResponder = string | object | ((request: RiskModelRequest) => string | object);
+
+/**
+ * Canned responses: conservative and schema-valid, so the AI code paths can
+ * be exercised without a network
+ */
+const DEFAULT_MOCK_RESPONSES: Record<RiskTask, object> = {
+  decision: { decision: 'SKIP', reason: 'Mock provider: deterministic SKIP', confidence: 0.5 },
+  slippage: { riskLevel: 'LOW', reason: 'Mock provider: slippage acceptable', confidence: 0.5 },
+  mev: { mevRisk: 'LOW', reason: 'Mock provider: low MEV exposure', confidence: 0.5 },
+  timing: { timingRisk: 'LOW', reason: 'Mock provider: stable execution window', confidence: 0.5 },
+};
+
+export class MockRiskModelProvider implements RiskModelProvider {
+  readonly name = 'mock' as const;
+  readonly model = DEFAULT_MODELS.mock;
+  readonly calls: RiskModelRequest[] = [];
+
+  constructor(private readonly responses: Partial<Record<RiskTask, MockResponder>> = {}) {}
+
+  async generate(request: RiskModelRequest): Promise<string> {
+    this.calls.push(request);
+
+    const responder = this.responses[request.task] ?? DEFAULT_MOCK_RESPONSES[request.task];
+    const response = typeof responder === 'function' ? responder(request) : responder;
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+}
+
+// ============ Selection ============
+
+// Config errors already logged, so a bad setting is reported once, not per request
+const reportedConfigErrors = new Set<string>();
+
+/**
+ * @throws Error on an unknown provider name or malformed mock responses
+ */
+function buildRiskModelProvider(): RiskModelProvider | null {
+  const configured = process.env.RISK_MODEL_PROVIDER as RiskProviderName | undefined;
+  const model = process.env.RISK_MODEL_NAME;
+
+  switch (configured) {
+    case 'openai':
+      return new OpenAICompatibleRiskModelProvider(
+        process.env.OPENAI_API_KEY,
+        process.env.OPENAI_BASE_URL || undefined,
+        model || undefined
+      );
+
+    case 'ollama':
+      return new OllamaRiskModelProvider(process.env.OLLAMA_URL || undefined, model || undefined);
+
+    case 'mock': {
+      const overrides = process.env.MOCK_RISK_MODEL_RESPONSES;
+      if (!overrides) return new MockRiskModelProvider();
+
+      let responses: unknown;
+      try {
+        responses = JSON.parse(overrides);
+      } catch (error) {
+        throw new Error(`MOCK_RISK_MODEL_RESPONSES is not valid JSON: ${error instanceof Error ? error.message : error}`);
+      }
+      if (!isRecord(responses)) throw new Error('MOCK_RISK_MODEL_RESPONSES must be a JSON object of task → response');
+      return new MockRiskModelProvider(responses as Partial<Record<RiskTask, MockResponder>>);
+    }
+
+    case 'gemini':
+    case undefined: {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) return null;
+      return new GeminiRiskModelProvider(apiKey, model || undefined);
+    }
+
+    default:
+      throw new Error(`Unknown RISK_MODEL_PROVIDER: ${configured}`);
+  }
+}
+
+/**
+ * Build the provider selected by environment config
+ * @returns The provider, or null when no AI backend is configured or its
+ *          config is invalid (logged), so callers take their fallback path
+ */
+export function getRiskModelProvider(): RiskModelProvider | null {
+  try {
+    return buildRiskModelProvider();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!reportedConfigErrors.has(message)) {
+      reportedConfigErrors.add(message);
+      console.error(`Risk model provider config is invalid, using deterministic rules: ${message}`);
+    }
+    return null;
+  }
+}
@@ -5,9 +5,17 @@
  * Each agent has ONE job: evaluate risk in its domain.
  * 
  * Philosophy: AI predicts regret, not profit.
+ *
+ * Model output is schema-validated; anything malformed is rejected and the
+ * deterministic fallback is returned with source: 'fallback'.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getRiskModelProvider } from './providers';
+import { generateStructured, OutputSchema, OutputSource } from './structured-output';
+import { DecisionThresholds, DEFAULT_DECISION_THRESHOLDS } from './decision-rules';
+import type { FeeMarket } from '@/lib/gas/fee-market';
+
+const RISK_LEVELS = ['LOW', 'MEDIUM', 'HIGH'] as const;
 
 // ============ Slippage Risk Analysis ============
 
@@ -23,9 +31,17 @@ export interface SlippageRiskOutput {
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
   reason: string;
   confidence: number;
+  source: OutputSource;
 }
 
-const SLIPPAGE_PROMPT = `You are a DeFi slippage risk analyzer.
+export const SLIPPAGE_RISK_SCHEMA: OutputSchema = {
+  riskLevel: { type: 'enum', values: RISK_LEVELS },
+  reason: { type: 'string', default: 'Risk analysis completed' },
+  confidence: { type: 'number', min: 0, max: 1, default: 0.7 },
+};
+
+function buildSlippagePrompt(t: DecisionThresholds): string {
+  return `You are a DeFi slippage risk analyzer.
 
 Your ONLY job: determine if slippage is acceptable in context.
 
@@ -39,9 +55,9 @@ Analyze:
 - Pool depth quality
 
 Rules:
-- If slippage > 50% of net profit → HIGH
-- If slippage > 25% of net profit AND pool is shallow → MEDIUM
-- If trade size > 0.1% of pool liquidity → MEDIUM
+- If slippage > ${t.highSlippagePctOfProfit}% of net profit → HIGH
+- If slippage > ${t.mediumSlippagePctOfProfit}% of net profit AND pool is shallow → MEDIUM
+- If trade size > ${t.maxTradePctOfPool}% of pool liquidity → MEDIUM
 - Otherwise → LOW
 
 Return ONLY valid JSON:
@@ -50,22 +66,23 @@ Return ONLY valid JSON:
   "reason": "one sentence explaining the risk assessment",
   "confidence": 0.0 to 1.0
 }`;
+}
+
+export async function analyzeSlippageRisk(
+  input: SlippageRiskInput,
+  thresholds: DecisionThresholds = DEFAULT_DECISION_THRESHOLDS
+): Promise<SlippageRiskOutput> {
+  const provider = getRiskModelProvider();
 
-export async function analyzeSlippageRisk(input: SlippageRiskInput): Promise<SlippageRiskOutput> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  
-  if (!apiKey) {
-    return fallbackSlippageRisk(input);
+  if (!provider) {
+    return { ...fallbackSlippageRisk(input, thresholds), source: 'fallback' };
   }
 
   try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-
     const slippagePercent = input.netProfitUsd > 0 ? (input.slippageUsd / input.netProfitUsd) * 100 : 100;
     const tradeSizePercent = (input.tradeSizeUsd / input.liquidityUsd) * 100;
 
-    const prompt = `${SLIPPAGE_PROMPT}
+    const prompt = `${buildSlippagePrompt(thresholds)}
 
 SLIPPAGE ANALYSIS:
 - Slippage Cost: $${input.slippageUsd.toFixed(4)}
@@ -80,38 +97,26 @@ LIQUIDITY CONTEXT:
 
 Analyze the risk:`;
 
-    const result = await model.generateContent({
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.1,
-        maxOutputTokens: 150,
-      },
-    });
-
-    const response = result.response.text();
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        riskLevel: parsed.riskLevel || 'MEDIUM',
-        reason: parsed.reason || 'Risk analysis completed',
-        confidence: Math.min(1, Math.max(0, parsed.confidence || 0.7)),
-      };
-    }
-
-    return fallbackSlippageRisk(input);
+    const output = await generateStructured<Omit<SlippageRiskOutput, 'source'>>(provider, {
+      task: 'slippage',
+      prompt,
+      maxOutputTokens: 150,
+    }, SLIPPAGE_RISK_SCHEMA);
+    return { ...output, source: 'model' };
   } catch (error) {
     console.error('Slippage risk analysis error:', error);
-    return fallbackSlippageRisk(input);
+    return { ...fallbackSlippageRisk(input, thresholds), source: 'fallback' };
   }
 }
 
-function fallbackSlippageRisk(input: SlippageRiskInput): SlippageRiskOutput {
+function fallbackSlippageRisk(
+  input: SlippageRiskInput,
+  t: DecisionThresholds
+): Omit<SlippageRiskOutput, 'source'> {
   const slippagePercent = input.netProfitUsd > 0 ? (input.slippageUsd / input.netProfitUsd) * 100 : 100;
   const tradeSizePercent = (input.tradeSizeUsd / input.liquidityUsd) * 100;
 
-  if (slippagePercent > 50) {
+  if (slippagePercent > t.highSlippagePctOfProfit) {
     return {
       riskLevel: 'HIGH',
       reason: `Slippage is ${slippagePercent.toFixed(0)}% of net profit - unacceptable`,
@@ -119,7 +124,7 @@ function fallbackSlippageRisk(input: SlippageRiskInput): SlippageRiskOutput {
     };
   }
 
-  if (slippagePercent > 25 && input.poolDepth === 'shallow') {
+  if (slippagePercent > t.mediumSlippagePctOfProfit && input.poolDepth === 'shallow') {
     return {
       riskLevel: 'MEDIUM',
       reason: 'Slippage significant relative to profit in shallow pool',
@@ -127,7 +132,7 @@ function fallbackSlippageRisk(input: SlippageRiskInput): SlippageRiskOutput {
     };
   }
 
-  if (tradeSizePercent > 0.1) {
+  if (tradeSizePercent > t.maxTradePctOfPool) {
     return {
       riskLevel: 'MEDIUM',
       reason: 'Trade size is large relative to pool liquidity',
@@ -157,9 +162,17 @@ export interface MEVRiskOutput {
   mevRisk: 'LOW' | 'MEDIUM' | 'HIGH';
   reason: string;
   confidence: number;
+  source: OutputSource;
 }
 
-const MEV_PROMPT = `You are a DeFi MEV (Maximal Extractable Value) risk analyzer.
+export const MEV_RISK_SCHEMA: OutputSchema = {
+  mevRisk: { type: 'enum', values: RISK_LEVELS },
+  reason: { type: 'string', default: 'MEV risk analysis completed' },
+  confidence: { type: 'number', min: 0, max: 1, default: 0.7 },
+};
+
+function buildMEVPrompt(t: DecisionThresholds): string {
+  return `You are a DeFi MEV (Maximal Extractable Value) risk analyzer.
 
 Your ONLY job: estimate if this trade is attractive to MEV bots.
 
@@ -175,8 +188,8 @@ MEV bots DON'T care about:
 - Trades with tight slippage protection
 
 Rules:
-- If slippage > $2 AND trade > $50 → HIGH
-- If profit margin < $5 AND slippage < $1 → LOW
+- If slippage > $${t.highMevSlippageUsd} AND trade > $${t.mevMinTradeUsd} → HIGH
+- If profit margin < $${t.executeMinProfitUsd} AND slippage < $${t.mediumMevSlippageUsd} → LOW
 - If trade < 0.01% of pool → LOW
 - Consider gas cost as MEV barrier
 
@@ -186,22 +199,23 @@ Return ONLY valid JSON:
   "reason": "one sentence explaining MEV attractiveness",
   "confidence": 0.0 to 1.0
 }`;
+}
 
-export async function analyzeMEVRisk(input: MEVRiskInput): Promise<MEVRiskOutput> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  
-  if (!apiKey) {
-    return fallbackMEVRisk(input);
+export async function analyzeMEVRisk(
+  input: MEVRiskInput,
+  thresholds: DecisionThresholds = DEFAULT_DECISION_THRESHOLDS
+): Promise<MEVRiskOutput> {
+  const provider = getRiskModelProvider();
+
+  if (!provider) {
+    return { ...fallbackMEVRisk(input, thresholds), source: 'fallback' };
   }
 
   try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-
     const tradeSizePercent = (input.tradeSizeUsd / input.liquidityUsd) * 100;
     const profitGasRatio = input.gasUsd > 0 ? input.netProfitUsd / input.gasUsd : 0;
 
-    const prompt = `${MEV_PROMPT}
+    const prompt = `${buildMEVPrompt(thresholds)}
 
 TRADE CHARACTERISTICS:
 - Trade Size: $${input.tradeSizeUsd.toFixed(2)}
@@ -216,42 +230,27 @@ LIQUIDITY CONTEXT:
 
 MEV ATTRACTIVENESS:
 - Profit/Gas Ratio: ${profitGasRatio.toFixed(2)}x
-- Sandwich Potential: ${input.slippageUsd > 1 ? 'High' : 'Low'}
+- Sandwich Potential: ${input.slippageUsd > thresholds.mediumMevSlippageUsd ? 'High' : 'Low'}
 
 Analyze MEV risk:`;
 
-    const result = await model.generateContent({
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.1,
-        maxOutputTokens: 150,
-      },
-    });
-
-    const response = result.response.text();
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        mevRisk: parsed.mevRisk || 'MEDIUM',
-        reason: parsed.reason || 'MEV risk analysis completed',
-        confidence: Math.min(1, Math.max(0, parsed.confidence || 0.7)),
-      };
-    }
-
-    return fallbackMEVRisk(input);
+    const output = await generateStructured<Omit<MEVRiskOutput, 'source'>>(provider, {
+      task: 'mev',
+      prompt,
+      maxOutputTokens: 150,
+    }, MEV_RISK_SCHEMA);
+    return { ...output, source: 'model' };
   } catch (error) {
     console.error('MEV risk analysis error:', error);
-    return fallbackMEVRisk(input);
+    return { ...fallbackMEVRisk(input, thresholds), source: 'fallback' };
   }
 }
 
-function fallbackMEVRisk(input: MEVRiskInput): MEVRiskOutput {
+function fallbackMEVRisk(input: MEVRiskInput, t: DecisionThresholds): Omit<MEVRiskOutput, 'source'> {
   const tradeSizePercent = (input.tradeSizeUsd / input.liquidityUsd) * 100;
 
   // High MEV risk criteria
-  if (input.slippageUsd > 2 && input.tradeSizeUsd > 50) {
+  if (input.slippageUsd > t.highMevSlippageUsd && input.tradeSizeUsd > t.mevMinTradeUsd) {
     return {
       mevRisk: 'HIGH',
       reason: 'Large trade with high slippage is very attractive to sandwich bots',
@@ -260,7 +259,8 @@ function fallbackMEVRisk(input: MEVRiskInput): MEVRiskOutput {
   }
 
   // Medium MEV risk
-  if (input.slippageUsd > 1 || tradeSizePercent > 0.05) {
+  // Sandwiching pays off at half the pool share that hurts slippage
+  if (input.slippageUsd > t.mediumMevSlippageUsd || tradeSizePercent > t.maxTradePctOfPool / 2) {
     return {
       mevRisk: 'MEDIUM',
       reason: 'Trade size or slippage makes sandwich attack possible',
@@ -269,7 +269,7 @@ function fallbackMEVRisk(input: MEVRiskInput): MEVRiskOutput {
   }
 
   // Low MEV risk
-  if (input.netProfitUsd < 5 && input.slippageUsd < 1) {
+  if (input.netProfitUsd < t.executeMinProfitUsd && input.slippageUsd < t.mediumMevSlippageUsd) {
     return {
       mevRisk: 'LOW',
       reason: 'Small profit and low slippage make attack uneconomical',
@@ -288,19 +288,48 @@ function fallbackMEVRisk(input: MEVRiskInput): MEVRiskOutput {
 
 export interface TimingRiskInput {
   gasUsd: number;
+  gasStressUsd?: number; // Gas at the fee market's stress price (ProfitCalculation.gas.stressUsd)
   netProfitUsd: number;
   chain: string;
   blockTime: number; // seconds
-  gasPriceVolatility?: number; // 0-1 scale
+  gasPriceVolatility?: number; // 0-1 scale (default: feeMarket.volatility)
+  feeMarket?: FeeMarket; // Recent fee history (lib/gas/fee-market.ts)
 }
 
 export interface TimingRiskOutput {
   timingRisk: 'LOW' | 'MEDIUM' | 'HIGH';
   reason: string;
   confidence: number;
+  source: OutputSource;
 }
 
-const TIMING_PROMPT = `You are a DeFi execution timing risk analyzer.
+// A spike this likely within the horizon is treated as expected
+const LIKELY_SPIKE_PROBABILITY = 0.5;
+
+// Assumed gas rise when neither a fee market nor a stress cost is given
+const DEFAULT_SPIKE_PCT = 50;
+
+/**
+ * Gas exposure over the execution window: the stressed cost, and the
+ * spike-probability-weighted expected cost
+ */
+function gasExposure(input: TimingRiskInput) {
+  const spikeProbability = input.feeMarket?.spikeProbability ?? null;
+  const spikePct = input.feeMarket?.spikeThresholdPct ?? DEFAULT_SPIKE_PCT;
+  const stressUsd = input.gasStressUsd ?? input.gasUsd * (1 + spikePct / 100);
+  const expectedUsd = input.gasUsd + (spikeProbability ?? 0) * (stressUsd - input.gasUsd);
+  const volatility = input.gasPriceVolatility ?? input.feeMarket?.volatility ?? null;
+  return { spikeProbability, stressUsd, expectedUsd, volatility };
+}
+
+export const TIMING_RISK_SCHEMA: OutputSchema = {
+  timingRisk: { type: 'enum', values: RISK_LEVELS },
+  reason: { type: 'string', default: 'Timing risk analysis completed' },
+  confidence: { type: 'number', min: 0, max: 1, default: 0.7 },
+};
+
+function buildTimingPrompt(t: DecisionThresholds): string {
+  return `You are a DeFi execution timing risk analyzer.
 
 Your ONLY job: assess if the execution window is stable enough.
 
@@ -314,9 +343,9 @@ A trade that looks profitable now can become unprofitable if:
 - Profit margin < 2x gas cost
 
 Rules:
-- If gas cost > 50% of net profit → HIGH
-- If gas cost > 30% of net profit → MEDIUM
-- If profit margin > 5x gas cost → LOW
+- If gas cost > ${t.highGasPctOfProfit}% of net profit → HIGH
+- If gas cost > ${t.mediumGasPctOfProfit}% of net profit → MEDIUM
+- If profit margin > ${t.safeProfitGasRatio}x gas cost → LOW
 - Consider chain's block time stability
 
 Return ONLY valid JSON:
@@ -325,22 +354,25 @@ Return ONLY valid JSON:
   "reason": "one sentence explaining timing stability",
   "confidence": 0.0 to 1.0
 }`;
+}
+
+export async function analyzeTimingRisk(
+  input: TimingRiskInput,
+  thresholds: DecisionThresholds = DEFAULT_DECISION_THRESHOLDS
+): Promise<TimingRiskOutput> {
+  const provider = getRiskModelProvider();
 
-export async function analyzeTimingRisk(input: TimingRiskInput): Promise<TimingRiskOutput> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  
-  if (!apiKey) {
-    return fallbackTimingRisk(input);
+  if (!provider) {
+    return { ...fallbackTimingRisk(input, thresholds), source: 'fallback' };
   }
 
   try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-
     const gasProfitRatio = input.netProfitUsd > 0 ? (input.gasUsd / input.netProfitUsd) * 100 : 100;
     const profitGasMultiple = input.gasUsd > 0 ? input.netProfitUsd / input.gasUsd : 0;
+    const exposure = gasExposure(input);
+    const market = input.feeMarket;
 
-    const prompt = `${TIMING_PROMPT}
+    const prompt = `${buildTimingPrompt(thresholds)}
 
 TIMING ANALYSIS:
 - Gas Cost: $${input.gasUsd.toFixed(4)}
@@ -351,45 +383,46 @@ TIMING ANALYSIS:
 EXECUTION CONTEXT:
 - Chain: ${input.chain}
 - Block Time: ${input.blockTime}s
-- Gas Volatility: ${input.gasPriceVolatility ? 'High' : 'Normal'}
-
+- Gas Volatility: ${exposure.volatility !== null ? `${(exposure.volatility * 100).toFixed(0)}% of the max per-block step` : 'unknown'}
+${market ? `- Base Fee Trend: ${market.baseFee.trendPctPerBlock.toFixed(2)}% per block over ${market.blockCount} blocks
+- Spike Probability: ${((exposure.spikeProbability ?? 0) * 100).toFixed(0)}% chance of a >${market.spikeThresholdPct}% base fee rise within ${market.horizonBlocks} blocks
+` : ''}
 VULNERABILITY:
-- If gas spikes 50%, profit becomes: $${(input.netProfitUsd - input.gasUsd * 0.5).toFixed(4)}
+- If gas spikes, gas becomes $${exposure.stressUsd.toFixed(4)} and profit becomes: $${(input.netProfitUsd - (exposure.stressUsd - input.gasUsd)).toFixed(4)}
+- Spike-weighted expected gas: $${exposure.expectedUsd.toFixed(4)}
 
 Analyze timing risk:`;
 
-    const result = await model.generateContent({
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.1,
-        maxOutputTokens: 150,
-      },
-    });
-
-    const response = result.response.text();
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        timingRisk: parsed.timingRisk || 'MEDIUM',
-        reason: parsed.reason || 'Timing risk analysis completed',
-        confidence: Math.min(1, Math.max(0, parsed.confidence || 0.7)),
-      };
-    }
-
-    return fallbackTimingRisk(input);
+    const output = await generateStructured<Omit<TimingRiskOutput, 'source'>>(provider, {
+      task: 'timing',
+      prompt,
+      maxOutputTokens: 150,
+    }, TIMING_RISK_SCHEMA);
+    return { ...output, source: 'model' };
   } catch (error) {
     console.error('Timing risk analysis error:', error);
-    return fallbackTimingRisk(input);
+    return { ...fallbackTimingRisk(input, thresholds), source: 'fallback' };
   }
 }
 
-function fallbackTimingRisk(input: TimingRiskInput): TimingRiskOutput {
-  const gasProfitRatio = input.netProfitUsd > 0 ? (input.gasUsd / input.netProfitUsd) : 1;
-  const profitGasMultiple = input.gasUsd > 0 ? input.netProfitUsd / input.gasUsd : 0;
+function fallbackTimingRisk(input: TimingRiskInput, t: DecisionThresholds): Omit<TimingRiskOutput, 'source'> {
+  const exposure = gasExposure(input);
+
+  if (exposure.spikeProbability !== null && exposure.spikeProbability >= LIKELY_SPIKE_PROBABILITY
+    && exposure.stressUsd - input.gasUsd >= input.netProfitUsd) {
+    return {
+      timingRisk: 'HIGH',
+      reason: `${(exposure.spikeProbability * 100).toFixed(0)}% chance of a gas spike that would erase the profit`,
+      confidence: 0.85,
+    };
+  }
+
+  // Judge margins against the spike-weighted gas cost, not the point reading
+  const gasUsd = exposure.expectedUsd;
+  const gasProfitRatio = input.netProfitUsd > 0 ? (gasUsd / input.netProfitUsd) : 1;
+  const profitGasMultiple = gasUsd > 0 ? input.netProfitUsd / gasUsd : 0;
 
-  if (gasProfitRatio > 0.5) {
+  if (gasProfitRatio * 100 > t.highGasPctOfProfit) {
     return {
       timingRisk: 'HIGH',
       reason: `Gas cost is ${(gasProfitRatio * 100).toFixed(0)}% of profit - vulnerable to gas spikes`,
@@ -397,7 +430,7 @@ function fallbackTimingRisk(input: TimingRiskInput): TimingRiskOutput {
     };
   }
 
-  if (gasProfitRatio > 0.3) {
+  if (gasProfitRatio * 100 > t.mediumGasPctOfProfit) {
     return {
       timingRisk: 'MEDIUM',
       reason: 'Profit margin thin relative to gas cost - moderate timing risk',
@@ -405,7 +438,7 @@ function fallbackTimingRisk(input: TimingRiskInput): TimingRiskOutput {
     };
   }
 
-  if (profitGasMultiple > 5) {
+  if (profitGasMultiple > t.safeProfitGasRatio) {
     return {
       timingRisk: 'LOW',
       reason: 'Strong profit margin provides buffer against gas volatility',
@@ -0,0 +1,345 @@
+/**
+ * Risk Policy Profiles
+ *
+ * Handles:
+ * - Named threshold profiles (conservative / balanced / aggressive) from a
+ *   versioned config file
+ * - Custom policies: any profile plus per-threshold overrides
+ * - Per-user policy settings (keyed by wallet address), saved only with a
+ *   signature from that wallet over policyUpdateMessage()
+ * - Bounds on every threshold, for config profiles and overrides alike
+ * - Resolving the policy for a request: request → user setting → config default
+ *
+ * Config:
+ * - RISK_POLICY_CONFIG       default ./config/risk-policies.json
+ * - RISK_POLICY_USERS_PATH   default ./data/risk-policy-users.json
+ *
+ * Profiles in the config only list thresholds that differ from
+ * DEFAULT_DECISION_THRESHOLDS, which is itself the "balanced" profile.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { DecisionThresholds, DEFAULT_DECISION_THRESHOLDS } from './decision-rules';
+
+// ============ Types ============
+
+export const CUSTOM_POLICY = 'custom';
+
+export interface RiskProfileConfig {
+  description: string;
+  thresholds: Partial<DecisionThresholds>;
+}
+
+export interface RiskPolicyConfig {
+  version: number;
+  defaultProfile: string;
+  profiles: Record<string, RiskProfileConfig>;
+}
+
+export interface RiskPolicy {
+  name: string;                  // Profile name, or 'custom' when overrides were applied
+  baseProfile: string;
+  version: number;               // Config version the policy was resolved from
+  thresholds: DecisionThresholds;
+  note?: string;                 // Why this is not the policy asked for (e.g. a stale saved setting)
+}
+
+export interface RiskPolicySelection {
+  profile?: string;              // A profile name, or 'custom' (= default profile + overrides)
+  overrides?: Partial<DecisionThresholds>;
+}
+
+export interface UserPolicySetting extends RiskPolicySelection {
+  updatedAt: number;
+  signedAt?: number;             // issuedAt of the signature that saved it
+}
+
+/** Wallet signature authorizing a policy update (see policyUpdateMessage) */
+export interface PolicyUpdateProof {
+  signature: string;
+  issuedAt: number;              // ms since epoch, part of the signed message
+}
+
+/** The signature is missing, stale, replayed or from another wallet */
+export class PolicyAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyAuthError';
+  }
+}
+
+// ============ Constants ============
+
+/** Used when the config file is missing: only the built-in balanced profile */
+const BUILT_IN_CONFIG: RiskPolicyConfig = {
+  version: 0,
+  defaultProfile: 'balanced',
+  profiles: {
+    balanced: { description: 'Built-in default thresholds', thresholds: {} },
+  },
+};
+
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+// Inclusive [min, max] per threshold; anything outside is rejected
+export const THRESHOLD_BOUNDS: Record<keyof DecisionThresholds, [number, number]> = {
+  minProfitUsd: [0, 10_000],
+  maxSpreadPct: [0.01, 100],
+  minProfitGasRatio: [0, 100],
+  safeProfitGasRatio: [0, 100],
+  executeMinProfitUsd: [0, 10_000],
+  safeProfitUsd: [0, 100_000],
+  highGasPctOfProfit: [0, 1_000],
+  mediumGasPctOfProfit: [0, 1_000],
+  highSlippagePctOfProfit: [0, 1_000],
+  mediumSlippagePctOfProfit: [0, 1_000],
+  maxTradePctOfPool: [0, 100],
+  highMevSlippageUsd: [0, 10_000],
+  mediumMevSlippageUsd: [0, 10_000],
+  mevMinTradeUsd: [0, 1_000_000],
+};
+
+// How long a signed policy update stays valid, and the clock skew tolerated
+const SIGNATURE_TTL_MS = 5 * 60_000;
+const SIGNATURE_CLOCK_SKEW_MS = 60_000;
+
+// ============ Config ============
+
+function getConfigPath(): string {
+  return process.env.RISK_POLICY_CONFIG || path.join(process.cwd(), 'config', 'risk-policies.json');
+}
+
+function getUsersPath(): string {
+  return process.env.RISK_POLICY_USERS_PATH || path.join(process.cwd(), 'data', 'risk-policy-users.json');
+}
+
+/**
+ * Keep only known threshold keys with finite numeric values inside THRESHOLD_BOUNDS
+ * @throws Error on an unknown key, a non-numeric value or one out of bounds
+ */
+export function parseThresholdOverrides(input: unknown): Partial<DecisionThresholds> {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('thresholds must be an object');
+  }
+
+  const overrides: Partial<DecisionThresholds> = {};
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!(key in DEFAULT_DECISION_THRESHOLDS)) {
+      throw new Error(`Unknown threshold: ${key}`);
+    }
+    const parsed = Number(value);
+    if (value === null || value === '' || !Number.isFinite(parsed)) {
+      throw new Error(`Invalid threshold ${key}: ${value}`);
+    }
+    const [min, max] = THRESHOLD_BOUNDS[key as keyof DecisionThresholds];
+    if (parsed < min || parsed > max) {
+      throw new Error(`Threshold ${key} must be between ${min} and ${max}, got ${parsed}`);
+    }
+    overrides[key as keyof DecisionThresholds] = parsed;
+  }
+  return overrides;
+}
+
+/**
+ * Load and validate the versioned policy config
+ */
+export async function loadRiskPolicyConfig(): Promise<RiskPolicyConfig> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getConfigPath(), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    console.warn(`Risk policy config not found at ${getConfigPath()}, using built-in balanced profile`);
+    return BUILT_IN_CONFIG;
+  }
+
+  const config: RiskPolicyConfig = JSON.parse(raw);
+  if (!Number.isInteger(config.version) || !config.profiles || !config.profiles[config.defaultProfile]) {
+    throw new Error('Invalid risk policy config: needs version, profiles and a defaultProfile that exists');
+  }
+  for (const [name, profile] of Object.entries(config.profiles)) {
+    if (name === CUSTOM_POLICY) {
+      throw new Error(`Invalid risk policy config: "${CUSTOM_POLICY}" is reserved`);
+    }
+    profile.thresholds = parseThresholdOverrides(profile.thresholds);
+  }
+
+  return config;
+}
+
+// ============ Resolution ============
+
+/**
+ * Build a concrete policy from a profile selection against a config
+ * @throws Error on an unknown profile or invalid overrides
+ */
+export function buildRiskPolicy(config: RiskPolicyConfig, selection: RiskPolicySelection = {}): RiskPolicy {
+  const requested = selection.profile || config.defaultProfile;
+  const baseProfile = requested === CUSTOM_POLICY ? config.defaultProfile : requested;
+  const profile = config.profiles[baseProfile];
+  if (!profile) {
+    throw new Error(
+      `Unknown risk policy profile: ${requested} (available: ${[...Object.keys(config.profiles), CUSTOM_POLICY].join(', ')})`
+    );
+  }
+
+  const overrides = parseThresholdOverrides(selection.overrides);
+  const customized = requested === CUSTOM_POLICY || Object.keys(overrides).length > 0;
+
+  return {
+    name: customized ? CUSTOM_POLICY : baseProfile,
+    baseProfile,
+    version: config.version,
+    thresholds: { ...DEFAULT_DECISION_THRESHOLDS, ...profile.thresholds, ...overrides },
+  };
+}
+
+/**
+ * Resolve the policy for a request
+ * Precedence: explicit selection → the user's saved setting → config default
+ * A saved setting the config no longer supports (e.g. a removed profile)
+ * falls back to the default profile, with a note, instead of failing
+ *
+ * @param selection - Profile/overrides from the request, if any
+ * @param user - Wallet address whose saved setting applies when the request has none
+ */
+export async function resolveRiskPolicy(
+  selection: RiskPolicySelection = {},
+  user?: string
+): Promise<RiskPolicy> {
+  const config = await loadRiskPolicyConfig();
+
+  const hasSelection = !!selection.profile || !!selection.overrides;
+  if (!hasSelection && user) {
+    const saved = await getUserPolicySetting(user);
+    if (saved) {
+      try {
+        return buildRiskPolicy(config, saved);
+      } catch (error) {
+        const note = `Saved policy for ${user} no longer applies (${error instanceof Error ? error.message : error}); ` +
+          `using the default profile ${config.defaultProfile}`;
+        console.warn(note);
+        return { ...buildRiskPolicy(config), note };
+      }
+    }
+  }
+
+  return buildRiskPolicy(config, selection);
+}
+
+// ============ Per-User Settings ============
+
+// Serialize read-modify-write of the users file so concurrent saves never drop each other
+let usersWriteQueue: Promise<unknown> = Promise.resolve();
+
+async function readUserSettings(): Promise<Record<string, UserPolicySetting>> {
+  try {
+    return JSON.parse(await fs.readFile(getUsersPath(), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+async function writeUserSettings(settings: Record<string, UserPolicySetting>): Promise<void> {
+  const file = getUsersPath();
+  const temp = `${file}.${process.pid}.tmp`;
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(temp, JSON.stringify(settings, null, 2) + '\n', 'utf8');
+  await fs.rename(temp, file);
+}
+
+export async function getUserPolicySetting(user: string): Promise<UserPolicySetting | null> {
+  if (!ADDRESS.test(user)) return null;
+  const settings = await readUserSettings();
+  return settings[user.toLowerCase()] ?? null;
+}
+
+/**
+ * The exact text a wallet signs (EIP-191 personal_sign) to save a policy
+ * Overrides are listed with sorted keys, so the client and server agree on it
+ * @throws Error on invalid overrides
+ */
+export function policyUpdateMessage(user: string, selection: RiskPolicySelection, issuedAt: number): string {
+  const overrides = parseThresholdOverrides(selection.overrides);
+  const sorted = Object.fromEntries(Object.keys(overrides).sort().map(key => [key, overrides[key as keyof DecisionThresholds]]));
+
+  return [
+    'Update arbitrage risk policy',
+    `User: ${user.toLowerCase()}`,
+    `Profile: ${selection.profile ?? ''}`,
+    `Overrides: ${JSON.stringify(sorted)}`,
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
+
+/**
+ * @throws PolicyAuthError unless `proof` is a fresh signature by `user` over this update
+ */
+function verifyPolicyUpdate(
+  user: string,
+  selection: RiskPolicySelection,
+  proof: PolicyUpdateProof | undefined,
+  saved: UserPolicySetting | undefined
+): asserts proof is PolicyUpdateProof {
+  if (!proof || typeof proof.signature !== 'string' || !Number.isInteger(proof.issuedAt)) {
+    throw new PolicyAuthError('A wallet signature (signature, issuedAt) is required to save a policy');
+  }
+
+  const age = Date.now() - proof.issuedAt;
+  if (age > SIGNATURE_TTL_MS || age < -SIGNATURE_CLOCK_SKEW_MS) {
+    throw new PolicyAuthError('Signature expired: sign a fresh policy update');
+  }
+  if (saved?.signedAt !== undefined && proof.issuedAt <= saved.signedAt) {
+    throw new PolicyAuthError('Signature already used: sign a fresh policy update');
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(policyUpdateMessage(user, selection, proof.issuedAt), proof.signature);
+  } catch {
+    throw new PolicyAuthError('Malformed signature');
+  }
+  if (signer.toLowerCase() !== user.toLowerCase()) {
+    throw new PolicyAuthError(`Signature is from ${signer}, not ${user}`);
+  }
+}
+
+/**
+ * Save a user's policy selection (validated against the current config first)
+ * @throws PolicyAuthError if the proof does not come from the user's wallet
+ * @throws Error on an invalid address, profile or overrides
+ */
+export async function setUserPolicySetting(
+  user: string,
+  selection: RiskPolicySelection,
+  proof: PolicyUpdateProof | undefined
+): Promise<RiskPolicy> {
+  if (!ADDRESS.test(user)) {
+    throw new Error(`Invalid user address: ${user}`);
+  }
+
+  const policy = buildRiskPolicy(await loadRiskPolicyConfig(), selection);
+  const key = user.toLowerCase();
+
+  const update = usersWriteQueue.then(async () => {
+    const settings = await readUserSettings();
+    verifyPolicyUpdate(user, selection, proof, settings[key]);
+
+    settings[key] = {
+      profile: selection.profile,
+      overrides: parseThresholdOverrides(selection.overrides),
+      updatedAt: Date.now(),
+      signedAt: proof.issuedAt,
+    };
+    await writeUserSettings(settings);
+  });
+  usersWriteQueue = update.catch(() => undefined);
+
+  await update;
+  return policy;
+}
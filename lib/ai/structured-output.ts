@@ -0,0 +1,252 @@
+/**
+ * Structured Output Parsing
+ *
+ * Handles:
+ * - Extracting the JSON object from raw model text (markdown fences, prose)
+ * - Validating it against a small field schema (enums, numbers, strings, objects)
+ * - Repairing trivially malformed fields (enum case, numeric strings, range)
+ * - Journaling every repair and rejection
+ * - One generateStructured() entry point shared by every risk agent
+ *
+ * Enum coercion is strict: only case, whitespace and surrounding punctuation
+ * are forgiven. "execute now" is NOT coerced to EXECUTE - it is rejected.
+ * Any rejection throws StructuredOutputError; callers fall back to their
+ * deterministic rules and mark the result source: 'fallback'.
+ */
+
+import { RiskModelProvider, RiskModelRequest } from './providers';
+import { recordJournalEntry } from '@/lib/journal/journal';
+
+// ============ Types ============
+
+export type FieldSpec =
+  | { type: 'enum'; values: readonly string[]; default?: string }
+  | { type: 'number'; min?: number; max?: number; default?: number }   // Out-of-range values are clamped
+  | { type: 'string'; default?: string }
+  | { type: 'object'; fields: OutputSchema; optional?: boolean };
+
+export type OutputSchema = Record<string, FieldSpec>;
+
+// Where a risk output came from: the model, or the deterministic rules
+export type OutputSource = 'model' | 'fallback';
+
+export type ValidationResult<T> =
+  | { valid: true; value: T; repairs: string[] }
+  | { valid: false; errors: string[]; repairs: string[] };
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[],
+    public readonly raw: string
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// ============ Parsing ============
+
+/**
+ * Pull the outermost JSON object out of model text
+ * @returns The parsed value, or undefined if no valid JSON object is present
+ */
+export function extractJson(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const match = unfenced.match(/\{[\s\S]*\}/);
+  if (!match) return undefined;
+
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    return undefined;
+  }
+}
+
+// ============ Validation ============
+
+/**
+ * Strict enum match: exact, else case-insensitive after trimming whitespace
+ * and surrounding punctuation. No substring or fuzzy matching.
+ */
+function coerceEnum(value: string, values: readonly string[]): string | undefined {
+  if (values.includes(value)) return value;
+  const normalized = value.trim().replace(/^[^\w]+|[^\w]+$/g, '').toLowerCase();
+  return values.find(v => v.toLowerCase() === normalized);
+}
+
+function validateField(
+  spec: FieldSpec,
+  value: unknown,
+  path: string,
+  errors: string[],
+  repairs: string[]
+): unknown {
+  if (spec.type === 'object') {
+    if (value === undefined && spec.optional) return undefined;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push(`${path}: expected object`);
+      return undefined;
+    }
+    return validateFields(spec.fields, value as Record<string, unknown>, `${path}.`, errors, repairs);
+  }
+
+  if (value === undefined || value === null || value === '') {
+    if (spec.default !== undefined) {
+      repairs.push(`${path}: missing, defaulted to ${JSON.stringify(spec.default)}`);
+      return spec.default;
+    }
+    errors.push(`${path}: required`);
+    return undefined;
+  }
+
+  switch (spec.type) {
+    case 'enum': {
+      const coerced = typeof value === 'string' ? coerceEnum(value, spec.values) : undefined;
+      if (coerced === undefined) {
+        errors.push(`${path}: expected one of ${spec.values.join('|')}, got ${JSON.stringify(value)}`);
+        return undefined;
+      }
+      if (coerced !== value) {
+        repairs.push(`${path}: coerced ${JSON.stringify(value)} to ${JSON.stringify(coerced)}`);
+      }
+      return coerced;
+    }
+
+    case 'number': {
+      let numeric = value;
+      if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+        numeric = Number(value);
+        repairs.push(`${path}: parsed numeric string ${JSON.stringify(value)}`);
+      }
+      if (typeof numeric !== 'number' || !Number.isFinite(numeric)) {
+        errors.push(`${path}: expected number, got ${JSON.stringify(value)}`);
+        return undefined;
+      }
+      let clamped = numeric;
+      if (spec.min !== undefined) clamped = Math.max(spec.min, clamped);
+      if (spec.max !== undefined) clamped = Math.min(spec.max, clamped);
+      if (clamped !== numeric) {
+        repairs.push(`${path}: clamped ${numeric} to ${clamped}`);
+      }
+      return clamped;
+    }
+
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${path}: expected string`);
+        return undefined;
+      }
+      return value;
+  }
+}
+
+function validateFields(
+  schema: OutputSchema,
+  input: Record<string, unknown>,
+  prefix: string,
+  errors: string[],
+  repairs: string[]
+): Record<string, unknown> {
+  const output: Record<string, unknown> = {};
+  for (const [key, spec] of Object.entries(schema)) {
+    const value = validateField(spec, input[key], `${prefix}${key}`, errors, repairs);
+    if (value !== undefined) output[key] = value;
+  }
+  return output;
+}
+
+/**
+ * Check a parsed value against a schema
+ * Unknown keys are dropped; defaults fill missing optional fields
+ */
+export function validateOutput<T>(value: unknown, schema: OutputSchema): ValidationResult<T> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { valid: false, errors: ['response is not a JSON object'], repairs: [] };
+  }
+
+  const errors: string[] = [];
+  const repairs: string[] = [];
+  const output = validateFields(schema, value as Record<string, unknown>, '', errors, repairs);
+
+  return errors.length > 0
+    ? { valid: false, errors, repairs }
+    : { valid: true, value: output as T, repairs };
+}
+
+// ============ Generation ============
+
+/**
+ * Journal a repaired or rejected model response
+ */
+async function recordValidation(
+  provider: RiskModelProvider,
+  request: RiskModelRequest,
+  outcome: 'repaired' | 'rejected',
+  errors: string[],
+  repairs: string[],
+  raw: string
+): Promise<void> {
+  console.warn(`${provider.name} ${request.task} output ${outcome}:`, [...errors, ...repairs].join('; '));
+  await recordJournalEntry({
+    kind: 'validation',
+    chains: [],
+    data: {
+      provider: provider.name,
+      model: provider.model,
+      task: request.task,
+      outcome,
+      errors,
+      repairs,
+      raw: raw.slice(0, 2000),
+    },
+  });
+}
+
+/**
+ * Run a prompt through a provider and return schema-validated output
+ * along with the raw model text (for provenance hashing)
+ * @throws StructuredOutputError when the response is not valid JSON for the schema
+ */
+export async function generateStructuredWithRaw<T>(
+  provider: RiskModelProvider,
+  request: RiskModelRequest,
+  schema: OutputSchema
+): Promise<{ value: T; raw: string }> {
+  const raw = await provider.generate(request);
+  const parsed = extractJson(raw);
+
+  if (parsed === undefined) {
+    const errors = ['no JSON object found'];
+    await recordValidation(provider, request, 'rejected', errors, [], raw);
+    throw new StructuredOutputError(`${provider.name} returned no JSON object`, errors, raw);
+  }
+
+  const result = validateOutput<T>(parsed, schema);
+  if (!result.valid) {
+    await recordValidation(provider, request, 'rejected', result.errors, result.repairs, raw);
+    throw new StructuredOutputError(
+      `${provider.name} returned invalid ${request.task} output: ${result.errors.join('; ')}`,
+      result.errors,
+      raw
+    );
+  }
+
+  if (result.repairs.length > 0) {
+    await recordValidation(provider, request, 'repaired', [], result.repairs, raw);
+  }
+
+  return { value: result.value, raw };
+}
+
+/**
+ * Run a prompt through a provider and return schema-validated output
+ * @throws StructuredOutputError when the response is not valid JSON for the schema
+ */
+export async function generateStructured<T>(
+  provider: RiskModelProvider,
+  request: RiskModelRequest,
+  schema: OutputSchema
+): Promise<T> {
+  return (await generateStructuredWithRaw<T>(provider, request, schema)).value;
+}
@@ -0,0 +1,153 @@
+/**
+ * Backtest Fixtures
+ *
+ * Handles:
+ * - Fixture file format (a time series of Base/Arbitrum pool snapshots)
+ * - Loading fixtures from disk (fully offline)
+ * - Recording new frames from live mainnet pools
+ *
+ * Location: BACKTEST_FIXTURE_DIR env var, default ./fixtures/backtest
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RawPoolSnapshot } from '@/lib/dex/swap-simulator';
+import { BridgeCostModel } from '@/lib/math/optimizer';
+
+// ============ Types ============
+
+/**
+ * Pool snapshot as returned by getPoolSnapshot() in services/poolService.js
+ * wethIsToken0 may be omitted: the 18-decimal side is then taken as WETH
+ */
+export type FixturePool = RawPoolSnapshot & {
+  wethIsToken0?: boolean;
+  poolAddress?: string;
+};
+
+/** What getPoolSnapshot() returns, on top of the serialized pool state */
+interface PoolServiceSnapshot extends RawPoolSnapshot {
+  chain: string;
+  poolAddress: string;
+  blockNumber: number;
+  token0: string;
+  token1: string;
+  timestamp: string;
+}
+
+export interface FixtureFrame {
+  timestamp: number | string;
+  base: FixturePool;
+  arbitrum: FixturePool;
+  gasPriceGwei?: number;        // Overrides the fixture default for this frame
+}
+
+export interface BacktestFixture {
+  name: string;
+  description?: string;
+  amountEth: number;            // Default trade size
+  gasPriceGwei: number;         // Default gas price
+  bridge: BridgeCostModel;
+  executionDelayFrames?: number; // Frames between buy and sell (bridge transit)
+  frames: FixtureFrame[];
+}
+
+// ============ Storage ============
+
+const FIXTURE_NAME = /^[\w.-]+$/;
+
+function getFixtureDir(): string {
+  return process.env.BACKTEST_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'backtest');
+}
+
+function fixturePath(name: string): string {
+  if (!FIXTURE_NAME.test(name)) {
+    throw new Error(`Invalid fixture name: ${name}`);
+  }
+  return path.join(getFixtureDir(), `${name}.json`);
+}
+
+/**
+ * Names of all fixtures on disk
+ */
+export async function listFixtures(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(getFixtureDir());
+    return files.filter(f => f.endsWith('.json')).map(f => f.slice(0, -'.json'.length)).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Load and sanity-check a fixture file
+ */
+export async function loadFixture(name: string): Promise<BacktestFixture> {
+  const raw = await fs.readFile(fixturePath(name), 'utf8');
+  const fixture: BacktestFixture = JSON.parse(raw);
+
+  if (!Array.isArray(fixture.frames) || fixture.frames.length === 0) {
+    throw new Error(`Fixture ${name} has no frames`);
+  }
+  fixture.frames.forEach((frame, i) => {
+    if (!frame.base?.sqrtPriceX96 || !frame.arbitrum?.sqrtPriceX96) {
+      throw new Error(`Fixture ${name} frame ${i} is missing a pool snapshot`);
+    }
+  });
+
+  return { ...fixture, name };
+}
+
+// ============ Recording ============
+
+/**
+ * Append one frame of live mainnet WETH/USDC snapshots to a fixture
+ * Creates the fixture (with default cost settings) if it does not exist
+ *
+ * @param name - Fixture name (file name without .json)
+ * @param fee - Pool fee tier to snapshot on both chains
+ */
+export async function recordFixtureFrame(name: string, fee: number = 500): Promise<FixtureFrame> {
+  // Loaded lazily so offline backtests never pull in RPC code
+  const { getPoolSnapshot } = await import('@/services/poolService');
+  const { TOKENS } = await import('@/config/chains');
+
+  const [base, arbitrum] = await Promise.all([
+    getPoolSnapshot('base', TOKENS.BASE.WETH, TOKENS.BASE.USDC, fee),
+    getPoolSnapshot('arbitrum', TOKENS.ARBITRUM.WETH, TOKENS.ARBITRUM.USDC, fee),
+  ]);
+
+  const toFixturePool = (snapshot: PoolServiceSnapshot, weth: string): FixturePool => ({
+    ...snapshot,
+    wethIsToken0: snapshot.token0.toLowerCase() === weth.toLowerCase(),
+  });
+
+  const frame: FixtureFrame = {
+    timestamp: Date.now(),
+    base: toFixturePool(base, TOKENS.BASE.WETH.address),
+    arbitrum: toFixturePool(arbitrum, TOKENS.ARBITRUM.WETH.address),
+  };
+
+  let fixture: BacktestFixture;
+  try {
+    fixture = await loadFixture(name);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    fixture = {
+      name,
+      description: `Recorded mainnet WETH/USDC ${fee} pools`,
+      amountEth: 1,
+      gasPriceGwei: 0.05,
+      bridge: { fixedUsd: 0.5, feeRate: 0.001 },
+      executionDelayFrames: 1,
+      frames: [],
+    };
+  }
+
+  fixture.frames.push(frame);
+  await fs.mkdir(getFixtureDir(), { recursive: true });
+  await fs.writeFile(fixturePath(name), JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+
+  return frame;
+}
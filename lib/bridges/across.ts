@@ -0,0 +1,133 @@
+/**
+ * Across Bridge Provider
+ *
+ * Handles:
+ * - Relayer + LP fee and expected fill time from the Across suggested-fees API
+ * - Deposit limits: larger deposits wait for slower fills and carry more risk
+ * - Gas of the SpokePool deposit on the origin chain
+ *
+ * Config:
+ * - ACROSS_API_URL   API base URL (default https://app.across.to/api; point at a local stub to test)
+ */
+
+import { ethers } from 'ethers';
+import { CHAINS, getToken } from '@/lib/chains/registry';
+import { BridgeProvider, BridgeRoute, BRIDGE_CHAINS, ProviderQuote, transactionGasCost } from './bridge-provider';
+
+// ============ Constants ============
+
+const DEFAULT_API_URL = 'https://app.across.to/api';
+
+// SpokePool.depositV3 on Base / Arbitrum
+const DEPOSIT_GAS_UNITS = 250_000;
+
+// Failure risk and latency floor per fill speed, by which limit the amount fits under
+const FILL_PROFILES = {
+  instant: { failureRisk: 0.01, minLatencySec: 0 },
+  shortDelay: { failureRisk: 0.03, minLatencySec: 30 * 60 },
+  slow: { failureRisk: 0.1, minLatencySec: 3 * 3600 },
+};
+
+const DEFAULT_FILL_TIME_SEC = 120;
+
+const spokePoolInterface = new ethers.Interface([
+  'function depositV3(address depositor, address recipient, address inputToken, address outputToken, uint256 inputAmount, uint256 outputAmount, uint256 destinationChainId, address exclusiveRelayer, uint32 quoteTimestamp, uint32 fillDeadline, uint32 exclusivityDeadline, bytes message) external payable',
+]);
+
+interface SuggestedFees {
+  totalRelayFee?: { total?: string };
+  estimatedFillTimeSec?: number;
+  isAmountTooLow?: boolean;
+  limits?: {
+    maxDepositInstant?: string;
+    maxDepositShortDelay?: string;
+    maxDeposit?: string;
+  };
+}
+
+// ============ Provider ============
+
+function apiUrl(): string {
+  return (process.env.ACROSS_API_URL || DEFAULT_API_URL).replace(/\/$/, '');
+}
+
+async function fetchSuggestedFees(route: BridgeRoute): Promise<SuggestedFees> {
+  const origin = CHAINS[BRIDGE_CHAINS[route.from]];
+  const destination = CHAINS[BRIDGE_CHAINS[route.to]];
+  const params = new URLSearchParams({
+    inputToken: getToken(origin.name, 'WETH').address,
+    outputToken: getToken(destination.name, 'WETH').address,
+    originChainId: String(origin.chainId),
+    destinationChainId: String(destination.chainId),
+    amount: route.amountInWei.toString(),
+  });
+
+  const response = await fetch(`${apiUrl()}/suggested-fees?${params}`);
+  if (!response.ok) {
+    throw new Error(`Across API returned status ${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+}
+
+function fillProfile(amountInWei: bigint, limits: SuggestedFees['limits']): keyof typeof FILL_PROFILES {
+  if (!limits) return 'instant';
+  if (limits.maxDeposit && amountInWei > BigInt(limits.maxDeposit)) {
+    throw new Error(`Amount exceeds the Across deposit limit of ${ethers.formatEther(limits.maxDeposit)} ETH`);
+  }
+  if (limits.maxDepositShortDelay && amountInWei > BigInt(limits.maxDepositShortDelay)) return 'slow';
+  if (limits.maxDepositInstant && amountInWei > BigInt(limits.maxDepositInstant)) return 'shortDelay';
+  return 'instant';
+}
+
+export const acrossProvider: BridgeProvider = {
+  id: 'across',
+  name: 'Across Protocol',
+
+  supports: route => route.from !== route.to,
+
+  async quote(route: BridgeRoute): Promise<ProviderQuote> {
+    const fees = await fetchSuggestedFees(route);
+    if (fees.isAmountTooLow) throw new Error('Amount is below the Across minimum deposit');
+    if (!fees.totalRelayFee?.total) throw new Error('Across API response has no totalRelayFee');
+
+    const protocolFeeWei = BigInt(fees.totalRelayFee.total);
+    if (protocolFeeWei >= route.amountInWei) throw new Error('Across relay fee exceeds the amount');
+    const expectedOutputWei = route.amountInWei - protocolFeeWei;
+    const speed = fillProfile(route.amountInWei, fees.limits);
+    const profile = FILL_PROFILES[speed];
+
+    const origin = BRIDGE_CHAINS[route.from];
+    const destination = BRIDGE_CHAINS[route.to];
+    const now = Math.floor(Date.now() / 1000);
+    const sample = '0x0000000000000000000000000000000000000001';
+    const gas = await transactionGasCost(origin, DEPOSIT_GAS_UNITS, {
+      to: CHAINS[origin].acrossSpokePool ?? ethers.ZeroAddress,
+      data: spokePoolInterface.encodeFunctionData('depositV3', [
+        sample,
+        sample,
+        getToken(origin, 'WETH').address,
+        getToken(destination, 'WETH').address,
+        route.amountInWei,
+        expectedOutputWei,
+        CHAINS[destination].chainId,
+        ethers.ZeroAddress,
+        now,
+        now + 6 * 3600,
+        0,
+        '0x',
+      ]),
+      value: route.amountInWei,
+    });
+
+    return {
+      expectedOutputWei,
+      protocolFeeWei,
+      gasFeeWei: gas.feeWei,
+      l1DataFeeWei: gas.l1DataFeeWei,
+      latencySec: Math.max(fees.estimatedFillTimeSec ?? DEFAULT_FILL_TIME_SEC, profile.minLatencySec),
+      failureRisk: profile.failureRisk,
+      source: 'api',
+      detail: `Across ${speed} fill, relay fee from ${apiUrl()}`,
+    };
+  },
+};
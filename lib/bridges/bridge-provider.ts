@@ -0,0 +1,156 @@
+/**
+ * Bridge Providers
+ *
+ * Handles:
+ * - The BridgeProvider interface every bridge implements
+ * - Quotes in one shape: fee, expected output, latency and failure risk
+ * - Origin-chain gas of a bridge transaction (execution + rollup L1 data fee)
+ *
+ * Bridges are priced on the mainnet Base/Arbitrum pair, where their quote
+ * APIs and contracts live, whatever the active environment.
+ *
+ * Fees are split into the protocol fee (deducted from the bridged amount)
+ * and gas (paid on top, across every transaction the route needs), so
+ * totalFeeWei = amountIn - expectedOutput + gas for every bridge.
+ */
+
+import { ethers } from 'ethers';
+import { getGasPrice } from '@/lib/contracts';
+import { getManagedProvider } from '@/lib/rpc/provider-manager';
+import { estimateL1DataFee, FeeTx } from '@/lib/gas/l1-fee';
+import { ArbChain, ChainName } from '@/lib/chains/registry';
+
+// ============ Types ============
+
+export type BridgeId = 'across' | 'canonical' | 'relayer';
+
+export interface BridgeRoute {
+  from: ArbChain;
+  to: ArbChain;
+  amountInWei: bigint;
+}
+
+export interface BridgeQuote {
+  bridge: BridgeId;
+  name: string;
+  from: ArbChain;
+  to: ArbChain;
+  amountInWei: bigint;
+  expectedOutputWei: bigint;      // Received on the destination chain
+  protocolFeeWei: bigint;         // Deducted from the amount (relayer / LP fee)
+  gasFeeWei: bigint;              // Paid on top, every transaction of the route
+  l1DataFeeWei: bigint;           // Part of gasFeeWei: rollup L1 data fees
+  totalFeeWei: bigint;
+  totalFeeUsd: number;
+  latencySec: number;             // Expected time until funds are usable on the destination
+  failureRisk: number;            // 0-1: chance the transfer does not complete as quoted
+  source: 'api' | 'model';
+  detail: string;
+}
+
+/** What a provider returns; fee totals and USD are filled in by buildQuote() */
+export type ProviderQuote = Pick<
+  BridgeQuote,
+  'expectedOutputWei' | 'protocolFeeWei' | 'gasFeeWei' | 'l1DataFeeWei' | 'latencySec' | 'failureRisk' | 'source' | 'detail'
+>;
+
+export interface BridgeProvider {
+  id: BridgeId;
+  name: string;
+  supports(route: BridgeRoute): boolean;
+  /** @throws Error when no quote is available (API down, amount out of limits, not configured) */
+  quote(route: BridgeRoute): Promise<ProviderQuote>;
+}
+
+export interface GasCost {
+  feeWei: bigint;
+  l1DataFeeWei: bigint;
+}
+
+// ============ Helpers ============
+
+/** Mainnet chain bridge quotes are priced on */
+export const BRIDGE_CHAINS: Record<ArbChain, ChainName> = {
+  base: 'base',
+  arbitrum: 'arbitrum',
+};
+
+/**
+ * Gas of one transaction: gasUnits at the chain's expected gas price, plus its
+ * L1 data fee on rollups when a representative tx is given (skipped if unreadable)
+ */
+export async function transactionGasCost(chain: ChainName, gasUnits: number, tx?: FeeTx): Promise<GasCost> {
+  const gasPrice = await getGasPrice(chain);
+  const executionWei = gasPrice * BigInt(gasUnits);
+  if (!tx) return { feeWei: executionWei, l1DataFeeWei: BigInt(0) };
+
+  const l1Fee = await estimateL1DataFee(getManagedProvider(chain), chain, tx).catch(error => {
+    console.warn(`L1 data fee unavailable on ${chain}: ${error instanceof Error ? error.message : error}`);
+    return null;
+  });
+  // gasUnits models execution only, so Arbitrum's L1 component is added here too
+  const l1DataFeeWei = l1Fee?.feeWei ?? BigInt(0);
+  return { feeWei: executionWei + l1DataFeeWei, l1DataFeeWei };
+}
+
+export function sumGasCosts(costs: GasCost[]): GasCost {
+  return costs.reduce(
+    (sum, cost) => ({ feeWei: sum.feeWei + cost.feeWei, l1DataFeeWei: sum.l1DataFeeWei + cost.l1DataFeeWei }),
+    { feeWei: BigInt(0), l1DataFeeWei: BigInt(0) }
+  );
+}
+
+/**
+ * Complete a provider quote with the route and fee totals
+ */
+export function buildQuote(
+  provider: BridgeProvider,
+  route: BridgeRoute,
+  quote: ProviderQuote,
+  ethPriceUsd: number
+): BridgeQuote {
+  const totalFeeWei = route.amountInWei - quote.expectedOutputWei + quote.gasFeeWei;
+  return {
+    bridge: provider.id,
+    name: provider.name,
+    from: route.from,
+    to: route.to,
+    amountInWei: route.amountInWei,
+    ...quote,
+    totalFeeWei,
+    totalFeeUsd: (Number(totalFeeWei) / 1e18) * ethPriceUsd,
+  };
+}
+
+/**
+ * JSON-safe view of a quote (wei as ETH strings)
+ */
+export function serializeBridgeQuote(quote: BridgeQuote) {
+  return {
+    bridge: quote.bridge,
+    name: quote.name,
+    from: quote.from,
+    to: quote.to,
+    amountInEth: ethers.formatEther(quote.amountInWei),
+    expectedOutputEth: ethers.formatEther(quote.expectedOutputWei),
+    protocolFeeEth: ethers.formatEther(quote.protocolFeeWei),
+    gasFeeEth: ethers.formatEther(quote.gasFeeWei),
+    l1DataFeeEth: ethers.formatEther(quote.l1DataFeeWei),
+    totalFeeEth: ethers.formatEther(quote.totalFeeWei),
+    totalFeeUsd: quote.totalFeeUsd,
+    latencySec: quote.latencySec,
+    failureRisk: quote.failureRisk,
+    source: quote.source,
+    detail: quote.detail,
+  };
+}
+
+/**
+ * Human-readable latency, e.g. "2 minutes", "7 days"
+ */
+export function formatLatency(seconds: number): string {
+  if (seconds < 120) return `${Math.round(seconds)} seconds`;
+  if (seconds < 2 * 3600) return `${Math.round(seconds / 60)} minutes`;
+  if (seconds < 2 * 86400) return `${Math.round(seconds / 3600)} hours`;
+  return `${Math.round(seconds / 86400)} days`;
+}
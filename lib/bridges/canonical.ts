@@ -0,0 +1,97 @@
+/**
+ * Canonical Rollup Bridge Provider
+ *
+ * Handles:
+ * - Base ↔ Arbitrum through the rollups' own messaging via Ethereum:
+ *   withdraw from the origin rollup, wait out its challenge period, finalize
+ *   on L1, then deposit into the destination rollup
+ * - Gas of every step (origin withdrawal incl. L1 data fee, L1 proof /
+ *   finalization, L1 deposit) at current gas prices
+ *
+ * No fee is taken from the amount and nothing depends on a relayer, so the
+ * failure risk is small; the cost is latency (about a week).
+ *
+ * Gas units are typical values for each step, not per-transfer estimates.
+ */
+
+import { ethers } from 'ethers';
+import { BridgeProvider, BridgeRoute, BRIDGE_CHAINS, ProviderQuote, sumGasCosts, transactionGasCost } from './bridge-provider';
+
+// ============ Constants ============
+
+const L2_TO_L1_MESSAGE_PASSER = '0x4200000000000000000000000000000000000016';
+const ARB_SYS = '0x0000000000000000000000000000000000000064';
+
+const withdrawalInterface = new ethers.Interface([
+  'function initiateWithdrawal(address _target, uint256 _gasLimit, bytes _data) external payable',
+  'function withdrawEth(address destination) external payable returns (uint256)',
+]);
+
+const OP_STACK_WITHDRAWAL = {
+  initiateGasUnits: 120_000,      // L2ToL1MessagePasser.initiateWithdrawal on Base
+  proveGasUnits: 300_000,         // OptimismPortal.proveWithdrawalTransaction on L1
+  finalizeGasUnits: 150_000,      // OptimismPortal.finalizeWithdrawalTransaction on L1
+  latencySec: 7 * 86400 + 3600,   // Challenge period + waiting for the output proposal
+};
+
+const ARBITRUM_WITHDRAWAL = {
+  initiateGasUnits: 100_000,      // ArbSys.withdrawEth on Arbitrum
+  executeGasUnits: 200_000,       // Outbox.executeTransaction on L1
+  latencySec: 6.4 * 86400 + 3600, // ~45818 L1 blocks + waiting for the batch assertion
+};
+
+const DEPOSIT = {
+  base: { gasUnits: 100_000, latencySec: 3 * 60 },       // OptimismPortal.depositTransaction
+  arbitrum: { gasUnits: 100_000, latencySec: 15 * 60 },  // Inbox.depositEth (retryable)
+};
+
+const FAILURE_RISK = 0.005;
+
+// ============ Provider ============
+
+export const canonicalProvider: BridgeProvider = {
+  id: 'canonical',
+  name: 'Canonical rollup bridges (via Ethereum)',
+
+  supports: route => route.from !== route.to,
+
+  async quote(route: BridgeRoute): Promise<ProviderQuote> {
+    const origin = BRIDGE_CHAINS[route.from];
+    const recipient = '0x0000000000000000000000000000000000000001';
+
+    const steps = route.from === 'base'
+      ? [
+          transactionGasCost(origin, OP_STACK_WITHDRAWAL.initiateGasUnits, {
+            to: L2_TO_L1_MESSAGE_PASSER,
+            data: withdrawalInterface.encodeFunctionData('initiateWithdrawal', [recipient, 100_000, '0x']),
+            value: route.amountInWei,
+          }),
+          transactionGasCost('ethereum', OP_STACK_WITHDRAWAL.proveGasUnits),
+          transactionGasCost('ethereum', OP_STACK_WITHDRAWAL.finalizeGasUnits),
+        ]
+      : [
+          transactionGasCost(origin, ARBITRUM_WITHDRAWAL.initiateGasUnits, {
+            to: ARB_SYS,
+            data: withdrawalInterface.encodeFunctionData('withdrawEth', [recipient]),
+            value: route.amountInWei,
+          }),
+          transactionGasCost('ethereum', ARBITRUM_WITHDRAWAL.executeGasUnits),
+        ];
+    const deposit = DEPOSIT[route.to];
+    steps.push(transactionGasCost('ethereum', deposit.gasUnits));
+
+    const gas = sumGasCosts(await Promise.all(steps));
+    const withdrawal = route.from === 'base' ? OP_STACK_WITHDRAWAL : ARBITRUM_WITHDRAWAL;
+
+    return {
+      expectedOutputWei: route.amountInWei,
+      protocolFeeWei: BigInt(0),
+      gasFeeWei: gas.feeWei,
+      l1DataFeeWei: gas.l1DataFeeWei,
+      latencySec: withdrawal.latencySec + deposit.latencySec,
+      failureRisk: FAILURE_RISK,
+      source: 'model',
+      detail: `${route.from} withdrawal (${steps.length - 1} txs) + L1 deposit into ${route.to}, gas at current prices`,
+    };
+  },
+};
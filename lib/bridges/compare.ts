@@ -0,0 +1,183 @@
+/**
+ * Bridge Quote Comparison
+ *
+ * Handles:
+ * - Quoting a transfer on every enabled bridge in parallel (with a timeout)
+ * - Excluding routes slower than a maximum latency (the canonical bridges'
+ *   week-long withdrawal is never usable for an arbitrage leg)
+ * - Picking the lowest risk-adjusted cost: total fee (gas included), plus the
+ *   expected loss from failureRisk, plus a carry cost for the time in transit
+ * - Reporting the alternatives, the excluded routes and the bridges that
+ *   could not quote
+ *
+ * Config:
+ * - BRIDGE_PROVIDERS                enabled bridges in order, e.g. "across,canonical,relayer"
+ *                                   (default "across,canonical,relayer"; the relayer is
+ *                                   skipped until configured, see relayer.ts)
+ * - BRIDGE_MAX_LATENCY_SEC          slowest usable route (default 3600)
+ * - BRIDGE_LATENCY_COST_BPS_PER_HOUR  carry cost of funds in transit (default 5)
+ */
+
+import { ReferencePrice } from '@/lib/prices/reference-price';
+import { acrossProvider } from './across';
+import { canonicalProvider } from './canonical';
+import { relayerProvider } from './relayer';
+import {
+  BridgeId,
+  BridgeProvider,
+  BridgeQuote,
+  BridgeRoute,
+  buildQuote,
+  formatLatency,
+  serializeBridgeQuote,
+} from './bridge-provider';
+
+// ============ Types ============
+
+export interface BridgeQuoteFailure {
+  bridge: BridgeId;
+  name: string;
+  error: string;
+}
+
+export interface BridgeComparison {
+  selected: BridgeQuote;
+  alternatives: BridgeQuote[];    // Other usable quotes, lowest adjusted cost first
+  excluded: BridgeQuote[];        // Quoted, but slower than maxLatencySec
+  failed: BridgeQuoteFailure[];
+}
+
+export interface BridgeSelectionConfig {
+  maxLatencySec: number;
+  latencyCostBpsPerHour: number;
+}
+
+// ============ Constants ============
+
+const PROVIDERS: Record<BridgeId, BridgeProvider> = {
+  across: acrossProvider,
+  canonical: canonicalProvider,
+  relayer: relayerProvider,
+};
+
+const DEFAULT_PROVIDERS: BridgeId[] = ['across', 'canonical', 'relayer'];
+
+const QUOTE_TIMEOUT_MS = 10_000;
+
+const DEFAULT_MAX_LATENCY_SEC = 3600;
+const DEFAULT_LATENCY_COST_BPS_PER_HOUR = 5;
+
+// ============ Helpers ============
+
+function withTimeout<T>(promise: Promise<T>, label: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${label} timed out after ${QUOTE_TIMEOUT_MS}ms`)), QUOTE_TIMEOUT_MS);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+/**
+ * Fee plus the expected cost of failure and of the time in transit, in USD
+ */
+function adjustedCostUsd(quote: BridgeQuote, ethPriceUsd: number, config: BridgeSelectionConfig): number {
+  const amountUsd = (Number(quote.amountInWei) / 1e18) * ethPriceUsd;
+  const latencyCostUsd = amountUsd * (config.latencyCostBpsPerHour / 10_000) * (quote.latencySec / 3600);
+  return quote.totalFeeUsd + quote.failureRisk * amountUsd + latencyCostUsd;
+}
+
+// ============ Public API ============
+
+export function getBridgeSelectionConfig(): BridgeSelectionConfig {
+  const maxLatencySec = Number(process.env.BRIDGE_MAX_LATENCY_SEC);
+  const latencyCostBpsPerHour = parseFloat(process.env.BRIDGE_LATENCY_COST_BPS_PER_HOUR ?? '');
+
+  return {
+    maxLatencySec: maxLatencySec > 0 ? maxLatencySec : DEFAULT_MAX_LATENCY_SEC,
+    // 0 is allowed: rank on fee and failure risk alone
+    latencyCostBpsPerHour: latencyCostBpsPerHour >= 0 ? latencyCostBpsPerHour : DEFAULT_LATENCY_COST_BPS_PER_HOUR,
+  };
+}
+
+/**
+ * Enabled bridges (unknown names are rejected)
+ */
+export function getBridgeProviders(): BridgeProvider[] {
+  const configured = process.env.BRIDGE_PROVIDERS;
+  const ids = configured
+    ? configured.split(',').map(s => s.trim()).filter(Boolean)
+    : DEFAULT_PROVIDERS;
+
+  return ids.map(id => {
+    if (!(id in PROVIDERS)) {
+      throw new Error(`Unknown bridge provider: ${id} (available: ${Object.keys(PROVIDERS).join(', ')})`);
+    }
+    return PROVIDERS[id as BridgeId];
+  });
+}
+
+/**
+ * Quote the transfer on every enabled bridge and select the lowest
+ * risk-adjusted cost among the routes fast enough to use
+ * @throws Error listing every bridge's failure when none can quote, or when
+ *         every quote is slower than maxLatencySec
+ */
+export async function compareBridges(
+  route: BridgeRoute,
+  referencePrice: ReferencePrice,
+  providers: BridgeProvider[] = getBridgeProviders(),
+  config: BridgeSelectionConfig = getBridgeSelectionConfig()
+): Promise<BridgeComparison> {
+  const candidates = providers.filter(provider => provider.supports(route));
+
+  const settled = await Promise.allSettled(
+    candidates.map(provider => withTimeout(provider.quote(route), provider.name))
+  );
+
+  const quotes: BridgeQuote[] = [];
+  const failed: BridgeQuoteFailure[] = [];
+  settled.forEach((result, i) => {
+    const provider = candidates[i];
+    if (result.status === 'fulfilled') {
+      quotes.push(buildQuote(provider, route, result.value, referencePrice.priceUsd));
+    } else {
+      const error = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+      console.warn(`Bridge ${provider.id} could not quote: ${error}`);
+      failed.push({ bridge: provider.id, name: provider.name, error });
+    }
+  });
+
+  if (quotes.length === 0) {
+    throw new Error(
+      `No bridge quote available (${failed.map(f => `${f.bridge}: ${f.error}`).join('; ') || 'no bridges enabled'})`
+    );
+  }
+
+  const cost = new Map(quotes.map(quote => [quote, adjustedCostUsd(quote, referencePrice.priceUsd, config)]));
+  const usable = quotes.filter(quote => quote.latencySec <= config.maxLatencySec);
+  const excluded = quotes.filter(quote => quote.latencySec > config.maxLatencySec);
+
+  if (usable.length === 0) {
+    throw new Error(
+      `No bridge within the ${formatLatency(config.maxLatencySec)} latency limit ` +
+      `(${excluded.map(q => `${q.bridge}: ${formatLatency(q.latencySec)}`).join('; ')})`
+    );
+  }
+
+  const [selected, ...alternatives] = usable.sort((a, b) => cost.get(a)! - cost.get(b)!);
+  return { selected, alternatives, excluded, failed };
+}
+
+/**
+ * JSON-safe view of a comparison
+ */
+export function serializeBridgeComparison(comparison: BridgeComparison) {
+  return {
+    selected: serializeBridgeQuote(comparison.selected),
+    alternatives: comparison.alternatives.map(serializeBridgeQuote),
+    excluded: comparison.excluded.map(serializeBridgeQuote),
+    failed: comparison.failed,
+  };
+}
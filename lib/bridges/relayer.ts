@@ -0,0 +1,112 @@
+/**
+ * Generic Relayer Bridge Provider
+ *
+ * Handles:
+ * - Any intent / relayer bridge described by a fee model from config:
+ *   proportional fee + fixed fee, expected latency and failure risk
+ * - Optionally a live quote from an HTTP endpoint returning
+ *   { "feeWei": "...", "latencySec"?: n, "failureRisk"?: n }, which
+ *   overrides the modeled fee (and latency / risk when given)
+ * - Gas of the origin-chain deposit
+ *
+ * Not quoted until BRIDGE_RELAYER_FEE_BPS or BRIDGE_RELAYER_QUOTE_URL is set.
+ *
+ * Config:
+ * - BRIDGE_RELAYER_NAME           display name (default "Generic relayer")
+ * - BRIDGE_RELAYER_FEE_BPS        proportional fee
+ * - BRIDGE_RELAYER_FIXED_FEE_ETH  fixed fee per transfer (default 0)
+ * - BRIDGE_RELAYER_LATENCY_SEC    expected fill time (default 120)
+ * - BRIDGE_RELAYER_FAILURE_RISK   0-1 (default 0.02)
+ * - BRIDGE_RELAYER_GAS_UNITS      origin deposit gas (default 100000)
+ * - BRIDGE_RELAYER_QUOTE_URL      quote endpoint, called with ?originChainId=&destinationChainId=&amount=
+ */
+
+import { ethers } from 'ethers';
+import { CHAINS } from '@/lib/chains/registry';
+import { BridgeProvider, BridgeRoute, BRIDGE_CHAINS, ProviderQuote, transactionGasCost } from './bridge-provider';
+
+// ============ Types ============
+
+export interface RelayerModel {
+  name: string;
+  feeBps: number | null;
+  fixedFeeWei: bigint;
+  latencySec: number;
+  failureRisk: number;
+  gasUnits: number;
+  quoteUrl: string | null;
+}
+
+// ============ Config ============
+
+export function getRelayerModel(): RelayerModel {
+  const feeBps = process.env.BRIDGE_RELAYER_FEE_BPS;
+  return {
+    name: process.env.BRIDGE_RELAYER_NAME || 'Generic relayer',
+    feeBps: feeBps !== undefined && feeBps !== '' ? Number(feeBps) : null,
+    fixedFeeWei: ethers.parseEther(process.env.BRIDGE_RELAYER_FIXED_FEE_ETH || '0'),
+    latencySec: Number(process.env.BRIDGE_RELAYER_LATENCY_SEC) || 120,
+    failureRisk: Number(process.env.BRIDGE_RELAYER_FAILURE_RISK) || 0.02,
+    gasUnits: Number(process.env.BRIDGE_RELAYER_GAS_UNITS) || 100_000,
+    quoteUrl: process.env.BRIDGE_RELAYER_QUOTE_URL || null,
+  };
+}
+
+// ============ Provider ============
+
+async function fetchQuote(url: string, route: BridgeRoute) {
+  const params = new URLSearchParams({
+    originChainId: String(CHAINS[BRIDGE_CHAINS[route.from]].chainId),
+    destinationChainId: String(CHAINS[BRIDGE_CHAINS[route.to]].chainId),
+    amount: route.amountInWei.toString(),
+  });
+
+  const response = await fetch(`${url}${url.includes('?') ? '&' : '?'}${params}`);
+  if (!response.ok) throw new Error(`Relayer quote API returned status ${response.status}`);
+
+  const body = await response.json();
+  if (body.feeWei === undefined) throw new Error('Relayer quote has no feeWei');
+  return {
+    feeWei: BigInt(body.feeWei),
+    latencySec: typeof body.latencySec === 'number' ? body.latencySec : undefined,
+    failureRisk: typeof body.failureRisk === 'number' ? body.failureRisk : undefined,
+  };
+}
+
+export const relayerProvider: BridgeProvider = {
+  id: 'relayer',
+  get name() {
+    return getRelayerModel().name;
+  },
+
+  supports: route => {
+    const model = getRelayerModel();
+    return route.from !== route.to && (model.feeBps !== null || model.quoteUrl !== null);
+  },
+
+  async quote(route: BridgeRoute): Promise<ProviderQuote> {
+    const model = getRelayerModel();
+    if (model.feeBps === null && !model.quoteUrl) {
+      throw new Error('Relayer bridge is not configured (set BRIDGE_RELAYER_FEE_BPS or BRIDGE_RELAYER_QUOTE_URL)');
+    }
+
+    const live = model.quoteUrl ? await fetchQuote(model.quoteUrl, route) : null;
+    const protocolFeeWei = live
+      ? live.feeWei
+      : (route.amountInWei * BigInt(Math.round((model.feeBps ?? 0) * 100))) / BigInt(1_000_000) + model.fixedFeeWei;
+    if (protocolFeeWei >= route.amountInWei) throw new Error('Relayer fee exceeds the amount');
+
+    const gas = await transactionGasCost(BRIDGE_CHAINS[route.from], model.gasUnits);
+
+    return {
+      expectedOutputWei: route.amountInWei - protocolFeeWei,
+      protocolFeeWei,
+      gasFeeWei: gas.feeWei,
+      l1DataFeeWei: gas.l1DataFeeWei,
+      latencySec: live?.latencySec ?? model.latencySec,
+      failureRisk: live?.failureRisk ?? model.failureRisk,
+      source: live ? 'api' : 'model',
+      detail: live ? `Quote from ${model.quoteUrl}` : `${model.feeBps} bps + ${ethers.formatEther(model.fixedFeeWei)} ETH fee model`,
+    };
+  },
+};
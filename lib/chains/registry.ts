@@ -0,0 +1,355 @@
+/**
+ * Chain & Deployment Registry
+ *
+ * Handles:
+ * - Every chain we talk to: chain ID, default RPCs, explorer, rollup stack
+ * - Per-chain contracts: Uniswap V3 factory / router / quoter, Across
+ *   SpokePool, OP-stack L1 portal, Chainlink feed, our ArbitrageExecutor
+ * - Tokens and the reference ETH/USDC pool per chain
+ * - Which chain plays the Base / Arbitrum leg in each environment
+ *   (mainnet, testnet, local fork)
+ *
+ * Chains are addressed by ChainName, a closed union, so an unknown chain is a
+ * compile error. Strings from requests or env go through parseChainName().
+ *
+ * Fork chains are local mainnet forks (anvil / hardhat --fork). They keep the
+ * forked chain's ID and contracts; only the RPC and executor differ.
+ *
+ * This module is pure data (no ethers, no RPC) so client components can
+ * import it too.
+ *
+ * Config:
+ * - ARB_ENVIRONMENT                         mainnet | testnet (default) | fork
+ * - NEXT_PUBLIC_CONTRACT_ADDRESS            Base Sepolia executor (NEXT_PUBLIC_ARBITRAGE_EXECUTOR_ADDRESS also accepted)
+ * - NEXT_PUBLIC_ARBITRUM_CONTRACT_ADDRESS   Arbitrum Sepolia executor
+ * - <PREFIX>_EXECUTOR_ADDRESS               executor on BASE, ARBITRUM, BASE_FORK, ARBITRUM_FORK
+ * - RPC overrides: see lib/rpc/provider-manager.ts (same prefixes)
+ */
+
+// ============ Types ============
+
+export type ChainName =
+  | 'ethereum'
+  | 'base'
+  | 'arbitrum'
+  | 'baseSepolia'
+  | 'arbitrumSepolia'
+  | 'baseFork'
+  | 'arbitrumFork';
+
+export type Environment = 'mainnet' | 'testnet' | 'fork';
+
+/** Rollup stack of an L2, which decides how its L1 data fee is priced */
+export type RollupStack = 'op-stack' | 'arbitrum';
+
+/** The two legs of the arbitrage */
+export type ArbChain = 'base' | 'arbitrum';
+
+export interface TokenInfo {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+export interface UniswapDeployment {
+  factory: string;
+  swapRouter: string;             // SwapRouter02 unless noted
+  quoter: string;                 // QuoterV2
+}
+
+export interface ChainDeployment {
+  name: ChainName;
+  displayName: string;
+  environment: Environment;
+  chainId: number;
+  rpcEnvPrefix: string;           // <PREFIX>_RPC_URL(S), <PREFIX>_WS_URL
+  rpcUrls: string[];              // Defaults, in priority order
+  explorer: string | null;
+  rollup?: RollupStack;           // Unset for L1
+  uniswap?: UniswapDeployment;
+  acrossSpokePool?: string;
+  optimismPortal?: string;        // L1 OptimismPortal for deposits into this (OP-stack) chain
+  ethUsdFeed?: string;            // Chainlink ETH/USD aggregator
+  executor?: string;              // Our ArbitrageExecutor
+  tokens: Record<string, TokenInfo>;
+  pools: {
+    ethUsdc?: string;             // Reference WETH/USDC pool for price reads
+  };
+}
+
+// ============ Tokens ============
+
+const MAINNET_TOKENS: Record<'ethereum' | ArbChain, Record<string, TokenInfo>> = {
+  ethereum: {
+    WETH: { symbol: 'WETH', address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18 },
+    USDC: { symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 },
+  },
+  base: {
+    WETH: { symbol: 'WETH', address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+    USDC: { symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6 },
+    USDbC: { symbol: 'USDbC', address: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA', decimals: 6 },
+    cbETH: { symbol: 'cbETH', address: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22', decimals: 18 },
+  },
+  arbitrum: {
+    WETH: { symbol: 'WETH', address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', decimals: 18 },
+    USDC: { symbol: 'USDC', address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', decimals: 6 },
+    USDT: { symbol: 'USDT', address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', decimals: 6 },
+    cbETH: { symbol: 'cbETH', address: '0x1DEBd73E752bEaF79865Fd6446b0c970EaE7732f', decimals: 18 },
+  },
+};
+
+// ============ Registry ============
+
+// Shared by each mainnet chain and its local fork
+type ChainContracts = Pick<ChainDeployment, 'chainId' | 'rollup' | 'uniswap' | 'acrossSpokePool' | 'optimismPortal' | 'tokens' | 'pools'>;
+
+const BASE_MAINNET: ChainContracts = {
+  chainId: 8453,
+  rollup: 'op-stack',
+  uniswap: {
+    factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
+    swapRouter: '0x2626664c2603336E57B271c5C0b26F421741e481',
+    quoter: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a',
+  },
+  acrossSpokePool: '0x09aea4b2242abC8bb4BB78D537A67a245A7bEC64',
+  optimismPortal: '0x49048044D57e1C92A77f79988d21Fa8fAF74E97e',
+  tokens: MAINNET_TOKENS.base,
+  pools: {
+    ethUsdc: '0x6c561B446416E1A00E8E93E221854d6eA4171372',
+  },
+};
+
+const ARBITRUM_MAINNET: ChainContracts = {
+  chainId: 42161,
+  rollup: 'arbitrum',
+  uniswap: {
+    factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    swapRouter: '0xE592427A0AEce92De3Edee1F18E0157C05861564',   // SwapRouter (v1)
+    quoter: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+  },
+  acrossSpokePool: '0xe35e9842fceaCA96570B734083f4a58e8F7C5f2A',
+  tokens: MAINNET_TOKENS.arbitrum,
+  pools: {
+    ethUsdc: '0xC6962004f452bE9203591991D15f6b388e09E8D0',      // WETH/USDC 0.05%
+  },
+};
+
+export const CHAINS: Record<ChainName, ChainDeployment> = {
+  ethereum: {
+    name: 'ethereum',
+    displayName: 'Ethereum',
+    environment: 'mainnet',
+    chainId: 1,
+    rpcEnvPrefix: 'MAINNET',
+    rpcUrls: ['https://eth.llamarpc.com', 'https://ethereum-rpc.publicnode.com'],
+    explorer: 'https://etherscan.io',
+    ethUsdFeed: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+    tokens: MAINNET_TOKENS.ethereum,
+    pools: {},
+  },
+  base: {
+    ...BASE_MAINNET,
+    name: 'base',
+    displayName: 'Base',
+    environment: 'mainnet',
+    rpcEnvPrefix: 'BASE',
+    rpcUrls: ['https://mainnet.base.org', 'https://base-rpc.publicnode.com'],
+    explorer: 'https://basescan.org',
+    executor: process.env.BASE_EXECUTOR_ADDRESS || undefined,
+  },
+  arbitrum: {
+    ...ARBITRUM_MAINNET,
+    name: 'arbitrum',
+    displayName: 'Arbitrum One',
+    environment: 'mainnet',
+    rpcEnvPrefix: 'ARBITRUM',
+    rpcUrls: ['https://arb1.arbitrum.io/rpc', 'https://arbitrum-one-rpc.publicnode.com'],
+    explorer: 'https://arbiscan.io',
+    executor: process.env.ARBITRUM_EXECUTOR_ADDRESS || undefined,
+  },
+  baseSepolia: {
+    name: 'baseSepolia',
+    displayName: 'Base Sepolia',
+    environment: 'testnet',
+    chainId: 84532,
+    rpcEnvPrefix: 'BASE_SEPOLIA',
+    rpcUrls: ['https://sepolia.base.org', 'https://base-sepolia-rpc.publicnode.com'],
+    explorer: 'https://sepolia.basescan.org',
+    rollup: 'op-stack',
+    uniswap: {
+      factory: '0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24',
+      swapRouter: '0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4',
+      quoter: '0xC5290058841028F1614F3A6F0F5816cAd0df5E27',
+    },
+    executor: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS
+      || process.env.NEXT_PUBLIC_ARBITRAGE_EXECUTOR_ADDRESS
+      || '0x03A159be72A53176480Ab1408f6a1497844990cE',
+    tokens: {
+      WETH: { symbol: 'WETH', address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+      USDC: { symbol: 'USDC', address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', decimals: 6 },
+    },
+    pools: {
+      ethUsdc: '0xd0b53D9277642d899DF5C87A3966A349A798F224',
+    },
+  },
+  arbitrumSepolia: {
+    name: 'arbitrumSepolia',
+    displayName: 'Arbitrum Sepolia',
+    environment: 'testnet',
+    chainId: 421614,
+    rpcEnvPrefix: 'ARBITRUM_SEPOLIA',
+    rpcUrls: ['https://sepolia-rollup.arbitrum.io/rpc', 'https://arbitrum-sepolia-rpc.publicnode.com'],
+    explorer: 'https://sepolia.arbiscan.io',
+    rollup: 'arbitrum',
+    uniswap: {
+      factory: '0x248AB79Bbb9bC29bB72f7Cd42F17e054Fc40188e',
+      swapRouter: '0x101F443B4d1b059569D643917553c771E1b9663E',
+      quoter: '0x2779a0CC1c3e0E44D2542EC3e79e3864Ae93Ef0B',
+    },
+    // deployment-arbitrum.json
+    executor: process.env.NEXT_PUBLIC_ARBITRUM_CONTRACT_ADDRESS || '0x485106A5cbc420fdBd5740183910F6ebC364e0fa',
+    tokens: {
+      WETH: { symbol: 'WETH', address: '0x980B62Da83eFf3D4576C647993b0c1D7faf17c73', decimals: 18 },
+      USDC: { symbol: 'USDC', address: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d', decimals: 6 },
+    },
+    pools: {
+      ethUsdc: '0x80d201E993E22e56D97F4A3c93F14aD3F75C5EAc',
+    },
+  },
+  baseFork: {
+    ...BASE_MAINNET,
+    name: 'baseFork',
+    displayName: 'Base (local fork)',
+    environment: 'fork',
+    rpcEnvPrefix: 'BASE_FORK',
+    rpcUrls: ['http://127.0.0.1:8545'],
+    explorer: null,
+    executor: process.env.BASE_FORK_EXECUTOR_ADDRESS || undefined,
+  },
+  arbitrumFork: {
+    ...ARBITRUM_MAINNET,
+    name: 'arbitrumFork',
+    displayName: 'Arbitrum One (local fork)',
+    environment: 'fork',
+    rpcEnvPrefix: 'ARBITRUM_FORK',
+    rpcUrls: ['http://127.0.0.1:8546'],
+    explorer: null,
+    executor: process.env.ARBITRUM_FORK_EXECUTOR_ADDRESS || undefined,
+  },
+};
+
+export const ENVIRONMENTS: Environment[] = ['mainnet', 'testnet', 'fork'];
+
+/** Chain playing each arbitrage leg, per environment */
+export const DEPLOYMENTS: Record<Environment, Record<ArbChain, ChainName>> = {
+  mainnet: { base: 'base', arbitrum: 'arbitrum' },
+  testnet: { base: 'baseSepolia', arbitrum: 'arbitrumSepolia' },
+  fork: { base: 'baseFork', arbitrum: 'arbitrumFork' },
+};
+
+// ============ Lookups ============
+
+export function isChainName(value: string): value is ChainName {
+  return Object.prototype.hasOwnProperty.call(CHAINS, value);
+}
+
+/**
+ * Validate a chain name from untyped input (request body, env)
+ * @throws Error naming the supported chains
+ */
+export function parseChainName(value: string): ChainName {
+  if (!isChainName(value)) {
+    throw new Error(`Unknown chain: ${value} (supported: ${Object.keys(CHAINS).join(', ')})`);
+  }
+  return value;
+}
+
+export function isEnvironment(value: string): value is Environment {
+  return (ENVIRONMENTS as string[]).includes(value);
+}
+
+/**
+ * Active environment (ARB_ENVIRONMENT, default testnet)
+ */
+export function getEnvironment(): Environment {
+  const configured = process.env.ARB_ENVIRONMENT;
+  if (!configured) return 'testnet';
+  if (!isEnvironment(configured)) {
+    throw new Error(`Unknown ARB_ENVIRONMENT: ${configured} (supported: ${ENVIRONMENTS.join(', ')})`);
+  }
+  return configured;
+}
+
+export function getChain(name: ChainName): ChainDeployment {
+  return CHAINS[name];
+}
+
+/**
+ * Chain name of an arbitrage leg in an environment (default: the active one)
+ */
+export function chainFor(leg: ArbChain, environment: Environment = getEnvironment()): ChainName {
+  return DEPLOYMENTS[environment][leg];
+}
+
+/**
+ * Deployment of an arbitrage leg in an environment (default: the active one)
+ */
+export function getDeployment(leg: ArbChain, environment: Environment = getEnvironment()): ChainDeployment {
+  return CHAINS[chainFor(leg, environment)];
+}
+
+/**
+ * Arbitrage leg a chain plays in its environment, or null (e.g. ethereum)
+ */
+export function legOf(name: ChainName): ArbChain | null {
+  const legs = DEPLOYMENTS[CHAINS[name].environment];
+  if (legs.base === name) return 'base';
+  if (legs.arbitrum === name) return 'arbitrum';
+  return null;
+}
+
+/**
+ * Chain by ID; forks share their mainnet's ID, so pass the environment to pick one
+ */
+export function getChainById(chainId: number, environment?: Environment): ChainDeployment | undefined {
+  return Object.values(CHAINS).find(chain =>
+    chain.chainId === chainId && (environment === undefined || chain.environment === environment)
+  );
+}
+
+/**
+ * Uniswap deployment of a chain
+ * @throws Error when the chain has none
+ */
+export function getUniswap(name: ChainName): UniswapDeployment {
+  const uniswap = CHAINS[name].uniswap;
+  if (!uniswap) throw new Error(`No Uniswap V3 deployment registered on ${name}`);
+  return uniswap;
+}
+
+/**
+ * Token on a chain
+ * @throws Error when the token is not registered there
+ */
+export function getToken(name: ChainName, symbol: string): TokenInfo {
+  const token = CHAINS[name].tokens[symbol];
+  if (!token) throw new Error(`Token ${symbol} is not registered on ${name}`);
+  return token;
+}
+
+/**
+ * Our ArbitrageExecutor on a chain
+ * @throws Error when none is deployed / configured there
+ */
+export function getExecutorAddress(name: ChainName): string {
+  const executor = CHAINS[name].executor;
+  if (!executor) {
+    throw new Error(`No ArbitrageExecutor configured on ${name}. Run: npx hardhat run scripts/deploy.ts --network ${name}`);
+  }
+  return executor;
+}
+
+export function explorerTxUrl(name: ChainName, txHash: string): string | null {
+  const explorer = CHAINS[name].explorer;
+  return explorer ? `${explorer}/tx/${txHash}` : null;
+}
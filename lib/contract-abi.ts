@@ -1,3 +1,5 @@
+import { CHAINS, getExecutorAddress } from '@/lib/chains/registry';
+
 export const ARBITRAGE_EXECUTOR_ABI = [
   {
     "inputs": [
@@ -325,5 +327,6 @@ export const ARBITRAGE_EXECUTOR_ABI = [
   }
 ] as const;
 
-export const CONTRACT_ADDRESS = "0x03A159be72A53176480Ab1408f6a1497844990cE";
-export const CHAIN_ID = 84532;
+// The wallet flow runs on Base Sepolia (app/providers.tsx)
+export const CHAIN_ID = CHAINS.baseSepolia.chainId;
+export const CONTRACT_ADDRESS = getExecutorAddress('baseSepolia') as `0x${string}`;
@@ -1,5 +1,7 @@
 /**
- * Contract Interaction Helpers (Testnet Only)
+ * Contract Interaction Helpers
+ * 
+ * Chains default to the active environment's Base leg (lib/chains/registry.ts).
  * 
  * For server-side operations:
  * - Price fetching
@@ -11,27 +13,10 @@
  */
 
 import { ethers } from 'ethers';
-
-// ============ Testnet Configuration ============
-
-export const TESTNET_CONFIG = {
-  baseSepolia: {
-    chainId: 84532,
-    rpcUrl: process.env.BASE_SEPOLIA_RPC_URL || 'https://sepolia.base.org',
-    explorer: 'https://sepolia.basescan.org',
-    swapRouter: '0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4',
-    weth: '0x4200000000000000000000000000000000000006',
-    usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
-  },
-  arbitrumSepolia: {
-    chainId: 421614,
-    rpcUrl: process.env.ARBITRUM_SEPOLIA_RPC_URL || 'https://sepolia-rollup.arbitrum.io/rpc',
-    explorer: 'https://sepolia.arbiscan.io',
-    swapRouter: '0x101F443B4d1b059569D643917553c771E1b9663E',
-    weth: '0x980B62Da83eFf3D4576C647993b0c1D7faf17c73',
-    usdc: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
-  },
-};
+import { getManagedProvider } from '@/lib/rpc/provider-manager';
+import { chainFor, getExecutorAddress, ChainName } from '@/lib/chains/registry';
+import { sampleFeeMarket } from '@/lib/gas/fee-market';
+import { GasPriceRange } from '@/lib/math/profit';
 
 // ============ ABIs ============
 
@@ -61,14 +46,13 @@ export const ARBITRAGE_EXECUTOR_ABI = [
   'event FundsWithdrawn(address indexed to, uint256 amount)',
 ];
 
-// ============ Provider Setup (Testnet) ============
+// ============ Provider Setup ============
 
 /**
- * Get a read-only provider for testnet
+ * Get a read-only provider (shared, with failover and caching)
  */
-export function getProvider(chain: 'baseSepolia' | 'arbitrumSepolia' = 'baseSepolia'): ethers.JsonRpcProvider {
-  const config = TESTNET_CONFIG[chain];
-  return new ethers.JsonRpcProvider(config.rpcUrl);
+export function getProvider(chain: ChainName = chainFor('base')): ethers.JsonRpcProvider {
+  return getManagedProvider(chain);
 }
 
 /**
@@ -81,13 +65,8 @@ export function getProvider(chain: 'baseSepolia' | 'arbitrumSepolia' = 'baseSepo
 /**
  * Get ArbitrageExecutor contract (read-only)
  */
-export function getExecutorContract(chain: 'baseSepolia' | 'arbitrumSepolia' = 'baseSepolia'): ethers.Contract {
-  const address = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || process.env.NEXT_PUBLIC_ARBITRAGE_EXECUTOR_ADDRESS;
-  
-  if (!address) {
-    throw new Error('Contract address not set. Run: npx hardhat run scripts/deploy.ts --network baseSepolia');
-  }
-  
+export function getExecutorContract(chain: ChainName = chainFor('base')): ethers.Contract {
+  const address = getExecutorAddress(chain);
   const provider = getProvider(chain);
   return new ethers.Contract(address, ARBITRAGE_EXECUTOR_ABI, provider);
 }
@@ -99,7 +78,7 @@ export function getExecutorContract(chain: 'baseSepolia' | 'arbitrumSepolia' = '
  */
 export async function getUserBalance(
   userAddress: string,
-  chain: 'baseSepolia' | 'arbitrumSepolia' = 'baseSepolia'
+  chain: ChainName = chainFor('base')
 ): Promise<bigint> {
   const contract = getExecutorContract(chain);
   return contract.getBalance(userAddress);
@@ -108,35 +87,40 @@ export async function getUserBalance(
 /**
  * Get total contract balance
  */
-export async function getContractBalance(chain: 'baseSepolia' | 'arbitrumSepolia' = 'baseSepolia'): Promise<bigint> {
+export async function getContractBalance(chain: ChainName = chainFor('base')): Promise<bigint> {
   const contract = getExecutorContract(chain);
   return contract.getContractBalance();
 }
 
 /**
- * Get current gas price
+ * Expected and stress gas price from recent fee history (lib/gas/fee-market.ts)
+ * Falls back to a single getFeeData() reading (expected = stress) when the
+ * node does not serve eth_feeHistory
+ * @throws Error if no gas price can be read at all
  */
-export async function getGasPrice(chain: 'baseSepolia' | 'arbitrumSepolia' | 'base' | 'arbitrum' = 'baseSepolia'): Promise<bigint> {
+export async function getGasPriceRange(chain: ChainName = chainFor('base')): Promise<GasPriceRange> {
+  const provider = getProvider(chain);
+
   try {
-    // Normalize chain names
-    const normalizedChain = chain === 'base' ? 'baseSepolia' : 
-                           chain === 'arbitrum' ? 'arbitrumSepolia' : 
-                           chain;
-    
-    const provider = getProvider(normalizedChain as 'baseSepolia' | 'arbitrumSepolia');
-    const feeData = await provider.getFeeData();
-    
-    // Use gasPrice if available, otherwise use maxFeePerGas, or fallback to 1 gwei
-    const gasPrice = feeData.gasPrice || feeData.maxFeePerGas || ethers.parseUnits('1', 'gwei');
-    
-    console.log('[Gas Price]', normalizedChain, ':', ethers.formatUnits(gasPrice, 'gwei'), 'gwei');
-    
+    const { gasPrice } = await sampleFeeMarket(provider, chain);
+    console.log('[Gas Price]', chain, ':', ethers.formatUnits(gasPrice.expectedWei, 'gwei'), 'gwei',
+      `(stress ${ethers.formatUnits(gasPrice.stressWei, 'gwei')})`);
     return gasPrice;
   } catch (error) {
-    console.error('[Gas Price] Error fetching gas price:', error);
-    // Fallback to 1 gwei for testnet
-    return ethers.parseUnits('1', 'gwei');
+    console.error('[Gas Price] Fee history unavailable, using a point reading:', error);
   }
+
+  const feeData = await provider.getFeeData();
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas;
+  if (!gasPrice) throw new Error(`No gas price available on ${chain}`);
+  return { expectedWei: gasPrice, stressWei: gasPrice };
+}
+
+/**
+ * Get current (expected) gas price
+ */
+export async function getGasPrice(chain: ChainName = chainFor('base')): Promise<bigint> {
+  return (await getGasPriceRange(chain)).expectedWei;
 }
 
 /**
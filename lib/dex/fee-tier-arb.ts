@@ -0,0 +1,256 @@
+/**
+ * Same-Chain Cross-Fee-Tier Arbitrage
+ *
+ * Handles:
+ * - Comparing the 100/500/3000/10000 pools of one pair on one chain
+ * - Net profit per tier combination from the chained simulation: WETH back
+ *   from leg 2 minus WETH in, minus gas (the same amounts the params submit)
+ * - Ready-to-submit executeArbitrageFlexible parameters
+ *
+ * Contract flow (tokenIn = WETH, tokenOut = quote stablecoin):
+ *   1. tokenIn -> tokenOut on `feeBuy`  (sell WETH where it is priced higher)
+ *   2. tokenOut -> tokenIn on `feeSell` (buy WETH back where it is cheaper)
+ */
+
+import {
+  calculateGasCostBreakdown,
+  ESTIMATED_GAS_UNITS,
+  GasPriceRange,
+  ProfitCalculation,
+} from '@/lib/math/profit';
+import {
+  simulateExactInput,
+  PoolSnapshot,
+  SwapSimulationResult,
+  TickRange,
+  TickSnapshot,
+  TICK_SPACING_BY_FEE,
+} from './swap-simulator';
+import { DiscoveredPool, rankSpreads, serializePool } from './scanner';
+import type { ManipulationRisk } from './twap';
+
+// ============ Constants ============
+
+export const DEFAULT_SLIPPAGE_TOLERANCE_BPS = 50; // 0.5%
+
+// ============ Types ============
+
+export interface FlexibleArbParams {
+  tokenIn: string;
+  tokenOut: string;
+  feeBuy: number;
+  feeSell: number;
+  amountIn: bigint;
+  minAmountOutBuy: bigint;
+  minAmountOutSell: bigint;
+}
+
+export interface FeeTierOpportunity {
+  pair: string;
+  chain: string;
+  highPool: DiscoveredPool;       // First leg: sell WETH here
+  lowPool: DiscoveredPool;        // Second leg: buy WETH back here
+  spreadPct: number;
+  manipulationRisk: ManipulationRisk; // Spot vs TWAP of both pools (see twap.ts)
+  expectedAmountOutBuy: bigint;   // Quote tokens after leg 1
+  expectedAmountOutSell: bigint;  // WETH after leg 2
+  profit: ProfitCalculation;
+  actionable: boolean;
+  params: FlexibleArbParams;
+}
+
+// ============ Helpers ============
+
+export type PoolTicks = { ticks: TickSnapshot[]; tickRange: TickRange };
+
+/**
+ * Snapshot from the slot0/liquidity read during discovery, plus the pool's
+ * initialized ticks (getInitializedTicks in uniswap.ts) when they were read;
+ * without them liquidity is assumed constant
+ */
+export function snapshotFromDiscoveredPool(pool: DiscoveredPool, ticks?: PoolTicks): PoolSnapshot {
+  return {
+    sqrtPriceX96: pool.sqrtPriceX96,
+    tick: pool.tick,
+    liquidity: pool.liquidity,
+    fee: pool.fee,
+    tickSpacing: TICK_SPACING_BY_FEE[pool.fee] ?? 60,
+    token0Decimals: pool.baseIsToken0 ? pool.base.decimals : pool.quote.decimals,
+    token1Decimals: pool.baseIsToken0 ? pool.quote.decimals : pool.base.decimals,
+    ticks: ticks?.ticks ?? [],
+    ...(ticks && { tickRange: ticks.tickRange }),
+  };
+}
+
+function applySlippage(amount: bigint, toleranceBps: number): bigint {
+  return (amount * BigInt(10_000 - toleranceBps)) / BigInt(10_000);
+}
+
+/**
+ * Profit of the round trip as simulated: leg 1 sells amountInWei WETH on the
+ * high pool, leg 2 buys WETH back on the low pool with everything leg 1 made
+ *
+ * netProfitUsd is (WETH out of leg 2 - WETH in) minus gas, so it agrees with
+ * the submitted minAmountOut params. The gross spread, fees and slippage
+ * break that down in WETH-back terms (gross - fees - slippage = WETH gained)
+ */
+function chainedProfit(
+  amountInWei: bigint,
+  highPool: DiscoveredPool,
+  lowPool: DiscoveredPool,
+  leg1: SwapSimulationResult,
+  leg2: SwapSimulationResult,
+  gasPrice: bigint | GasPriceRange,
+  l1DataFeeWei: bigint
+): ProfitCalculation {
+  const ethPriceUsd = (highPool.price + lowPool.price) / 2;
+  const quoteUnit = 10 ** highPool.quote.decimals;
+  const amountInEth = Number(amountInWei) / 1e18;
+  const roundTrip = highPool.price / lowPool.price;  // WETH back per WETH in at spot, before fees
+
+  const quoteOut = Number(leg1.amountOut) / quoteUnit;
+  const ethOut = Number(leg2.amountOut) / 1e18;
+  const toUsd = (eth: number) => eth * ethPriceUsd;
+
+  // Leg 1 pays its fee in WETH, leg 2 in the quote token
+  const feesUsd = toUsd((Number(leg1.feeAmount) / 1e18) * roundTrip + Number(leg2.feeAmount) / quoteUnit / lowPool.price);
+
+  // Price impact: shortfall against each leg's fee-adjusted spot output
+  const sellSlippageUsd = Math.max(0,
+    toUsd((amountInEth * highPool.price * (1 - highPool.fee / 1_000_000) - quoteOut) / lowPool.price));
+  const buySlippageUsd = Math.max(0,
+    toUsd((quoteOut / lowPool.price) * (1 - lowPool.fee / 1_000_000) - ethOut));
+
+  const grossProfitUsd = toUsd(amountInEth * (roundTrip - 1));
+  const gainedUsd = toUsd(Number(leg2.amountOut - amountInWei) / 1e18);
+  const gas = calculateGasCostBreakdown(gasPrice, ESTIMATED_GAS_UNITS, ethPriceUsd, l1DataFeeWei);
+  const netProfitUsd = gainedUsd - gas.totalUsd;
+
+  return {
+    grossProfitUsd,
+    gasCostUsd: gas.totalUsd,
+    gas,
+    slippageUsd: Math.max(0, grossProfitUsd - feesUsd - gainedUsd),
+    feesUsd,
+    netProfitUsd,
+    profitMarginPct: (netProfitUsd / toUsd(amountInEth)) * 100,
+    slippageSource: leg1.leftSnapshotRange || leg2.leftSnapshotRange ? 'constant-liquidity' : 'simulated',
+    legs: { buy: leg2, sell: leg1, buySlippageUsd, sellSlippageUsd },
+  };
+}
+
+// ============ Detection ============
+
+/**
+ * Evaluate every fee-tier combination of a WETH-based pair on one chain
+ *
+ * @param pools - Pools from discoverPools() for a single chain and pair
+ * @param amountInWei - WETH amount to route through both legs
+ * @param gasPrice - Current gas price on the chain (wei), or its fee-market range
+ * @param minSpreadPct - Minimum spread for an opportunity to be actionable
+ * @param slippageToleranceBps - Haircut applied to simulated outputs for minAmountOut
+ * @param l1DataFeeWei - Rollup L1 data fee of the execution tx (lib/gas/l1-fee.ts)
+ * @param poolTicks - Initialized ticks by pool address (pools without are simulated at constant liquidity)
+ * @returns Opportunities sorted by net profit (best first)
+ */
+export function findFeeTierOpportunities(
+  pools: DiscoveredPool[],
+  amountInWei: bigint,
+  gasPrice: bigint | GasPriceRange,
+  minSpreadPct: number = 0.1,
+  slippageToleranceBps: number = DEFAULT_SLIPPAGE_TOLERANCE_BPS,
+  l1DataFeeWei: bigint = BigInt(0),
+  poolTicks: Map<string, PoolTicks> = new Map()
+): FeeTierOpportunity[] {
+  const sameChain = rankSpreads(pools, minSpreadPct).filter(o => o.kind === 'cross-pool');
+  const opportunities: FeeTierOpportunity[] = [];
+
+  for (const spread of sameChain) {
+    const highPool = spread.sell;
+    const lowPool = spread.buy;
+
+    if (highPool.base.symbol !== 'WETH') {
+      throw new Error(`Fee-tier profit modeling requires a WETH-based pair, got ${spread.pair}`);
+    }
+
+    const highSnapshot = snapshotFromDiscoveredPool(highPool, poolTicks.get(highPool.address));
+    const lowSnapshot = snapshotFromDiscoveredPool(lowPool, poolTicks.get(lowPool.address));
+
+    let expectedAmountOutBuy: bigint;
+    let expectedAmountOutSell: bigint;
+    let profit: ProfitCalculation;
+    try {
+      // Leg 1: WETH -> quote on the higher-priced pool
+      const leg1 = simulateExactInput(highSnapshot, amountInWei, highPool.baseIsToken0);
+      // Leg 2: quote -> WETH on the lower-priced pool
+      const leg2 = simulateExactInput(lowSnapshot, leg1.amountOut, !lowPool.baseIsToken0);
+      if (leg1.partialFill || leg2.partialFill) {
+        throw new Error('pool liquidity exhausted before the input was used up');
+      }
+      expectedAmountOutBuy = leg1.amountOut;
+      expectedAmountOutSell = leg2.amountOut;
+
+      profit = chainedProfit(amountInWei, highPool, lowPool, leg1, leg2, gasPrice, l1DataFeeWei);
+    } catch (error) {
+      console.log(`Skipping ${spread.pair} ${highPool.fee}/${lowPool.fee}: ${(error as Error).message}`);
+      continue;
+    }
+
+    opportunities.push({
+      pair: spread.pair,
+      chain: highPool.chain,
+      highPool,
+      lowPool,
+      spreadPct: spread.spreadPct,
+      manipulationRisk: spread.manipulationRisk,
+      expectedAmountOutBuy,
+      expectedAmountOutSell,
+      profit,
+      actionable: spread.actionable && profit.netProfitUsd > 0 && expectedAmountOutSell > amountInWei,
+      params: {
+        tokenIn: highPool.base.address,
+        tokenOut: highPool.quote.address,
+        feeBuy: highPool.fee,
+        feeSell: lowPool.fee,
+        amountIn: amountInWei,
+        minAmountOutBuy: applySlippage(expectedAmountOutBuy, slippageToleranceBps),
+        minAmountOutSell: applySlippage(expectedAmountOutSell, slippageToleranceBps),
+      },
+    });
+  }
+
+  return opportunities.sort((a, b) => b.profit.netProfitUsd - a.profit.netProfitUsd);
+}
+
+// ============ Serialization ============
+
+/**
+ * JSON-safe view of a fee-tier opportunity (bigints as strings)
+ * `params` maps 1:1 onto executeArbitrageFlexible's arguments
+ */
+export function serializeFeeTierOpportunity(opportunity: FeeTierOpportunity) {
+  const { legs, ...profit } = opportunity.profit;
+  const { params } = opportunity;
+
+  return {
+    pair: opportunity.pair,
+    chain: opportunity.chain,
+    spreadPct: opportunity.spreadPct,
+    manipulationRisk: opportunity.manipulationRisk,
+    actionable: opportunity.actionable,
+    highPool: serializePool(opportunity.highPool),
+    lowPool: serializePool(opportunity.lowPool),
+    expectedAmountOutBuy: opportunity.expectedAmountOutBuy.toString(),
+    expectedAmountOutSell: opportunity.expectedAmountOutSell.toString(),
+    profit,
+    params: {
+      tokenIn: params.tokenIn,
+      tokenOut: params.tokenOut,
+      feeBuy: params.feeBuy,
+      feeSell: params.feeSell,
+      amountIn: params.amountIn.toString(),
+      minAmountOutBuy: params.minAmountOutBuy.toString(),
+      minAmountOutSell: params.minAmountOutSell.toString(),
+    },
+  };
+}
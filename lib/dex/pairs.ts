@@ -0,0 +1,87 @@
+/**
+ * Token Pair Registry
+ *
+ * Handles:
+ * - Configurable list of pairs to scan (SCAN_PAIRS env var)
+ * - Resolving a pair's tokens on a chain from lib/chains/registry.ts
+ *
+ * A pair is only scanned on chains where both of its tokens are registered.
+ */
+
+import { getDeployment, getUniswap, chainFor, ArbChain, Environment, TokenInfo } from '@/lib/chains/registry';
+
+// ============ Types ============
+
+export type ScanNetwork = Environment;
+export type ScanChain = ArbChain;
+export type { TokenInfo };
+
+export interface PairConfig {
+  id: string;          // e.g. 'WETH/USDC'
+  base: string;        // Token being priced
+  quote: string;       // Token the price is expressed in
+}
+
+// ============ Registry ============
+
+export const SCAN_CHAINS: ScanChain[] = ['base', 'arbitrum'];
+
+// Uniswap V3 fee tiers probed during discovery
+export const SCAN_FEE_TIERS = [100, 500, 3000, 10000];
+
+export const DEFAULT_PAIRS: PairConfig[] = [
+  { id: 'WETH/USDC', base: 'WETH', quote: 'USDC' },
+  { id: 'WETH/USDbC', base: 'WETH', quote: 'USDbC' },
+  { id: 'WETH/USDT', base: 'WETH', quote: 'USDT' },
+  { id: 'cbETH/WETH', base: 'cbETH', quote: 'WETH' },
+];
+
+// ============ Lookups ============
+
+/**
+ * Parse a pair id like 'cbETH/WETH' into a PairConfig
+ */
+export function parsePairId(id: string): PairConfig {
+  const [base, quote] = id.split('/').map(s => s.trim());
+  if (!base || !quote) {
+    throw new Error(`Invalid pair id: ${id} (expected BASE/QUOTE)`);
+  }
+  return { id: `${base}/${quote}`, base, quote };
+}
+
+/**
+ * Pairs to scan: explicit list, then SCAN_PAIRS env var, then defaults
+ */
+export function getScanPairs(pairIds?: string[]): PairConfig[] {
+  if (pairIds && pairIds.length > 0) {
+    return pairIds.map(parsePairId);
+  }
+
+  const fromEnv = process.env.SCAN_PAIRS;
+  if (fromEnv) {
+    return fromEnv.split(',').filter(Boolean).map(parsePairId);
+  }
+
+  return DEFAULT_PAIRS;
+}
+
+/**
+ * Uniswap V3 factory of a chain in a network
+ */
+export function getFactory(network: ScanNetwork, chain: ScanChain): string {
+  return getUniswap(chainFor(chain, network)).factory;
+}
+
+/**
+ * Resolve both tokens of a pair on a chain, or null if either is unregistered
+ */
+export function resolvePairTokens(
+  network: ScanNetwork,
+  chain: ScanChain,
+  pair: PairConfig
+): { base: TokenInfo; quote: TokenInfo } | null {
+  const tokens = getDeployment(chain, network).tokens;
+  const base = tokens[pair.base];
+  const quote = tokens[pair.quote];
+  return base && quote ? { base, quote } : null;
+}
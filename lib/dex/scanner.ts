@@ -0,0 +1,325 @@
+/**
+ * Multi-Pair Opportunity Scanner
+ *
+ * Handles:
+ * - Pool discovery across all fee tiers via the V3 factory
+ * - Price reads for every discovered pool, batched per chain via Multicall3
+ * - Ranking cross-pool (same chain) and cross-chain spreads per pair
+ */
+
+import { ethers } from 'ethers';
+import { POOL_ABI, sqrtPriceX96ToPrice, classifyLiquidity } from './uniswap';
+import {
+  getFactory,
+  SCAN_FEE_TIERS,
+  resolvePairTokens,
+  PairConfig,
+  ScanChain,
+  ScanNetwork,
+  TokenInfo,
+} from './pairs';
+import { calculateSpread, isActionableSpread } from '@/lib/math/profit';
+import { multicall, unwrap } from '@/lib/rpc/multicall';
+import {
+  assessTwap,
+  combineManipulationRisks,
+  getTwapConfig,
+  observeCall,
+  readTwap,
+  tickToPrice,
+  ManipulationRisk,
+  TwapAssessment,
+} from '@/lib/dex/twap';
+
+// ============ ABIs ============
+
+const FACTORY_ABI = [
+  'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)',
+];
+
+const factoryInterface = new ethers.Interface(FACTORY_ABI);
+const poolInterface = new ethers.Interface(POOL_ABI);
+
+// ============ Types ============
+
+export interface DiscoveredPool {
+  pair: string;
+  chain: ScanChain;
+  address: string;
+  fee: number;
+  price: number;           // Base token priced in quote token
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  baseIsToken0: boolean;
+  base: TokenInfo;
+  quote: TokenInfo;
+  blockNumber: number;     // Block the pool state was read at
+  twap: TwapAssessment;    // Spot vs TWAP (manipulation guard)
+}
+
+export interface SpreadOpportunity {
+  pair: string;
+  kind: 'cross-pool' | 'cross-chain';
+  buy: DiscoveredPool;     // Lower price: buy base here
+  sell: DiscoveredPool;    // Higher price: sell base here
+  spreadPct: number;
+  twapSpreadPct: number | null;        // Same spread at the pools' TWAPs (null if either is unavailable)
+  manipulationRisk: ManipulationRisk;  // Worst spot/TWAP deviation of the two pools
+  actionable: boolean;
+}
+
+export interface ScanError {
+  pair: string;
+  chain: ScanChain;
+  fee?: number;            // Set when only one pool failed
+  pool?: string;
+  message: string;
+}
+
+export interface ScanResult {
+  network: ScanNetwork;
+  pools: DiscoveredPool[];
+  opportunities: SpreadOpportunity[];
+  errors: ScanError[];
+}
+
+// ============ Discovery ============
+
+interface PoolCandidate {
+  pair: string;
+  tokens: { base: TokenInfo; quote: TokenInfo };
+  fee: number;
+}
+
+// Factory lookups never change once a pool exists, so existing pools are cached
+const poolAddressCache = new Map<string, string>();
+
+function poolCacheKey(network: ScanNetwork, chain: ScanChain, candidate: PoolCandidate): string {
+  const { base, quote } = candidate.tokens;
+  return `${network}:${chain}:${base.address}:${quote.address}:${candidate.fee}`.toLowerCase();
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Factory addresses for each candidate (ZeroAddress if the pool does not exist),
+ * with all uncached lookups in one multicall
+ * A failed lookup is recorded in `errors` and treated as a missing pool
+ */
+async function resolvePoolAddresses(
+  provider: ethers.Provider,
+  network: ScanNetwork,
+  chain: ScanChain,
+  candidates: PoolCandidate[],
+  errors: ScanError[]
+): Promise<string[]> {
+  const keys = candidates.map(c => poolCacheKey(network, chain, c));
+  const missing = candidates
+    .map((candidate, i) => ({ candidate, key: keys[i] }))
+    .filter(({ key }) => !poolAddressCache.has(key));
+
+  if (missing.length > 0) {
+    const { results } = await multicall(provider, missing.map(({ candidate }) => ({
+      target: getFactory(network, chain),
+      iface: factoryInterface,
+      method: 'getPool',
+      args: [candidate.tokens.base.address, candidate.tokens.quote.address, candidate.fee],
+    })));
+    missing.forEach(({ candidate, key }, i) => {
+      try {
+        const address: string = unwrap(results[i], 'getPool');
+        if (address !== ethers.ZeroAddress) poolAddressCache.set(key, address);
+      } catch (error) {
+        errors.push({ pair: candidate.pair, chain, fee: candidate.fee, message: errorMessage(error) });
+      }
+    });
+  }
+
+  return keys.map(key => poolAddressCache.get(key) ?? ethers.ZeroAddress);
+}
+
+/**
+ * Read every candidate pool on one chain in a single multicall, pinned to one block
+ * Pools with zero in-range liquidity are skipped (their price is meaningless)
+ * Each pool's TWAP is read in the same batch for the manipulation guard
+ * A pool whose reads fail is skipped and recorded in `errors`; the rest are kept
+ */
+async function readCandidatePools(
+  provider: ethers.Provider,
+  network: ScanNetwork,
+  chain: ScanChain,
+  candidates: PoolCandidate[],
+  errors: ScanError[]
+): Promise<DiscoveredPool[]> {
+  const addresses = await resolvePoolAddresses(provider, network, chain, candidates, errors);
+  const twapConfig = getTwapConfig();
+  const existing = candidates
+    .map((candidate, i) => ({ ...candidate, address: addresses[i] }))
+    .filter(c => c.address !== ethers.ZeroAddress);
+  if (existing.length === 0) return [];
+
+  const { blockNumber, results } = await multicall(provider, existing.flatMap(({ address }) => [
+    { target: address, iface: poolInterface, method: 'slot0' },
+    { target: address, iface: poolInterface, method: 'liquidity' },
+    { target: address, iface: poolInterface, method: 'token0' },
+    observeCall(address, twapConfig.windowSec),
+  ]));
+
+  const pools = existing.map(({ pair, tokens, fee, address }, i): DiscoveredPool | null => {
+    let slot0: { sqrtPriceX96: bigint; tick: bigint };
+    let liquidity: bigint;
+    let token0: string;
+    try {
+      slot0 = unwrap(results[i * 4], `slot0 of ${address}`);
+      liquidity = unwrap(results[i * 4 + 1], `liquidity of ${address}`);
+      token0 = unwrap(results[i * 4 + 2], `token0 of ${address}`);
+    } catch (error) {
+      errors.push({ pair, chain, fee, pool: address, message: errorMessage(error) });
+      return null;
+    }
+    const { twapTick } = readTwap(results[i * 4 + 3], twapConfig.windowSec);
+
+    if (liquidity === BigInt(0)) return null;
+
+    const baseIsToken0 = token0.toLowerCase() === tokens.base.address.toLowerCase();
+    const [decimals0, decimals1] = baseIsToken0
+      ? [tokens.base.decimals, tokens.quote.decimals]
+      : [tokens.quote.decimals, tokens.base.decimals];
+
+    // sqrtPriceX96ToPrice returns token1 per token0; invert when base is token1
+    const price = sqrtPriceX96ToPrice(slot0.sqrtPriceX96, decimals0, decimals1, !baseIsToken0);
+    const twapPrice = twapTick !== null ? tickToPrice(twapTick, decimals0, decimals1, !baseIsToken0) : null;
+
+    return {
+      pair,
+      chain,
+      address,
+      fee,
+      price,
+      sqrtPriceX96: slot0.sqrtPriceX96,
+      tick: Number(slot0.tick),
+      liquidity,
+      baseIsToken0,
+      base: tokens.base,
+      quote: tokens.quote,
+      blockNumber,
+      twap: assessTwap(price, twapPrice, twapConfig.windowSec, twapConfig),
+    };
+  });
+
+  return pools.filter((p): p is DiscoveredPool => p !== null);
+}
+
+/**
+ * Find every initialized pool for a token pair on one chain
+ * Pools that could not be read are left out and pushed to `errors`
+ */
+export async function discoverPools(
+  provider: ethers.Provider,
+  network: ScanNetwork,
+  chain: ScanChain,
+  pair: PairConfig,
+  feeTiers: number[] = SCAN_FEE_TIERS,
+  errors: ScanError[] = []
+): Promise<DiscoveredPool[]> {
+  const tokens = resolvePairTokens(network, chain, pair);
+  if (!tokens) return [];
+
+  return readCandidatePools(provider, network, chain, feeTiers.map(fee => ({ pair: pair.id, tokens, fee })), errors);
+}
+
+// ============ Ranking ============
+
+/**
+ * Compare every pool of a pair against every other and rank by spread
+ */
+export function rankSpreads(pools: DiscoveredPool[], minSpreadPct: number = 0.1): SpreadOpportunity[] {
+  const opportunities: SpreadOpportunity[] = [];
+
+  for (let i = 0; i < pools.length; i++) {
+    for (let j = i + 1; j < pools.length; j++) {
+      const a = pools[i];
+      const b = pools[j];
+      if (a.pair !== b.pair || a.price <= 0 || b.price <= 0) continue;
+
+      const spreadPct = calculateSpread(a.price, b.price);
+      const [buy, sell] = a.price < b.price ? [a, b] : [b, a];
+
+      opportunities.push({
+        pair: a.pair,
+        kind: a.chain === b.chain ? 'cross-pool' : 'cross-chain',
+        buy,
+        sell,
+        spreadPct,
+        twapSpreadPct: a.twap.twapPrice !== null && b.twap.twapPrice !== null
+          ? calculateSpread(a.twap.twapPrice, b.twap.twapPrice)
+          : null,
+        manipulationRisk: combineManipulationRisks([a.twap.risk, b.twap.risk]),
+        actionable: isActionableSpread(spreadPct, minSpreadPct),
+      });
+    }
+  }
+
+  return opportunities.sort((x, y) => y.spreadPct - x.spreadPct);
+}
+
+/**
+ * Discover pools for every pair on every chain and rank all spreads
+ * Each chain's pools are read in one multicall, so a scan costs one
+ * round-trip per chain (plus factory lookups for pools not seen before)
+ */
+export async function scanPairs(
+  network: ScanNetwork,
+  providers: Partial<Record<ScanChain, ethers.Provider>>,
+  pairs: PairConfig[],
+  minSpreadPct: number = 0.1
+): Promise<ScanResult> {
+  const errors: ScanResult['errors'] = [];
+
+  const jobs = (Object.entries(providers) as Array<[ScanChain, ethers.Provider]>).map(([chain, provider]) => {
+    const candidates = pairs.flatMap(pair => {
+      const tokens = resolvePairTokens(network, chain, pair);
+      return tokens ? SCAN_FEE_TIERS.map(fee => ({ pair: pair.id, tokens, fee })) : [];
+    });
+
+    // Per-pool failures are recorded inside; a failed multicall still loses the chain
+    return readCandidatePools(provider, network, chain, candidates, errors).catch(error => {
+      const message = errorMessage(error);
+      Array.from(new Set(candidates.map(c => c.pair))).forEach(pair => errors.push({ pair, chain, message }));
+      return [];
+    });
+  });
+
+  const pools = (await Promise.all(jobs)).flat();
+
+  return {
+    network,
+    pools,
+    opportunities: rankSpreads(pools, minSpreadPct),
+    errors,
+  };
+}
+
+// ============ Serialization ============
+
+/**
+ * JSON-safe view of a discovered pool (bigints as strings)
+ */
+export function serializePool(pool: DiscoveredPool) {
+  return {
+    pair: pool.pair,
+    chain: pool.chain,
+    address: pool.address,
+    fee: pool.fee,
+    price: pool.price,
+    sqrtPriceX96: pool.sqrtPriceX96.toString(),
+    tick: pool.tick,
+    liquidity: pool.liquidity.toString(),
+    liquidityDepth: classifyLiquidity(pool.liquidity),
+    blockNumber: pool.blockNumber,
+    twap: pool.twap,
+  };
+}
@@ -0,0 +1,469 @@
+/**
+ * Uniswap V3 Swap Simulator (Off-chain)
+ *
+ * Handles:
+ * - Exact-input swap simulation against a pool snapshot
+ * - Tick walking with liquidityNet updates at initialized ticks, stopping at
+ *   the same tick-bitmap word boundaries as the pool
+ * - TickMath / SqrtPriceMath / SwapMath ports using native bigint
+ *
+ * Mirrors the core pool's `swap()` loop so results match the Quoter
+ * for any swap that stays inside the ticks captured in the snapshot.
+ * Pure and deterministic: no provider, no network.
+ */
+
+import { sqrtPriceX96ToPrice } from './uniswap';
+
+// ============ Constants ============
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const Q96 = ONE << BigInt(96);
+const MAX_UINT160 = (ONE << BigInt(160)) - ONE;
+const MAX_UINT256 = (ONE << BigInt(256)) - ONE;
+const FEE_DENOMINATOR = BigInt(1_000_000);
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = BigInt('4295128739');
+export const MAX_SQRT_RATIO = BigInt('1461446703485210103287273052203988822378723970342');
+
+// Tick spacing by fee tier (Uniswap V3 defaults)
+export const TICK_SPACING_BY_FEE: Record<number, number> = {
+  100: 1,
+  500: 10,
+  3000: 60,
+  10000: 200,
+};
+
+// Multipliers for each bit of |tick| (TickMath.sol)
+const TICK_RATIO_MULTIPLIERS: Array<[number, bigint]> = [
+  [0x2, BigInt('0xfff97272373d413259a46990580e213a')],
+  [0x4, BigInt('0xfff2e50f5f656932ef12357cf3c7fdcc')],
+  [0x8, BigInt('0xffe5caca7e10e4e61c3624eaa0941cd0')],
+  [0x10, BigInt('0xffcb9843d60f6159c9db58835c926644')],
+  [0x20, BigInt('0xff973b41fa98c081472e6896dfb254c0')],
+  [0x40, BigInt('0xff2ea16466c96a3843ec78b326b52861')],
+  [0x80, BigInt('0xfe5dee046a99a2a811c461f1969c3053')],
+  [0x100, BigInt('0xfcbe86c7900a88aedcffc83b479aa3a4')],
+  [0x200, BigInt('0xf987a7253ac413176f2b074cf7815e54')],
+  [0x400, BigInt('0xf3392b0822b70005940c7a398e4b70f3')],
+  [0x800, BigInt('0xe7159475a2c29b7443b29c7fa6e889d9')],
+  [0x1000, BigInt('0xd097f3bdfd2022b8845ad8f792aa5825')],
+  [0x2000, BigInt('0xa9f746462d870fdf8a65dc1f90e061e5')],
+  [0x4000, BigInt('0x70d869a156d2a1b890bb3df62baf32f7')],
+  [0x8000, BigInt('0x31be135f97d08fd981231505542fcfa6')],
+  [0x10000, BigInt('0x9aa508b5b7a84e1c677de54f3e99bc9')],
+  [0x20000, BigInt('0x5d6af8dedb81196699c329225ee604')],
+  [0x40000, BigInt('0x2216e584f5fa1ea926041bedfe98')],
+  [0x80000, BigInt('0x48a170391f7dc42444e8fa2')],
+];
+
+// ============ Types ============
+
+export interface TickSnapshot {
+  tick: number;
+  liquidityNet: bigint;
+}
+
+/**
+ * Tick range whose initialized ticks were all read into `ticks`
+ * (both bounds inclusive)
+ */
+export interface TickRange {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Point-in-time pool state needed to replay a swap.
+ * `ticks` only needs the initialized ticks in the range the swap may reach.
+ * Without `tickRange`, anything past the last listed tick counts as unknown.
+ */
+export interface PoolSnapshot {
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  fee: number;              // Fee in hundredths of a bip (3000 = 0.3%)
+  tickSpacing: number;
+  token0Decimals: number;
+  token1Decimals: number;
+  ticks: TickSnapshot[];
+  tickRange?: TickRange;    // Range scanned for `ticks` (no other initialized ticks inside it)
+}
+
+/**
+ * Serialized snapshot as stored in fixtures or returned by services/poolService.js
+ */
+export interface RawPoolSnapshot {
+  sqrtPriceX96: string;
+  tick: number | string;
+  liquidity: string;
+  fee: number | string;
+  tickSpacing: number | string;
+  token0Decimals: number;
+  token1Decimals: number;
+  ticks: Array<{ tick: number | string; liquidityNet: string }>;
+  tickRange?: TickRange;
+}
+
+export interface SwapSimulationResult {
+  zeroForOne: boolean;
+  amountIn: bigint;             // Input actually consumed (including fees)
+  amountOut: bigint;
+  feeAmount: bigint;
+  sqrtPriceX96After: bigint;
+  tickAfter: number;
+  liquidityAfter: bigint;
+  priceAfter: number;           // token1 per token0, decimal-adjusted
+  initializedTicksCrossed: number;
+  partialFill: boolean;         // Price limit reached before input was used up
+  leftSnapshotRange: boolean;   // Swap moved past the last tick known to the snapshot
+}
+
+// ============ Full Math ============
+
+function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator;
+  return product % denominator === ZERO ? result : result + ONE;
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  const result = a / b;
+  return a % b === ZERO ? result : result + ONE;
+}
+
+// ============ Tick Math ============
+
+/**
+ * sqrt(1.0001^tick) * 2^96, rounded up exactly as TickMath.getSqrtRatioAtTick
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick out of range: ${tick}`);
+  }
+
+  const absTick = Math.abs(tick);
+  let ratio = (absTick & 0x1) !== 0
+    ? BigInt('0xfffcb933bd6fad37aa2d162d1a594001')
+    : BigInt('0x100000000000000000000000000000000');
+
+  for (const [bit, multiplier] of TICK_RATIO_MULTIPLIERS) {
+    if ((absTick & bit) !== 0) {
+      ratio = (ratio * multiplier) >> BigInt(128);
+    }
+  }
+
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  // Q128.128 -> Q64.96, rounding up
+  const shifted = ratio >> BigInt(32);
+  return ratio % (ONE << BigInt(32)) === ZERO ? shifted : shifted + ONE;
+}
+
+/**
+ * Greatest tick whose sqrt ratio is <= sqrtPriceX96
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error('sqrtPriceX96 out of range');
+  }
+
+  let low = MIN_TICK;
+  let high = MAX_TICK;
+  while (low < high) {
+    const mid = Math.floor((low + high + 1) / 2);
+    if (getSqrtRatioAtTick(mid) <= sqrtPriceX96) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+// ============ Sqrt Price Math ============
+
+function getAmount0Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtA > sqrtB ? [sqrtB, sqrtA] : [sqrtA, sqrtB];
+  const numerator1 = liquidity << BigInt(96);
+  const numerator2 = upper - lower;
+
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+    : mulDiv(numerator1, numerator2, upper) / lower;
+}
+
+function getAmount1Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtA > sqrtB ? [sqrtB, sqrtA] : [sqrtA, sqrtB];
+
+  return roundUp
+    ? mulDivRoundingUp(liquidity, upper - lower, Q96)
+    : mulDiv(liquidity, upper - lower, Q96);
+}
+
+function getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96: bigint, liquidity: bigint, amount: bigint): bigint {
+  if (amount === ZERO) return sqrtPX96;
+  const numerator1 = liquidity << BigInt(96);
+  const product = amount * sqrtPX96;
+
+  // Same overflow branch as the contract so rounding matches bit-for-bit
+  if (product <= MAX_UINT256) {
+    const denominator = numerator1 + product;
+    if (denominator <= MAX_UINT256) {
+      return mulDivRoundingUp(numerator1, sqrtPX96, denominator);
+    }
+  }
+
+  return divRoundingUp(numerator1, numerator1 / sqrtPX96 + amount);
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96: bigint, liquidity: bigint, amount: bigint): bigint {
+  const quotient = (amount << BigInt(96)) / liquidity;
+  const next = sqrtPX96 + quotient;
+  if (next > MAX_UINT160) throw new Error('sqrtPriceX96 overflow');
+  return next;
+}
+
+function getNextSqrtPriceFromInput(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amountIn: bigint,
+  zeroForOne: boolean
+): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountIn)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountIn);
+}
+
+// ============ Swap Math ============
+
+interface SwapStep {
+  sqrtPriceNextX96: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+}
+
+/**
+ * Single exact-input step within one liquidity range (SwapMath.computeSwapStep)
+ */
+function computeSwapStep(
+  sqrtCurrent: bigint,
+  sqrtTarget: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  fee: number
+): SwapStep {
+  const zeroForOne = sqrtCurrent >= sqrtTarget;
+  const feeBig = BigInt(fee);
+  const amountRemainingLessFee = mulDiv(amountRemaining, FEE_DENOMINATOR - feeBig, FEE_DENOMINATOR);
+
+  let amountIn = zeroForOne
+    ? getAmount0Delta(sqrtTarget, sqrtCurrent, liquidity, true)
+    : getAmount1Delta(sqrtCurrent, sqrtTarget, liquidity, true);
+
+  const sqrtPriceNextX96 = amountRemainingLessFee >= amountIn
+    ? sqrtTarget
+    : getNextSqrtPriceFromInput(sqrtCurrent, liquidity, amountRemainingLessFee, zeroForOne);
+
+  const reachedTarget = sqrtPriceNextX96 === sqrtTarget;
+  let amountOut: bigint;
+
+  if (zeroForOne) {
+    if (!reachedTarget) amountIn = getAmount0Delta(sqrtPriceNextX96, sqrtCurrent, liquidity, true);
+    amountOut = getAmount1Delta(sqrtPriceNextX96, sqrtCurrent, liquidity, false);
+  } else {
+    if (!reachedTarget) amountIn = getAmount1Delta(sqrtCurrent, sqrtPriceNextX96, liquidity, true);
+    amountOut = getAmount0Delta(sqrtCurrent, sqrtPriceNextX96, liquidity, false);
+  }
+
+  const feeAmount = reachedTarget
+    ? mulDivRoundingUp(amountIn, feeBig, FEE_DENOMINATOR - feeBig)
+    : amountRemaining - amountIn;
+
+  return { sqrtPriceNextX96, amountIn, amountOut, feeAmount };
+}
+
+// ============ Tick Lookup ============
+
+interface NextTick {
+  tick: number;
+  initialized: TickSnapshot | null;
+}
+
+/**
+ * Next tick to step to, never further than the current bitmap word
+ * (TickBitmap.nextInitializedTickWithinOneWord): the pool stops at every
+ * word boundary, and each stop rounds separately
+ * zeroForOne: largest tick <= current; oneForZero: smallest tick > current
+ */
+function nextInitializedTickWithinOneWord(
+  sortedTicks: TickSnapshot[],
+  tick: number,
+  tickSpacing: number,
+  zeroForOne: boolean
+): NextTick {
+  const compressed = Math.floor(tick / tickSpacing);
+
+  if (zeroForOne) {
+    const wordStart = compressed - (((compressed % 256) + 256) % 256);
+    for (let i = sortedTicks.length - 1; i >= 0; i--) {
+      const c = sortedTicks[i].tick / tickSpacing;
+      if (c < wordStart) break;
+      if (c <= compressed) return { tick: sortedTicks[i].tick, initialized: sortedTicks[i] };
+    }
+    return { tick: wordStart * tickSpacing, initialized: null };
+  }
+
+  const start = compressed + 1;
+  const wordEnd = start + 255 - (((start % 256) + 256) % 256);
+  for (const t of sortedTicks) {
+    const c = t.tick / tickSpacing;
+    if (c > wordEnd) break;
+    if (c >= start) return { tick: t.tick, initialized: t };
+  }
+  return { tick: wordEnd * tickSpacing, initialized: null };
+}
+
+// ============ Public API ============
+
+/**
+ * Simulate an exact-input swap against a pool snapshot
+ *
+ * @param snapshot - Pool state (see getPoolSnapshot in services/poolService.js)
+ * @param amountIn - Input amount in the input token's smallest unit
+ * @param zeroForOne - true = token0 in / token1 out
+ * @param sqrtPriceLimitX96 - Optional price limit (defaults to the protocol bounds)
+ * @returns Output amount, post-swap price and the ticks crossed
+ */
+export function simulateExactInput(
+  snapshot: PoolSnapshot,
+  amountIn: bigint,
+  zeroForOne: boolean,
+  sqrtPriceLimitX96?: bigint
+): SwapSimulationResult {
+  if (amountIn <= ZERO) {
+    throw new Error('amountIn must be positive');
+  }
+
+  const limit = sqrtPriceLimitX96 ?? (zeroForOne ? MIN_SQRT_RATIO + ONE : MAX_SQRT_RATIO - ONE);
+  if (zeroForOne ? limit >= snapshot.sqrtPriceX96 || limit <= MIN_SQRT_RATIO
+                 : limit <= snapshot.sqrtPriceX96 || limit >= MAX_SQRT_RATIO) {
+    throw new Error('Invalid sqrtPriceLimitX96 for swap direction');
+  }
+
+  const sortedTicks = [...snapshot.ticks].sort((a, b) => a.tick - b.tick);
+
+  let amountRemaining = amountIn;
+  let amountOut = ZERO;
+  let feeAmount = ZERO;
+  let sqrtPriceX96 = snapshot.sqrtPriceX96;
+  let tick = snapshot.tick;
+  let liquidity = snapshot.liquidity;
+  let initializedTicksCrossed = 0;
+
+  // Last tick in the swap direction whose liquidity the snapshot knows
+  const edgeTick = sortedTicks.length > 0
+    ? (zeroForOne ? sortedTicks[0].tick : sortedTicks[sortedTicks.length - 1].tick)
+    : undefined;
+  const knownBound = zeroForOne
+    ? snapshot.tickRange?.lower ?? edgeTick
+    : snapshot.tickRange?.upper ?? edgeTick;
+
+  while (amountRemaining > ZERO && sqrtPriceX96 !== limit) {
+    const sqrtStart = sqrtPriceX96;
+    const next = nextInitializedTickWithinOneWord(sortedTicks, tick, snapshot.tickSpacing, zeroForOne);
+    const tickNext = Math.min(MAX_TICK, Math.max(MIN_TICK, next.tick));
+
+    const sqrtNext = getSqrtRatioAtTick(tickNext);
+    const sqrtTarget = (zeroForOne ? sqrtNext < limit : sqrtNext > limit) ? limit : sqrtNext;
+
+    const step = computeSwapStep(sqrtPriceX96, sqrtTarget, liquidity, amountRemaining, snapshot.fee);
+    sqrtPriceX96 = step.sqrtPriceNextX96;
+    amountRemaining -= step.amountIn + step.feeAmount;
+    amountOut += step.amountOut;
+    feeAmount += step.feeAmount;
+
+    if (sqrtPriceX96 === sqrtNext) {
+      if (next.initialized) {
+        const liquidityNet = zeroForOne ? -next.initialized.liquidityNet : next.initialized.liquidityNet;
+        liquidity += liquidityNet;
+        if (liquidity < ZERO) {
+          throw new Error(`Negative liquidity after crossing tick ${next.tick} - inconsistent snapshot`);
+        }
+        initializedTicksCrossed++;
+      }
+      tick = zeroForOne ? tickNext - 1 : tickNext;
+    } else if (sqrtPriceX96 !== sqrtStart) {
+      tick = getTickAtSqrtRatio(sqrtPriceX96);
+    }
+  }
+
+  // Past the known ticks liquidity was assumed constant
+  const knownSqrt = knownBound === undefined
+    ? undefined
+    : getSqrtRatioAtTick(Math.min(MAX_TICK, Math.max(MIN_TICK, knownBound)));
+  const leftSnapshotRange = knownSqrt === undefined
+    ? sqrtPriceX96 !== snapshot.sqrtPriceX96
+    : zeroForOne ? sqrtPriceX96 < knownSqrt : sqrtPriceX96 > knownSqrt;
+
+  return {
+    zeroForOne,
+    amountIn: amountIn - amountRemaining,
+    amountOut,
+    feeAmount,
+    sqrtPriceX96After: sqrtPriceX96,
+    tickAfter: tick,
+    liquidityAfter: liquidity,
+    priceAfter: sqrtPriceX96ToPrice(sqrtPriceX96, snapshot.token0Decimals, snapshot.token1Decimals),
+    initializedTicksCrossed,
+    partialFill: amountRemaining > ZERO,
+    leftSnapshotRange,
+  };
+}
+
+/**
+ * Convert a serialized snapshot (fixture file, API payload) into bigint form
+ */
+export function parsePoolSnapshot(raw: RawPoolSnapshot): PoolSnapshot {
+  return {
+    sqrtPriceX96: BigInt(raw.sqrtPriceX96),
+    tick: Number(raw.tick),
+    liquidity: BigInt(raw.liquidity),
+    fee: Number(raw.fee),
+    tickSpacing: Number(raw.tickSpacing),
+    token0Decimals: raw.token0Decimals,
+    token1Decimals: raw.token1Decimals,
+    ticks: raw.ticks.map(t => ({
+      tick: Number(t.tick),
+      liquidityNet: BigInt(t.liquidityNet),
+    })),
+    ...(raw.tickRange && { tickRange: { lower: Number(raw.tickRange.lower), upper: Number(raw.tickRange.upper) } }),
+  };
+}
+
+/**
+ * Serialize a snapshot so it can be written to a fixture file
+ */
+export function serializePoolSnapshot(snapshot: PoolSnapshot): RawPoolSnapshot {
+  return {
+    sqrtPriceX96: snapshot.sqrtPriceX96.toString(),
+    tick: snapshot.tick,
+    liquidity: snapshot.liquidity.toString(),
+    fee: snapshot.fee,
+    tickSpacing: snapshot.tickSpacing,
+    token0Decimals: snapshot.token0Decimals,
+    token1Decimals: snapshot.token1Decimals,
+    ticks: snapshot.ticks.map(t => ({
+      tick: t.tick,
+      liquidityNet: t.liquidityNet.toString(),
+    })),
+    ...(snapshot.tickRange && { tickRange: snapshot.tickRange }),
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * TWAP Manipulation Guard
+ *
+ * Handles:
+ * - Short TWAPs from the pools' observe() oracle (read in the same multicall
+ *   as the rest of the pool state)
+ * - Spot vs TWAP deviation per pool
+ * - A manipulationRisk level for detected spreads
+ *
+ * slot0 can be pushed anywhere within one block by anyone willing to pay the
+ * swap fee, which is cheap in thin testnet pools; the TWAP over the last few
+ * minutes cannot. A spread that exists only at spot is far more likely to be
+ * manipulation or a one-block dislocation than an arbitrage.
+ *
+ * observe() reverts ("OLD") when a pool's observation history does not reach
+ * back over the window (observation cardinality 1 is common on testnets). The
+ * TWAP is then unavailable and the risk is reported as 'unknown'.
+ *
+ * Config:
+ * - TWAP_WINDOW_SEC              TWAP window (default 300)
+ * - TWAP_MEDIUM_DEVIATION_PCT    spot/TWAP deviation for MEDIUM risk (default 0.5)
+ * - TWAP_HIGH_DEVIATION_PCT      spot/TWAP deviation for HIGH risk (default 2)
+ */
+
+import { ethers } from 'ethers';
+import type { MulticallCall, MulticallCallResult } from '@/lib/rpc/multicall';
+
+// ============ Types ============
+
+export type ManipulationRisk = 'low' | 'medium' | 'high' | 'unknown';
+
+export interface TwapConfig {
+  windowSec: number;
+  mediumDeviationPct: number;   // |spot - TWAP| / TWAP above this → MEDIUM
+  highDeviationPct: number;     // Above this → HIGH
+}
+
+export interface TwapReading {
+  windowSec: number;
+  twapTick: number | null;      // Arithmetic mean tick, null when observe() failed
+  error?: string;
+}
+
+export interface TwapAssessment {
+  windowSec: number;
+  twapPrice: number | null;
+  deviationPct: number | null;  // Signed: (spot - TWAP) / TWAP
+  risk: ManipulationRisk;
+}
+
+// ============ Constants ============
+
+export const DEFAULT_TWAP_CONFIG: TwapConfig = {
+  windowSec: 300,
+  mediumDeviationPct: 0.5,
+  highDeviationPct: 2,
+};
+
+const ORACLE_ABI = [
+  'function observe(uint32[] secondsAgos) external view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+];
+
+const oracleInterface = new ethers.Interface(ORACLE_ABI);
+
+/** Most severe first; 'unknown' ranks above 'low' so missing data never reads as safe */
+const RISK_ORDER: ManipulationRisk[] = ['high', 'medium', 'unknown', 'low'];
+
+// ============ Config ============
+
+export function getTwapConfig(): TwapConfig {
+  return {
+    windowSec: Number(process.env.TWAP_WINDOW_SEC) || DEFAULT_TWAP_CONFIG.windowSec,
+    mediumDeviationPct: Number(process.env.TWAP_MEDIUM_DEVIATION_PCT) || DEFAULT_TWAP_CONFIG.mediumDeviationPct,
+    highDeviationPct: Number(process.env.TWAP_HIGH_DEVIATION_PCT) || DEFAULT_TWAP_CONFIG.highDeviationPct,
+  };
+}
+
+// ============ Oracle Reads ============
+
+/**
+ * observe() call covering [windowSec ago, now], for inclusion in a multicall
+ */
+export function observeCall(pool: string, windowSec: number): MulticallCall {
+  return { target: pool, iface: oracleInterface, method: 'observe', args: [[windowSec, 0]] };
+}
+
+/**
+ * Mean tick over the window from an observeCall() result
+ * Rounds toward negative infinity, like Uniswap's OracleLibrary.consult
+ */
+export function readTwap(result: MulticallCallResult, windowSec: number): TwapReading {
+  if (!result.success) {
+    return { windowSec, twapTick: null, error: result.error ?? 'observe() failed' };
+  }
+
+  const [tickCumulatives] = result.value;
+  const delta = BigInt(tickCumulatives[1]) - BigInt(tickCumulatives[0]);
+  const seconds = BigInt(windowSec);
+
+  let tick = delta / seconds;
+  if (delta < BigInt(0) && delta % seconds !== BigInt(0)) tick -= BigInt(1);
+
+  return { windowSec, twapTick: Number(tick) };
+}
+
+// ============ Assessment ============
+
+/**
+ * Price of a tick in the same orientation as sqrtPriceX96ToPrice
+ * (token1 per token0, inverted when invert is set)
+ */
+export function tickToPrice(tick: number, token0Decimals: number, token1Decimals: number, invert: boolean = false): number {
+  const price = 1.0001 ** tick * 10 ** (token0Decimals - token1Decimals);
+  return invert ? 1 / price : price;
+}
+
+export function classifyDeviation(deviationPct: number | null, config: TwapConfig = DEFAULT_TWAP_CONFIG): ManipulationRisk {
+  if (deviationPct === null) return 'unknown';
+  const magnitude = Math.abs(deviationPct);
+  if (magnitude > config.highDeviationPct) return 'high';
+  if (magnitude > config.mediumDeviationPct) return 'medium';
+  return 'low';
+}
+
+/**
+ * Compare a pool's spot price with its TWAP
+ *
+ * @param twapPrice - TWAP in the same orientation as spotPrice (null if unavailable)
+ */
+export function assessTwap(
+  spotPrice: number,
+  twapPrice: number | null,
+  windowSec: number,
+  config: TwapConfig = DEFAULT_TWAP_CONFIG
+): TwapAssessment {
+  const deviationPct = twapPrice !== null && twapPrice > 0 ? ((spotPrice - twapPrice) / twapPrice) * 100 : null;
+  return {
+    windowSec,
+    twapPrice,
+    deviationPct,
+    risk: classifyDeviation(deviationPct, config),
+  };
+}
+
+/**
+ * Risk of an opportunity: the most severe risk of its pools
+ */
+export function combineManipulationRisks(risks: ManipulationRisk[]): ManipulationRisk {
+  return RISK_ORDER.find(level => risks.includes(level)) ?? 'unknown';
+}
@@ -8,25 +8,10 @@
  */
 
 import { ethers } from 'ethers';
-
-// ============ Contract Addresses ============
-
-export const ADDRESSES = {
-  base: {
-    swapRouter: ethers.getAddress('0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4'), // Base Sepolia SwapRouter
-    quoter: ethers.getAddress('0xC5290058841028F1614F3A6F0F5816cAd0df5E27'),      // Base Sepolia Quoter V2
-    weth: ethers.getAddress('0x4200000000000000000000000000000000000006'),       // Base Sepolia WETH
-    usdc: ethers.getAddress('0x036CbD53842c5426634e7929541eC2318f3dCF7e'),       // Base Sepolia USDC
-    ethUsdcPool: ethers.getAddress('0xd0b53D9277642d899DF5C87A3966A349A798F224'),  // Base Sepolia ETH/USDC Pool
-  },
-  arbitrum: {
-    swapRouter: ethers.getAddress('0x101F443B4d1b059569D643917553c771E1b9663E'),  // Arbitrum Sepolia SwapRouter
-    quoter: ethers.getAddress('0x2779a0CC1c3e0E44D2542EC3e79e3864Ae93Ef0B'),       // Arbitrum Sepolia Quoter
-    weth: ethers.getAddress('0x980B62Da83eFf3D4576C647993b0c1D7faf17c73'),       // Arbitrum Sepolia WETH
-    usdc: ethers.getAddress('0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d'),       // Arbitrum Sepolia USDC
-    ethUsdcPool: ethers.getAddress('0x80d201E993E22e56D97F4A3c93F14aD3F75C5EAc'),  // Arbitrum Sepolia ETH/USDC Pool (example)
-  },
-};
+import { multicall, unwrap } from '@/lib/rpc/multicall';
+import { observeCall, readTwap, TwapReading } from '@/lib/dex/twap';
+import { getChain, getToken, getUniswap, ChainName } from '@/lib/chains/registry';
+import type { PoolSnapshot, TickSnapshot, TickRange } from '@/lib/dex/swap-simulator';
 
 // ============ ABIs ============
 
@@ -37,13 +22,31 @@ export const POOL_ABI = [
   'function token0() external view returns (address)',
   'function token1() external view returns (address)',
   'function fee() external view returns (uint24)',
+  'function ticks(int24 tick) external view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)',
 ];
 
+const poolInterface = new ethers.Interface(POOL_ABI);
+
+// Tick spacings scanned either side of the current tick for swap simulation
+export const DEFAULT_TICK_SCAN_RANGE = 40;
+
 // Uniswap V3 Quoter V2 - for swap simulation
 export const QUOTER_ABI = [
   'function quoteExactInputSingle(tuple(address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) external returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
 ];
 
+// ============ Pools ============
+
+/**
+ * Reference ETH/USDC pool of a chain (lib/chains/registry.ts)
+ * @throws Error when the chain has none
+ */
+export function getEthUsdcPool(chain: ChainName): string {
+  const pool = getChain(chain).pools.ethUsdc;
+  if (!pool) throw new Error(`No ETH/USDC pool registered on ${chain}`);
+  return pool;
+}
+
 // ============ Price Math ============
 
 /**
@@ -80,29 +83,49 @@ export function sqrtPriceX96ToPrice(
 
 /**
  * Get ETH/USDC price from Uniswap pool
+ * All pool reads go out as one multicall pinned to a single block
  * 
  * @param provider - Ethers provider
- * @param chain - 'base' or 'arbitrum'
- * @returns Price of ETH in USDC
+ * @param chain - Registry chain whose reference ETH/USDC pool is read
+ * @param blockTag - Read pool state as of this block number (default: latest)
+ * @param twapWindowSec - Also read the pool's TWAP tick over this window (see twap.ts)
+ * @returns Price of ETH in USDC, and the block it was read at
  */
 export async function getEthUsdcPrice(
   provider: ethers.Provider,
-  chain: 'base' | 'arbitrum' = 'base'
-): Promise<{ price: number; liquidity: bigint; sqrtPriceX96: bigint }> {
-  const addresses = ADDRESSES[chain];
-  const pool = new ethers.Contract(addresses.ethUsdcPool, POOL_ABI, provider);
+  chain: ChainName,
+  blockTag?: number,
+  twapWindowSec?: number
+): Promise<{
+  price: number;
+  liquidity: bigint;
+  sqrtPriceX96: bigint;
+  tick: number;
+  fee: number;
+  wethIsToken0: boolean;
+  blockNumber: number;
+  twap?: TwapReading;
+}> {
+  const target = getEthUsdcPool(chain);
+  const weth = getToken(chain, 'WETH').address;
   
-  // Get slot0 (contains price) and liquidity
-  const [slot0, liquidity, token0] = await Promise.all([
-    pool.slot0(),
-    pool.liquidity(),
-    pool.token0(),
-  ]);
+  // Get slot0 (contains price), liquidity, token order and fee tier
+  const { blockNumber, results } = await multicall(provider, [
+    { target, iface: poolInterface, method: 'slot0' },
+    { target, iface: poolInterface, method: 'liquidity' },
+    { target, iface: poolInterface, method: 'token0' },
+    { target, iface: poolInterface, method: 'fee' },
+    ...(twapWindowSec !== undefined ? [observeCall(target, twapWindowSec)] : []),
+  ], blockTag);
+  const slot0 = unwrap(results[0], 'slot0');
+  const liquidity: bigint = unwrap(results[1], 'liquidity');
+  const token0: string = unwrap(results[2], 'token0');
+  const fee = unwrap(results[3], 'fee');
   
-  const sqrtPriceX96 = slot0.sqrtPriceX96;
+  const sqrtPriceX96: bigint = slot0.sqrtPriceX96;
   
   // Determine if WETH is token0 or token1
-  const wethIsToken0 = token0.toLowerCase() === addresses.weth.toLowerCase();
+  const wethIsToken0 = token0.toLowerCase() === weth.toLowerCase();
   
   // Calculate price
   // If WETH is token0: price is token1/token0 = USDC/WETH
@@ -118,6 +141,78 @@ export async function getEthUsdcPrice(
     price,
     liquidity,
     sqrtPriceX96,
+    tick: Number(slot0.tick),
+    fee: Number(fee),
+    wethIsToken0,
+    blockNumber,
+    ...(twapWindowSec !== undefined && { twap: readTwap(results[4], twapWindowSec) }),
+  };
+}
+
+/**
+ * Initialized ticks within `range` tick spacings either side of the current
+ * tick, read in one multicall at blockTag (pass the block the pool's slot0 was
+ * read at, so the two match)
+ *
+ * The scanned range is returned with the ticks: the swap simulator knows
+ * liquidity up to its edges and flags swaps that move past them
+ *
+ * @param range - Tick spacings to scan each way (default 40)
+ */
+export async function getInitializedTicks(
+  provider: ethers.Provider,
+  pool: string,
+  tick: number,
+  tickSpacing: number,
+  blockTag?: number,
+  range: number = DEFAULT_TICK_SCAN_RANGE
+): Promise<{ ticks: TickSnapshot[]; tickRange: TickRange }> {
+  const center = Math.floor(tick / tickSpacing) * tickSpacing;
+  const candidates: number[] = [];
+  for (let t = center - range * tickSpacing; t <= center + range * tickSpacing; t += tickSpacing) {
+    candidates.push(t);
+  }
+
+  const { results } = await multicall(
+    provider,
+    candidates.map(t => ({ target: pool, iface: poolInterface, method: 'ticks', args: [t] })),
+    blockTag
+  );
+
+  const ticks: TickSnapshot[] = [];
+  results.forEach((result, i) => {
+    const info = unwrap(result, `ticks(${candidates[i]}) of ${pool}`);
+    if (info.liquidityGross > BigInt(0)) {
+      ticks.push({ tick: candidates[i], liquidityNet: BigInt(info.liquidityNet) });
+    }
+  });
+
+  // Ticks are only initialized on multiples of tickSpacing, so every one in range was read
+  return { ticks, tickRange: { lower: candidates[0], upper: candidates[candidates.length - 1] } };
+}
+
+/**
+ * Pool snapshot (lib/dex/swap-simulator.ts) from a slot0/liquidity read plus
+ * the initialized ticks around it
+ */
+export async function readPoolSnapshot(
+  provider: ethers.Provider,
+  pool: string,
+  state: { sqrtPriceX96: bigint; tick: number; liquidity: bigint; fee: number; blockNumber: number },
+  decimals: { token0: number; token1: number },
+  tickSpacing: number
+): Promise<PoolSnapshot> {
+  const { ticks, tickRange } = await getInitializedTicks(provider, pool, state.tick, tickSpacing, state.blockNumber);
+  return {
+    sqrtPriceX96: state.sqrtPriceX96,
+    tick: state.tick,
+    liquidity: state.liquidity,
+    fee: state.fee,
+    tickSpacing,
+    token0Decimals: decimals.token0,
+    token1Decimals: decimals.token1,
+    ticks,
+    tickRange,
   };
 }
 
@@ -129,7 +224,7 @@ export async function getEthUsdcPrice(
  * @param tokenIn - Input token address
  * @param tokenOut - Output token address
  * @param fee - Pool fee tier (default 3000 = 0.3%)
- * @param chain - 'base' or 'arbitrum'
+ * @param chain - Registry chain whose QuoterV2 is used
  * @returns Quote result with amount out and gas estimate
  */
 export async function getQuote(
@@ -138,14 +233,13 @@ export async function getQuote(
   tokenIn: string,
   tokenOut: string,
   fee: number = 3000,
-  chain: 'base' | 'arbitrum' = 'base'
+  chain: ChainName
 ): Promise<{
   amountOut: bigint;
   gasEstimate: bigint;
   sqrtPriceX96After: bigint;
 }> {
-  const addresses = ADDRESSES[chain];
-  const quoter = new ethers.Contract(addresses.quoter, QUOTER_ABI, provider);
+  const quoter = new ethers.Contract(getUniswap(chain).quoter, QUOTER_ABI, provider);
   
   try {
     const result = await quoter.quoteExactInputSingle.staticCall({
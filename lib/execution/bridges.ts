@@ -0,0 +1,85 @@
+/**
+ * Flow Bridge Adapters
+ *
+ * Handles:
+ * - Building the bridge deposit transaction of a cross-chain flow
+ * - Reading the deposit id back from the deposit receipt
+ * - Checking the destination chain for the relayer's fill
+ *
+ * Adapters only describe transactions and reads; signing, retries and
+ * persistence stay in the orchestrator.
+ *
+ * - mock: contracts/mocks/MockBridge.sol on two local chains
+ */
+
+import { ethers } from 'ethers';
+import { FlowBridgeConfig, FlowPlan } from './flow-store';
+
+// ============ Types ============
+
+export interface FlowBridge {
+  depositTx(plan: FlowPlan, amount: bigint): ethers.TransactionRequest;
+  spender(plan: FlowPlan): string;          // Approved for the deposit token
+  depositId(receipt: ethers.TransactionReceipt, plan: FlowPlan): string;
+  /** Amount filled on the destination, or null while unfilled */
+  checkFill(provider: ethers.Provider, plan: FlowPlan, depositId: string): Promise<bigint | null>;
+}
+
+// ============ Mock Bridge ============
+
+export const MOCK_BRIDGE_ABI = [
+  'function deposit(address inputToken, address outputToken, uint256 inputAmount, address recipient, uint256 destinationChainId) external returns (uint256 depositId)',
+  'function fill(uint256 originChainId, uint256 depositId, address outputToken, address recipient, uint256 outputAmount) external',
+  'function filledAmount(bytes32 key) external view returns (uint256)',
+  'function fillKey(uint256 originChainId, uint256 depositId) external pure returns (bytes32)',
+  'function feeBps() external view returns (uint256)',
+  'event FundsDeposited(uint256 indexed depositId, address indexed depositor, address recipient, address inputToken, address outputToken, uint256 inputAmount, uint256 outputAmount, uint256 destinationChainId)',
+  'event RelayFilled(uint256 indexed originChainId, uint256 indexed depositId, address recipient, address outputToken, uint256 outputAmount, address relayer)',
+];
+
+const mockBridgeInterface = new ethers.Interface(MOCK_BRIDGE_ABI);
+
+const mockBridge: FlowBridge = {
+  depositTx: (plan, amount) => ({
+    to: plan.bridge.sourceAddress,
+    data: mockBridgeInterface.encodeFunctionData('deposit', [
+      plan.source.tokenOut,
+      plan.destination.tokenIn,
+      amount,
+      plan.recipient,
+      plan.destination.chainId,
+    ]),
+  }),
+
+  spender: plan => plan.bridge.sourceAddress,
+
+  depositId(receipt, plan) {
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== plan.bridge.sourceAddress.toLowerCase()) continue;
+      const parsed = mockBridgeInterface.parseLog(log);
+      if (parsed?.name === 'FundsDeposited') return parsed.args.depositId.toString();
+    }
+    throw new Error(`No FundsDeposited event in ${receipt.hash}`);
+  },
+
+  async checkFill(provider, plan, depositId) {
+    const bridge = new ethers.Contract(plan.bridge.destinationAddress, MOCK_BRIDGE_ABI, provider);
+    const key = ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(['uint256', 'uint256'], [plan.source.chainId, depositId])
+    );
+    const filled: bigint = await bridge.filledAmount(key);
+    return filled > BigInt(0) ? filled : null;
+  },
+};
+
+// ============ Registry ============
+
+const ADAPTERS: Record<FlowBridgeConfig['kind'], FlowBridge> = {
+  mock: mockBridge,
+};
+
+export function getFlowBridge(config: FlowBridgeConfig): FlowBridge {
+  const adapter = ADAPTERS[config.kind];
+  if (!adapter) throw new Error(`Unknown flow bridge: ${config.kind}`);
+  return adapter;
+}
@@ -0,0 +1,177 @@
+/**
+ * Cross-Chain Flow Store
+ *
+ * Handles:
+ * - The persisted state of each cross-chain flow (buy → bridge → fill → sell):
+ *   one JSON file per flow, rewritten atomically (temp file + rename) after
+ *   every state transition, so a crash never leaves a half-written record
+ * - A per-flow lock file so two processes never drive the same flow; locks
+ *   left by a dead process are taken over
+ *
+ * Location: FLOW_STORE_DIR env var, default ./data/flows
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+// ============ Types ============
+
+export type FlowStepId = 'sourceSwap' | 'bridgeDeposit' | 'awaitFill' | 'destinationSwap';
+export type StepStatus = 'pending' | 'submitted' | 'confirmed' | 'failed';
+export type FlowStatus = 'running' | 'completed' | 'failed';
+
+export const FLOW_STEPS: FlowStepId[] = ['sourceSwap', 'bridgeDeposit', 'awaitFill', 'destinationSwap'];
+
+export interface FlowSwapLeg {
+  chainId: number;
+  router: string;                 // ISwapRouter: Uniswap V3 SwapRouter, or MockSwapRouter locally
+  tokenIn: string;
+  tokenOut: string;
+  fee: number;
+  minAmountOut: string;           // wei of tokenOut
+}
+
+export interface FlowBridgeConfig {
+  kind: 'mock';                   // Adapter in lib/execution/bridges.ts
+  sourceAddress: string;          // Deposit contract on the source chain
+  destinationAddress: string;     // Fill contract on the destination chain
+}
+
+export interface FlowPlan {
+  amountIn: string;               // wei of source.tokenIn
+  recipient: string;              // Receives the bridged funds and the final output
+  source: FlowSwapLeg;            // e.g. USDC → WETH on Base
+  bridge: FlowBridgeConfig;
+  destination: FlowSwapLeg;       // e.g. WETH → USDC on Arbitrum
+}
+
+export interface FlowTx {
+  hash: string;
+  nonce: number;
+  raw: string;                    // Signed, so a resumed flow re-broadcasts the same tx
+  sentAt: number;
+  replacedHashes: string[];       // Earlier fee-bumped versions (same nonce)
+}
+
+export interface FlowStep {
+  id: FlowStepId;
+  status: StepStatus;
+  attempts: number;
+  tx?: FlowTx;
+  startedAt?: number;
+  completedAt?: number;
+  output?: string;                // Tokens out (swaps), deposit id (bridge), amount filled (fill)
+  error?: string;
+}
+
+export interface CrossChainFlow {
+  id: string;
+  status: FlowStatus;
+  createdAt: number;
+  updatedAt: number;
+  plan: FlowPlan;
+  steps: FlowStep[];
+  error?: string;
+}
+
+// ============ Storage ============
+
+function getFlowDir(): string {
+  return process.env.FLOW_STORE_DIR || path.join(process.cwd(), 'data', 'flows');
+}
+
+function flowPath(id: string): string {
+  if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid flow id: ${id}`);
+  return path.join(getFlowDir(), `${id}.json`);
+}
+
+export function newFlow(plan: FlowPlan): CrossChainFlow {
+  const now = Date.now();
+  return {
+    id: randomUUID(),
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+    plan,
+    steps: FLOW_STEPS.map(id => ({ id, status: 'pending', attempts: 0 })),
+  };
+}
+
+export async function saveFlow(flow: CrossChainFlow): Promise<void> {
+  flow.updatedAt = Date.now();
+  const file = flowPath(flow.id);
+  const temp = `${file}.${process.pid}.tmp`;
+
+  await fs.mkdir(getFlowDir(), { recursive: true });
+  await fs.writeFile(temp, JSON.stringify(flow, null, 2), 'utf8');
+  await fs.rename(temp, file);
+}
+
+/**
+ * @throws Error if the flow does not exist
+ */
+export async function loadFlow(id: string): Promise<CrossChainFlow> {
+  try {
+    return JSON.parse(await fs.readFile(flowPath(id), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw new Error(`Flow ${id} not found`);
+    throw error;
+  }
+}
+
+export async function listFlows(status?: FlowStatus): Promise<CrossChainFlow[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getFlowDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const flows = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => loadFlow(file.slice(0, -'.json'.length)))
+  );
+  return flows
+    .filter(flow => !status || flow.status === status)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// ============ Locking ============
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Take the flow's lock, or take over a lock whose process has died
+ * @throws Error if another live process holds it
+ */
+export async function acquireFlowLock(id: string): Promise<void> {
+  const lock = `${flowPath(id)}.lock`;
+  await fs.mkdir(getFlowDir(), { recursive: true });
+
+  try {
+    await fs.writeFile(lock, String(process.pid), { flag: 'wx' });
+    return;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+  }
+
+  const holder = Number(await fs.readFile(lock, 'utf8').catch(() => ''));
+  if (holder && holder !== process.pid && isProcessAlive(holder)) {
+    throw new Error(`Flow ${id} is being run by process ${holder}`);
+  }
+  await fs.writeFile(lock, String(process.pid));
+}
+
+export async function releaseFlowLock(id: string): Promise<void> {
+  await fs.rm(`${flowPath(id)}.lock`, { force: true });
+}
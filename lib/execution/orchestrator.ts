@@ -0,0 +1,430 @@
+/**
+ * Cross-Chain Execution Orchestrator
+ *
+ * Handles:
+ * - Driving a cross-chain flow one step at a time:
+ *   1. sourceSwap       swap on the source chain (e.g. USDC → WETH on Base)
+ *   2. bridgeDeposit    deposit the proceeds into the bridge
+ *   3. awaitFill        wait for the relayer's fill on the destination chain
+ *   4. destinationSwap  swap the filled amount (e.g. WETH → USDC on Arbitrum)
+ * - Persisting every transition (lib/execution/flow-store.ts), so a flow
+ *   resumes after a crash from exactly where it stopped
+ * - Idempotent retries: each transaction is signed and persisted before it is
+ *   sent and stays pinned to its nonce (lib/execution/transactions.ts)
+ * - Timeouts: stuck transactions are replaced with higher fees; a fill that
+ *   does not arrive in time fails the flow, which can be retried later
+ *
+ * Signers are supplied by the caller, connected to each chain's provider;
+ * nothing here reads private keys.
+ *
+ * Config:
+ * - FLOW_MAX_ATTEMPTS          attempts per step before the flow fails (default 3)
+ * - FLOW_CONFIRM_TIMEOUT_SEC   time before a pending tx is replaced (default 180)
+ * - FLOW_FILL_TIMEOUT_SEC      time allowed for the bridge fill (default 1800)
+ * - FLOW_POLL_INTERVAL_MS      receipt / fill polling interval (default 3000)
+ * - FLOW_SWAP_DEADLINE_SEC     swap deadline from signing (default 600)
+ */
+
+import { ethers } from 'ethers';
+import {
+  CrossChainFlow,
+  FlowPlan,
+  FlowStep,
+  FlowStepId,
+  FlowSwapLeg,
+  newFlow,
+  saveFlow,
+  loadFlow,
+  listFlows,
+  acquireFlowLock,
+  releaseFlowLock,
+} from './flow-store';
+import { getFlowBridge } from './bridges';
+import { signFlowTx, broadcastFlowTx, waitForFlowTx, ensureAllowance, tokensReceived, NonceConsumedError } from './transactions';
+
+// ============ Types ============
+
+export interface FlowSigners {
+  source: ethers.Signer;          // Connected to the source chain
+  destination: ethers.Signer;     // Connected to the destination chain; must be plan.recipient
+}
+
+export interface OrchestratorOptions {
+  maxAttempts: number;
+  confirmTimeoutMs: number;
+  fillTimeoutMs: number;
+  pollIntervalMs: number;
+  swapDeadlineSec: number;
+  /** Called after every persisted transition */
+  onTransition?: (flow: CrossChainFlow, step: FlowStep) => void | Promise<void>;
+}
+
+// ============ Constants ============
+
+const SWAP_ROUTER_ABI = [
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) external payable returns (uint256 amountOut)',
+];
+
+const swapRouterInterface = new ethers.Interface(SWAP_ROUTER_ABI);
+
+// Flows being driven by this process (the lock file only guards against other processes)
+const activeFlows = new Set<string>();
+
+// ============ Config ============
+
+export function getOrchestratorOptions(): OrchestratorOptions {
+  return {
+    maxAttempts: Number(process.env.FLOW_MAX_ATTEMPTS) || 3,
+    confirmTimeoutMs: (Number(process.env.FLOW_CONFIRM_TIMEOUT_SEC) || 180) * 1000,
+    fillTimeoutMs: (Number(process.env.FLOW_FILL_TIMEOUT_SEC) || 1800) * 1000,
+    pollIntervalMs: Number(process.env.FLOW_POLL_INTERVAL_MS) || 3000,
+    swapDeadlineSec: Number(process.env.FLOW_SWAP_DEADLINE_SEC) || 600,
+  };
+}
+
+// ============ Helpers ============
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function errorMessage(error: unknown): string {
+  // ethers errors carry the whole request in message; shortMessage is the readable part
+  const short = (error as { shortMessage?: string } | null)?.shortMessage;
+  return short ?? (error instanceof Error ? error.message : 'Unknown error');
+}
+
+function getStep(flow: CrossChainFlow, id: FlowStepId): FlowStep {
+  const step = flow.steps.find(s => s.id === id);
+  if (!step) throw new Error(`Flow ${flow.id} has no ${id} step`);
+  return step;
+}
+
+function stepOutput(flow: CrossChainFlow, id: FlowStepId): bigint {
+  const output = getStep(flow, id).output;
+  if (output === undefined) throw new Error(`Step ${id} of flow ${flow.id} has no output`);
+  return BigInt(output);
+}
+
+function swapTx(leg: FlowSwapLeg, amountIn: bigint, recipient: string, deadlineSec: number): ethers.TransactionRequest {
+  return {
+    to: leg.router,
+    data: swapRouterInterface.encodeFunctionData('exactInputSingle', [{
+      tokenIn: leg.tokenIn,
+      tokenOut: leg.tokenOut,
+      fee: leg.fee,
+      recipient,
+      deadline: Math.floor(Date.now() / 1000) + deadlineSec,
+      amountIn,
+      amountOutMinimum: BigInt(leg.minAmountOut),
+      sqrtPriceLimitX96: 0,
+    }]),
+  };
+}
+
+async function assertChain(signer: ethers.Signer, chainId: number, label: string): Promise<void> {
+  if (!signer.provider) throw new Error(`The ${label} signer has no provider`);
+  const network = await signer.provider.getNetwork();
+  if (Number(network.chainId) !== chainId) {
+    throw new Error(`The ${label} signer is on chain ${network.chainId}, the flow expects ${chainId}`);
+  }
+}
+
+// ============ Steps ============
+
+/**
+ * A step that sends one transaction: how to build it (after any approvals)
+ * and what it produced
+ */
+interface TxStep {
+  signer: (signers: FlowSigners) => ethers.Signer;
+  build: (flow: CrossChainFlow, signer: ethers.Signer, options: OrchestratorOptions) => Promise<ethers.TransactionRequest>;
+  output: (flow: CrossChainFlow, receipt: ethers.TransactionReceipt, signer: ethers.Signer) => Promise<string>;
+}
+
+const TX_STEPS: Record<Exclude<FlowStepId, 'awaitFill'>, TxStep> = {
+  sourceSwap: {
+    signer: signers => signers.source,
+    async build(flow, signer, options) {
+      const { source, amountIn } = flow.plan;
+      await ensureAllowance(signer, source.tokenIn, source.router, BigInt(amountIn));
+      return swapTx(source, BigInt(amountIn), await signer.getAddress(), options.swapDeadlineSec);
+    },
+    output: async (flow, receipt, signer) =>
+      tokensReceived(receipt, flow.plan.source.tokenOut, await signer.getAddress()).toString(),
+  },
+
+  bridgeDeposit: {
+    signer: signers => signers.source,
+    async build(flow, signer) {
+      const bridge = getFlowBridge(flow.plan.bridge);
+      const amount = stepOutput(flow, 'sourceSwap');
+      await ensureAllowance(signer, flow.plan.source.tokenOut, bridge.spender(flow.plan), amount);
+      return bridge.depositTx(flow.plan, amount);
+    },
+    output: async (flow, receipt) => getFlowBridge(flow.plan.bridge).depositId(receipt, flow.plan),
+  },
+
+  destinationSwap: {
+    signer: signers => signers.destination,
+    async build(flow, signer, options) {
+      const { destination, recipient } = flow.plan;
+      const amount = stepOutput(flow, 'awaitFill');
+      await ensureAllowance(signer, destination.tokenIn, destination.router, amount);
+      return swapTx(destination, amount, recipient, options.swapDeadlineSec);
+    },
+    output: async (flow, receipt) =>
+      tokensReceived(receipt, flow.plan.destination.tokenOut, flow.plan.recipient).toString(),
+  },
+};
+
+// ============ Orchestrator ============
+
+class StepFailure extends Error {}
+
+async function transition(flow: CrossChainFlow, step: FlowStep, options: OrchestratorOptions): Promise<void> {
+  await saveFlow(flow);
+  await options.onTransition?.(flow, step);
+}
+
+/**
+ * Send (or resume) a step's transaction until it is confirmed
+ */
+async function runTxStep(
+  flow: CrossChainFlow,
+  step: FlowStep,
+  definition: TxStep,
+  signers: FlowSigners,
+  options: OrchestratorOptions
+): Promise<void> {
+  const signer = definition.signer(signers);
+  const provider = signer.provider!;
+  const from = await signer.getAddress();
+  let consecutiveErrors = 0;
+
+  while (step.status !== 'confirmed') {
+    try {
+      if (!step.tx) {
+        if (step.attempts >= options.maxAttempts) {
+          throw new StepFailure(`failed after ${step.attempts} attempts: ${step.error ?? 'unknown error'}`);
+        }
+        // Sign and persist before sending: a crash from here on resumes this exact tx
+        const request = await definition.build(flow, signer, options);
+        step.attempts++;
+        step.startedAt = step.startedAt ?? Date.now();
+        step.tx = await signFlowTx(signer, request);
+        step.status = 'submitted';
+        await transition(flow, step, options);
+        await broadcastFlowTx(provider, step.tx);
+      }
+
+      const receipt = await waitForFlowTx(provider, from, step.tx, options);
+      consecutiveErrors = 0;
+
+      if (!receipt) {
+        if (step.attempts >= options.maxAttempts) {
+          throw new StepFailure(`not confirmed after ${step.attempts} attempts (tx ${step.tx.hash} may still be pending)`);
+        }
+        // Stuck: replace on the same nonce with higher fees
+        const request = await definition.build(flow, signer, options);
+        step.attempts++;
+        step.tx = await signFlowTx(signer, request, step.tx);
+        await transition(flow, step, options);
+        await broadcastFlowTx(provider, step.tx);
+        continue;
+      }
+
+      if (receipt.status !== 1) {
+        // Reverted: the nonce is spent but nothing happened, so a fresh tx is safe
+        step.error = `Transaction ${receipt.hash} reverted`;
+        step.tx = undefined;
+        step.status = 'pending';
+        await transition(flow, step, options);
+        continue;
+      }
+
+      step.output = await definition.output(flow, receipt, signer);
+      step.status = 'confirmed';
+      step.completedAt = Date.now();
+      step.error = undefined;
+      await transition(flow, step, options);
+    } catch (error) {
+      if (error instanceof StepFailure || error instanceof NonceConsumedError) throw error;
+
+      // RPC or build error: retry, unless it keeps happening
+      step.error = errorMessage(error);
+      await saveFlow(flow);
+      if (++consecutiveErrors >= options.maxAttempts) {
+        throw new StepFailure(`${consecutiveErrors} consecutive errors, last: ${step.error}`);
+      }
+      await sleep(options.pollIntervalMs);
+    }
+  }
+}
+
+/**
+ * Poll the destination chain until the deposit is filled
+ */
+async function runFillStep(
+  flow: CrossChainFlow,
+  step: FlowStep,
+  signers: FlowSigners,
+  options: OrchestratorOptions
+): Promise<void> {
+  const bridge = getFlowBridge(flow.plan.bridge);
+  const depositId = getStep(flow, 'bridgeDeposit').output!;
+
+  if (step.status === 'pending') {
+    step.status = 'submitted';
+    step.startedAt = step.startedAt ?? Date.now();
+    await transition(flow, step, options);
+  }
+  // Persisted, so a resumed flow keeps its original deadline
+  const deadline = (step.startedAt ?? Date.now()) + options.fillTimeoutMs;
+
+  for (;;) {
+    try {
+      const filled = await bridge.checkFill(signers.destination.provider!, flow.plan, depositId);
+      if (filled !== null) {
+        step.output = filled.toString();
+        step.status = 'confirmed';
+        step.completedAt = Date.now();
+        step.error = undefined;
+        await transition(flow, step, options);
+        return;
+      }
+    } catch (error) {
+      step.error = errorMessage(error);
+      await saveFlow(flow);
+    }
+
+    if (Date.now() >= deadline) {
+      throw new StepFailure(`Deposit ${depositId} not filled within ${Math.round(options.fillTimeoutMs / 1000)}s`);
+    }
+    await sleep(options.pollIntervalMs);
+  }
+}
+
+/**
+ * Create and persist a flow (it does not start until runFlow)
+ */
+export async function createFlow(plan: FlowPlan): Promise<CrossChainFlow> {
+  const flow = newFlow(plan);
+  await saveFlow(flow);
+  return flow;
+}
+
+/**
+ * Run fn holding both this process's claim on the flow and its file lock;
+ * the lock is released only if this call acquired it
+ */
+async function withFlowLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  // Checked first: acquireFlowLock takes over a lock held by our own pid
+  if (activeFlows.has(id)) throw new Error(`Flow ${id} is already running`);
+  activeFlows.add(id);
+  try {
+    await acquireFlowLock(id);
+  } catch (error) {
+    activeFlows.delete(id);
+    throw error;
+  }
+  try {
+    return await fn();
+  } finally {
+    activeFlows.delete(id);
+    await releaseFlowLock(id);
+  }
+}
+
+/**
+ * Run the flow's remaining steps (the caller holds the flow lock)
+ */
+async function driveFlow(
+  flow: CrossChainFlow,
+  signers: FlowSigners,
+  options: OrchestratorOptions
+): Promise<CrossChainFlow> {
+  await assertChain(signers.source, flow.plan.source.chainId, 'source');
+  await assertChain(signers.destination, flow.plan.destination.chainId, 'destination');
+  const destinationAddress = await signers.destination.getAddress();
+  if (destinationAddress.toLowerCase() !== flow.plan.recipient.toLowerCase()) {
+    throw new Error(`The destination signer ${destinationAddress} is not the flow recipient ${flow.plan.recipient}`);
+  }
+
+  for (const step of flow.steps) {
+    if (step.status === 'confirmed') continue;
+    try {
+      if (step.id === 'awaitFill') {
+        await runFillStep(flow, step, signers, options);
+      } else {
+        await runTxStep(flow, step, TX_STEPS[step.id], signers, options);
+      }
+    } catch (error) {
+      step.status = 'failed';
+      step.error = errorMessage(error);
+      flow.status = 'failed';
+      flow.error = `${step.id}: ${step.error}`;
+      await transition(flow, step, options);
+      return flow;
+    }
+  }
+
+  flow.status = 'completed';
+  await saveFlow(flow);
+  return flow;
+}
+
+/**
+ * Drive a flow to completion or failure, resuming from its persisted state
+ */
+export async function runFlow(
+  id: string,
+  signers: FlowSigners,
+  options: OrchestratorOptions = getOrchestratorOptions()
+): Promise<CrossChainFlow> {
+  return withFlowLock(id, async () => {
+    const flow = await loadFlow(id);
+    if (flow.status !== 'running') return flow;
+    return driveFlow(flow, signers, options);
+  });
+}
+
+/**
+ * Resume every flow left running (e.g. after a crash), one at a time
+ */
+export async function resumeFlows(
+  signers: FlowSigners,
+  options: OrchestratorOptions = getOrchestratorOptions()
+): Promise<CrossChainFlow[]> {
+  const results: CrossChainFlow[] = [];
+  for (const flow of await listFlows('running')) {
+    results.push(await runFlow(flow.id, signers, options));
+  }
+  return results;
+}
+
+/**
+ * Give a failed flow a fresh set of attempts on its failed step and run it again;
+ * a transaction the step already sent is waited for, not re-sent
+ */
+export async function retryFlow(
+  id: string,
+  signers: FlowSigners,
+  options: OrchestratorOptions = getOrchestratorOptions()
+): Promise<CrossChainFlow> {
+  // Reset and run under one lock hold, so no other process can take the flow in between
+  return withFlowLock(id, async () => {
+    const flow = await loadFlow(id);
+    if (flow.status !== 'failed') throw new Error(`Flow ${id} is ${flow.status}, not failed`);
+
+    const step = flow.steps.find(s => s.status === 'failed');
+    if (step) {
+      step.status = step.tx || step.id === 'awaitFill' ? 'submitted' : 'pending';
+      step.attempts = 0;
+      step.startedAt = Date.now();
+    }
+    flow.status = 'running';
+    flow.error = undefined;
+    await saveFlow(flow);
+
+    return driveFlow(flow, signers, options);
+  });
+}
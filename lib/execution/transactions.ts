@@ -0,0 +1,191 @@
+/**
+ * Idempotent Flow Transactions
+ *
+ * Handles:
+ * - Signing a step's transaction before it is sent, so its hash, nonce and
+ *   raw bytes can be persisted first; a resumed flow re-broadcasts exactly
+ *   the same transaction instead of sending a second one
+ * - Waiting for the receipt of a transaction or any of its replacements
+ * - Fee-bumped replacements on the same nonce when a transaction is stuck
+ * - ERC20 approvals (checked against the current allowance, so repeats are no-ops)
+ *
+ * Pinning each step to one nonce is what makes retries safe: whatever is
+ * re-sent, at most one transaction per step can ever be mined.
+ */
+
+import { ethers } from 'ethers';
+import { FlowTx } from './flow-store';
+
+// ============ Types ============
+
+export interface WaitOptions {
+  confirmTimeoutMs: number;
+  pollIntervalMs: number;
+}
+
+/** The step's nonce was mined by a transaction the flow did not send */
+export class NonceConsumedError extends Error {
+  constructor(readonly from: string, readonly nonce: number) {
+    super(`Nonce ${nonce} of ${from} was used by another transaction`);
+    this.name = 'NonceConsumedError';
+  }
+}
+
+// ============ Constants ============
+
+// Nodes require replacements to raise fees by at least 10%
+const REPLACEMENT_FEE_BUMP_PCT = BigInt(25);
+
+// Over the estimate: state can change between signing and inclusion
+const GAS_LIMIT_HEADROOM_PCT = BigInt(20);
+
+const ERC20_ABI = [
+  'function allowance(address owner, address spender) external view returns (uint256)',
+  'function approve(address spender, uint256 amount) external returns (bool)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+];
+
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+// ============ Helpers ============
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * The populated fee, raised to the previous fee + REPLACEMENT_FEE_BUMP_PCT if lower
+ */
+function bumpedFee(current: ethers.BigNumberish | null | undefined, previous: bigint | null): bigint | undefined {
+  if (current === null || current === undefined) return undefined;
+  const populated = BigInt(current);
+  if (!previous) return populated;
+  const bumped = previous + (previous * REPLACEMENT_FEE_BUMP_PCT) / BigInt(100);
+  return bumped > populated ? bumped : populated;
+}
+
+function isAlreadyKnown(error: unknown): boolean {
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return message.includes('already known') || message.includes('known transaction') || message.includes('already imported');
+}
+
+// ============ Signing ============
+
+/**
+ * Sign a transaction without sending it
+ *
+ * @param replacing - A stuck transaction to replace: same nonce, fees bumped
+ */
+export async function signFlowTx(
+  signer: ethers.Signer,
+  request: ethers.TransactionRequest,
+  replacing?: FlowTx
+): Promise<FlowTx> {
+  const nonce = replacing ? replacing.nonce : await signer.getNonce('pending');
+  const populated = await signer.populateTransaction({ ...request, nonce });
+  if (request.gasLimit === undefined && populated.gasLimit !== undefined && populated.gasLimit !== null) {
+    const estimate = BigInt(populated.gasLimit);
+    populated.gasLimit = estimate + (estimate * GAS_LIMIT_HEADROOM_PCT) / BigInt(100);
+  }
+
+  if (replacing) {
+    const previous = ethers.Transaction.from(replacing.raw);
+    populated.maxFeePerGas = bumpedFee(populated.maxFeePerGas, previous.maxFeePerGas);
+    populated.maxPriorityFeePerGas = bumpedFee(populated.maxPriorityFeePerGas, previous.maxPriorityFeePerGas);
+    populated.gasPrice = bumpedFee(populated.gasPrice, previous.gasPrice);
+  }
+
+  const raw = await signer.signTransaction(populated);
+  return {
+    hash: ethers.Transaction.from(raw).hash!,
+    nonce,
+    raw,
+    sentAt: Date.now(),
+    replacedHashes: replacing ? [...replacing.replacedHashes, replacing.hash] : [],
+  };
+}
+
+/**
+ * Send a signed transaction; a node that already has it is not an error
+ */
+export async function broadcastFlowTx(provider: ethers.Provider, tx: FlowTx): Promise<void> {
+  try {
+    await provider.broadcastTransaction(tx.raw);
+  } catch (error) {
+    if (!isAlreadyKnown(error)) throw error;
+  }
+}
+
+// ============ Confirmation ============
+
+async function findReceipt(provider: ethers.Provider, tx: FlowTx): Promise<ethers.TransactionReceipt | null> {
+  for (const hash of [tx.hash, ...tx.replacedHashes]) {
+    const receipt = await provider.getTransactionReceipt(hash);
+    if (receipt) return receipt;
+  }
+  return null;
+}
+
+/**
+ * Wait for the transaction (or one of its replacements) to be mined,
+ * re-broadcasting it if the node has dropped it
+ *
+ * @returns The receipt, or null when confirmTimeoutMs has passed since it was sent
+ * @throws NonceConsumedError if the nonce was used by an unrelated transaction
+ */
+export async function waitForFlowTx(
+  provider: ethers.Provider,
+  from: string,
+  tx: FlowTx,
+  options: WaitOptions
+): Promise<ethers.TransactionReceipt | null> {
+  const deadline = tx.sentAt + options.confirmTimeoutMs;
+
+  for (;;) {
+    const receipt = await findReceipt(provider, tx);
+    if (receipt) return receipt;
+
+    if (!(await provider.getTransaction(tx.hash))) {
+      const minedNonce = await provider.getTransactionCount(from, 'latest');
+      if (minedNonce > tx.nonce) {
+        const late = await findReceipt(provider, tx);
+        if (late) return late;
+        throw new NonceConsumedError(from, tx.nonce);
+      }
+      await broadcastFlowTx(provider, tx);
+    }
+
+    if (Date.now() >= deadline) return null;
+    await sleep(options.pollIntervalMs);
+  }
+}
+
+// ============ ERC20 ============
+
+/**
+ * Approve spender for at least amount (max approval), unless already approved
+ */
+export async function ensureAllowance(
+  signer: ethers.Signer,
+  token: string,
+  spender: string,
+  amount: bigint
+): Promise<void> {
+  const contract = new ethers.Contract(token, ERC20_ABI, signer);
+  const allowance: bigint = await contract.allowance(await signer.getAddress(), spender);
+  if (allowance >= amount) return;
+
+  const tx = await contract.approve(spender, ethers.MaxUint256);
+  const receipt = await tx.wait();
+  if (!receipt || receipt.status !== 1) throw new Error(`Approval of ${token} for ${spender} failed`);
+}
+
+/**
+ * Tokens of one ERC20 transferred to recipient in a receipt
+ */
+export function tokensReceived(receipt: ethers.TransactionReceipt, token: string, recipient: string): bigint {
+  return receipt.logs.reduce((sum, log) => {
+    if (log.address.toLowerCase() !== token.toLowerCase()) return sum;
+    const parsed = erc20Interface.parseLog(log);
+    if (parsed?.name !== 'Transfer' || parsed.args.to.toLowerCase() !== recipient.toLowerCase()) return sum;
+    return sum + BigInt(parsed.args.value);
+  }, BigInt(0));
+}
@@ -0,0 +1,214 @@
+/**
+ * EIP-1559 Fee Market
+ *
+ * Handles:
+ * - Sampling eth_feeHistory over recent blocks
+ * - Base fee trend and volatility (per-block log changes)
+ * - Priority fee percentiles (median over the window of each block's percentile)
+ * - Probability that the base fee spikes within a short execution horizon
+ * - An expected and a stress gas price for cost modeling (lib/math/profit.ts)
+ *
+ * The spike model treats per-block log changes of the base fee as a random
+ * walk with the sampled drift and volatility: over h blocks the change is
+ * ~ N(h·μ, h·σ²). Chains with a pinned base fee (Arbitrum's floor, most
+ * testnets) therefore get a spike probability of 0 until the fee moves.
+ *
+ * Config:
+ * - FEE_HISTORY_BLOCKS          blocks sampled (default 20, max 1024)
+ * - FEE_SPIKE_HORIZON_BLOCKS    blocks between simulation and inclusion (default 10)
+ * - FEE_SPIKE_THRESHOLD_PCT     base fee rise that counts as a spike (default 25)
+ */
+
+import { ethers } from 'ethers';
+import { ChainName } from '@/lib/chains/registry';
+import { GasPriceRange } from '@/lib/math/profit';
+import { normalCdf } from '@/lib/math/price-drift';
+
+// ============ Types ============
+
+export interface FeeMarketConfig {
+  blockCount: number;
+  horizonBlocks: number;
+  spikeThresholdPct: number;
+}
+
+export interface FeeMarket {
+  chain: ChainName;
+  newestBlock: number;
+  blockCount: number;
+  baseFee: {
+    latestWei: bigint;
+    nextWei: bigint;              // Protocol-determined for the pending block
+    meanWei: bigint;
+    maxWei: bigint;
+    trendPctPerBlock: number;     // Mean per-block change
+    volatilityPct: number;        // Std dev of the per-block change
+  };
+  priorityFee: {
+    p10Wei: bigint;
+    p50Wei: bigint;
+    p90Wei: bigint;
+  };
+  gasUsedRatio: number;           // Mean block fullness (0.5 = EIP-1559 target)
+  volatility: number;             // 0-1: volatilityPct relative to the 12.5% max step of L1
+  spikeProbability: number;       // P(base fee rises > spikeThresholdPct within horizonBlocks)
+  horizonBlocks: number;
+  spikeThresholdPct: number;
+  gasPrice: GasPriceRange;
+}
+
+// ============ Constants ============
+
+export const DEFAULT_FEE_MARKET_CONFIG: FeeMarketConfig = {
+  blockCount: 20,
+  horizonBlocks: 10,
+  spikeThresholdPct: 25,
+};
+
+const MAX_BLOCK_COUNT = 1024;
+
+const REWARD_PERCENTILES = [10, 50, 90];
+
+// Largest per-block base fee change on L1 (1 / BASE_FEE_MAX_CHANGE_DENOMINATOR)
+const MAX_STEP_PCT = 12.5;
+
+// ============ Config ============
+
+export function getFeeMarketConfig(): FeeMarketConfig {
+  return {
+    blockCount: Math.min(MAX_BLOCK_COUNT, Number(process.env.FEE_HISTORY_BLOCKS) || DEFAULT_FEE_MARKET_CONFIG.blockCount),
+    horizonBlocks: Number(process.env.FEE_SPIKE_HORIZON_BLOCKS) || DEFAULT_FEE_MARKET_CONFIG.horizonBlocks,
+    spikeThresholdPct: Number(process.env.FEE_SPIKE_THRESHOLD_PCT) || DEFAULT_FEE_MARKET_CONFIG.spikeThresholdPct,
+  };
+}
+
+// ============ Statistics ============
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+function medianBigInt(values: bigint[]): bigint {
+  if (values.length === 0) return BigInt(0);
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * P(sum of h per-block log changes > ln(1 + threshold)) under a Gaussian random walk
+ */
+export function spikeProbability(
+  driftPerBlock: number,
+  volatilityPerBlock: number,
+  horizonBlocks: number,
+  spikeThresholdPct: number
+): number {
+  const threshold = Math.log(1 + spikeThresholdPct / 100);
+  const drift = driftPerBlock * horizonBlocks;
+  const spread = volatilityPerBlock * Math.sqrt(horizonBlocks);
+  if (spread === 0) return drift > threshold ? 1 : 0;
+  return 1 - normalCdf((threshold - drift) / spread);
+}
+
+// ============ Sampling ============
+
+/**
+ * Sample recent blocks' fees and derive trend, percentiles and spike risk
+ *
+ * @throws Error if the node does not serve eth_feeHistory or returns no blocks
+ */
+export async function sampleFeeMarket(
+  provider: ethers.JsonRpcProvider,
+  chain: ChainName,
+  config: FeeMarketConfig = getFeeMarketConfig()
+): Promise<FeeMarket> {
+  const history = await provider.send('eth_feeHistory', [
+    ethers.toQuantity(config.blockCount),
+    'latest',
+    REWARD_PERCENTILES,
+  ]);
+
+  // baseFeePerGas has one entry per block plus the next block's
+  const baseFees: bigint[] = (history.baseFeePerGas ?? []).map((fee: string) => BigInt(fee));
+  if (baseFees.length < 2) throw new Error(`eth_feeHistory returned no blocks on ${chain}`);
+
+  const blockFees = baseFees.slice(0, -1);
+  const nextWei = baseFees[baseFees.length - 1];
+  const blockCount = blockFees.length;
+  const newestBlock = Number(BigInt(history.oldestBlock)) + blockCount - 1;
+
+  const logChanges: number[] = [];
+  for (let i = 1; i < baseFees.length; i++) {
+    if (baseFees[i - 1] > BigInt(0) && baseFees[i] > BigInt(0)) {
+      logChanges.push(Math.log(Number(baseFees[i]) / Number(baseFees[i - 1])));
+    }
+  }
+  const drift = mean(logChanges);
+  const sigma = stdDev(logChanges);
+
+  const rewards: string[][] = history.reward ?? [];
+  const percentile = (index: number) => medianBigInt(
+    rewards.filter(row => row[index] !== undefined).map(row => BigInt(row[index]))
+  );
+  const priorityFee = { p10Wei: percentile(0), p50Wei: percentile(1), p90Wei: percentile(2) };
+
+  const volatilityPct = sigma * 100;
+  const stressBaseFee = (nextWei * BigInt(Math.round((100 + config.spikeThresholdPct) * 100))) / BigInt(10_000);
+
+  return {
+    chain,
+    newestBlock,
+    blockCount,
+    baseFee: {
+      latestWei: blockFees[blockFees.length - 1],
+      nextWei,
+      meanWei: blockFees.reduce((sum, fee) => sum + fee, BigInt(0)) / BigInt(blockCount),
+      maxWei: blockFees.reduce((max, fee) => (fee > max ? fee : max), BigInt(0)),
+      trendPctPerBlock: (Math.exp(drift) - 1) * 100,
+      volatilityPct,
+    },
+    priorityFee,
+    gasUsedRatio: mean(history.gasUsedRatio ?? []),
+    volatility: Math.min(1, volatilityPct / MAX_STEP_PCT),
+    spikeProbability: spikeProbability(drift, sigma, config.horizonBlocks, config.spikeThresholdPct),
+    horizonBlocks: config.horizonBlocks,
+    spikeThresholdPct: config.spikeThresholdPct,
+    gasPrice: {
+      expectedWei: nextWei + priorityFee.p50Wei,
+      stressWei: stressBaseFee + priorityFee.p90Wei,
+    },
+  };
+}
+
+/**
+ * JSON-safe view of a fee market sample (wei as gwei strings)
+ */
+export function serializeFeeMarket(market: FeeMarket) {
+  const gwei = (wei: bigint) => ethers.formatUnits(wei, 'gwei');
+  return {
+    ...market,
+    baseFee: {
+      latestGwei: gwei(market.baseFee.latestWei),
+      nextGwei: gwei(market.baseFee.nextWei),
+      meanGwei: gwei(market.baseFee.meanWei),
+      maxGwei: gwei(market.baseFee.maxWei),
+      trendPctPerBlock: market.baseFee.trendPctPerBlock,
+      volatilityPct: market.baseFee.volatilityPct,
+    },
+    priorityFee: {
+      p10Gwei: gwei(market.priorityFee.p10Wei),
+      p50Gwei: gwei(market.priorityFee.p50Wei),
+      p90Gwei: gwei(market.priorityFee.p90Wei),
+    },
+    gasPrice: {
+      expectedGwei: gwei(market.gasPrice.expectedWei),
+      stressGwei: gwei(market.gasPrice.stressWei),
+    },
+  };
+}
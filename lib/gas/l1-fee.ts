@@ -0,0 +1,203 @@
+/**
+ * Rollup L1 Data Fees
+ *
+ * Handles:
+ * - The fee an L2 charges for posting a transaction's bytes to Ethereum
+ *   - OP-stack (Base): GasPriceOracle predeploy getL1Fee() on the serialized tx
+ *   - Arbitrum: ArbGasInfo precompile prices (per tx + per calldata byte)
+ * - Splitting a total gas cost into L2 execution and L1 data components
+ * - A representative executor call for pricing arbitrage execution
+ *
+ * The stacks charge the fee differently. OP-stack adds it on top of
+ * gasUsed × gasPrice, so eth_estimateGas never includes it. Arbitrum folds it
+ * into the gas limit as extra L2 gas, so an Arbitrum gas estimate already
+ * pays for it (includedInGasEstimate) and must be split, not topped up.
+ *
+ * ArbGasInfo prices brotli-compressed bytes; the raw signed size used here
+ * overstates the Arbitrum fee slightly.
+ */
+
+import { ethers } from 'ethers';
+import { multicall, unwrap } from '@/lib/rpc/multicall';
+import { ARBITRAGE_EXECUTOR_ABI } from '@/lib/contract-abi';
+import { CHAINS, ChainName, RollupStack } from '@/lib/chains/registry';
+import { ESTIMATED_GAS_UNITS } from '@/lib/math/profit';
+
+// ============ Types ============
+
+export interface FeeTx {
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+export interface L1DataFee {
+  chain: ChainName;
+  rollup: RollupStack;
+  feeWei: bigint;
+  txBytes: number;                  // Size of the transaction the fee was priced on
+  l1BaseFeeWei: bigint;             // The L1 base fee the rollup currently assumes
+  includedInGasEstimate: boolean;   // True on Arbitrum: eth_estimateGas already pays it
+  blockNumber: number;
+}
+
+export interface GasCostSplit {
+  l2ExecutionWei: bigint;
+  l1DataWei: bigint;
+  totalWei: bigint;
+}
+
+// ============ Constants ============
+
+export const GAS_PRICE_ORACLE_ADDRESS = '0x420000000000000000000000000000000000000F';
+export const ARB_GAS_INFO_ADDRESS = '0x000000000000000000000000000000000000006C';
+
+const gasPriceOracleInterface = new ethers.Interface([
+  'function getL1Fee(bytes _data) external view returns (uint256)',
+  'function l1BaseFee() external view returns (uint256)',
+]);
+
+const arbGasInfoInterface = new ethers.Interface([
+  'function getPricesInWei() external view returns (uint256 perL2Tx, uint256 perL1CalldataByte, uint256 perStorageAllocation, uint256 perArbGasBase, uint256 perArbGasCongestion, uint256 perArbGasTotal)',
+  'function getL1BaseFeeEstimate() external view returns (uint256)',
+]);
+
+const executorInterface = new ethers.Interface(ARBITRAGE_EXECUTOR_ABI);
+
+// r, s, v of a signed transaction (Arbitrum prices the signed tx)
+const SIGNATURE_BYTES = 65;
+
+// Non-zero placeholders so the serialized size matches a real transaction
+const REPRESENTATIVE_NONCE = 1000;
+const REPRESENTATIVE_MAX_FEE = ethers.parseUnits('1', 'gwei');
+const REPRESENTATIVE_PRIORITY_FEE = ethers.parseUnits('0.01', 'gwei');
+
+// ============ Serialization ============
+
+/**
+ * Unsigned EIP-1559 serialization of a transaction, as GasPriceOracle.getL1Fee expects
+ */
+export function serializeForL1Fee(chain: ChainName, tx: FeeTx): string {
+  return ethers.Transaction.from({
+    type: 2,
+    chainId: CHAINS[chain].chainId,
+    nonce: REPRESENTATIVE_NONCE,
+    to: tx.to,
+    data: tx.data,
+    value: tx.value ?? BigInt(0),
+    gasLimit: ESTIMATED_GAS_UNITS,
+    maxFeePerGas: REPRESENTATIVE_MAX_FEE,
+    maxPriorityFeePerGas: REPRESENTATIVE_PRIORITY_FEE,
+  }).unsignedSerialized;
+}
+
+/**
+ * executeArbitrageFlexible call sized like a real WETH/USDC execution on the chain
+ */
+export function executionFeeTx(chain: ChainName, amountInWei: bigint): FeeTx {
+  const deployment = CHAINS[chain];
+  const weth = deployment.tokens.WETH?.address ?? ethers.ZeroAddress;
+  const usdc = deployment.tokens.USDC?.address ?? ethers.ZeroAddress;
+
+  return {
+    to: deployment.executor ?? deployment.uniswap?.swapRouter ?? ethers.ZeroAddress,
+    data: executorInterface.encodeFunctionData('executeArbitrageFlexible', [
+      weth, usdc, 3000, 500, amountInWei, amountInWei, amountInWei,
+    ]),
+  };
+}
+
+// ============ Fee Reads ============
+
+async function opStackL1Fee(provider: ethers.Provider, chain: ChainName, tx: FeeTx): Promise<L1DataFee> {
+  const serialized = serializeForL1Fee(chain, tx);
+  const { blockNumber, results } = await multicall(provider, [
+    { target: GAS_PRICE_ORACLE_ADDRESS, iface: gasPriceOracleInterface, method: 'getL1Fee', args: [serialized] },
+    { target: GAS_PRICE_ORACLE_ADDRESS, iface: gasPriceOracleInterface, method: 'l1BaseFee' },
+  ]);
+
+  return {
+    chain,
+    rollup: 'op-stack',
+    feeWei: BigInt(unwrap(results[0], 'GasPriceOracle.getL1Fee')),
+    txBytes: ethers.dataLength(serialized),
+    l1BaseFeeWei: BigInt(unwrap(results[1], 'GasPriceOracle.l1BaseFee')),
+    includedInGasEstimate: false,
+    blockNumber,
+  };
+}
+
+async function arbitrumL1Fee(provider: ethers.Provider, chain: ChainName, tx: FeeTx): Promise<L1DataFee> {
+  const txBytes = ethers.dataLength(serializeForL1Fee(chain, tx)) + SIGNATURE_BYTES;
+  const { blockNumber, results } = await multicall(provider, [
+    { target: ARB_GAS_INFO_ADDRESS, iface: arbGasInfoInterface, method: 'getPricesInWei' },
+    { target: ARB_GAS_INFO_ADDRESS, iface: arbGasInfoInterface, method: 'getL1BaseFeeEstimate' },
+  ]);
+  const prices = unwrap(results[0], 'ArbGasInfo.getPricesInWei');
+
+  return {
+    chain,
+    rollup: 'arbitrum',
+    feeWei: BigInt(prices.perL2Tx) + BigInt(prices.perL1CalldataByte) * BigInt(txBytes),
+    txBytes,
+    l1BaseFeeWei: BigInt(unwrap(results[1], 'ArbGasInfo.getL1BaseFeeEstimate')),
+    includedInGasEstimate: true,
+    blockNumber,
+  };
+}
+
+// ============ Public API ============
+
+/**
+ * L1 data fee of a transaction on a rollup
+ *
+ * @returns null on chains that are not rollups (Ethereum)
+ * @throws Error if the oracle cannot be read (e.g. ArbGasInfo on a local fork)
+ */
+export async function estimateL1DataFee(
+  provider: ethers.Provider,
+  chain: ChainName,
+  tx: FeeTx
+): Promise<L1DataFee | null> {
+  switch (CHAINS[chain].rollup) {
+    case 'op-stack':
+      return opStackL1Fee(provider, chain, tx);
+    case 'arbitrum':
+      return arbitrumL1Fee(provider, chain, tx);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split the gas paid for a transaction into L2 execution and L1 data
+ *
+ * @param executionWei - gas estimate × gas price
+ * @param l1Fee - From estimateL1DataFee (null: no L1 component)
+ */
+export function splitGasCost(executionWei: bigint, l1Fee: L1DataFee | null): GasCostSplit {
+  if (!l1Fee) {
+    return { l2ExecutionWei: executionWei, l1DataWei: BigInt(0), totalWei: executionWei };
+  }
+
+  if (l1Fee.includedInGasEstimate) {
+    // Arbitrum: the estimate already contains the L1 component
+    const l1DataWei = l1Fee.feeWei < executionWei ? l1Fee.feeWei : executionWei;
+    return { l2ExecutionWei: executionWei - l1DataWei, l1DataWei, totalWei: executionWei };
+  }
+
+  return { l2ExecutionWei: executionWei, l1DataWei: l1Fee.feeWei, totalWei: executionWei + l1Fee.feeWei };
+}
+
+/**
+ * JSON-safe view of an L1 data fee (bigints as strings)
+ */
+export function serializeL1DataFee(fee: L1DataFee) {
+  return {
+    ...fee,
+    feeWei: fee.feeWei.toString(),
+    feeEth: ethers.formatEther(fee.feeWei),
+    l1BaseFeeGwei: ethers.formatUnits(fee.l1BaseFeeWei, 'gwei'),
+    l1BaseFeeWei: fee.l1BaseFeeWei.toString(),
+  };
+}
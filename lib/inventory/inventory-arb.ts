@@ -0,0 +1,149 @@
+/**
+ * Inventory-Mode Cross-Chain Arbitrage
+ *
+ * Handles:
+ * - Sizing a simultaneous buy-here / sell-there trade to the inventory:
+ *   USDC on the buy chain and ETH on the sell chain
+ * - QuoterV2 output of both legs at that size (fees and price impact included)
+ * - Net profit after the gas of one swap on each chain, with no bridge in
+ *   the trade path
+ * - The inventory the trade would leave behind
+ * - Never actionable while a pool's price is off its TWAP (high manipulation risk)
+ *
+ * Config:
+ * - INVENTORY_SWAP_GAS_UNITS   gas of one swap, per chain (default 180000)
+ */
+
+import { ethers } from 'ethers';
+import { getQuote } from '@/lib/dex/uniswap';
+import { getManagedProvider } from '@/lib/rpc/provider-manager';
+import { ArbChain, chainFor, getToken, Environment } from '@/lib/chains/registry';
+import { executionFeeTx } from '@/lib/gas/l1-fee';
+import { transactionGasCost } from '@/lib/bridges/bridge-provider';
+import { ManipulationRisk } from '@/lib/dex/twap';
+import { applyInventoryTrade, tradeHeadroomEth, Inventory, InventoryTrade } from './inventory';
+
+// ============ Types ============
+
+export interface InventoryArbInput {
+  inventory: Inventory;
+  network: Environment;
+  buyChain: ArbChain;
+  sellChain: ArbChain;
+  buyPrice: number;               // Spot, USDC per ETH
+  buyFee: number;                 // Pool fee tier on the buy chain
+  sellFee: number;
+  ethPriceUsd: number;            // Values the ETH left over and the gas
+  amountEth?: number;             // Requested size; capped at the headroom
+  manipulationRisk?: ManipulationRisk;  // Of the two pools combined (lib/dex/twap.ts)
+}
+
+export interface InventoryArbEvaluation {
+  headroomEth: number;
+  amountEth: number;
+  trade: InventoryTrade | null;   // null when the inventory cannot fund a trade
+  gasUsd: Record<ArbChain, number>;
+  l1DataFeeUsd: number;           // Part of gasUsd
+  grossProfitUsd: number;         // USDC gained + ETH gained at ethPriceUsd
+  netProfitUsd: number;
+  actionable: boolean;
+  inventoryAfter: Inventory | null;
+  reason: string;
+}
+
+// ============ Constants ============
+
+const DEFAULT_SWAP_GAS_UNITS = 180_000;
+
+// Below this the quotes round to nothing
+const MIN_AMOUNT_ETH = 1e-6;
+
+// ============ Evaluation ============
+
+function getSwapGasUnits(): number {
+  return Number(process.env.INVENTORY_SWAP_GAS_UNITS) || DEFAULT_SWAP_GAS_UNITS;
+}
+
+/** Token units rounded down (toFixed rounds to nearest, which can exceed a balance) */
+function floorUnits(amount: number, decimals: number): bigint {
+  return BigInt(Math.floor(amount * 10 ** decimals));
+}
+
+/**
+ * Quote both legs of an inventory trade and cost it
+ * @throws Error if a quote or the gas price cannot be read
+ */
+export async function evaluateInventoryArb(input: InventoryArbInput): Promise<InventoryArbEvaluation> {
+  const { inventory, network, buyChain, sellChain, buyPrice, ethPriceUsd } = input;
+  const headroomEth = tradeHeadroomEth(inventory, buyChain, sellChain, buyPrice);
+  const amountEth = Math.min(input.amountEth ?? headroomEth, headroomEth);
+  const none = { headroomEth, amountEth, trade: null, inventoryAfter: null, actionable: false };
+
+  if (amountEth < MIN_AMOUNT_ETH) {
+    return {
+      ...none,
+      gasUsd: { base: 0, arbitrum: 0 },
+      l1DataFeeUsd: 0,
+      grossProfitUsd: 0,
+      netProfitUsd: 0,
+      reason: `No headroom: buying on ${buyChain} needs USDC there and ETH on ${sellChain}`,
+    };
+  }
+
+  const buyName = chainFor(buyChain, network);
+  const sellName = chainFor(sellChain, network);
+  const buyUsdc = getToken(buyName, 'USDC');
+  const sellUsdc = getToken(sellName, 'USDC');
+
+  // Spend the spot cost of amountEth on the buy chain (never more than it holds),
+  // sell amountEth on the other
+  const usdcBalanceWei = floorUnits(inventory.balances[buyChain].usdc, buyUsdc.decimals);
+  const usdcCostWei = floorUnits(amountEth * buyPrice, buyUsdc.decimals);
+  const usdcInWei = usdcCostWei < usdcBalanceWei ? usdcCostWei : usdcBalanceWei;
+  const ethInWei = ethers.parseEther(amountEth.toFixed(18));
+  const gasUnits = getSwapGasUnits();
+
+  const [buyQuote, sellQuote, buyGas, sellGas] = await Promise.all([
+    getQuote(getManagedProvider(buyName), usdcInWei, buyUsdc.address, getToken(buyName, 'WETH').address, input.buyFee, buyName),
+    getQuote(getManagedProvider(sellName), ethInWei, getToken(sellName, 'WETH').address, sellUsdc.address, input.sellFee, sellName),
+    transactionGasCost(buyName, gasUnits, executionFeeTx(buyName, ethInWei)),
+    transactionGasCost(sellName, gasUnits, executionFeeTx(sellName, ethInWei)),
+  ]);
+
+  const trade: InventoryTrade = {
+    buyChain,
+    sellChain,
+    usdcSpent: Number(ethers.formatUnits(usdcInWei, buyUsdc.decimals)),
+    ethBought: Number(ethers.formatEther(buyQuote.amountOut)),
+    ethSold: amountEth,
+    usdcReceived: Number(ethers.formatUnits(sellQuote.amountOut, sellUsdc.decimals)),
+  };
+
+  const toUsd = (wei: bigint) => (Number(wei) / 1e18) * ethPriceUsd;
+  const gasUsd = { [buyChain]: toUsd(buyGas.feeWei), [sellChain]: toUsd(sellGas.feeWei) } as Record<ArbChain, number>;
+  const grossProfitUsd = trade.usdcReceived - trade.usdcSpent + (trade.ethBought - trade.ethSold) * ethPriceUsd;
+  const netProfitUsd = grossProfitUsd - gasUsd.base - gasUsd.arbitrum;
+  const manipulated = input.manipulationRisk === 'high';
+
+  let reason: string;
+  if (netProfitUsd <= 0) {
+    reason = `Spread does not cover swap fees, price impact and gas ($${netProfitUsd.toFixed(2)} net)`;
+  } else if (manipulated) {
+    reason = `Pool price is off its TWAP (manipulation risk high); not trading the $${netProfitUsd.toFixed(2)} net`;
+  } else {
+    reason = `Buy ${amountEth} ETH on ${buyChain}, sell on ${sellChain} for $${netProfitUsd.toFixed(2)} net`;
+  }
+
+  return {
+    headroomEth,
+    amountEth,
+    trade,
+    gasUsd,
+    l1DataFeeUsd: toUsd(buyGas.l1DataFeeWei + sellGas.l1DataFeeWei),
+    grossProfitUsd,
+    netProfitUsd,
+    actionable: netProfitUsd > 0 && !manipulated,
+    inventoryAfter: applyInventoryTrade(inventory, trade),
+    reason,
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * Dual-Chain Inventory
+ *
+ * Handles:
+ * - ETH / USDC balances held on each chain (Base, Arbitrum), persisted as JSON
+ * - Applying inventory trades: buy ETH with USDC on one chain while selling
+ *   ETH for USDC on the other, with no bridge in the trade path
+ * - Applying rebalancing transfers between the chains
+ * - Headroom: the largest trade the balances allow in a direction
+ * - Updates (balances, trades, transfers) saved only with a signature from
+ *   the owner wallet over inventoryUpdateMessage(), one at a time
+ *
+ * Inventory mode replaces bridge-per-trade: every trade shifts USDC to the
+ * sell chain and ETH to the buy chain, and lib/inventory/rebalance.ts plans
+ * the periodic transfers that undo the skew.
+ *
+ * Config:
+ * - INVENTORY_PATH                default ./data/inventory.json
+ * - INVENTORY_INITIAL_ETH         ETH per chain before any balances are set (default 0)
+ * - INVENTORY_INITIAL_USDC        USDC per chain before any balances are set (default 0)
+ * - INVENTORY_OWNER_ADDRESS       wallet allowed to update the inventory (updates are
+ *                                 refused until it is set)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { ArbChain } from '@/lib/chains/registry';
+
+// ============ Types ============
+
+export type InventoryAsset = 'ETH' | 'USDC';
+
+export interface ChainBalances {
+  eth: number;
+  usdc: number;
+}
+
+export interface Inventory {
+  balances: Record<ArbChain, ChainBalances>;
+  trades: number;                 // Inventory trades applied since the balances were set
+  rebalances: number;
+  updatedAt: number;
+  signedAt?: number;              // issuedAt of the signature behind the last update
+}
+
+/** One simultaneous buy-here / sell-there trade, as executed or simulated */
+export interface InventoryTrade {
+  buyChain: ArbChain;
+  sellChain: ArbChain;
+  usdcSpent: number;              // On the buy chain
+  ethBought: number;
+  ethSold: number;                // On the sell chain
+  usdcReceived: number;
+}
+
+/** A bridge transfer between the chains */
+export interface InventoryTransfer {
+  asset: InventoryAsset;
+  from: ArbChain;
+  to: ArbChain;
+  amount: number;                 // Leaves `from`
+  received: number;               // Arrives on `to`, after the bridge's fees
+}
+
+/** One change to the saved inventory, as signed by the owner */
+export type InventoryUpdate =
+  | { kind: 'balances'; balances: Record<ArbChain, ChainBalances> }
+  | { kind: 'trade'; trade: InventoryTrade }
+  | { kind: 'transfer'; transfer: InventoryTransfer };
+
+/** Owner signature authorizing an update (see inventoryUpdateMessage) */
+export interface InventoryUpdateProof {
+  signature: string;
+  issuedAt: number;               // ms since epoch, part of the signed message
+}
+
+/** The signature is missing, stale, replayed or not from the owner */
+export class InventoryAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InventoryAuthError';
+  }
+}
+
+// ============ Constants ============
+
+export const INVENTORY_CHAINS: ArbChain[] = ['base', 'arbitrum'];
+
+// How long a signed update stays valid, and the clock skew tolerated
+const SIGNATURE_TTL_MS = 5 * 60_000;
+const SIGNATURE_CLOCK_SKEW_MS = 60_000;
+
+// ============ Helpers ============
+
+function getInventoryPath(): string {
+  return process.env.INVENTORY_PATH || path.join(process.cwd(), 'data', 'inventory.json');
+}
+
+function getOwnerAddress(): string | null {
+  const owner = process.env.INVENTORY_OWNER_ADDRESS;
+  return owner && ethers.isAddress(owner) ? owner : null;
+}
+
+/** JSON with object keys sorted at every level, so the client and server sign the same text */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort().map(key => (
+      `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+    ));
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function balanceKey(asset: InventoryAsset): keyof ChainBalances {
+  return asset === 'ETH' ? 'eth' : 'usdc';
+}
+
+function initialBalances(): ChainBalances {
+  return {
+    eth: Number(process.env.INVENTORY_INITIAL_ETH) || 0,
+    usdc: Number(process.env.INVENTORY_INITIAL_USDC) || 0,
+  };
+}
+
+/**
+ * @throws Error unless every chain has finite, non-negative ETH and USDC balances
+ */
+export function parseBalances(input: unknown): Record<ArbChain, ChainBalances> {
+  if (!input || typeof input !== 'object') throw new Error('balances must be an object');
+
+  const balances = {} as Record<ArbChain, ChainBalances>;
+  for (const chain of INVENTORY_CHAINS) {
+    const entry = (input as Record<string, Partial<ChainBalances> | undefined>)[chain];
+    const eth = Number(entry?.eth);
+    const usdc = Number(entry?.usdc);
+    if (!Number.isFinite(eth) || eth < 0 || !Number.isFinite(usdc) || usdc < 0) {
+      throw new Error(`balances.${chain} needs non-negative eth and usdc`);
+    }
+    balances[chain] = { eth, usdc };
+  }
+  return balances;
+}
+
+// ============ Balances ============
+
+/**
+ * Amount of an asset on one chain and across both
+ */
+export function assetBalance(inventory: Inventory, asset: InventoryAsset, chain?: ArbChain): number {
+  const key = balanceKey(asset);
+  return chain
+    ? inventory.balances[chain][key]
+    : INVENTORY_CHAINS.reduce((sum, c) => sum + inventory.balances[c][key], 0);
+}
+
+/**
+ * Total inventory value in USD at one ETH price
+ */
+export function inventoryValueUsd(inventory: Inventory, ethPriceUsd: number): number {
+  return assetBalance(inventory, 'ETH') * ethPriceUsd + assetBalance(inventory, 'USDC');
+}
+
+/**
+ * Largest trade size (ETH) the balances allow when buying on buyChain:
+ * limited by the USDC to buy with there and the ETH to sell on the other chain
+ */
+export function tradeHeadroomEth(inventory: Inventory, buyChain: ArbChain, sellChain: ArbChain, buyPrice: number): number {
+  if (buyPrice <= 0) return 0;
+  return Math.min(inventory.balances[buyChain].usdc / buyPrice, inventory.balances[sellChain].eth);
+}
+
+/**
+ * Balances after a trade (pure; the input is not modified)
+ * @throws Error if a leg spends more than the chain holds
+ */
+export function applyInventoryTrade(inventory: Inventory, trade: InventoryTrade): Inventory {
+  if (trade.buyChain === trade.sellChain) throw new Error('buyChain and sellChain must differ');
+
+  const buy = inventory.balances[trade.buyChain];
+  const sell = inventory.balances[trade.sellChain];
+  if (trade.usdcSpent > buy.usdc) {
+    throw new Error(`Trade spends ${trade.usdcSpent} USDC on ${trade.buyChain}, which holds ${buy.usdc}`);
+  }
+  if (trade.ethSold > sell.eth) {
+    throw new Error(`Trade sells ${trade.ethSold} ETH on ${trade.sellChain}, which holds ${sell.eth}`);
+  }
+
+  return {
+    ...inventory,
+    balances: {
+      ...inventory.balances,
+      [trade.buyChain]: { eth: buy.eth + trade.ethBought, usdc: buy.usdc - trade.usdcSpent },
+      [trade.sellChain]: { eth: sell.eth - trade.ethSold, usdc: sell.usdc + trade.usdcReceived },
+    },
+    trades: inventory.trades + 1,
+  };
+}
+
+/**
+ * Balances after a bridge transfer (pure; the input is not modified)
+ * @throws Error if the transfer moves more than the source chain holds
+ */
+export function applyInventoryTransfer(inventory: Inventory, transfer: InventoryTransfer): Inventory {
+  if (transfer.from === transfer.to) throw new Error('from and to must differ');
+  if (transfer.received > transfer.amount) throw new Error('received cannot exceed amount');
+
+  const key = balanceKey(transfer.asset);
+  const from = inventory.balances[transfer.from];
+  const to = inventory.balances[transfer.to];
+  if (transfer.amount > from[key]) {
+    throw new Error(`Transfer moves ${transfer.amount} ${transfer.asset} from ${transfer.from}, which holds ${from[key]}`);
+  }
+
+  return {
+    ...inventory,
+    balances: {
+      ...inventory.balances,
+      [transfer.from]: { ...from, [key]: from[key] - transfer.amount },
+      [transfer.to]: { ...to, [key]: to[key] + transfer.received },
+    },
+    rebalances: inventory.rebalances + 1,
+  };
+}
+
+// ============ Storage ============
+
+/**
+ * The saved inventory, or INVENTORY_INITIAL_* on every chain if none is saved
+ */
+export async function loadInventory(): Promise<Inventory> {
+  try {
+    return JSON.parse(await fs.readFile(getInventoryPath(), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  return {
+    balances: { base: initialBalances(), arbitrum: initialBalances() },
+    trades: 0,
+    rebalances: 0,
+    updatedAt: 0,
+  };
+}
+
+// Serialize read-modify-write of the inventory file so concurrent updates never drop each other
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+async function saveInventory(inventory: Inventory): Promise<Inventory> {
+  const saved = { ...inventory, updatedAt: Date.now() };
+  const file = getInventoryPath();
+  const temp = `${file}.${process.pid}.tmp`;
+
+  // Written aside and renamed, so a concurrent read never sees a partial file
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(temp, JSON.stringify(saved, null, 2) + '\n', 'utf8');
+  await fs.rename(temp, file);
+  return saved;
+}
+
+/**
+ * The exact text the owner wallet signs (EIP-191 personal_sign) to update the inventory
+ */
+export function inventoryUpdateMessage(update: InventoryUpdate, issuedAt: number): string {
+  return [
+    'Update arbitrage inventory',
+    `Update: ${canonicalJson(update)}`,
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
+
+/**
+ * @throws InventoryAuthError unless `proof` is a fresh signature by the owner over this update
+ */
+function verifyInventoryUpdate(
+  update: InventoryUpdate,
+  proof: InventoryUpdateProof | undefined,
+  signedAt: number | undefined
+): asserts proof is InventoryUpdateProof {
+  const owner = getOwnerAddress();
+  if (!owner) throw new InventoryAuthError('Inventory updates are disabled until INVENTORY_OWNER_ADDRESS is set');
+  if (!proof || typeof proof.signature !== 'string' || !Number.isInteger(proof.issuedAt)) {
+    throw new InventoryAuthError('An owner signature (signature, issuedAt) is required to update the inventory');
+  }
+
+  const age = Date.now() - proof.issuedAt;
+  if (age > SIGNATURE_TTL_MS || age < -SIGNATURE_CLOCK_SKEW_MS) {
+    throw new InventoryAuthError('Signature expired: sign a fresh inventory update');
+  }
+  if (signedAt !== undefined && proof.issuedAt <= signedAt) {
+    throw new InventoryAuthError('Signature already used: sign a fresh inventory update');
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(inventoryUpdateMessage(update, proof.issuedAt), proof.signature);
+  } catch {
+    throw new InventoryAuthError('Malformed signature');
+  }
+  if (signer.toLowerCase() !== owner.toLowerCase()) {
+    throw new InventoryAuthError(`Signature is from ${signer}, not the inventory owner`);
+  }
+}
+
+/**
+ * Apply and save one owner-signed update; setting the balances (e.g. after
+ * reading the wallets) also resets the counters
+ * @throws InventoryAuthError if the proof does not come from the owner wallet
+ * @throws Error if a trade or transfer spends more than a chain holds
+ */
+export async function updateInventory(
+  update: InventoryUpdate,
+  proof: InventoryUpdateProof | undefined
+): Promise<Inventory> {
+  const write = writeQueue.then(async () => {
+    const inventory = await loadInventory();
+    verifyInventoryUpdate(update, proof, inventory.signedAt);
+
+    let next: Inventory;
+    switch (update.kind) {
+      case 'balances':
+        next = { balances: update.balances, trades: 0, rebalances: 0, updatedAt: 0 };
+        break;
+      case 'trade':
+        next = applyInventoryTrade(inventory, update.trade);
+        break;
+      case 'transfer':
+        next = applyInventoryTransfer(inventory, update.transfer);
+        break;
+    }
+    return saveInventory({ ...next, signedAt: proof.issuedAt });
+  });
+  writeQueue = write.catch(() => undefined);
+
+  return write;
+}
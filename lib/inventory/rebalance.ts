@@ -0,0 +1,223 @@
+/**
+ * Inventory Rebalancing Planner
+ *
+ * Handles:
+ * - Skew per asset: how far each chain's share of the ETH / USDC inventory
+ *   has drifted from an even split
+ * - The transfer that would restore the split, quoted on every enabled
+ *   bridge (lib/bridges/compare.ts, the same quotes /api/estimate uses)
+ * - Whether to bridge now: enough skew, at a cost small enough relative to
+ *   the amount moved, or unconditionally once a trade direction is blocked
+ *
+ * Inventory trades keep moving ETH to the buy chain and USDC to the sell
+ * chain; bridging after every trade would pay the fixed part of the bridge
+ * fee each time, so transfers wait until the skew is worth moving.
+ *
+ * The bridges quote ETH transfers only; USDC transfers are priced as the
+ * same USD amount of ETH.
+ *
+ * Config:
+ * - REBALANCE_SKEW_PCT        skew that triggers a transfer, 0-100 (default 50)
+ * - REBALANCE_MAX_COST_BPS    most a transfer may cost, in bps of the amount moved (default 30)
+ * - REBALANCE_MIN_TRADE_ETH   smallest useful trade; a direction with less headroom is blocked (default 0.01)
+ */
+
+import { ethers } from 'ethers';
+import { ArbChain } from '@/lib/chains/registry';
+import { ReferencePrice } from '@/lib/prices/reference-price';
+import { compareBridges, serializeBridgeComparison, BridgeComparison } from '@/lib/bridges/compare';
+import {
+  assetBalance,
+  tradeHeadroomEth,
+  Inventory,
+  InventoryAsset,
+  InventoryTransfer,
+} from './inventory';
+
+// ============ Types ============
+
+export interface RebalanceConfig {
+  skewPct: number;
+  maxCostBps: number;
+  minTradeEth: number;
+}
+
+export interface AssetSkew {
+  asset: InventoryAsset;
+  total: number;
+  baseSharePct: number;           // Share of the total held on Base
+  skewPct: number;                // 0 = even split, 100 = all on one chain
+  surplusChain: ArbChain | null;  // null when evenly split or empty
+}
+
+export interface RebalanceTransfer extends InventoryTransfer {
+  amountUsd: number;
+  skew: AssetSkew;
+  bridges: BridgeComparison | null;
+  costUsd: number | null;
+  costBps: number | null;         // Bridge fee per amount moved
+  recommended: boolean;
+  reason: string;
+}
+
+export interface RebalancePlan {
+  config: RebalanceConfig;
+  ethPriceUsd: number;
+  headroomEth: Record<'baseToArbitrum' | 'arbitrumToBase', number>;  // Buy on the first chain, sell on the second
+  blocked: boolean;               // A trade direction has less than minTradeEth of headroom
+  skews: AssetSkew[];
+  transfers: RebalanceTransfer[];
+  recommended: boolean;           // At least one transfer should be made now
+}
+
+// ============ Constants ============
+
+const DEFAULT_SKEW_PCT = 50;
+const DEFAULT_MAX_COST_BPS = 30;
+const DEFAULT_MIN_TRADE_ETH = 0.01;
+
+const ASSETS: InventoryAsset[] = ['ETH', 'USDC'];
+
+// ============ Config ============
+
+export function getRebalanceConfig(): RebalanceConfig {
+  const skewPct = Number(process.env.REBALANCE_SKEW_PCT);
+  const maxCostBps = Number(process.env.REBALANCE_MAX_COST_BPS);
+  const minTradeEth = Number(process.env.REBALANCE_MIN_TRADE_ETH);
+
+  return {
+    skewPct: skewPct > 0 && skewPct <= 100 ? skewPct : DEFAULT_SKEW_PCT,
+    maxCostBps: maxCostBps > 0 ? maxCostBps : DEFAULT_MAX_COST_BPS,
+    minTradeEth: minTradeEth > 0 ? minTradeEth : DEFAULT_MIN_TRADE_ETH,
+  };
+}
+
+// ============ Skew ============
+
+export function measureSkew(inventory: Inventory, asset: InventoryAsset): AssetSkew {
+  const total = assetBalance(inventory, asset);
+  if (total <= 0) {
+    return { asset, total, baseSharePct: 50, skewPct: 0, surplusChain: null };
+  }
+
+  const baseSharePct = (assetBalance(inventory, asset, 'base') / total) * 100;
+  return {
+    asset,
+    total,
+    baseSharePct,
+    skewPct: Math.abs(baseSharePct - 50) * 2,
+    surplusChain: baseSharePct > 50 ? 'base' : baseSharePct < 50 ? 'arbitrum' : null,
+  };
+}
+
+// ============ Planning ============
+
+/**
+ * Quote the transfer that evens out one asset and decide whether to make it
+ */
+async function planTransfer(
+  inventory: Inventory,
+  skew: AssetSkew,
+  referencePrice: ReferencePrice,
+  config: RebalanceConfig,
+  blocked: boolean
+): Promise<RebalanceTransfer | null> {
+  if (!skew.surplusChain) return null;
+
+  const from = skew.surplusChain;
+  const to: ArbChain = from === 'base' ? 'arbitrum' : 'base';
+  const amount = assetBalance(inventory, skew.asset, from) - skew.total / 2;
+  if (amount <= 0) return null;
+
+  const price = referencePrice.priceUsd;
+  const amountUsd = skew.asset === 'ETH' ? amount * price : amount;
+
+  const base = { asset: skew.asset, from, to, amount, amountUsd, skew };
+
+  let bridges: BridgeComparison;
+  try {
+    const amountEth = skew.asset === 'ETH' ? amount : amount / price;
+    bridges = await compareBridges(
+      { from, to, amountInWei: ethers.parseEther(amountEth.toFixed(18)) },
+      referencePrice
+    );
+  } catch (error) {
+    return {
+      ...base,
+      received: amount,
+      bridges: null,
+      costUsd: null,
+      costBps: null,
+      recommended: false,
+      reason: `No bridge quote: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+
+  const quote = bridges.selected;
+  const costUsd = quote.totalFeeUsd;
+  const costBps = (costUsd / amountUsd) * 10_000;
+  // Protocol fee comes out of the amount; gas is paid separately in ETH
+  const received = amount * (Number(quote.expectedOutputWei) / Number(quote.amountInWei));
+
+  let recommended: boolean;
+  let reason: string;
+  if (blocked) {
+    recommended = true;
+    reason = `A trade direction is blocked; bridge now via ${quote.name} ($${costUsd.toFixed(2)}, ${costBps.toFixed(1)} bps)`;
+  } else if (skew.skewPct < config.skewPct) {
+    recommended = false;
+    reason = `Skew ${skew.skewPct.toFixed(0)}% is below the ${config.skewPct}% trigger`;
+  } else if (costBps > config.maxCostBps) {
+    recommended = false;
+    reason = `${quote.name} would cost ${costBps.toFixed(1)} bps of the amount (max ${config.maxCostBps}); let the skew grow`;
+  } else {
+    recommended = true;
+    reason = `Skew ${skew.skewPct.toFixed(0)}% at ${costBps.toFixed(1)} bps via ${quote.name}`;
+  }
+
+  return { ...base, received, bridges, costUsd, costBps, recommended, reason };
+}
+
+/**
+ * Recommend when and how much to bridge to even out the inventory
+ */
+export async function planRebalance(
+  inventory: Inventory,
+  referencePrice: ReferencePrice,
+  config: RebalanceConfig = getRebalanceConfig()
+): Promise<RebalancePlan> {
+  const price = referencePrice.priceUsd;
+  const headroomEth = {
+    baseToArbitrum: tradeHeadroomEth(inventory, 'base', 'arbitrum', price),
+    arbitrumToBase: tradeHeadroomEth(inventory, 'arbitrum', 'base', price),
+  };
+  const blocked = Math.min(headroomEth.baseToArbitrum, headroomEth.arbitrumToBase) < config.minTradeEth;
+
+  const skews = ASSETS.map(asset => measureSkew(inventory, asset));
+  const transfers = (await Promise.all(
+    skews.map(skew => planTransfer(inventory, skew, referencePrice, config, blocked))
+  )).filter((transfer): transfer is RebalanceTransfer => transfer !== null);
+
+  return {
+    config,
+    ethPriceUsd: price,
+    headroomEth,
+    blocked,
+    skews,
+    transfers,
+    recommended: transfers.some(transfer => transfer.recommended),
+  };
+}
+
+/**
+ * JSON-safe view of a plan
+ */
+export function serializeRebalancePlan(plan: RebalancePlan) {
+  return {
+    ...plan,
+    transfers: plan.transfers.map(transfer => ({
+      ...transfer,
+      bridges: transfer.bridges && serializeBridgeComparison(transfer.bridges),
+    })),
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Opportunity & Decision Journal
+ *
+ * Handles:
+ * - Append-only JSONL log of detect / estimate / decide calls
+ * - On-chain outcomes linked back by opportunityId
+ * - AI responses that failed schema validation or needed repair
+ * - Filtered reads and summary stats for /api/journal
+ *
+ * Location: JOURNAL_PATH env var, default ./data/journal.jsonl
+ * Journal writes never throw - a full disk must not break trading endpoints.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+// ============ Types ============
+
+export type JournalKind = 'detect' | 'estimate' | 'decide' | 'outcome' | 'validation';
+export type DecisionPath = 'early-exit' | 'model' | 'fallback';   // 'model' = RiskModelProvider
+
+export interface JournalEntry {
+  id: string;
+  kind: JournalKind;
+  timestamp: number;
+  opportunityId?: string;
+  chains: string[];
+  decision?: 'EXECUTE' | 'SKIP';
+  decisionPath?: DecisionPath;
+  netProfitUsd?: number;
+  data: Record<string, unknown>;
+}
+
+export type NewJournalEntry = Omit<JournalEntry, 'id' | 'timestamp'> & { timestamp?: number };
+
+export interface JournalQuery {
+  from?: number;            // ms timestamp, inclusive
+  to?: number;              // ms timestamp, inclusive
+  kind?: JournalKind;
+  chain?: string;
+  decision?: 'EXECUTE' | 'SKIP';
+  decisionPath?: DecisionPath;
+  minProfitUsd?: number;
+  maxProfitUsd?: number;
+  opportunityId?: string;
+  limit?: number;
+}
+
+export interface JournalSummary {
+  total: number;
+  byKind: Record<string, number>;
+  byDecisionPath: Record<string, number>;
+  executeDecisions: number;
+  skipDecisions: number;
+  executeWithOutcome: number;
+  executeProfitable: number;
+}
+
+// ============ Storage ============
+
+export const DEFAULT_QUERY_LIMIT = 500;
+
+function getJournalPath(): string {
+  return process.env.JOURNAL_PATH || path.join(process.cwd(), 'data', 'journal.jsonl');
+}
+
+// Serialize appends so concurrent requests never interleave partial lines
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * bigint-safe JSON line
+ */
+function toJsonLine(entry: JournalEntry): string {
+  return JSON.stringify(entry, (_key, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  ) + '\n';
+}
+
+/**
+ * Generate an id that links detect → estimate → decide → outcome entries
+ */
+export function newOpportunityId(): string {
+  return randomUUID();
+}
+
+/**
+ * Append one entry to the journal
+ * @returns The stored entry, or null if the write failed
+ */
+export async function recordJournalEntry(entry: NewJournalEntry): Promise<JournalEntry | null> {
+  const stored: JournalEntry = {
+    id: randomUUID(),
+    ...entry,
+    timestamp: entry.timestamp ?? Date.now(),
+  };
+
+  const file = getJournalPath();
+  const write = writeQueue.then(async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(file, toJsonLine(stored), 'utf8');
+  });
+  writeQueue = write.catch(() => undefined);
+
+  try {
+    await write;
+    return stored;
+  } catch (error) {
+    console.error('Journal write failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Load every entry (malformed lines are skipped)
+ */
+async function loadJournal(): Promise<JournalEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getJournalPath(), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const entries: JournalEntry[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      console.warn('Skipping malformed journal line');
+    }
+  }
+  return entries;
+}
+
+// ============ Queries ============
+
+function matches(entry: JournalEntry, query: JournalQuery): boolean {
+  if (query.from !== undefined && entry.timestamp < query.from) return false;
+  if (query.to !== undefined && entry.timestamp > query.to) return false;
+  if (query.kind && entry.kind !== query.kind) return false;
+  if (query.chain && !entry.chains.includes(query.chain)) return false;
+  if (query.decision && entry.decision !== query.decision) return false;
+  if (query.decisionPath && entry.decisionPath !== query.decisionPath) return false;
+  if (query.opportunityId && entry.opportunityId !== query.opportunityId) return false;
+
+  // A profit band only matches entries that carry a profit figure
+  if (query.minProfitUsd !== undefined || query.maxProfitUsd !== undefined) {
+    if (entry.netProfitUsd === undefined) return false;
+    if (query.minProfitUsd !== undefined && entry.netProfitUsd < query.minProfitUsd) return false;
+    if (query.maxProfitUsd !== undefined && entry.netProfitUsd > query.maxProfitUsd) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Read entries matching a query, newest first
+ */
+export async function queryJournal(query: JournalQuery = {}): Promise<JournalEntry[]> {
+  const entries = await loadJournal();
+  const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+
+  return entries
+    .filter(entry => matches(entry, query))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, limit);
+}
+
+/**
+ * Aggregate stats for a set of entries
+ * EXECUTE decisions are matched to outcomes by opportunityId; an outcome is
+ * profitable when its realized net result is positive.
+ */
+export async function summarizeJournal(query: JournalQuery = {}): Promise<JournalSummary> {
+  const all = await loadJournal();
+  const entries = all.filter(entry => matches(entry, query));
+
+  const outcomes = new Map<string, JournalEntry>();
+  for (const entry of all) {
+    if (entry.kind === 'outcome' && entry.opportunityId) {
+      outcomes.set(entry.opportunityId, entry);
+    }
+  }
+
+  const summary: JournalSummary = {
+    total: entries.length,
+    byKind: {},
+    byDecisionPath: {},
+    executeDecisions: 0,
+    skipDecisions: 0,
+    executeWithOutcome: 0,
+    executeProfitable: 0,
+  };
+
+  for (const entry of entries) {
+    summary.byKind[entry.kind] = (summary.byKind[entry.kind] || 0) + 1;
+    if (entry.kind !== 'decide') continue;
+
+    if (entry.decisionPath) {
+      summary.byDecisionPath[entry.decisionPath] = (summary.byDecisionPath[entry.decisionPath] || 0) + 1;
+    }
+
+    if (entry.decision === 'SKIP') summary.skipDecisions++;
+    if (entry.decision !== 'EXECUTE') continue;
+
+    summary.executeDecisions++;
+    const outcome = entry.opportunityId ? outcomes.get(entry.opportunityId) : undefined;
+    if (outcome) {
+      summary.executeWithOutcome++;
+      if ((outcome.netProfitUsd ?? Number(outcome.data.netProfitEth ?? 0)) > 0) {
+        summary.executeProfitable++;
+      }
+    }
+  }
+
+  return summary;
+}
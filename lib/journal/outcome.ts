@@ -0,0 +1,81 @@
+/**
+ * On-Chain Outcome Resolution
+ *
+ * Handles:
+ * - Fetching the receipt of an executeArb / executeArbitrageFlexible tx
+ * - Decoding ArbitrageExecuted for the realized profit
+ * - Gas actually paid, so the journal stores the net result
+ */
+
+import { ethers } from 'ethers';
+import { getProvider } from '@/lib/contracts';
+import { ARBITRAGE_EXECUTOR_ABI } from '@/lib/contract-abi';
+import { chainFor, ChainName } from '@/lib/chains/registry';
+
+// ============ Types ============
+
+export interface ExecutionOutcome {
+  txHash: string;
+  chain: ChainName;
+  status: 'pending' | 'success' | 'reverted';
+  blockNumber: number | null;
+  gasUsed: string;
+  gasCostEth: string;
+  profitEth: string;      // From ArbitrageExecuted (0 if not emitted)
+  netProfitEth: string;   // profit - gas
+}
+
+const executorInterface = new ethers.Interface(ARBITRAGE_EXECUTOR_ABI);
+
+// ============ Resolution ============
+
+/**
+ * Resolve the realized result of an arbitrage transaction
+ *
+ * @param txHash - Transaction hash returned by the wallet
+ * @param chain - Chain the executor is deployed on (default: active Base leg)
+ */
+export async function resolveExecutionOutcome(
+  txHash: string,
+  chain: ChainName = chainFor('base')
+): Promise<ExecutionOutcome> {
+  const receipt = await getProvider(chain).getTransactionReceipt(txHash);
+
+  if (!receipt) {
+    return {
+      txHash,
+      chain,
+      status: 'pending',
+      blockNumber: null,
+      gasUsed: '0',
+      gasCostEth: '0',
+      profitEth: '0',
+      netProfitEth: '0',
+    };
+  }
+
+  let profit = BigInt(0);
+  for (const log of receipt.logs) {
+    try {
+      const parsed = executorInterface.parseLog(log);
+      if (parsed?.name === 'ArbitrageExecuted') {
+        profit = parsed.args.profit;
+      }
+    } catch {
+      // Log from another contract (router, pools, tokens)
+    }
+  }
+
+  const gasCost = receipt.gasUsed * receipt.gasPrice;
+
+  return {
+    txHash,
+    chain,
+    status: receipt.status === 1 ? 'success' : 'reverted',
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed.toString(),
+    gasCostEth: ethers.formatEther(gasCost),
+    profitEth: ethers.formatEther(profit),
+    netProfitEth: ethers.formatEther(profit - gasCost),
+  };
+}
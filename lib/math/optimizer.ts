@@ -0,0 +1,248 @@
+/**
+ * Trade Size Optimizer
+ *
+ * Handles:
+ * - Profit curve sampling across trade sizes
+ * - Optimal input search (grid + golden-section refinement)
+ * - Bridge cost modeling on top of calculateFullProfit
+ *
+ * Gross profit grows linearly with size while price impact grows
+ * faster than linearly, so net profit has a single interior maximum
+ * once fixed costs (gas, bridge gas) are covered.
+ */
+
+import { calculateFullProfit, GasPriceRange, PoolLeg, ProfitCalculation, SlippageSource } from './profit';
+import { PoolSnapshot, TickRange, TickSnapshot, TICK_SPACING_BY_FEE } from '@/lib/dex/swap-simulator';
+
+// ============ Constants ============
+
+export const DEFAULT_MIN_AMOUNT_ETH = 0.001;
+export const DEFAULT_MAX_AMOUNT_ETH = 10;
+export const DEFAULT_CURVE_SAMPLES = 24;
+export const MIN_CURVE_SAMPLES = 2;
+export const MAX_CURVE_SAMPLES = 200;
+
+// Golden-section refinement iterations after the grid search
+const REFINE_ITERATIONS = 30;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+// ============ Types ============
+
+export interface BridgeCostModel {
+  fixedUsd: number;   // Gas paid to initiate the bridge
+  feeRate: number;    // Proportional relayer/LP fee (0.001 = 0.1%)
+}
+
+export interface OptimizeParams {
+  priceA: number;
+  priceB: number;
+  poolA: PoolLeg;
+  poolB: PoolLeg;
+  ethPriceUsd: number;
+  gasPrice: bigint | GasPriceRange;
+  l1DataFeeWei?: bigint;   // Rollup L1 data fee of the execution txs
+  bridge?: BridgeCostModel;
+  minAmountEth?: number;
+  maxAmountEth?: number;
+  samples?: number;
+}
+
+export interface ProfitCurvePoint {
+  amountEth: number;
+  grossProfitUsd: number;
+  gasCostUsd: number;      // Includes l1DataCostUsd
+  l1DataCostUsd: number;
+  gasStressCostUsd?: number;  // Gas at the fee market's stress price (range input only)
+  slippageUsd: number;
+  feesUsd: number;
+  bridgeCostUsd: number;
+  netProfitUsd: number;
+  slippageSource?: SlippageSource;  // Unset when the size could not be filled
+}
+
+export interface OptimizationResult {
+  profitable: boolean;
+  optimalAmountEth: number;
+  optimal: ProfitCurvePoint;
+  curve: ProfitCurvePoint[];
+  breakEvenAmountEth: number | null;
+}
+
+// ============ Pool Helpers ============
+
+/**
+ * Build a PoolLeg from the slot0/liquidity data /api/detect reads, plus the
+ * initialized ticks around it (getInitializedTicks in lib/dex/uniswap.ts)
+ * Without ticks, liquidity is assumed constant across the swap and results
+ * are reported as 'constant-liquidity'
+ */
+export function poolLegFromState(
+  state: {
+    sqrtPriceX96: bigint;
+    tick: number;
+    liquidity: bigint;
+    fee: number;
+    wethIsToken0: boolean;
+  },
+  ticks?: { ticks: TickSnapshot[]; tickRange: TickRange }
+): PoolLeg {
+  const snapshot: PoolSnapshot = {
+    sqrtPriceX96: state.sqrtPriceX96,
+    tick: state.tick,
+    liquidity: state.liquidity,
+    fee: state.fee,
+    tickSpacing: TICK_SPACING_BY_FEE[state.fee] ?? 60,
+    token0Decimals: state.wethIsToken0 ? 18 : 6,
+    token1Decimals: state.wethIsToken0 ? 6 : 18,
+    ticks: ticks?.ticks ?? [],
+    ...(ticks && { tickRange: ticks.tickRange }),
+  };
+
+  return { snapshot, wethIsToken0: state.wethIsToken0 };
+}
+
+// ============ Evaluation ============
+
+/**
+ * Evaluate net profit (including bridge costs) for one trade size
+ */
+export function evaluateTradeSize(params: OptimizeParams, amountEth: number): ProfitCurvePoint {
+  const amountInWei = BigInt(Math.floor(amountEth * 1e18));
+  const bridge = params.bridge ?? { fixedUsd: 0, feeRate: 0 };
+
+  let profit: ProfitCalculation;
+  try {
+    profit = calculateFullProfit({
+      amountInWei,
+      ethPriceUsd: params.ethPriceUsd,
+      priceA: params.priceA,
+      priceB: params.priceB,
+      quoteAmountOut: BigInt(0),
+      gasPrice: params.gasPrice,
+      l1DataFeeWei: params.l1DataFeeWei,
+      // calculateSwapFees charges this rate on both legs, so use the mean tier
+      poolFeeBps: (params.poolA.snapshot.fee + params.poolB.snapshot.fee) / 2,
+      poolA: params.poolA,
+      poolB: params.poolB,
+    });
+  } catch (error) {
+    // Swap could not be simulated or filled (e.g. pool exhausted) - treat size as unusable
+    return {
+      amountEth,
+      grossProfitUsd: 0,
+      gasCostUsd: 0,
+      l1DataCostUsd: 0,
+      slippageUsd: 0,
+      feesUsd: 0,
+      bridgeCostUsd: 0,
+      netProfitUsd: Number.NEGATIVE_INFINITY,
+    };
+  }
+
+  const bridgeCostUsd = bridge.fixedUsd + amountEth * params.ethPriceUsd * bridge.feeRate;
+
+  return {
+    amountEth,
+    grossProfitUsd: profit.grossProfitUsd,
+    gasCostUsd: profit.gasCostUsd,
+    l1DataCostUsd: profit.gas.l1DataUsd,
+    gasStressCostUsd: profit.gas.stressUsd,
+    slippageUsd: profit.slippageUsd,
+    feesUsd: profit.feesUsd,
+    bridgeCostUsd,
+    netProfitUsd: profit.netProfitUsd - bridgeCostUsd,
+    slippageSource: profit.slippageSource,
+  };
+}
+
+/**
+ * Grid size clamped to MIN_CURVE_SAMPLES..MAX_CURVE_SAMPLES
+ * @throws Error if samples is not an integer
+ */
+export function clampCurveSamples(samples: number): number {
+  if (!Number.isInteger(samples)) {
+    throw new Error('samples must be an integer');
+  }
+  return Math.min(MAX_CURVE_SAMPLES, Math.max(MIN_CURVE_SAMPLES, samples));
+}
+
+/**
+ * Log-spaced sizes between min and max (small sizes matter most for thin pools)
+ */
+function sampleSizes(min: number, max: number, samples: number): number[] {
+  const count = clampCurveSamples(samples);
+  const logMin = Math.log(min);
+  const logMax = Math.log(max);
+  const sizes: number[] = [];
+
+  for (let i = 0; i < count; i++) {
+    sizes.push(Math.exp(logMin + ((logMax - logMin) * i) / (count - 1)));
+  }
+
+  return sizes;
+}
+
+// ============ Solver ============
+
+/**
+ * Find the trade size that maximizes net profit
+ *
+ * 1. Sample the profit curve on a log grid
+ * 2. Refine around the best grid point with golden-section search
+ */
+export function optimizeTradeSize(params: OptimizeParams): OptimizationResult {
+  const min = params.minAmountEth ?? DEFAULT_MIN_AMOUNT_ETH;
+  const max = params.maxAmountEth ?? DEFAULT_MAX_AMOUNT_ETH;
+
+  if (!(min > 0) || !(max > min)) {
+    throw new Error('Invalid size range: require 0 < minAmountEth < maxAmountEth');
+  }
+
+  const sizes = sampleSizes(min, max, params.samples ?? DEFAULT_CURVE_SAMPLES);
+  const curve = sizes.map(size => evaluateTradeSize(params, size));
+
+  let bestIndex = 0;
+  curve.forEach((point, i) => {
+    if (point.netProfitUsd > curve[bestIndex].netProfitUsd) bestIndex = i;
+  });
+
+  // Bracket the maximum between the neighbouring grid points
+  let lo = sizes[Math.max(0, bestIndex - 1)];
+  let hi = sizes[Math.min(sizes.length - 1, bestIndex + 1)];
+  let x1 = hi - GOLDEN_RATIO * (hi - lo);
+  let x2 = lo + GOLDEN_RATIO * (hi - lo);
+  let f1 = evaluateTradeSize(params, x1).netProfitUsd;
+  let f2 = evaluateTradeSize(params, x2).netProfitUsd;
+
+  for (let i = 0; i < REFINE_ITERATIONS; i++) {
+    if (f1 < f2) {
+      lo = x1;
+      x1 = x2;
+      f1 = f2;
+      x2 = lo + GOLDEN_RATIO * (hi - lo);
+      f2 = evaluateTradeSize(params, x2).netProfitUsd;
+    } else {
+      hi = x2;
+      x2 = x1;
+      f2 = f1;
+      x1 = hi - GOLDEN_RATIO * (hi - lo);
+      f1 = evaluateTradeSize(params, x1).netProfitUsd;
+    }
+  }
+
+  const refined = evaluateTradeSize(params, (lo + hi) / 2);
+  const optimal = refined.netProfitUsd >= curve[bestIndex].netProfitUsd
+    ? refined
+    : curve[bestIndex];
+
+  // Smallest sampled size that clears all costs
+  const breakEven = curve.find(point => point.netProfitUsd > 0);
+
+  return {
+    profitable: optimal.netProfitUsd > 0,
+    optimalAmountEth: optimal.amountEth,
+    optimal,
+    curve,
+    breakEvenAmountEth: breakEven ? breakEven.amountEth : null,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Price Drift During Transit
+ *
+ * Handles:
+ * - The sell price distribution after the bridge transit, as a driftless
+ *   lognormal with the realized volatility scaled to the transit time
+ * - Probability the spread survives (sell price still above the buy price)
+ *   and that the trade still breaks even after costs
+ * - Expected, downside (5th percentile) and risk-adjusted net profit
+ *
+ * The buy leg executes at the quoted price before bridging; only the sell
+ * price moves while funds are in transit. Without drift the expected sell
+ * price equals today's, so the expected profit equals the fixed-price profit
+ * and the risk shows up in the spread of outcomes.
+ *
+ * Config:
+ * - PRICE_DRIFT_RISK_AVERSION   std devs of profit subtracted for the risk-adjusted
+ *                               net profit (default 1)
+ */
+
+// ============ Types ============
+
+export interface PriceDriftInput {
+  amountEth: number;
+  buyPrice: number;
+  sellPrice: number;            // Sell price now, before transit
+  costsUsd: number;             // Every cost except the price move
+  transitSec: number;
+  sigmaPerSqrtSec: number;      // From lib/prices/realized-volatility.ts
+}
+
+export interface PriceDriftAssessment {
+  transitSec: number;
+  sigmaTransitPct: number;      // Std dev of the log price move over the transit
+  sellPrice: {
+    expected: number;
+    median: number;
+    p5: number;
+    p95: number;
+  };
+  breakEvenSellPrice: number;
+  spreadSurvivalProbability: number;   // P(sell price > buy price)
+  profitProbability: number;           // P(net profit > 0)
+  expectedNetProfitUsd: number;
+  netProfitStdDevUsd: number;
+  netProfitP5Usd: number;
+  riskAversion: number;
+  riskAdjustedNetProfitUsd: number;    // expected - riskAversion × std dev
+}
+
+// ============ Constants ============
+
+const DEFAULT_RISK_AVERSION = 1;
+
+// One-sided 95% quantile of the standard normal
+const Z_95 = 1.6448536;
+
+// ============ Config ============
+
+export function getRiskAversion(): number {
+  const configured = process.env.PRICE_DRIFT_RISK_AVERSION;
+  if (!configured) return DEFAULT_RISK_AVERSION;
+  const value = Number(configured);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_RISK_AVERSION;
+}
+
+// ============ Math ============
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+ */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-z * z);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * P(S_T > level) for S_T = S·exp(σ√T·Z - σ²T/2)
+ */
+function probabilityAbove(price: number, level: number, sigmaT: number): number {
+  if (level <= 0) return 1;
+  if (sigmaT === 0) return price > level ? 1 : 0;
+  return normalCdf((Math.log(price / level) - (sigmaT * sigmaT) / 2) / sigmaT);
+}
+
+/**
+ * Sell price distribution and profit statistics over the transit
+ */
+export function assessPriceDrift(input: PriceDriftInput, riskAversion: number = getRiskAversion()): PriceDriftAssessment {
+  const { amountEth, buyPrice, sellPrice, costsUsd } = input;
+  const transitSec = Math.max(0, input.transitSec);
+  const sigmaT = input.sigmaPerSqrtSec * Math.sqrt(transitSec);
+  const variance = sigmaT * sigmaT;
+
+  // Driftless lognormal: mean stays at today's price, median sits below it
+  const median = sellPrice * Math.exp(-variance / 2);
+  const p5 = median * Math.exp(-Z_95 * sigmaT);
+  const p95 = median * Math.exp(Z_95 * sigmaT);
+  const sellPriceStdDev = sellPrice * Math.sqrt(Math.exp(variance) - 1);
+
+  const breakEvenSellPrice = amountEth > 0 ? buyPrice + costsUsd / amountEth : Infinity;
+  const expectedNetProfitUsd = amountEth * (sellPrice - buyPrice) - costsUsd;
+  const netProfitStdDevUsd = amountEth * sellPriceStdDev;
+
+  return {
+    transitSec,
+    sigmaTransitPct: sigmaT * 100,
+    sellPrice: { expected: sellPrice, median, p5, p95 },
+    breakEvenSellPrice,
+    spreadSurvivalProbability: probabilityAbove(sellPrice, buyPrice, sigmaT),
+    profitProbability: probabilityAbove(sellPrice, breakEvenSellPrice, sigmaT),
+    expectedNetProfitUsd,
+    netProfitStdDevUsd,
+    netProfitP5Usd: amountEth * (p5 - buyPrice) - costsUsd,
+    riskAversion,
+    riskAdjustedNetProfitUsd: expectedNetProfitUsd - riskAversion * netProfitStdDevUsd,
+  };
+}
@@ -2,12 +2,14 @@
  * Profit Calculation Math
  * 
  * Handles:
- * - Gas cost estimation
+ * - Gas cost estimation (L2 execution + rollup L1 data fee)
  * - Slippage calculation
  * - Fee calculation
  * - Net profit computation
  */
 
+import { simulateExactInput, PoolSnapshot, SwapSimulationResult } from '@/lib/dex/swap-simulator';
+
 // ============ Constants ============
 
 // Uniswap V3 fee tiers
@@ -21,15 +23,59 @@ export const POOL_FEES = {
 // ETH wrap + 2 swaps + unwrap
 export const ESTIMATED_GAS_UNITS = 350000;
 
+// Flat slippage estimate used only when no pool snapshots are supplied
+export const FALLBACK_SLIPPAGE_RATE = 0.001;
+
 // ============ Types ============
 
+/**
+ * Gas price from the fee market (lib/gas/fee-market.ts) rather than a point reading
+ */
+export interface GasPriceRange {
+  expectedWei: bigint;     // Next base fee + median priority fee
+  stressWei: bigint;       // Base fee after a spike + 90th percentile priority fee
+}
+
+export interface GasCostBreakdown {
+  l2ExecutionUsd: number;  // gasPrice × gasUnits
+  l1DataUsd: number;       // Rollup L1 data fee (lib/gas/l1-fee.ts)
+  totalUsd: number;
+  stressUsd?: number;      // Total at the stress gas price (GasPriceRange input only)
+}
+
+/**
+ * - simulated: both legs stayed inside the ticks loaded into the snapshots
+ * - constant-liquidity: a leg moved past them, and liquidity was assumed
+ *   constant from there (a snapshot without ticks always does)
+ * - estimated: no snapshots, flat FALLBACK_SLIPPAGE_RATE
+ */
+export type SlippageSource = 'simulated' | 'constant-liquidity' | 'estimated';
+
 export interface ProfitCalculation {
   grossProfitUsd: number;
-  gasCostUsd: number;
+  gasCostUsd: number;      // L2 execution + L1 data
+  gas: GasCostBreakdown;
   slippageUsd: number;
   feesUsd: number;
   netProfitUsd: number;
   profitMarginPct: number;
+  slippageSource: SlippageSource;
+  legs?: ArbitrageLegs;
+}
+
+/**
+ * Pool snapshot plus the token orientation needed to route WETH/USDC swaps
+ */
+export interface PoolLeg {
+  snapshot: PoolSnapshot;
+  wethIsToken0: boolean;
+}
+
+export interface ArbitrageLegs {
+  buy: SwapSimulationResult;   // USDC -> WETH on the cheaper pool
+  sell: SwapSimulationResult;  // WETH -> USDC on the more expensive pool
+  buySlippageUsd: number;
+  sellSlippageUsd: number;
 }
 
 export interface SimulationParams {
@@ -38,23 +84,56 @@ export interface SimulationParams {
   priceA: number;          // Price on pool A
   priceB: number;          // Price on pool B
   quoteAmountOut: bigint;  // From Quoter
-  gasPrice: bigint;        // In wei
+  gasPrice: bigint | GasPriceRange;  // In wei
+  l1DataFeeWei?: bigint;   // L1 data fee of the execution tx (0 if omitted)
   poolFeeBps: number;      // Fee in basis points (3000 = 0.3%)
+  poolA?: PoolLeg;         // Snapshot of pool A (enables tick-accurate slippage)
+  poolB?: PoolLeg;         // Snapshot of pool B
 }
 
 // ============ Functions ============
 
+/**
+ * Calculate gas cost in USD, split into L2 execution and L1 data
+ * On rollups the L1 data fee is charged on top of gasPrice × gasUnits
+ * and often dominates it (see lib/gas/l1-fee.ts)
+ *
+ * A GasPriceRange is costed at its expected price, with stressUsd at its
+ * stress price
+ */
+export function calculateGasCostBreakdown(
+  gasPrice: bigint | GasPriceRange,
+  gasUnits: number,
+  ethPriceUsd: number,
+  l1DataFeeWei: bigint = BigInt(0)
+): GasCostBreakdown {
+  const toUsd = (wei: bigint) => (Number(wei) / 1e18) * ethPriceUsd;
+  const l1DataUsd = toUsd(l1DataFeeWei);
+
+  if (typeof gasPrice === 'bigint') {
+    const l2ExecutionUsd = toUsd(gasPrice * BigInt(gasUnits));
+    return { l2ExecutionUsd, l1DataUsd, totalUsd: l2ExecutionUsd + l1DataUsd };
+  }
+
+  const l2ExecutionUsd = toUsd(gasPrice.expectedWei * BigInt(gasUnits));
+  return {
+    l2ExecutionUsd,
+    l1DataUsd,
+    totalUsd: l2ExecutionUsd + l1DataUsd,
+    stressUsd: toUsd(gasPrice.stressWei * BigInt(gasUnits)) + l1DataUsd,
+  };
+}
+
 /**
  * Calculate gas cost in USD
  */
 export function calculateGasCost(
-  gasPrice: bigint,
+  gasPrice: bigint | GasPriceRange,
   gasUnits: number,
-  ethPriceUsd: number
+  ethPriceUsd: number,
+  l1DataFeeWei: bigint = BigInt(0)
 ): number {
-  const gasCostWei = gasPrice * BigInt(gasUnits);
-  const gasCostEth = Number(gasCostWei) / 1e18;
-  return gasCostEth * ethPriceUsd;
+  return calculateGasCostBreakdown(gasPrice, gasUnits, ethPriceUsd, l1DataFeeWei).totalUsd;
 }
 
 /**
@@ -108,8 +187,61 @@ export function calculateGrossProfit(
   return profitUsd;
 }
 
+/**
+ * Simulate both arbitrage legs against pool snapshots
+ * Slippage is measured against the fee-adjusted spot output, so it only
+ * captures price impact (swap fees are accounted for separately)
+ *
+ * The sell leg sells the WETH the buy leg actually produced.
+ *
+ * @throws Error if either pool cannot absorb its leg (partial fill)
+ */
+export function simulateArbitrageLegs(
+  amountInWei: bigint,
+  buyPrice: number,
+  sellPrice: number,
+  buyPool: PoolLeg,
+  sellPool: PoolLeg,
+  ethPriceUsd: number
+): ArbitrageLegs {
+  const amountInEth = Number(amountInWei) / 1e18;
+
+  // Buy leg: spend USDC worth amountInEth at the buy price, receive WETH
+  const buyUsdcDecimals = buyPool.wethIsToken0
+    ? buyPool.snapshot.token1Decimals
+    : buyPool.snapshot.token0Decimals;
+  const usdcIn = BigInt(Math.floor(amountInEth * buyPrice * 10 ** buyUsdcDecimals));
+  const buy = simulateExactInput(buyPool.snapshot, usdcIn, !buyPool.wethIsToken0);
+  if (buy.partialFill) {
+    throw new Error(`Buy leg only fills ${buy.amountIn} of ${usdcIn}: pool liquidity exhausted`);
+  }
+  const buyFeeRate = buyPool.snapshot.fee / 1_000_000;
+  const idealEthOut = amountInEth * (1 - buyFeeRate);
+  const actualEthOut = Number(buy.amountOut) / 1e18;
+  const buySlippageUsd = Math.max(0, (idealEthOut - actualEthOut) * ethPriceUsd);
+
+  // Sell leg: sell the WETH bought, receive USDC
+  const sellUsdcDecimals = sellPool.wethIsToken0
+    ? sellPool.snapshot.token1Decimals
+    : sellPool.snapshot.token0Decimals;
+  const sell = simulateExactInput(sellPool.snapshot, buy.amountOut, sellPool.wethIsToken0);
+  if (sell.partialFill) {
+    throw new Error(`Sell leg only fills ${sell.amountIn} of ${buy.amountOut}: pool liquidity exhausted`);
+  }
+  const sellFeeRate = sellPool.snapshot.fee / 1_000_000;
+  const idealUsdcOut = actualEthOut * sellPrice * (1 - sellFeeRate);
+  const actualUsdcOut = Number(sell.amountOut) / 10 ** sellUsdcDecimals;
+  const sellSlippageUsd = Math.max(0, idealUsdcOut - actualUsdcOut);
+
+  return { buy, sell, buySlippageUsd, sellSlippageUsd };
+}
+
 /**
  * Full profit calculation
+ * Uses tick-accurate swap simulation when both pool snapshots are provided
+ * (see SlippageSource for how far to trust it)
+ *
+ * @throws Error if a simulated leg cannot be filled at this size
  */
 export function calculateFullProfit(params: SimulationParams): ProfitCalculation {
   const {
@@ -118,12 +250,16 @@ export function calculateFullProfit(params: SimulationParams): ProfitCalculation
     priceA,
     priceB,
     gasPrice,
+    l1DataFeeWei,
     poolFeeBps,
+    poolA,
+    poolB,
   } = params;
   
   // Determine buy/sell based on prices
   const buyPrice = Math.min(priceA, priceB);
   const sellPrice = Math.max(priceA, priceB);
+  const buyOnA = priceA <= priceB;
   
   // Calculate each component
   const grossProfitUsd = calculateGrossProfit(
@@ -133,11 +269,13 @@ export function calculateFullProfit(params: SimulationParams): ProfitCalculation
     ethPriceUsd
   );
   
-  const gasCostUsd = calculateGasCost(
+  const gas = calculateGasCostBreakdown(
     gasPrice,
     ESTIMATED_GAS_UNITS,
-    ethPriceUsd
+    ethPriceUsd,
+    l1DataFeeWei
   );
+  const gasCostUsd = gas.totalUsd;
   
   const feesUsd = calculateSwapFees(
     amountInWei,
@@ -145,10 +283,25 @@ export function calculateFullProfit(params: SimulationParams): ProfitCalculation
     ethPriceUsd
   );
   
-  // Estimate slippage as ~0.1% of trade for simplicity
-  // In production, use Quoter for accurate simulation
   const amountInEth = Number(amountInWei) / 1e18;
-  const slippageUsd = amountInEth * ethPriceUsd * 0.001;
+  
+  // Walk ticks on both pools when snapshots are available,
+  // otherwise fall back to a flat estimate
+  let slippageUsd: number;
+  let legs: ArbitrageLegs | undefined;
+  if (poolA && poolB) {
+    legs = simulateArbitrageLegs(
+      amountInWei,
+      buyPrice,
+      sellPrice,
+      buyOnA ? poolA : poolB,
+      buyOnA ? poolB : poolA,
+      ethPriceUsd
+    );
+    slippageUsd = legs.buySlippageUsd + legs.sellSlippageUsd;
+  } else {
+    slippageUsd = amountInEth * ethPriceUsd * FALLBACK_SLIPPAGE_RATE;
+  }
   
   // Net profit
   const netProfitUsd = grossProfitUsd - gasCostUsd - feesUsd - slippageUsd;
@@ -160,10 +313,15 @@ export function calculateFullProfit(params: SimulationParams): ProfitCalculation
   return {
     grossProfitUsd,
     gasCostUsd,
+    gas,
     slippageUsd,
     feesUsd,
     netProfitUsd,
     profitMarginPct,
+    slippageSource: !legs
+      ? 'estimated'
+      : legs.buy.leftSnapshotRange || legs.sell.leftSnapshotRange ? 'constant-liquidity' : 'simulated',
+    legs,
   };
 }
 
@@ -0,0 +1,304 @@
+/**
+ * Aggregated ETH Price Feed
+ *
+ * Handles:
+ * - Quotes from every configured source, fetched in parallel with a timeout:
+ *   - testnet Uniswap pools (getEthUsdcPrice), pinned to the latest block
+ *   - mainnet pools (getETHPricesAllChains in services/priceService.js)
+ *   - an optional HTTP reference source (e.g. an exchange or oracle API)
+ * - Staleness per quote (seconds since the block / observation it came from)
+ * - Median across fresh quotes and a per-source outlier flag
+ *
+ * Results are cached briefly so concurrent pollers share one fetch.
+ *
+ * Config:
+ * - PRICE_REFERENCE_URL             JSON endpoint of the reference source
+ * - PRICE_REFERENCE_PATH            dot path to the price, e.g. "ethereum.usd"
+ * - PRICE_REFERENCE_TIMESTAMP_PATH  optional dot path to a unix-seconds timestamp
+ * - PRICE_REFERENCE_NAME            label for the reference (default "reference")
+ * - PRICE_OUTLIER_PCT               deviation from the median that flags an outlier (default 2)
+ * - PRICE_MAX_STALENESS_SEC         older quotes are excluded from the median (default 120)
+ */
+
+import { getEthUsdcPrice } from '@/lib/dex/uniswap';
+import { getManagedProvider } from '@/lib/rpc/provider-manager';
+import { DEPLOYMENTS } from '@/lib/chains/registry';
+
+// ============ Types ============
+
+type Chain = 'base' | 'arbitrum';
+
+export type PriceSourceKind = 'testnet-pool' | 'mainnet-pool' | 'reference';
+
+export interface SourceQuote {
+  id: string;                     // e.g. "uniswap-base-sepolia"
+  kind: PriceSourceKind;
+  price: number | null;           // null when the source failed
+  observedAt: number | null;      // ms timestamp of the block / observation
+  stalenessSec: number | null;
+  stale: boolean;                 // Older than the max staleness (excluded from the median)
+  deviationPct: number | null;    // Signed deviation from the median
+  outlier: boolean;
+  liquidity?: string;             // Pool sources only (raw pool liquidity)
+  error?: string;
+}
+
+export interface AggregatedPrices {
+  timestamp: number;
+  median: number | null;          // Median of fresh quotes
+  quotes: SourceQuote[];
+  freshCount: number;
+  outlierCount: number;
+  outlierThresholdPct: number;
+  maxStalenessSec: number;
+}
+
+type RawQuote = Pick<SourceQuote, 'id' | 'kind'> & {
+  price?: number;
+  observedAt?: number;
+  liquidity?: string;
+  error?: string;
+};
+
+/** One entry of getETHPricesAllChains() (services/priceService.js) */
+interface MainnetPoolResult {
+  chain: string;
+  price?: number;
+  liquidity?: string;
+  timestamp?: string;             // ISO time of the read
+  error?: string;
+}
+
+// ============ Constants ============
+
+const SOURCE_TIMEOUT_MS = 8_000;
+const CACHE_TTL_MS = 5_000;
+const DEFAULT_OUTLIER_PCT = 2;
+const DEFAULT_MAX_STALENESS_SEC = 120;
+
+/** Outliers need something to be an outlier from */
+const MIN_QUOTES_FOR_OUTLIERS = 3;
+
+// ============ Helpers ============
+
+function withTimeout<T>(promise: Promise<T>, label: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${label} timed out after ${SOURCE_TIMEOUT_MS}ms`)), SOURCE_TIMEOUT_MS);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+function readPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (node, key) => (node !== null && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// ============ Sources ============
+
+/**
+ * Testnet pool price at the latest block (staleness = age of that block)
+ */
+async function fetchTestnetPool(chain: Chain): Promise<RawQuote> {
+  const rpcChain = DEPLOYMENTS.testnet[chain];
+  const provider = getManagedProvider(rpcChain);
+  const block = await provider.getBlock('latest');
+  if (!block) throw new Error('Latest block unavailable');
+
+  const pool = await getEthUsdcPrice(provider, rpcChain, block.number);
+  if (pool.price === 0) throw new Error('Pool returned zero price');
+
+  return {
+    id: `uniswap-${chain}-sepolia`,
+    kind: 'testnet-pool',
+    price: pool.price,
+    observedAt: block.timestamp * 1000,
+    liquidity: pool.liquidity.toString(),
+  };
+}
+
+/**
+ * Check one price service result (a plain JS module, so nothing is typed)
+ * @throws Error if it does not name its chain
+ */
+function parseMainnetPoolResult(value: unknown): MainnetPoolResult {
+  const result = (value !== null && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  if (typeof result.chain !== 'string') throw new Error('Price service result has no chain');
+
+  return {
+    chain: result.chain,
+    price: typeof result.price === 'number' ? result.price : undefined,
+    liquidity: typeof result.liquidity === 'string' ? result.liquidity : undefined,
+    timestamp: typeof result.timestamp === 'string' ? result.timestamp : undefined,
+    error: typeof result.error === 'string' ? result.error : undefined,
+  };
+}
+
+function toMainnetQuote(result: MainnetPoolResult): RawQuote {
+  const base = { id: `uniswap-${result.chain}-mainnet`, kind: 'mainnet-pool' as const };
+  if (result.error) return { ...base, error: result.error };
+
+  const observedAt = result.timestamp ? Date.parse(result.timestamp) : NaN;
+  if (result.price === undefined || !Number.isFinite(result.price) || result.price <= 0) {
+    return { ...base, error: 'Price service returned no price' };
+  }
+  if (!Number.isFinite(observedAt)) {
+    return { ...base, error: 'Price service returned no timestamp' };
+  }
+  return { ...base, price: result.price, observedAt, liquidity: result.liquidity };
+}
+
+/**
+ * Mainnet pool prices from the price service (one quote per chain)
+ */
+async function fetchMainnetPools(): Promise<RawQuote[]> {
+  // Loaded lazily: the service pulls in the Uniswap SDK and mainnet RPC config
+  const { getETHPricesAllChains } = await import('@/services/priceService');
+  const results: unknown = await getETHPricesAllChains();
+  if (!Array.isArray(results)) throw new Error('Price service returned no results');
+
+  return results.map(result => toMainnetQuote(parseMainnetPoolResult(result)));
+}
+
+/**
+ * Configured HTTP reference source, if any
+ */
+async function fetchReference(): Promise<RawQuote | null> {
+  const url = process.env.PRICE_REFERENCE_URL;
+  const pricePath = process.env.PRICE_REFERENCE_PATH;
+  if (!url || !pricePath) return null;
+
+  const id = process.env.PRICE_REFERENCE_NAME || 'reference';
+  const res = await fetch(url, { cache: 'no-store' });
+  if (!res.ok) throw new Error(`Reference source returned ${res.status}`);
+  const body = await res.json();
+
+  const price = Number(readPath(body, pricePath));
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new Error(`Reference source has no price at ${pricePath}`);
+  }
+
+  const timestampPath = process.env.PRICE_REFERENCE_TIMESTAMP_PATH;
+  const timestampSec = timestampPath ? Number(readPath(body, timestampPath)) : NaN;
+
+  return {
+    id,
+    kind: 'reference',
+    price,
+    observedAt: Number.isFinite(timestampSec) ? timestampSec * 1000 : Date.now(),
+  };
+}
+
+/**
+ * Run every source; a failed source becomes an error quote instead of failing the feed
+ */
+async function collectQuotes(): Promise<RawQuote[]> {
+  const settle = async (
+    fallback: Pick<RawQuote, 'id' | 'kind'>[],
+    run: () => Promise<RawQuote | RawQuote[] | null>
+  ): Promise<RawQuote[]> => {
+    try {
+      const result = await withTimeout(run(), fallback.map(f => f.id).join(', '));
+      return result === null ? [] : Array.isArray(result) ? result : [result];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return fallback.map(f => ({ ...f, error: message }));
+    }
+  };
+
+  const referenceId = process.env.PRICE_REFERENCE_NAME || 'reference';
+  const groups = await Promise.all([
+    settle([{ id: 'uniswap-base-sepolia', kind: 'testnet-pool' }], () => fetchTestnetPool('base')),
+    settle([{ id: 'uniswap-arbitrum-sepolia', kind: 'testnet-pool' }], () => fetchTestnetPool('arbitrum')),
+    settle(
+      [{ id: 'uniswap-base-mainnet', kind: 'mainnet-pool' }, { id: 'uniswap-arbitrum-mainnet', kind: 'mainnet-pool' }],
+      fetchMainnetPools
+    ),
+    settle([{ id: referenceId, kind: 'reference' }], fetchReference),
+  ]);
+
+  return groups.flat();
+}
+
+// ============ Aggregation ============
+
+/**
+ * Median, staleness and outlier flags for a set of raw quotes
+ */
+export function aggregateQuotes(
+  raw: RawQuote[],
+  now: number = Date.now(),
+  outlierThresholdPct: number = DEFAULT_OUTLIER_PCT,
+  maxStalenessSec: number = DEFAULT_MAX_STALENESS_SEC
+): AggregatedPrices {
+  const quotes: SourceQuote[] = raw.map(q => {
+    const hasPrice = q.price !== undefined && Number.isFinite(q.price) && q.price > 0;
+    const stalenessSec = q.observedAt !== undefined ? Math.max(0, (now - q.observedAt) / 1000) : null;
+    return {
+      id: q.id,
+      kind: q.kind,
+      price: hasPrice ? q.price! : null,
+      observedAt: q.observedAt ?? null,
+      stalenessSec,
+      stale: stalenessSec !== null && stalenessSec > maxStalenessSec,
+      deviationPct: null,
+      outlier: false,
+      ...(q.liquidity !== undefined && { liquidity: q.liquidity }),
+      ...(q.error && { error: q.error }),
+      ...(!hasPrice && !q.error && { error: 'No price' }),
+    };
+  });
+
+  const fresh = quotes.filter(q => q.price !== null && !q.stale);
+  const mid = median(fresh.map(q => q.price!));
+
+  if (mid !== null) {
+    quotes.forEach(q => {
+      if (q.price === null) return;
+      q.deviationPct = ((q.price - mid) / mid) * 100;
+      q.outlier = fresh.length >= MIN_QUOTES_FOR_OUTLIERS && Math.abs(q.deviationPct) > outlierThresholdPct;
+    });
+  }
+
+  return {
+    timestamp: now,
+    median: mid,
+    quotes,
+    freshCount: fresh.length,
+    outlierCount: quotes.filter(q => q.outlier).length,
+    outlierThresholdPct,
+    maxStalenessSec,
+  };
+}
+
+// ============ Public API ============
+
+let cached: { at: number; result: Promise<AggregatedPrices> } | null = null;
+
+/**
+ * Aggregated quotes from all sources (shared by callers within CACHE_TTL_MS)
+ */
+export function getAggregatedPrices(): Promise<AggregatedPrices> {
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.result;
+
+  const outlierThresholdPct = Number(process.env.PRICE_OUTLIER_PCT) || DEFAULT_OUTLIER_PCT;
+  const maxStalenessSec = Number(process.env.PRICE_MAX_STALENESS_SEC) || DEFAULT_MAX_STALENESS_SEC;
+
+  const result = collectQuotes().then(raw => aggregateQuotes(raw, Date.now(), outlierThresholdPct, maxStalenessSec));
+  cached = { at: Date.now(), result };
+  result.catch(() => {
+    cached = null;
+  });
+  return result;
+}
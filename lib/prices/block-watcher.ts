@@ -0,0 +1,206 @@
+/**
+ * Block Watcher
+ *
+ * Handles:
+ * - New-block notifications per chain via a WebSocket newHeads subscription
+ * - Automatic fallback to HTTP block polling when no WebSocket URL is set,
+ *   the socket errors/closes, or it goes quiet for too long
+ * - Coalescing: if a block arrives while the previous one is still being
+ *   processed, only the newest pending block is processed next
+ *
+ * Works against any JSON-RPC node, including a local Hardhat/Anvil node
+ * (ws://127.0.0.1:8545 serves newHeads; blocks appear on each mined tx or
+ * `evm_mine`).
+ */
+
+import { ethers } from 'ethers';
+
+// ============ Types ============
+
+export interface BlockHeader {
+  number: number;
+  timestamp: number;              // Block timestamp (unix seconds)
+}
+
+export type BlockSourceMode = 'websocket' | 'polling';
+
+export interface BlockWatcherOptions {
+  chainId: number;                // Pinned as a static network: no eth_chainId probing
+  rpcUrl: string;                 // HTTP endpoint (reads + polling fallback)
+  wsUrl?: string;                 // WebSocket endpoint for newHeads
+  pollingIntervalMs?: number;     // Polling fallback cadence
+  staleAfterMs?: number;          // Fall back to polling if the socket is silent this long
+}
+
+/** Called once per (coalesced) new block with an HTTP provider for pinned reads */
+export type BlockHandler = (block: BlockHeader, provider: ethers.JsonRpcProvider) => Promise<void>;
+
+// ============ Constants ============
+
+const DEFAULT_POLLING_INTERVAL_MS = 2_000;
+const DEFAULT_STALE_AFTER_MS = 30_000;
+
+// ============ Watcher ============
+
+export class BlockWatcher {
+  readonly provider: ethers.JsonRpcProvider;
+  private socket: ethers.WebSocketProvider | null = null;
+  private staleTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private stopped = false;
+  private processing = false;
+  private queuedBlock: number | null = null;
+  private lastBlock: BlockHeader | null = null;
+  private _mode: BlockSourceMode = 'polling';
+
+  constructor(
+    readonly label: string,
+    private readonly options: BlockWatcherOptions,
+    private readonly onBlock: BlockHandler
+  ) {
+    const network = ethers.Network.from(options.chainId);
+    this.provider = new ethers.JsonRpcProvider(options.rpcUrl, network, {
+      staticNetwork: network,
+      pollingInterval: options.pollingIntervalMs ?? DEFAULT_POLLING_INTERVAL_MS,
+    });
+  }
+
+  get mode(): BlockSourceMode {
+    return this._mode;
+  }
+
+  get latestBlock(): BlockHeader | null {
+    return this.lastBlock;
+  }
+
+  start(): void {
+    if (this.stopped) throw new Error(`${this.label}: a stopped BlockWatcher cannot be restarted`);
+    if (this.running) return;
+    this.running = true;
+
+    if (this.options.wsUrl) {
+      this.startWebSocket(this.options.wsUrl);
+    } else {
+      this.startPolling();
+    }
+  }
+
+  /**
+   * Stop for good: the HTTP provider is destroyed (its polling timers and
+   * pending requests go with it), so create a new watcher to resume
+   */
+  stop(): void {
+    if (this.stopped) return;
+    this.running = false;
+    this.stopped = true;
+    this.clearStaleTimer();
+    this.closeSocket();
+    this.provider.destroy();
+  }
+
+  // ============ Sources ============
+
+  private startWebSocket(wsUrl: string): void {
+    try {
+      const network = ethers.Network.from(this.options.chainId);
+      const socket = new ethers.WebSocketProvider(wsUrl, network, { staticNetwork: network });
+      this.socket = socket;
+      this._mode = 'websocket';
+
+      // ethers leaves these unset; a dead socket should not silently stop updates
+      const ws = socket.websocket as unknown as { onerror: unknown; onclose: unknown };
+      ws.onerror = () => this.fallBackToPolling('socket error');
+      ws.onclose = () => this.fallBackToPolling('socket closed');
+
+      socket.on('block', (blockNumber: number) => {
+        this.resetStaleTimer();
+        this.handleBlock(blockNumber);
+      });
+      this.resetStaleTimer();
+    } catch (error) {
+      console.warn(`${this.label}: WebSocket unavailable (${(error as Error).message}), polling instead`);
+      this.startPolling();
+    }
+  }
+
+  private startPolling(): void {
+    this._mode = 'polling';
+    this.provider.on('block', (blockNumber: number) => this.handleBlock(blockNumber));
+  }
+
+  private fallBackToPolling(reason: string): void {
+    if (!this.running || this._mode === 'polling') return;
+    console.warn(`${this.label}: newHeads subscription lost (${reason}), falling back to polling`);
+    this.clearStaleTimer();
+    this.closeSocket();
+    this.startPolling();
+  }
+
+  private resetStaleTimer(): void {
+    this.clearStaleTimer();
+    this.staleTimer = setTimeout(
+      () => this.fallBackToPolling('no blocks received'),
+      this.options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS
+    );
+  }
+
+  private clearStaleTimer(): void {
+    if (this.staleTimer) clearTimeout(this.staleTimer);
+    this.staleTimer = null;
+  }
+
+  private closeSocket(): void {
+    const socket = this.socket;
+    this.socket = null;
+    if (!socket) return;
+
+    // Not socket.destroy(): it rejects a still-pending eth_subscribe with an
+    // unhandled error. Closing the raw socket leaves those requests pending
+    // forever instead, and the provider is garbage collected.
+    const ws = socket.websocket as unknown as { onerror: unknown; onclose: unknown; close(): void };
+    ws.onerror = () => undefined;   // Late errors from the dead socket must not throw
+    ws.onclose = () => undefined;
+    socket.removeAllListeners().catch(() => undefined);
+    try {
+      ws.close();
+    } catch {
+      // Already closed
+    }
+  }
+
+  // ============ Processing ============
+
+  private handleBlock(blockNumber: number): void {
+    if (!this.running) return;
+    if (this.lastBlock && blockNumber <= this.lastBlock.number) return;
+
+    if (this.processing) {
+      this.queuedBlock = Math.max(this.queuedBlock ?? 0, blockNumber);
+      return;
+    }
+    void this.process(blockNumber);
+  }
+
+  private async process(blockNumber: number): Promise<void> {
+    this.processing = true;
+    try {
+      const block = await this.provider.getBlock(blockNumber);
+      if (block) {
+        const header = { number: block.number, timestamp: block.timestamp };
+        this.lastBlock = header;
+        await this.onBlock(header, this.provider);
+      }
+    } catch (error) {
+      // After stop() the destroyed provider rejects whatever was in flight
+      if (this.running) {
+        console.error(`${this.label}: failed to process block ${blockNumber}:`, (error as Error).message);
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    const next = this.queuedBlock;
+    this.queuedBlock = null;
+    if (next !== null && this.running) this.handleBlock(next);
+  }
+}
@@ -0,0 +1,533 @@
+/**
+ * Shared Price Hub
+ *
+ * Handles:
+ * - One server-side polling loop for Base + Arbitrum prices, shared by every
+ *   SSE subscriber (RPC load no longer scales with open dashboards)
+ * - Fan-out of numbered events, with a replay buffer for Last-Event-ID resume
+ * - Heartbeat comments so idle connections survive proxies
+ * - Backpressure: slow clients only get the latest pending update
+ *   (price snapshots supersede each other) and are dropped if they stay stuck
+ *
+ * The hub starts with the first subscriber and stops after the last leaves.
+ *
+ * Modes:
+ * - interval: re-read both pools on a fixed timer
+ * - blocks:   re-read a chain's pool (pinned to the block) on every new block
+ *             of that chain; updates carry block number and timestamp
+ *
+ * Sources (every update carries `source`):
+ * - onchain:   live pools; if they cannot be read, that update comes from the
+ *              simulated market instead and is tagged 'simulated'
+ * - simulated: seeded simulated market only (lib/prices/simulated-market.ts)
+ * - replay:    backtest fixture frames, one per interval, looping
+ * Simulated and replay sources always run on the interval timer.
+ *
+ * Config:
+ * - PRICE_HUB_MODE          interval | blocks (default interval)
+ * - PRICE_HUB_INTERVAL_MS   poll interval in interval mode (default 10000)
+ * - PRICE_SOURCE            onchain | simulated | replay (default onchain)
+ * - SIM_MARKET_SEED, SIM_MARKET_START_PRICE, SIM_MARKET_VOLATILITY_PCT
+ * - PRICE_REPLAY_FIXTURE    fixture name (replay source)
+ * - Chains and pools: the active environment's legs (lib/chains/registry.ts)
+ * - <PREFIX>_RPC_URL(S)     HTTP endpoints (lib/rpc/provider-manager.ts)
+ * - <PREFIX>_WS_URL         newHeads endpoints, e.g. BASE_SEPOLIA_WS_URL (blocks
+ *                           mode; HTTP block polling is used without them)
+ *
+ * Local testing: point both URL pairs at forked nodes, e.g.
+ *   anvil --fork-url https://sepolia.base.org --port 8545
+ *   BASE_SEPOLIA_RPC_URL=http://127.0.0.1:8545 BASE_SEPOLIA_WS_URL=ws://127.0.0.1:8545
+ * or run mainnet forks with ARB_ENVIRONMENT=fork.
+ */
+
+import { ethers } from 'ethers';
+import { getEthUsdcPrice, getEthUsdcPool, classifyLiquidity } from '@/lib/dex/uniswap';
+import { getManagedProvider, getRpcUrls } from '@/lib/rpc/provider-manager';
+import { chainFor, getChain } from '@/lib/chains/registry';
+import { loadFixture, BacktestFixture } from '@/lib/backtest/fixtures';
+import { fixturePoolState } from '@/lib/backtest/backtester';
+import { BlockHeader, BlockSourceMode, BlockWatcher } from './block-watcher';
+import { DataSource, SimulatedMarket, SimulatedMarketConfig } from './simulated-market';
+
+// ============ Types ============
+
+type Chain = 'base' | 'arbitrum';
+
+export type PriceHubMode = 'interval' | 'blocks';
+
+export interface PriceHubOptions {
+  mode?: PriceHubMode;
+  intervalMs?: number;
+  source?: DataSource;
+  simulation?: Partial<SimulatedMarketConfig>;
+  replayFixture?: string;
+}
+
+export interface ChainPrice {
+  price: number;
+  liquidity: string;
+  liquidityDepth: ReturnType<typeof classifyLiquidity>;
+  pool: string;
+}
+
+export interface PriceUpdate {
+  success: true;
+  timestamp: number;
+  prices: {
+    base: ChainPrice;
+    arbitrum: ChainPrice;
+  };
+  spread: {
+    absolute: number;
+    percentage: number;
+    direction: 'base-cheaper' | 'arbitrum-cheaper';
+  };
+  source: DataSource;
+  blocks?: Partial<Record<Chain, BlockHeader>>;   // Blocks the prices were read at (blocks mode)
+  simulation?: { seed: number; tick: number; regime: string };
+  replay?: { fixture: string; frame: number; frameTimestamp: number | string };
+}
+
+type UpdateProvenance = Pick<PriceUpdate, 'blocks' | 'simulation' | 'replay'>;
+
+export interface HubEvent {
+  id: number;
+  event: 'price-update' | 'error';
+  data: unknown;
+}
+
+export interface PriceHubStats {
+  mode: PriceHubMode;
+  source: DataSource;
+  subscribers: number;
+  running: boolean;
+  blockSources?: Record<Chain, BlockSourceMode>;
+  latestBlocks?: Partial<Record<Chain, BlockHeader>>;
+  lastEventId: number;
+  droppedUpdates: number;
+  disconnectedSlowClients: number;
+}
+
+interface Subscriber {
+  controller: ReadableStreamDefaultController<Uint8Array>;
+  pending: Uint8Array | null;      // Latest update not yet accepted by a backed-up client
+  laggingSince: number | null;
+}
+
+// ============ Constants ============
+
+const DEFAULT_INTERVAL_MS = 10_000;
+const HEARTBEAT_MS = 15_000;
+const REPLAY_BUFFER_SIZE = 50;
+const SUBSCRIBER_QUEUE_SIZE = 8;       // Chunks queued per client before it counts as slow
+const MAX_LAG_MS = 60_000;             // Slow clients are disconnected after this
+const CLIENT_RETRY_MS = 5_000;
+
+const CHAINS: Chain[] = ['base', 'arbitrum'];
+
+const SIMULATED_LIQUIDITY: Record<Chain, bigint> = {
+  base: BigInt('1000000000000000000000'),
+  arbitrum: BigInt('800000000000000000000'),
+};
+
+function getWsUrl(chain: Chain): string | undefined {
+  return process.env[`${getChain(chainFor(chain)).rpcEnvPrefix}_WS_URL`] || undefined;
+}
+
+const encoder = new TextEncoder();
+
+// ============ Price Fetching ============
+
+type PoolState = { price: number; liquidity: bigint };
+
+/**
+ * Assemble the client-facing update from both chains' pool state
+ */
+function buildPriceUpdate(
+  baseData: PoolState,
+  arbitrumData: PoolState,
+  source: DataSource,
+  provenance: UpdateProvenance = {}
+): PriceUpdate {
+  const absolute = Math.abs(arbitrumData.price - baseData.price);
+  const percentage = (absolute / baseData.price) * 100;
+  const direction = baseData.price < arbitrumData.price ? 'base-cheaper' as const : 'arbitrum-cheaper' as const;
+
+  return {
+    success: true,
+    timestamp: Date.now(),
+    prices: {
+      base: {
+        price: baseData.price,
+        liquidity: baseData.liquidity.toString(),
+        liquidityDepth: classifyLiquidity(baseData.liquidity),
+        pool: getEthUsdcPool(chainFor('base')),
+      },
+      arbitrum: {
+        price: arbitrumData.price,
+        liquidity: arbitrumData.liquidity.toString(),
+        liquidityDepth: classifyLiquidity(arbitrumData.liquidity),
+        pool: getEthUsdcPool(chainFor('arbitrum')),
+      },
+    },
+    spread: { absolute, percentage, direction },
+    source,
+    ...provenance,
+  };
+}
+
+/**
+ * Read both live pools once
+ */
+async function readPools(providers: Record<Chain, ethers.JsonRpcProvider>): Promise<[PoolState, PoolState]> {
+  const [baseData, arbitrumData] = await Promise.all([
+    getEthUsdcPrice(providers.base, chainFor('base')),
+    getEthUsdcPrice(providers.arbitrum, chainFor('arbitrum')),
+  ]);
+
+  if (baseData.price === 0 || arbitrumData.price === 0) {
+    throw new Error('Pool returned zero price');
+  }
+  return [baseData, arbitrumData];
+}
+
+function simulatedUpdate(market: SimulatedMarket): PriceUpdate {
+  const tick = market.next();
+  return buildPriceUpdate(
+    { price: tick.base, liquidity: SIMULATED_LIQUIDITY.base },
+    { price: tick.arbitrum, liquidity: SIMULATED_LIQUIDITY.arbitrum },
+    'simulated',
+    { simulation: { seed: market.config.seed, tick: tick.tick, regime: tick.regime } }
+  );
+}
+
+function replayUpdate(fixture: BacktestFixture, frameIndex: number): PriceUpdate {
+  const frame = fixture.frames[frameIndex];
+  return buildPriceUpdate(
+    fixturePoolState(frame.base),
+    fixturePoolState(frame.arbitrum),
+    'replay',
+    { replay: { fixture: fixture.name, frame: frameIndex, frameTimestamp: frame.timestamp } }
+  );
+}
+
+// ============ SSE Encoding ============
+
+function encodeEvent(event: HubEvent): Uint8Array {
+  return encoder.encode(`id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
+
+// ============ Hub ============
+
+export class PriceHub {
+  private readonly subscribers = new Set<Subscriber>();
+  private readonly buffer: HubEvent[] = [];
+  private nextId = 1;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private generation = 0;         // Bumped by stop(); loops from an older run exit
+  private droppedUpdates = 0;
+  private disconnectedSlowClients = 0;
+  private providers: Record<Chain, ethers.JsonRpcProvider> | null = null;
+
+  // Blocks mode
+  private watchers: Record<Chain, BlockWatcher> | null = null;
+  private chainState: Partial<Record<Chain, { pool: PoolState; block: BlockHeader }>> = {};
+
+  // Non-onchain sources (the market also backs onchain read failures)
+  private market: SimulatedMarket | null = null;
+  private replay: { fixture: BacktestFixture; nextFrame: number } | null = null;
+
+  private readonly mode: PriceHubMode;
+  private readonly intervalMs: number;
+  private readonly source: DataSource;
+
+  constructor(private readonly options: PriceHubOptions = {}) {
+    this.mode = options.mode ?? 'interval';
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.source = options.source ?? 'onchain';
+  }
+
+  /**
+   * Open an SSE stream for one client
+   * @param lastEventId - Last event the client saw; newer buffered events are replayed
+   */
+  subscribe(lastEventId?: number): ReadableStream<Uint8Array> {
+    let subscriber: Subscriber;
+
+    return new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        subscriber = { controller, pending: null, laggingSince: null };
+        controller.enqueue(encoder.encode(`retry: ${CLIENT_RETRY_MS}\n\n`));
+
+        for (const event of this.replayFrom(lastEventId)) {
+          controller.enqueue(encodeEvent(event));
+        }
+
+        this.subscribers.add(subscriber);
+        this.start();
+      },
+      pull: () => {
+        // The client caught up: hand over the newest update it missed
+        if (subscriber?.pending) {
+          subscriber.controller.enqueue(subscriber.pending);
+          subscriber.pending = null;
+          subscriber.laggingSince = null;
+        }
+      },
+      cancel: () => {
+        this.unsubscribe(subscriber);
+      },
+    }, new CountQueuingStrategy({ highWaterMark: SUBSCRIBER_QUEUE_SIZE }));
+  }
+
+  /** Most recent price update, if any */
+  latest(): PriceUpdate | null {
+    for (let i = this.buffer.length - 1; i >= 0; i--) {
+      if (this.buffer[i].event === 'price-update') return this.buffer[i].data as PriceUpdate;
+    }
+    return null;
+  }
+
+  stats(): PriceHubStats {
+    const watchers = this.watchers;
+    return {
+      mode: this.mode,
+      source: this.source,
+      subscribers: this.subscribers.size,
+      running: this.running,
+      ...(watchers && {
+        blockSources: { base: watchers.base.mode, arbitrum: watchers.arbitrum.mode },
+        latestBlocks: Object.fromEntries(
+          CHAINS.flatMap(chain => (watchers[chain].latestBlock ? [[chain, watchers[chain].latestBlock]] : []))
+        ),
+      }),
+      lastEventId: this.nextId - 1,
+      droppedUpdates: this.droppedUpdates,
+      disconnectedSlowClients: this.disconnectedSlowClients,
+    };
+  }
+
+  // ============ Internals ============
+
+  /**
+   * Events to send a (re)connecting client: everything after lastEventId if it
+   * is still buffered, otherwise just the latest price
+   */
+  private replayFrom(lastEventId?: number): HubEvent[] {
+    if (lastEventId !== undefined && this.buffer.length > 0 && lastEventId >= this.buffer[0].id - 1) {
+      return this.buffer.filter(e => e.id > lastEventId);
+    }
+    const latest = [...this.buffer].reverse().find(e => e.event === 'price-update');
+    return latest ? [latest] : [];
+  }
+
+  private unsubscribe(subscriber: Subscriber): void {
+    this.subscribers.delete(subscriber);
+    if (this.subscribers.size === 0) this.stop();
+  }
+
+  private start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), HEARTBEAT_MS);
+
+    if (this.mode === 'blocks' && this.source === 'onchain') {
+      this.startBlockWatchers();
+      return;
+    }
+    void this.poll(this.generation);
+  }
+
+  private stop(): void {
+    this.running = false;
+    this.generation++;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.pollTimer = null;
+    this.heartbeatTimer = null;
+
+    if (this.watchers) {
+      CHAINS.forEach(chain => this.watchers![chain].stop());
+      this.watchers = null;
+      this.chainState = {};
+    }
+  }
+
+  private startBlockWatchers(): void {
+    const generation = this.generation;
+    const watch = (chain: Chain) => new BlockWatcher(
+      `price-hub:${chain}`,
+      {
+        chainId: getChain(chainFor(chain)).chainId,
+        rpcUrl: getRpcUrls(chainFor(chain))[0],
+        wsUrl: getWsUrl(chain),
+      },
+      (block, provider) => this.onBlock(generation, chain, block, provider)
+    );
+
+    this.watchers = { base: watch('base'), arbitrum: watch('arbitrum') };
+    CHAINS.forEach(chain => this.watchers![chain].start());
+  }
+
+  /**
+   * Re-read one chain's pool at the new block and publish with the other
+   * chain's latest state (nothing is published until both chains have reported)
+   * Reads that finish after the watchers were stopped are dropped, even if
+   * new watchers have started since
+   */
+  private async onBlock(
+    generation: number,
+    chain: Chain,
+    block: BlockHeader,
+    provider: ethers.JsonRpcProvider
+  ): Promise<void> {
+    const pool = await getEthUsdcPrice(provider, chainFor(chain), block.number);
+    if (generation !== this.generation) return;
+    this.chainState[chain] = { pool, block };
+
+    const { base, arbitrum } = this.chainState;
+    if (!base || !arbitrum) return;
+
+    this.publish('price-update', buildPriceUpdate(base.pool, arbitrum.pool, 'onchain', {
+      blocks: { base: base.block, arbitrum: arbitrum.block },
+    }));
+  }
+
+  /**
+   * Poll once, broadcast, and schedule the next poll after this one finishes
+   * (a slow RPC never causes overlapping polls)
+   *
+   * A stop() while nextUpdate() is pending ends this loop even if the hub has
+   * been restarted since: the restart runs its own loop
+   */
+  private async poll(generation: number): Promise<void> {
+    if (generation !== this.generation) return;
+
+    try {
+      const update = await this.nextUpdate();
+      if (generation !== this.generation) return;
+      this.publish('price-update', update);
+    } catch (error) {
+      if (generation !== this.generation) return;
+      console.error('Price hub poll error:', error);
+      this.publish('error', { message: 'Failed to fetch prices' });
+    }
+
+    this.pollTimer = setTimeout(() => void this.poll(generation), this.intervalMs);
+  }
+
+  private async nextUpdate(): Promise<PriceUpdate> {
+    if (this.source === 'simulated') return simulatedUpdate(this.getMarket());
+    if (this.source === 'replay') return this.nextReplayUpdate();
+
+    this.providers ??= {
+      base: getManagedProvider(chainFor('base')),
+      arbitrum: getManagedProvider(chainFor('arbitrum')),
+    };
+
+    try {
+      const [baseData, arbitrumData] = await readPools(this.providers);
+      return buildPriceUpdate(baseData, arbitrumData, 'onchain');
+    } catch (poolError) {
+      // Testnet pools missing or RPC down: keep the feed alive, tagged as simulated
+      console.warn('Price hub: onchain read failed, publishing simulated prices:', (poolError as Error).message);
+      return simulatedUpdate(this.getMarket());
+    }
+  }
+
+  private async nextReplayUpdate(): Promise<PriceUpdate> {
+    if (!this.replay) {
+      if (!this.options.replayFixture) {
+        throw new Error('PRICE_REPLAY_FIXTURE is required for the replay source');
+      }
+      this.replay = { fixture: await loadFixture(this.options.replayFixture), nextFrame: 0 };
+    }
+
+    const { fixture } = this.replay;
+    const frameIndex = this.replay.nextFrame;
+    this.replay.nextFrame = (frameIndex + 1) % fixture.frames.length;
+    return replayUpdate(fixture, frameIndex);
+  }
+
+  private getMarket(): SimulatedMarket {
+    this.market ??= new SimulatedMarket(this.options.simulation);
+    return this.market;
+  }
+
+  private publish(event: HubEvent['event'], data: unknown): void {
+    const hubEvent: HubEvent = { id: this.nextId++, event, data };
+    this.buffer.push(hubEvent);
+    if (this.buffer.length > REPLAY_BUFFER_SIZE) this.buffer.shift();
+
+    const chunk = encodeEvent(hubEvent);
+    this.subscribers.forEach(subscriber => this.deliver(subscriber, chunk));
+  }
+
+  private deliver(subscriber: Subscriber, chunk: Uint8Array): void {
+    if ((subscriber.controller.desiredSize ?? 0) > 0) {
+      subscriber.controller.enqueue(chunk);
+      subscriber.laggingSince = null;
+      return;
+    }
+
+    // Backed up: keep only the newest update
+    if (subscriber.pending) this.droppedUpdates++;
+    subscriber.pending = chunk;
+    subscriber.laggingSince ??= Date.now();
+
+    if (Date.now() - subscriber.laggingSince > MAX_LAG_MS) {
+      console.warn('Price hub: disconnecting slow client');
+      this.disconnectedSlowClients++;
+      this.unsubscribe(subscriber);
+      try {
+        subscriber.controller.close();
+      } catch {
+        // Already closed by the client
+      }
+    }
+  }
+
+  private heartbeat(): void {
+    const chunk = encoder.encode(`: heartbeat ${Date.now()}\n\n`);
+    this.subscribers.forEach(subscriber => {
+      // A backed-up client already has data in flight
+      if ((subscriber.controller.desiredSize ?? 0) > 0) {
+        subscriber.controller.enqueue(chunk);
+      }
+    });
+  }
+}
+
+// ============ Singleton ============
+
+// Survives Next.js dev-mode module reloads
+const globalForHub = globalThis as unknown as { priceHub?: PriceHub };
+
+export function getPriceHub(): PriceHub {
+  if (!globalForHub.priceHub) {
+    globalForHub.priceHub = new PriceHub(getPriceHubOptions());
+  }
+  return globalForHub.priceHub;
+}
+
+function getPriceHubOptions(): PriceHubOptions {
+  const env = process.env;
+  const source: DataSource = env.PRICE_SOURCE === 'simulated' || env.PRICE_SOURCE === 'replay'
+    ? env.PRICE_SOURCE
+    : 'onchain';
+
+  const simulation: Partial<SimulatedMarketConfig> = {};
+  if (env.SIM_MARKET_SEED) simulation.seed = Number(env.SIM_MARKET_SEED);
+  if (env.SIM_MARKET_START_PRICE) simulation.startPrice = Number(env.SIM_MARKET_START_PRICE);
+  if (env.SIM_MARKET_VOLATILITY_PCT) simulation.volatilityPct = Number(env.SIM_MARKET_VOLATILITY_PCT);
+
+  return {
+    mode: env.PRICE_HUB_MODE === 'blocks' ? 'blocks' : 'interval',
+    intervalMs: Number(env.PRICE_HUB_INTERVAL_MS) || DEFAULT_INTERVAL_MS,
+    source,
+    simulation,
+    replayFixture: env.PRICE_REPLAY_FIXTURE || undefined,
+  };
+}
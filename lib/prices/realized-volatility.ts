@@ -0,0 +1,126 @@
+/**
+ * Realized ETH Volatility
+ *
+ * Handles:
+ * - Realized ETH/USD volatility over the last few minutes from a Uniswap V3
+ *   pool's observe() oracle: one call returns the tick cumulatives at every
+ *   interval boundary, giving a series of interval-mean log prices
+ * - Volatility per √second, to scale to any horizon (bridge transit time)
+ *
+ * Interval means are smoother than point prices: for a random walk, the
+ * difference of two consecutive interval means has 2/3 of the variance of the
+ * point-to-point return, which is corrected for here.
+ *
+ * Like the reference price there is no hardcoded fallback; when the pool's
+ * observation history does not reach back over the lookback, the read fails.
+ *
+ * Config:
+ * - REALIZED_VOL_CHAIN          RPC chain of the pool (default arbitrum)
+ * - REALIZED_VOL_POOL           pool address (default: the chain's registered ETH/USDC pool)
+ * - REALIZED_VOL_INTERVAL_SEC   sampling interval (default 60)
+ * - REALIZED_VOL_SAMPLES        number of intervals (default 30, i.e. 30 minutes)
+ */
+
+import { ethers } from 'ethers';
+import { getManagedProvider } from '@/lib/rpc/provider-manager';
+import { getEthUsdcPool } from '@/lib/dex/uniswap';
+import { ChainName, parseChainName } from '@/lib/chains/registry';
+
+// ============ Types ============
+
+export interface VolatilityConfig {
+  chain: ChainName;
+  pool: string | null;          // null: the chain's registered ETH/USDC pool
+  intervalSec: number;
+  samples: number;
+}
+
+export interface RealizedVolatility {
+  chain: ChainName;
+  pool: string;
+  intervalSec: number;
+  samples: number;
+  lookbackSec: number;
+  sigmaPerSqrtSec: number;      // Std dev of log price change per √second
+  sigmaHourlyPct: number;       // Same, over one hour, in percent
+  measuredAt: number;
+}
+
+// ============ Constants ============
+
+const DEFAULT_INTERVAL_SEC = 60;
+const DEFAULT_SAMPLES = 30;
+const MAX_SAMPLES = 500;
+
+const LN_TICK = Math.log(1.0001);
+
+// Var(mean_i+1 - mean_i) = (2/3)·σ²·Δ for interval means of a random walk
+const INTERVAL_MEAN_VARIANCE_FACTOR = 2 / 3;
+
+const ORACLE_ABI = [
+  'function observe(uint32[] secondsAgos) external view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+];
+
+// ============ Config ============
+
+export function getVolatilityConfig(): VolatilityConfig {
+  return {
+    chain: parseChainName(process.env.REALIZED_VOL_CHAIN || 'arbitrum'),
+    pool: process.env.REALIZED_VOL_POOL || null,
+    intervalSec: Number(process.env.REALIZED_VOL_INTERVAL_SEC) || DEFAULT_INTERVAL_SEC,
+    samples: Math.min(Number(process.env.REALIZED_VOL_SAMPLES) || DEFAULT_SAMPLES, MAX_SAMPLES),
+  };
+}
+
+// ============ Measurement ============
+
+/**
+ * Realized volatility from interval-mean ticks (log prices, in tick units)
+ */
+export function volatilityFromMeanTicks(meanTicks: number[], intervalSec: number): number {
+  if (meanTicks.length < 3) throw new Error('At least 3 intervals are needed to measure volatility');
+
+  const returns = meanTicks.slice(1).map((tick, i) => (tick - meanTicks[i]) * LN_TICK);
+  const m = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - m) ** 2, 0) / (returns.length - 1);
+
+  return Math.sqrt(variance / (INTERVAL_MEAN_VARIANCE_FACTOR * intervalSec));
+}
+
+/**
+ * Measure realized volatility over the configured lookback
+ * @throws Error when the pool has no registered address or its history is too short
+ */
+export async function measureRealizedVolatility(
+  config: VolatilityConfig = getVolatilityConfig()
+): Promise<RealizedVolatility> {
+  const pool = config.pool ?? getEthUsdcPool(config.chain);
+  const oracle = new ethers.Contract(pool, ORACLE_ABI, getManagedProvider(config.chain));
+
+  // Oldest first: [samples·interval, ..., interval, 0] seconds ago
+  const secondsAgos = Array.from({ length: config.samples + 1 }, (_, i) => (config.samples - i) * config.intervalSec);
+
+  let tickCumulatives: bigint[];
+  try {
+    [tickCumulatives] = await oracle.observe(secondsAgos);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`observe() failed on ${config.chain} pool ${pool} over ${secondsAgos[0]}s: ${reason}`);
+  }
+
+  const meanTicks = tickCumulatives
+    .slice(1)
+    .map((cumulative, i) => Number(BigInt(cumulative) - BigInt(tickCumulatives[i])) / config.intervalSec);
+  const sigmaPerSqrtSec = volatilityFromMeanTicks(meanTicks, config.intervalSec);
+
+  return {
+    chain: config.chain,
+    pool,
+    intervalSec: config.intervalSec,
+    samples: config.samples,
+    lookbackSec: config.samples * config.intervalSec,
+    sigmaPerSqrtSec,
+    sigmaHourlyPct: sigmaPerSqrtSec * Math.sqrt(3600) * 100,
+    measuredAt: Date.now(),
+  };
+}
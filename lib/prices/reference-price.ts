@@ -0,0 +1,234 @@
+/**
+ * Reference ETH/USD Price
+ *
+ * Handles:
+ * - One ETH/USD price for every USD conversion of gas, MEV, bridge and
+ *   slippage costs (services/gasFeeService.js, functions/*, /api/estimate,
+ *   /api/simulation)
+ * - Pluggable sources tried in priority order:
+ *   - chainlink: an aggregator's latestRoundData (rejected when stale)
+ *   - pool:      a Uniswap V3 WETH/USDC pool's slot0
+ *   - replay:    backtest fixture frames (mean of both pools), one per interval, looping
+ * - Provenance of the price used (source, detail, observation time, and any
+ *   sources that failed before it)
+ *
+ * There is deliberately no hardcoded fallback: if every source fails, the
+ * caller fails instead of pricing costs at a made-up ETH price.
+ *
+ * Config:
+ * - REFERENCE_PRICE_SOURCES              priority list, e.g. "chainlink,pool" (default)
+ * - REFERENCE_PRICE_CHAINLINK_FEED       aggregator address (default: the chain's registered ETH/USD feed)
+ * - REFERENCE_PRICE_CHAINLINK_CHAIN      RPC chain of the feed (default ethereum)
+ * - REFERENCE_PRICE_MAX_AGE_SEC          max Chainlink round age (default 3600, the feed heartbeat)
+ * - REFERENCE_PRICE_POOL                 pool address (default: the chain's registered ETH/USDC pool)
+ * - REFERENCE_PRICE_POOL_CHAIN           RPC chain of the pool (default arbitrum)
+ * - REFERENCE_PRICE_REPLAY_FIXTURE       fixture name (default PRICE_REPLAY_FIXTURE)
+ * - REFERENCE_PRICE_REPLAY_INTERVAL_MS   time per frame (default PRICE_HUB_INTERVAL_MS, else 10000)
+ * - REFERENCE_PRICE_CACHE_MS             how long a price is reused (default 30000)
+ */
+
+import { ethers } from 'ethers';
+import { getManagedProvider } from '@/lib/rpc/provider-manager';
+import { multicall, unwrap } from '@/lib/rpc/multicall';
+import { getEthUsdcPool, sqrtPriceX96ToPrice } from '@/lib/dex/uniswap';
+import { CHAINS, parseChainName } from '@/lib/chains/registry';
+
+// ============ Types ============
+
+export type ReferencePriceSource = 'chainlink' | 'pool' | 'replay';
+
+export interface ReferencePrice {
+  priceUsd: number;
+  source: ReferencePriceSource;
+  detail: string;                 // Which feed / pool / fixture frame
+  observedAt: number;             // ms timestamp of the round, block or frame
+  fetchedAt: number;
+  skipped?: Array<{ source: ReferencePriceSource; error: string }>;  // Sources that failed first
+}
+
+type SourceQuote = Pick<ReferencePrice, 'priceUsd' | 'detail' | 'observedAt'>;
+
+// ============ Constants ============
+
+const DEFAULT_SOURCES: ReferencePriceSource[] = ['chainlink', 'pool'];
+
+const DEFAULT_MAX_AGE_SEC = 3600;
+
+const DEFAULT_REPLAY_INTERVAL_MS = 10_000;
+const DEFAULT_CACHE_MS = 30_000;
+
+const aggregatorInterface = new ethers.Interface([
+  'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function decimals() external view returns (uint8)',
+]);
+
+const poolInterface = new ethers.Interface([
+  'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function token0() external view returns (address)',
+  'function token1() external view returns (address)',
+]);
+
+const erc20Interface = new ethers.Interface(['function decimals() external view returns (uint8)']);
+
+// ============ Sources ============
+
+async function fetchChainlink(): Promise<SourceQuote> {
+  const chain = parseChainName(process.env.REFERENCE_PRICE_CHAINLINK_CHAIN || 'ethereum');
+  const feed = process.env.REFERENCE_PRICE_CHAINLINK_FEED || CHAINS[chain].ethUsdFeed;
+  if (!feed) throw new Error(`No Chainlink ETH/USD feed registered on ${chain}`);
+  const maxAgeSec = Number(process.env.REFERENCE_PRICE_MAX_AGE_SEC) || DEFAULT_MAX_AGE_SEC;
+
+  const { results } = await multicall(getManagedProvider(chain), [
+    { target: feed, iface: aggregatorInterface, method: 'latestRoundData' },
+    { target: feed, iface: aggregatorInterface, method: 'decimals' },
+  ]);
+  const round = unwrap(results[0], 'latestRoundData');
+  const decimals = Number(unwrap(results[1], 'decimals'));
+
+  const answer: bigint = round.answer;
+  if (answer <= BigInt(0)) throw new Error(`Chainlink feed ${feed} returned a non-positive answer`);
+
+  const updatedAt = Number(round.updatedAt) * 1000;
+  const ageSec = (Date.now() - updatedAt) / 1000;
+  if (ageSec > maxAgeSec) {
+    throw new Error(`Chainlink feed ${feed} is stale (${Math.round(ageSec)}s old, max ${maxAgeSec}s)`);
+  }
+
+  return {
+    priceUsd: Number(ethers.formatUnits(answer, decimals)),
+    detail: `Chainlink ETH/USD ${feed} on ${chain}, round ${round.roundId}`,
+    observedAt: updatedAt,
+  };
+}
+
+async function fetchPool(): Promise<SourceQuote> {
+  const chain = parseChainName(process.env.REFERENCE_PRICE_POOL_CHAIN || 'arbitrum');
+  const pool = process.env.REFERENCE_PRICE_POOL || getEthUsdcPool(chain);
+  const provider = getManagedProvider(chain);
+
+  const { blockNumber, results } = await multicall(provider, [
+    { target: pool, iface: poolInterface, method: 'slot0' },
+    { target: pool, iface: poolInterface, method: 'token0' },
+    { target: pool, iface: poolInterface, method: 'token1' },
+  ]);
+  const slot0 = unwrap(results[0], 'slot0');
+  const [token0, token1]: string[] = [unwrap(results[1], 'token0'), unwrap(results[2], 'token1')];
+
+  const { results: decimalResults } = await multicall(provider, [
+    { target: token0, iface: erc20Interface, method: 'decimals' },
+    { target: token1, iface: erc20Interface, method: 'decimals' },
+  ], blockNumber);
+  const decimals0 = Number(unwrap(decimalResults[0], 'token0 decimals'));
+  const decimals1 = Number(unwrap(decimalResults[1], 'token1 decimals'));
+
+  // WETH is the 18-decimal side (same convention as the backtest fixtures)
+  const wethIsToken0 = decimals0 === 18;
+  const priceUsd = sqrtPriceX96ToPrice(slot0.sqrtPriceX96, decimals0, decimals1, !wethIsToken0);
+
+  return {
+    priceUsd,
+    detail: `Uniswap V3 pool ${pool} on ${chain}, block ${blockNumber}`,
+    observedAt: Date.now(),
+  };
+}
+
+let replayStartedAt: number | null = null;
+
+async function fetchReplay(): Promise<SourceQuote> {
+  const name = process.env.REFERENCE_PRICE_REPLAY_FIXTURE || process.env.PRICE_REPLAY_FIXTURE;
+  if (!name) throw new Error('REFERENCE_PRICE_REPLAY_FIXTURE is required for the replay source');
+  const intervalMs = Number(process.env.REFERENCE_PRICE_REPLAY_INTERVAL_MS)
+    || Number(process.env.PRICE_HUB_INTERVAL_MS)
+    || DEFAULT_REPLAY_INTERVAL_MS;
+
+  // Loaded lazily so the live sources never pull in the backtest code
+  const { loadFixture } = await import('@/lib/backtest/fixtures');
+  const { fixturePoolState } = await import('@/lib/backtest/backtester');
+  const fixture = await loadFixture(name);
+
+  if (replayStartedAt === null) replayStartedAt = Date.now();
+  const frameIndex = Math.floor((Date.now() - replayStartedAt) / intervalMs) % fixture.frames.length;
+  const frame = fixture.frames[frameIndex];
+
+  const base = fixturePoolState(frame.base).price;
+  const arbitrum = fixturePoolState(frame.arbitrum).price;
+
+  return {
+    priceUsd: (base + arbitrum) / 2,
+    detail: `Fixture ${fixture.name} frame ${frameIndex}`,
+    observedAt: typeof frame.timestamp === 'number' ? frame.timestamp : Date.parse(frame.timestamp),
+  };
+}
+
+const SOURCES: Record<ReferencePriceSource, () => Promise<SourceQuote>> = {
+  chainlink: fetchChainlink,
+  pool: fetchPool,
+  replay: fetchReplay,
+};
+
+// ============ Public API ============
+
+/**
+ * Configured source priority (unknown names are rejected)
+ */
+export function getReferencePriceSources(): ReferencePriceSource[] {
+  const configured = process.env.REFERENCE_PRICE_SOURCES;
+  if (!configured) return DEFAULT_SOURCES;
+
+  return configured.split(',').map(s => s.trim()).filter(Boolean).map(name => {
+    if (!(name in SOURCES)) {
+      throw new Error(`Unknown reference price source: ${name} (available: ${Object.keys(SOURCES).join(', ')})`);
+    }
+    return name as ReferencePriceSource;
+  });
+}
+
+/**
+ * Fetch from the first source that succeeds, in priority order
+ * @throws Error listing every source's failure when none succeeds
+ */
+export async function fetchReferenceEthPrice(
+  sources: ReferencePriceSource[] = getReferencePriceSources()
+): Promise<ReferencePrice> {
+  const skipped: NonNullable<ReferencePrice['skipped']> = [];
+
+  for (const source of sources) {
+    try {
+      const quote = await SOURCES[source]();
+      if (!Number.isFinite(quote.priceUsd) || quote.priceUsd <= 0) {
+        throw new Error(`Invalid price ${quote.priceUsd}`);
+      }
+      return {
+        ...quote,
+        source,
+        fetchedAt: Date.now(),
+        ...(skipped.length > 0 && { skipped }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Reference price source ${source} failed: ${message}`);
+      skipped.push({ source, error: message });
+    }
+  }
+
+  throw new Error(
+    `No reference ETH price available (${skipped.map(s => `${s.source}: ${s.error}`).join('; ') || 'no sources configured'})`
+  );
+}
+
+let cached: { at: number; result: Promise<ReferencePrice> } | null = null;
+
+/**
+ * Reference ETH/USD price, shared by callers within REFERENCE_PRICE_CACHE_MS
+ */
+export function getReferenceEthPrice(): Promise<ReferencePrice> {
+  const cacheMs = Number(process.env.REFERENCE_PRICE_CACHE_MS) || DEFAULT_CACHE_MS;
+  if (cached && Date.now() - cached.at < cacheMs) return cached.result;
+
+  const result = fetchReferenceEthPrice();
+  cached = { at: Date.now(), result };
+  result.catch(() => {
+    cached = null;
+  });
+  return result;
+}
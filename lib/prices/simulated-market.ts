@@ -0,0 +1,135 @@
+/**
+ * Simulated Market
+ *
+ * Handles:
+ * - Data provenance tags for every price payload (onchain / simulated / replay)
+ * - A seeded PRNG, so simulated data is reproducible from its seed
+ * - A deterministic Base/Arbitrum ETH price feed: a shared random walk plus a
+ *   cross-chain spread drawn from switching spread regimes
+ *
+ * No Node or RPC imports: used by the server price hub and by client
+ * components that render synthetic data.
+ */
+
+// ============ Types ============
+
+/** Where a price came from. Anything but 'onchain' must be badged in the UI. */
+export type DataSource = 'onchain' | 'simulated' | 'replay';
+
+export interface SpreadRegime {
+  name: string;
+  minSpreadPct: number;           // Cross-chain spread range while in this regime
+  maxSpreadPct: number;
+  meanDurationTicks: number;      // Expected ticks before switching regime
+  weight?: number;                // Relative chance of being switched into (default 1)
+}
+
+export interface SimulatedMarketConfig {
+  seed: number;
+  startPrice: number;             // Initial Base ETH price (USD)
+  volatilityPct: number;          // Std dev of the per-tick price move, in percent
+  regimes: SpreadRegime[];
+}
+
+export interface SimulatedTick {
+  tick: number;
+  base: number;
+  arbitrum: number;
+  spreadPct: number;              // Signed: positive when Arbitrum is above Base
+  regime: string;
+}
+
+// ============ Constants ============
+
+export const DEFAULT_SPREAD_REGIMES: SpreadRegime[] = [
+  { name: 'calm', minSpreadPct: 0.02, maxSpreadPct: 0.1, meanDurationTicks: 30, weight: 3 },
+  { name: 'normal', minSpreadPct: 0.1, maxSpreadPct: 0.3, meanDurationTicks: 20, weight: 2 },
+  { name: 'dislocated', minSpreadPct: 0.5, maxSpreadPct: 1.5, meanDurationTicks: 6, weight: 1 },
+];
+
+export const DEFAULT_SIMULATED_MARKET: SimulatedMarketConfig = {
+  seed: 42,
+  startPrice: 2475,
+  volatilityPct: 0.05,
+  regimes: DEFAULT_SPREAD_REGIMES,
+};
+
+// ============ PRNG ============
+
+/**
+ * mulberry32: small, fast, seedable PRNG returning floats in [0, 1)
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal sample (Box-Muller) */
+function gaussian(rng: () => number): number {
+  const u = 1 - rng();              // (0, 1] so log() is finite
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// ============ Market ============
+
+export class SimulatedMarket {
+  readonly config: SimulatedMarketConfig;
+  private readonly rng: () => number;
+  private price: number;
+  private regimeIndex = 0;
+  private spreadSign = 1;
+  private tickCount = 0;
+
+  constructor(config: Partial<SimulatedMarketConfig> = {}) {
+    this.config = { ...DEFAULT_SIMULATED_MARKET, ...config };
+    if (this.config.regimes.length === 0) {
+      throw new Error('Simulated market needs at least one spread regime');
+    }
+    this.rng = createRng(this.config.seed);
+    this.price = this.config.startPrice;
+  }
+
+  /**
+   * Advance one tick. The same seed and config always yield the same sequence.
+   */
+  next(): SimulatedTick {
+    const { volatilityPct, regimes } = this.config;
+
+    this.price *= 1 + (volatilityPct / 100) * gaussian(this.rng);
+
+    const current = regimes[this.regimeIndex];
+    if (this.rng() < 1 / Math.max(1, current.meanDurationTicks)) {
+      this.regimeIndex = this.pickRegime();
+      this.spreadSign = this.rng() < 0.5 ? -1 : 1;
+    }
+
+    const regime = regimes[this.regimeIndex];
+    const spreadPct = this.spreadSign * (regime.minSpreadPct + this.rng() * (regime.maxSpreadPct - regime.minSpreadPct));
+
+    return {
+      tick: this.tickCount++,
+      base: this.price,
+      arbitrum: this.price * (1 + spreadPct / 100),
+      spreadPct,
+      regime: regime.name,
+    };
+  }
+
+  private pickRegime(): number {
+    const { regimes } = this.config;
+    const total = regimes.reduce((sum, r) => sum + (r.weight ?? 1), 0);
+    let roll = this.rng() * total;
+    for (let i = 0; i < regimes.length; i++) {
+      roll -= regimes[i].weight ?? 1;
+      if (roll < 0) return i;
+    }
+    return regimes.length - 1;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Multicall3 Batching
+ *
+ * Handles:
+ * - Many contract reads in one eth_call via Multicall3.aggregate3
+ * - Pinning every call of a batch to a single block (resolved once if not given)
+ * - Per-call failure (a reverting call does not fail the batch)
+ * - Fallback to individual calls at the same block where Multicall3 is not
+ *   deployed (e.g. a bare local Hardhat/Anvil node)
+ *
+ * Multicall3 lives at the same address on Base, Arbitrum, their Sepolia
+ * testnets and Ethereum mainnet.
+ */
+
+import { ethers } from 'ethers';
+
+// ============ Types ============
+
+export interface MulticallCall {
+  target: string;
+  iface: ethers.Interface;
+  method: string;
+  args?: readonly unknown[];
+}
+
+export interface MulticallCallResult {
+  success: boolean;
+  /** Decoded output: the value itself for single-output functions (like Contract calls), else the Result */
+  value: any;
+  error?: string;
+}
+
+export interface MulticallResponse {
+  blockNumber: number;
+  results: MulticallCallResult[];
+}
+
+// ============ Constants ============
+
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+];
+
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+
+/** Calls per aggregate3 request; larger batches are split (same block) */
+const MAX_CALLS_PER_BATCH = 500;
+
+// Whether Multicall3 is deployed, per provider (checked once)
+const multicallAvailable = new WeakMap<ethers.Provider, Promise<boolean>>();
+
+// ============ Helpers ============
+
+function decode(call: MulticallCall, data: string): MulticallCallResult {
+  try {
+    const result = call.iface.decodeFunctionResult(call.method, data);
+    return { success: true, value: result.length === 1 ? result[0] : result };
+  } catch (error) {
+    return { success: false, value: null, error: error instanceof Error ? error.message : 'Decode failed' };
+  }
+}
+
+function hasMulticall(provider: ethers.Provider): Promise<boolean> {
+  let available = multicallAvailable.get(provider);
+  if (!available) {
+    available = provider.getCode(MULTICALL3_ADDRESS).then(code => code !== '0x', () => false);
+    multicallAvailable.set(provider, available);
+  }
+  return available;
+}
+
+async function aggregate(provider: ethers.Provider, calls: MulticallCall[], blockTag: number): Promise<MulticallCallResult[]> {
+  const data = multicallInterface.encodeFunctionData('aggregate3', [
+    calls.map(call => ({
+      target: call.target,
+      allowFailure: true,
+      callData: call.iface.encodeFunctionData(call.method, call.args ?? []),
+    })),
+  ]);
+
+  const raw = await provider.call({ to: MULTICALL3_ADDRESS, data, blockTag });
+  const [returnData] = multicallInterface.decodeFunctionResult('aggregate3', raw);
+
+  return calls.map((call, i) => {
+    const { success, returnData: callData } = returnData[i];
+    return success ? decode(call, callData) : { success: false, value: null, error: 'Call reverted' };
+  });
+}
+
+async function callIndividually(provider: ethers.Provider, calls: MulticallCall[], blockTag: number): Promise<MulticallCallResult[]> {
+  return Promise.all(calls.map(async call => {
+    try {
+      const data = call.iface.encodeFunctionData(call.method, call.args ?? []);
+      return decode(call, await provider.call({ to: call.target, data, blockTag }));
+    } catch (error) {
+      return { success: false, value: null, error: error instanceof Error ? error.message : 'Call failed' };
+    }
+  }));
+}
+
+// ============ Public API ============
+
+/**
+ * Execute read calls in one round-trip, all at the same block
+ *
+ * @param blockTag - Block to read at (default: latest, resolved once)
+ * @returns Results in call order, plus the block they were read at
+ */
+export async function multicall(
+  provider: ethers.Provider,
+  calls: MulticallCall[],
+  blockTag?: number
+): Promise<MulticallResponse> {
+  const blockNumber = blockTag ?? await provider.getBlockNumber();
+  if (calls.length === 0) return { blockNumber, results: [] };
+
+  const send = (await hasMulticall(provider)) ? aggregate : callIndividually;
+
+  const chunks: MulticallCall[][] = [];
+  for (let i = 0; i < calls.length; i += MAX_CALLS_PER_BATCH) {
+    chunks.push(calls.slice(i, i + MAX_CALLS_PER_BATCH));
+  }
+  const results = await Promise.all(chunks.map(chunk => send(provider, chunk, blockNumber)));
+
+  return { blockNumber, results: results.flat() };
+}
+
+/**
+ * Value of a successful call, or throw with the call's label
+ */
+export function unwrap(result: MulticallCallResult, label: string): any {
+  if (!result.success) throw new Error(`${label} failed: ${result.error ?? 'unknown error'}`);
+  return result.value;
+}
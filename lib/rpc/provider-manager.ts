@@ -0,0 +1,420 @@
+/**
+ * RPC Provider Manager
+ *
+ * Handles:
+ * - An ordered list of RPC endpoints per chain, with failover between them
+ * - Health scoring (success EWMA) and exponential backoff for failing endpoints
+ * - Per-endpoint rate limits (token bucket)
+ * - Short-TTL caching (and in-flight dedupe) of read calls
+ * - Latency / error / cache metrics per endpoint (getRpcMetrics)
+ *
+ * getManagedProvider(chain) returns a shared ethers JsonRpcProvider whose
+ * transport goes through the manager, so existing call sites keep working.
+ *
+ * Chains, IDs and default endpoints come from lib/chains/registry.ts.
+ *
+ * Config (per chain prefix from the registry, e.g. BASE_SEPOLIA, ARBITRUM, MAINNET):
+ * - <PREFIX>_RPC_URLS   comma-separated endpoints in priority order; an
+ *                       optional "|<rps>" suffix sets that endpoint's rate limit
+ * - <PREFIX>_RPC_URL    single endpoint (used alone, no public failover)
+ * - RPC_MAX_RPS         default per-endpoint rate limit (default 10)
+ * - RPC_CACHE_TTL_MS    read cache TTL (default 2000, 0 disables)
+ */
+
+import { ethers } from 'ethers';
+import { CHAINS, ChainName } from '@/lib/chains/registry';
+
+// ============ Types ============
+
+export type RpcChain = ChainName;
+
+export interface RpcManagerOptions {
+  maxAttempts: number;            // Attempts per request across all endpoints
+  requestTimeoutMs: number;
+  baseBackoffMs: number;          // First endpoint cooldown; doubles per consecutive failure
+  maxBackoffMs: number;
+  cacheTtlMs: number;
+  maxRequestsPerSecond: number;   // Default per-endpoint rate limit
+}
+
+export interface RpcEndpointMetrics {
+  url: string;
+  requests: number;
+  failures: number;
+  rateLimited: number;            // Failures that were rate-limit responses
+  consecutiveFailures: number;
+  health: number;                 // 0-1, EWMA of request success
+  avgLatencyMs: number | null;    // EWMA over successful requests
+  lastError: string | null;
+  backoffUntil: number | null;    // ms timestamp, while cooling down
+  maxRequestsPerSecond: number;
+}
+
+export interface RpcChainMetrics {
+  chain: RpcChain;
+  chainId: number;
+  endpoints: RpcEndpointMetrics[];
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+// ============ Constants ============
+
+const DEFAULT_OPTIONS: RpcManagerOptions = {
+  maxAttempts: 3,
+  requestTimeoutMs: 10_000,
+  baseBackoffMs: 1_000,
+  maxBackoffMs: 60_000,
+  cacheTtlMs: 2_000,
+  maxRequestsPerSecond: 10,
+};
+
+/** Read-only methods whose results may be served from the short-TTL cache */
+const CACHEABLE_METHODS = new Set([
+  'eth_chainId',
+  'eth_blockNumber',
+  'eth_call',
+  'eth_getBalance',
+  'eth_getCode',
+  'eth_getStorageAt',
+  'eth_getBlockByNumber',
+  'eth_getBlockByHash',
+  'eth_getTransactionReceipt',
+  'eth_gasPrice',
+  'eth_maxPriorityFeePerGas',
+  'eth_feeHistory',
+]);
+
+const MAX_CACHE_ENTRIES = 500;
+const HEALTH_DECAY = 0.8;             // EWMA weight of history
+const UNHEALTHY_BELOW = 0.5;          // Unhealthy endpoints are tried after healthy ones
+
+// ============ Errors ============
+
+export class RpcTransportError extends Error {
+  constructor(message: string, readonly rateLimited: boolean = false) {
+    super(message);
+    this.name = 'RpcTransportError';
+  }
+}
+
+// ============ Helpers ============
+
+type JsonRpcResponse = ethers.JsonRpcResult | ethers.JsonRpcError;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isRateLimitError(response: JsonRpcResponse): boolean {
+  if (!('error' in response)) return false;
+  return response.error.code === -32005 || /rate limit|too many requests/i.test(response.error.message ?? '');
+}
+
+// ============ Endpoint ============
+
+class RpcEndpoint {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private stats = {
+    requests: 0,
+    failures: 0,
+    rateLimited: 0,
+    consecutiveFailures: 0,
+    health: 1,
+    avgLatencyMs: null as number | null,
+    lastError: null as string | null,
+  };
+  backoffUntil = 0;
+
+  constructor(readonly url: string, readonly maxRequestsPerSecond: number) {
+    this.tokens = maxRequestsPerSecond;
+  }
+
+  get health(): number {
+    return this.stats.health;
+  }
+
+  coolingDown(now: number): boolean {
+    return this.backoffUntil > now;
+  }
+
+  /** Take a rate-limit token; returns ms to wait if none is available */
+  tryAcquire(now: number): number {
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.maxRequestsPerSecond, this.tokens + elapsed * this.maxRequestsPerSecond);
+    this.lastRefill = now;
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.maxRequestsPerSecond) * 1000);
+  }
+
+  async send(payload: ethers.JsonRpcPayload, timeoutMs: number): Promise<JsonRpcResponse> {
+    let res: Response;
+    try {
+      res = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(timeoutMs),
+        cache: 'no-store',
+      });
+    } catch (error) {
+      throw new RpcTransportError(error instanceof Error ? error.message : 'Request failed');
+    }
+
+    if (res.status === 429) throw new RpcTransportError('HTTP 429', true);
+    if (!res.ok) throw new RpcTransportError(`HTTP ${res.status}`);
+
+    let body: any;
+    try {
+      body = await res.json();
+    } catch {
+      throw new RpcTransportError('Invalid JSON-RPC response');
+    }
+    if (!body || typeof body !== 'object' || (!('result' in body) && !('error' in body))) {
+      throw new RpcTransportError('Invalid JSON-RPC response');
+    }
+
+    const response = body as JsonRpcResponse;
+    if (isRateLimitError(response)) {
+      throw new RpcTransportError(('error' in response && response.error.message) || 'Rate limited', true);
+    }
+    return response;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    const s = this.stats;
+    s.requests++;
+    s.consecutiveFailures = 0;
+    s.health = s.health * HEALTH_DECAY + (1 - HEALTH_DECAY);
+    s.avgLatencyMs = s.avgLatencyMs === null ? latencyMs : s.avgLatencyMs * HEALTH_DECAY + latencyMs * (1 - HEALTH_DECAY);
+    this.backoffUntil = 0;
+  }
+
+  recordFailure(error: Error, options: RpcManagerOptions): void {
+    const s = this.stats;
+    s.requests++;
+    s.failures++;
+    s.consecutiveFailures++;
+    if (error instanceof RpcTransportError && error.rateLimited) s.rateLimited++;
+    s.health = s.health * HEALTH_DECAY;
+    s.lastError = error.message;
+
+    const cooldown = Math.min(options.maxBackoffMs, options.baseBackoffMs * Math.pow(2, s.consecutiveFailures - 1));
+    this.backoffUntil = Date.now() + cooldown;
+  }
+
+  metrics(): RpcEndpointMetrics {
+    return {
+      url: this.url,
+      ...this.stats,
+      backoffUntil: this.coolingDown(Date.now()) ? this.backoffUntil : null,
+      maxRequestsPerSecond: this.maxRequestsPerSecond,
+    };
+  }
+}
+
+// ============ Manager ============
+
+export class RpcProviderManager {
+  private readonly endpoints: RpcEndpoint[];
+  private readonly options: RpcManagerOptions;
+  private readonly cache = new Map<string, { expires: number; response: JsonRpcResponse }>();
+  private readonly inFlight = new Map<string, Promise<JsonRpcResponse>>();
+  private cacheHits = 0;
+  private cacheMisses = 0;
+
+  /**
+   * @param urls - Endpoints in priority order; "url|rps" overrides the rate limit
+   */
+  constructor(readonly chain: RpcChain, urls: string[], options: Partial<RpcManagerOptions> = {}) {
+    if (urls.length === 0) throw new Error(`No RPC endpoints configured for ${chain}`);
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.endpoints = urls.map(entry => {
+      const [url, rps] = entry.split('|');
+      return new RpcEndpoint(url.trim(), Number(rps) || this.options.maxRequestsPerSecond);
+    });
+  }
+
+  /**
+   * Send one JSON-RPC request, served from cache or with failover across endpoints.
+   * JSON-RPC errors (e.g. reverts) are returned as-is; only transport failures fail over.
+   */
+  async request(payload: ethers.JsonRpcPayload): Promise<JsonRpcResponse> {
+    const key = this.cacheKey(payload);
+    if (!key) return this.sendWithFailover(payload);
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expires > Date.now()) {
+      this.cacheHits++;
+      return { ...cached.response, id: payload.id };
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.cacheHits++;
+      return { ...(await pending), id: payload.id };
+    }
+
+    this.cacheMisses++;
+    const promise = this.sendWithFailover(payload);
+    this.inFlight.set(key, promise);
+    try {
+      const response = await promise;
+      // Errors and nulls (e.g. a receipt not mined yet) are not cached
+      if ('result' in response && response.result !== null) {
+        this.cache.delete(key);
+        this.cache.set(key, { expires: Date.now() + this.options.cacheTtlMs, response });
+        if (this.cache.size > MAX_CACHE_ENTRIES) {
+          this.cache.delete(this.cache.keys().next().value as string);
+        }
+      }
+      return response;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  metrics(): RpcChainMetrics {
+    return {
+      chain: this.chain,
+      chainId: CHAINS[this.chain].chainId,
+      endpoints: this.endpoints.map(e => e.metrics()),
+      cacheHits: this.cacheHits,
+      cacheMisses: this.cacheMisses,
+    };
+  }
+
+  // ============ Internals ============
+
+  private cacheKey(payload: ethers.JsonRpcPayload): string | null {
+    if (this.options.cacheTtlMs <= 0 || !CACHEABLE_METHODS.has(payload.method)) return null;
+    const params = JSON.stringify(payload.params ?? []);
+    if (params.includes('"pending"')) return null;
+    return `${payload.method}:${params}`;
+  }
+
+  private async sendWithFailover(payload: ethers.JsonRpcPayload): Promise<JsonRpcResponse> {
+    const tried = new Set<RpcEndpoint>();
+    let lastError: Error = new RpcTransportError('No attempts made');
+
+    for (let attempt = 0; attempt < this.options.maxAttempts; attempt++) {
+      // Fail over immediately while there are untried endpoints, otherwise back off
+      if (attempt > 0 && tried.size >= this.endpoints.length) {
+        await sleep(Math.min(this.options.maxBackoffMs, this.options.baseBackoffMs * Math.pow(2, attempt - 1)));
+      }
+
+      const endpoint = await this.acquireEndpoint(tried);
+      const startedAt = Date.now();
+      try {
+        const response = await endpoint.send(payload, this.options.requestTimeoutMs);
+        endpoint.recordSuccess(Date.now() - startedAt);
+        return response;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        endpoint.recordFailure(lastError, this.options);
+        tried.add(endpoint);
+        console.warn(`RPC ${this.chain}: ${endpoint.url} failed (${lastError.message})`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Best available endpoint: not cooling down (unless all are), untried, healthy,
+   * then list order. Waits when every candidate is at its rate limit.
+   */
+  private async acquireEndpoint(tried: Set<RpcEndpoint>): Promise<RpcEndpoint> {
+    for (;;) {
+      const now = Date.now();
+      const available = this.endpoints.filter(e => !e.coolingDown(now));
+      const candidates = available.length > 0 ? available : this.endpoints;
+      const ranked = candidates
+        .map(endpoint => ({ endpoint, index: this.endpoints.indexOf(endpoint) }))
+        .sort((a, b) =>
+          Number(tried.has(a.endpoint)) - Number(tried.has(b.endpoint)) ||
+          Number(a.endpoint.health < UNHEALTHY_BELOW) - Number(b.endpoint.health < UNHEALTHY_BELOW) ||
+          a.index - b.index
+        );
+
+      let wait = Infinity;
+      for (const { endpoint } of ranked) {
+        const ms = endpoint.tryAcquire(now);
+        if (ms === 0) return endpoint;
+        wait = Math.min(wait, ms);
+      }
+      await sleep(wait);
+    }
+  }
+}
+
+// ============ Provider ============
+
+/**
+ * ethers JsonRpcProvider whose transport is an RpcProviderManager
+ */
+export class ManagedJsonRpcProvider extends ethers.JsonRpcProvider {
+  constructor(readonly manager: RpcProviderManager) {
+    const network = ethers.Network.from(CHAINS[manager.chain].chainId);
+    super(undefined, network, { staticNetwork: network, batchMaxCount: 1 });
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    // ethers maps JsonRpcError entries to errors itself; its signature just says JsonRpcResult
+    return Promise.all(payloads.map(p => this.manager.request(p))) as Promise<Array<ethers.JsonRpcResult>>;
+  }
+}
+
+// ============ Registry ============
+
+/**
+ * Configured endpoints for a chain, in priority order
+ */
+export function getRpcUrls(chain: RpcChain): string[] {
+  const prefix = CHAINS[chain].rpcEnvPrefix;
+  const list = process.env[`${prefix}_RPC_URLS`];
+  if (list) return list.split(',').map(url => url.trim()).filter(Boolean);
+
+  // An explicitly configured single endpoint (e.g. a local fork) must not
+  // silently fail over to a public one
+  const single = process.env[`${prefix}_RPC_URL`];
+  if (single) return [single];
+
+  return CHAINS[chain].rpcUrls;
+}
+
+// Survives Next.js dev-mode module reloads
+const globalForRpc = globalThis as unknown as { rpcProviders?: Map<RpcChain, ManagedJsonRpcProvider> };
+
+/**
+ * Shared managed provider for a chain
+ */
+export function getManagedProvider(chain: RpcChain): ManagedJsonRpcProvider {
+  globalForRpc.rpcProviders ??= new Map();
+  let provider = globalForRpc.rpcProviders.get(chain);
+  if (!provider) {
+    provider = new ManagedJsonRpcProvider(new RpcProviderManager(chain, getRpcUrls(chain), {
+      maxRequestsPerSecond: Number(process.env.RPC_MAX_RPS) || DEFAULT_OPTIONS.maxRequestsPerSecond,
+      cacheTtlMs: process.env.RPC_CACHE_TTL_MS !== undefined ? Number(process.env.RPC_CACHE_TTL_MS) : DEFAULT_OPTIONS.cacheTtlMs,
+    }));
+    globalForRpc.rpcProviders.set(chain, provider);
+  }
+  return provider;
+}
+
+/**
+ * Metrics for every chain whose provider has been created
+ */
+export function getRpcMetrics(): RpcChainMetrics[] {
+  const providers = globalForRpc.rpcProviders;
+  if (!providers) return [];
+  const metrics: RpcChainMetrics[] = [];
+  providers.forEach(provider => metrics.push(provider.manager.metrics()));
+  return metrics;
+}
@@ -0,0 +1,269 @@
+/**
+ * End-to-end cross-chain flow on two local Hardhat chains
+ *
+ * Start the chains (separate terminals):
+ *   npx hardhat node --port 8545
+ *   HARDHAT_CHAIN_ID=31338 npx hardhat node --port 8546
+ *
+ * Then:
+ *   npm run e2e:cross-chain
+ *
+ * Deploys mock USDC / WETH, a fixed-rate swap router and MockBridge on both
+ * chains (reused on later runs), runs an in-process relayer that fills every
+ * deposit on the destination, and drives a flow through lib/execution/orchestrator.ts.
+ *
+ * Env:
+ * - SOURCE_RPC_URL        default http://127.0.0.1:8545
+ * - DESTINATION_RPC_URL   default http://127.0.0.1:8546
+ * - FLOW_AMOUNT_USDC      source swap input (default 3000)
+ * - CRASH_AFTER           exit right after a transition is persisted, to test resume:
+ *                         "<step>" (once confirmed) or "<step>:submitted" (signed, not yet sent)
+ * - RELAYER_DELAY_MS      delay before each fill (default 2000)
+ * - RELAYER_DISABLED=1    never fill, to test the fill timeout
+ * - RETRY_FLOW            id of a failed flow to retry instead of starting a new one
+ *
+ * Re-running resumes any flow left running (e.g. after CRASH_AFTER) before
+ * starting a new one.
+ */
+
+import { artifacts } from "hardhat";
+import { ethers } from "ethers";
+import { promises as fs } from "fs";
+import path from "path";
+import { createFlow, runFlow, resumeFlows, retryFlow, getOrchestratorOptions, FlowSigners } from "../lib/execution/orchestrator";
+import { MOCK_BRIDGE_ABI } from "../lib/execution/bridges";
+import { CrossChainFlow, FlowPlan } from "../lib/execution/flow-store";
+
+// Hardhat's default accounts #0 (trader) and #1 (relayer)
+const TRADER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const RELAYER_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+const SOURCE_PRICE_USD = 3000;        // USDC → WETH on the source chain
+const DESTINATION_PRICE_USD = 3010;   // WETH → USDC on the destination chain
+const BRIDGE_FEE_BPS = 5;
+const POOL_FEE = 3000;
+
+interface ChainDeployment {
+  chainId: number;
+  usdc: string;
+  weth: string;
+  router: string;
+  bridge: string;
+}
+
+const DEPLOYMENT_FILE = path.join(process.cwd(), "data", "cross-chain-local.json");
+
+async function deployContract(name: string, wallet: ethers.Wallet, args: unknown[]): Promise<string> {
+  const artifact = await artifacts.readArtifact(name);
+  const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, wallet);
+  const contract = await factory.deploy(...args);
+  await contract.waitForDeployment();
+  return contract.getAddress();
+}
+
+async function deployChain(wallet: ethers.Wallet): Promise<ChainDeployment> {
+  const { chainId } = await wallet.provider!.getNetwork();
+  return {
+    chainId: Number(chainId),
+    usdc: await deployContract("MockERC20", wallet, ["USD Coin", "USDC", 6]),
+    weth: await deployContract("MockERC20", wallet, ["Wrapped Ether", "WETH", 18]),
+    router: await deployContract("MockSwapRouter", wallet, []),
+    bridge: await deployContract("MockBridge", wallet, [BRIDGE_FEE_BPS]),
+  };
+}
+
+async function isDeployed(provider: ethers.Provider, deployment: ChainDeployment): Promise<boolean> {
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== deployment.chainId) return false;
+  return (await provider.getCode(deployment.bridge)) !== "0x";
+}
+
+/**
+ * Deploy and fund both chains, or reuse the previous run's contracts
+ */
+async function setup(trader: FlowSigners, relayer: ethers.Wallet) {
+  const saved = await fs.readFile(DEPLOYMENT_FILE, "utf8").then(JSON.parse).catch(() => null);
+  if (
+    saved &&
+    (await isDeployed(trader.source.provider!, saved.source)) &&
+    (await isDeployed(trader.destination.provider!, saved.destination))
+  ) {
+    console.log(" Reusing contracts from", DEPLOYMENT_FILE);
+    return saved as { source: ChainDeployment; destination: ChainDeployment };
+  }
+
+  console.log(" Deploying mocks on both chains");
+  const sourceWallet = trader.source as ethers.Wallet;
+  const destinationWallet = trader.destination as ethers.Wallet;
+  const source = await deployChain(sourceWallet);
+  const destination = await deployChain(destinationWallet);
+
+  const erc20 = (address: string, wallet: ethers.Wallet) =>
+    new ethers.Contract(address, ["function mint(address to, uint256 amount)", "function approve(address spender, uint256 amount) returns (bool)"], wallet);
+  const router = (address: string, wallet: ethers.Wallet) =>
+    new ethers.Contract(address, ["function setRate(address tokenIn, address tokenOut, uint256 rate)"], wallet);
+
+  // Source: trader holds USDC, router sells WETH
+  await (await erc20(source.usdc, sourceWallet).mint(sourceWallet.address, ethers.parseUnits("1000000", 6))).wait();
+  await (await erc20(source.weth, sourceWallet).mint(source.router, ethers.parseEther("1000"))).wait();
+  await (await router(source.router, sourceWallet).setRate(
+    source.usdc,
+    source.weth,
+    ethers.parseUnits("1", 30) / BigInt(SOURCE_PRICE_USD)   // 1e-6 USDC units → 1/price ETH
+  )).wait();
+
+  // Destination: router buys WETH for USDC, relayer fronts WETH for fills
+  await (await erc20(destination.usdc, destinationWallet).mint(destination.router, ethers.parseUnits("10000000", 6))).wait();
+  await (await erc20(destination.weth, destinationWallet).mint(relayer.address, ethers.parseEther("1000"))).wait();
+  await (await router(destination.router, destinationWallet).setRate(
+    destination.weth,
+    destination.usdc,
+    ethers.parseUnits(String(DESTINATION_PRICE_USD), 6)
+  )).wait();
+  await (await erc20(destination.weth, relayer).approve(destination.bridge, ethers.MaxUint256)).wait();
+
+  const deployment = { source, destination };
+  await fs.mkdir(path.dirname(DEPLOYMENT_FILE), { recursive: true });
+  await fs.writeFile(DEPLOYMENT_FILE, JSON.stringify(deployment, null, 2));
+  return deployment;
+}
+
+/**
+ * Fill every unfilled deposit on the source bridge (polling)
+ */
+function startRelayer(
+  sourceProvider: ethers.Provider,
+  relayer: ethers.Wallet,
+  deployment: { source: ChainDeployment; destination: ChainDeployment }
+): () => void {
+  const sourceBridge = new ethers.Contract(deployment.source.bridge, MOCK_BRIDGE_ABI, sourceProvider);
+  const destinationBridge = new ethers.Contract(deployment.destination.bridge, MOCK_BRIDGE_ABI, relayer);
+  const delayMs = Number(process.env.RELAYER_DELAY_MS ?? 2000);
+  let busy = false;
+
+  const tick = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      const events = await sourceBridge.queryFilter(sourceBridge.filters.FundsDeposited(), 0);
+      for (const event of events as ethers.EventLog[]) {
+        const { depositId, recipient, outputAmount } = event.args;
+        const key = await destinationBridge.fillKey(deployment.source.chainId, depositId);
+        if ((await destinationBridge.filledAmount(key)) > BigInt(0)) continue;
+
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        const tx = await destinationBridge.fill(deployment.source.chainId, depositId, deployment.destination.weth, recipient, outputAmount);
+        await tx.wait();
+        console.log(`   [relayer] filled deposit ${depositId}: ${ethers.formatEther(outputAmount)} WETH`);
+      }
+    } catch (error) {
+      console.error("   [relayer]", error instanceof Error ? error.message : error);
+    } finally {
+      busy = false;
+    }
+  };
+
+  const timer = setInterval(tick, 1000);
+  return () => clearInterval(timer);
+}
+
+function printFlow(flow: CrossChainFlow) {
+  console.log(`\n Flow ${flow.id}: ${flow.status}${flow.error ? ` (${flow.error})` : ""}`);
+  for (const step of flow.steps) {
+    console.log(`   ${step.id.padEnd(16)} ${step.status.padEnd(10)} attempts=${step.attempts} output=${step.output ?? "-"}${step.tx ? ` tx=${step.tx.hash}` : ""}`);
+  }
+}
+
+async function main() {
+  // No request cache: back-to-back transactions must see each other's nonces
+  const sourceProvider = new ethers.JsonRpcProvider(process.env.SOURCE_RPC_URL || "http://127.0.0.1:8545", undefined, { cacheTimeout: -1 });
+  const destinationProvider = new ethers.JsonRpcProvider(process.env.DESTINATION_RPC_URL || "http://127.0.0.1:8546", undefined, { cacheTimeout: -1 });
+
+  const signers: FlowSigners = {
+    source: new ethers.Wallet(TRADER_KEY, sourceProvider),
+    destination: new ethers.Wallet(TRADER_KEY, destinationProvider),
+  };
+  const relayer = new ethers.Wallet(RELAYER_KEY, destinationProvider);
+
+  const sourceChainId = Number((await sourceProvider.getNetwork()).chainId);
+  const destinationChainId = Number((await destinationProvider.getNetwork()).chainId);
+  if (sourceChainId === destinationChainId) {
+    throw new Error(`Both chains have chain id ${sourceChainId}; start the second node with HARDHAT_CHAIN_ID=31338`);
+  }
+
+  const deployment = await setup(signers, relayer);
+  const stopRelayer = process.env.RELAYER_DISABLED === "1"
+    ? () => {}
+    : startRelayer(sourceProvider, relayer, deployment);
+
+  const [crashStep, crashStatus = "confirmed"] = (process.env.CRASH_AFTER || "").split(":");
+  const options = {
+    ...getOrchestratorOptions(),
+    pollIntervalMs: Number(process.env.FLOW_POLL_INTERVAL_MS) || 500,
+    onTransition: (flow: CrossChainFlow, step: { id: string; status: string }) => {
+      console.log(`   ${step.id} → ${step.status}`);
+      if (step.id === crashStep && step.status === crashStatus) {
+        console.log(`\n Simulated crash at ${step.id} ${step.status}; run again to resume flow ${flow.id}`);
+        process.exit(1);
+      }
+    },
+  };
+
+  try {
+    if (process.env.RETRY_FLOW) {
+      printFlow(await retryFlow(process.env.RETRY_FLOW, signers, options));
+      return;
+    }
+
+    const resumed = await resumeFlows(signers, options);
+    resumed.forEach(printFlow);
+    if (resumed.length > 0) return;
+
+    const amountIn = ethers.parseUnits(process.env.FLOW_AMOUNT_USDC || "3000", 6);
+    const address = await signers.destination.getAddress();
+    const plan: FlowPlan = {
+      amountIn: amountIn.toString(),
+      recipient: address,
+      source: {
+        chainId: deployment.source.chainId,
+        router: deployment.source.router,
+        tokenIn: deployment.source.usdc,
+        tokenOut: deployment.source.weth,
+        fee: POOL_FEE,
+        minAmountOut: "0",
+      },
+      bridge: {
+        kind: "mock",
+        sourceAddress: deployment.source.bridge,
+        destinationAddress: deployment.destination.bridge,
+      },
+      destination: {
+        chainId: deployment.destination.chainId,
+        router: deployment.destination.router,
+        tokenIn: deployment.destination.weth,
+        tokenOut: deployment.destination.usdc,
+        fee: POOL_FEE,
+        minAmountOut: amountIn.toString(),   // At least break even in USDC
+      },
+    };
+
+    const flow = await createFlow(plan);
+    console.log(`\n Running flow ${flow.id}: ${ethers.formatUnits(amountIn, 6)} USDC`);
+    const result = await runFlow(flow.id, signers, options);
+    printFlow(result);
+
+    if (result.status === "completed") {
+      const out = BigInt(result.steps[result.steps.length - 1].output!);
+      console.log(`\n ${ethers.formatUnits(amountIn, 6)} USDC → ${ethers.formatUnits(out, 6)} USDC`);
+    }
+  } finally {
+    stopRelayer();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,10 +1,13 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { getUniswap, isChainName } from "../lib/chains/registry";
 
 async function main() {
   console.log(" Deploying ArbitrageExecutor");
 
-  // Base Sepolia addresses
-  const SWAP_ROUTER = "0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4"; // Base Sepolia SwapRouter
+  // Router of the target chain (lib/chains/registry.ts); networks outside the
+  // registry (e.g. the in-process hardhat network) use Base Sepolia's
+  const chain = isChainName(network.name) ? network.name : "baseSepolia";
+  const SWAP_ROUTER = getUniswap(chain).swapRouter;
 
   console.log("Constructor params:");
   console.log("  SwapRouter:", SWAP_ROUTER);
@@ -19,9 +22,11 @@ async function main() {
 
   console.log(" ArbitrageExecutor deployed to:", address);
   console.log("\nVerification command:");
-  console.log(`npx hardhat verify --network baseSepolia ${address} "${SWAP_ROUTER}"`);
-  console.log("\n Update .env.local with:");
-  console.log(`NEXT_PUBLIC_CONTRACT_ADDRESS=${address}`);
+  console.log(`npx hardhat verify --network ${network.name} ${address} "${SWAP_ROUTER}"`);
+  console.log("\n Update .env.local with (executor variables: lib/chains/registry.ts):");
+  console.log(chain === "arbitrumSepolia"
+    ? `NEXT_PUBLIC_ARBITRUM_CONTRACT_ADDRESS=${address}`
+    : `NEXT_PUBLIC_CONTRACT_ADDRESS=${address}`);
 }
 
 main()
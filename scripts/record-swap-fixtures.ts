@@ -0,0 +1,226 @@
+/**
+ * Record swap simulator fixtures from the real Uniswap V3 contracts
+ *
+ *   npm run fixtures:swap
+ *
+ * Deploys the Uniswap V3 factory, NonfungiblePositionManager and QuoterV2
+ * (bytecode from @uniswap/v3-core / v3-periphery) on the in-process Hardhat
+ * network, builds WETH/USDC pools with a few overlapping positions, and
+ * writes one fixture per pool to fixtures/swap-simulator: the pool snapshot
+ * (every initialized tick, so the whole tick range is known) plus QuoterV2
+ * outputs for swaps of several sizes in both directions.
+ *
+ * test/swap-simulator.test.js replays the quotes offline against
+ * lib/dex/swap-simulator.ts.
+ */
+
+import { ethers } from "hardhat";
+import { promises as fs } from "fs";
+import path from "path";
+import { encodeSqrtRatioX96, nearestUsableTick, TickMath } from "@uniswap/v3-sdk";
+import FactoryArtifact from "@uniswap/v3-core/artifacts/contracts/UniswapV3Factory.sol/UniswapV3Factory.json";
+import PoolArtifact from "@uniswap/v3-core/artifacts/contracts/UniswapV3Pool.sol/UniswapV3Pool.json";
+import PositionManagerArtifact from "@uniswap/v3-periphery/artifacts/contracts/NonfungiblePositionManager.sol/NonfungiblePositionManager.json";
+import QuoterV2Artifact from "@uniswap/v3-periphery/artifacts/contracts/lens/QuoterV2.sol/QuoterV2.json";
+
+const FIXTURE_DIR = path.join(process.cwd(), "fixtures", "swap-simulator");
+
+const TICK_SPACINGS: Record<number, number> = { 500: 10, 3000: 60, 10000: 200 };
+
+interface PositionSpec {
+  lowerSpacings: number | "min";  // Tick spacings below the current tick ("min": full range)
+  upperSpacings: number | "max";
+  usdc: string;                   // USDC-side size; the WETH side is sized at the price
+}
+
+interface PoolSpec {
+  name: string;
+  description: string;
+  fee: number;
+  priceUsdc: number;              // USDC per WETH at initialization
+  positions: PositionSpec[];
+  wethIn: string[];               // Swap sizes to quote, WETH → USDC
+  usdcIn: string[];               // USDC → WETH
+}
+
+const POOLS: PoolSpec[] = [
+  {
+    name: "weth-usdc-3000",
+    description: "0.3% pool with a full-range position and two concentrated ranges around the price",
+    fee: 3000,
+    priceUsdc: 3000,
+    positions: [
+      { lowerSpacings: "min", upperSpacings: "max", usdc: "300000" },
+      { lowerSpacings: 10, upperSpacings: 10, usdc: "2000000" },
+      { lowerSpacings: 40, upperSpacings: 5, usdc: "1000000" },
+    ],
+    wethIn: ["0.01", "1", "50", "500", "5000"],
+    usdcIn: ["30", "3000", "150000", "1500000", "15000000"],
+  },
+  {
+    name: "weth-usdc-500",
+    description: "0.05% pool with concentrated liquidity only: large swaps run out of it",
+    fee: 500,
+    priceUsdc: 2500,
+    positions: [
+      { lowerSpacings: 30, upperSpacings: 30, usdc: "500000" },
+      { lowerSpacings: 8, upperSpacings: 3, usdc: "1000000" },
+      { lowerSpacings: 2, upperSpacings: 60, usdc: "250000" },
+    ],
+    wethIn: ["0.5", "25", "250"],
+    usdcIn: ["1000", "100000", "600000"],
+  },
+];
+
+const MOCK_ERC20_ABI = [
+  "function mint(address to, uint256 amount)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+async function deploy(artifact: { abi: unknown[]; bytecode: string }, args: unknown[] = []) {
+  const [signer] = await ethers.getSigners();
+  const factory = new ethers.ContractFactory(artifact.abi as ethers.InterfaceAbi, artifact.bytecode, signer);
+  const contract = await factory.deploy(...args);
+  await contract.waitForDeployment();
+  return contract;
+}
+
+async function recordPool(
+  spec: PoolSpec,
+  contracts: { factory: ethers.Contract; positionManager: ethers.Contract; quoter: ethers.Contract }
+) {
+  const [signer] = await ethers.getSigners();
+  const MockERC20 = await ethers.getContractFactory("MockERC20");
+  const weth = await MockERC20.deploy("Wrapped Ether", "WETH", 18);
+  const usdc = await MockERC20.deploy("USD Coin", "USDC", 6);
+  const wethAddress = await weth.getAddress();
+  const usdcAddress = await usdc.getAddress();
+  const wethIsToken0 = BigInt(wethAddress) < BigInt(usdcAddress);
+  const [token0, token1] = wethIsToken0 ? [wethAddress, usdcAddress] : [usdcAddress, wethAddress];
+
+  for (const token of [weth, usdc]) {
+    const erc20 = new ethers.Contract(await token.getAddress(), MOCK_ERC20_ABI, signer);
+    await (await erc20.mint(signer.address, ethers.MaxUint256 / BigInt(4))).wait();
+    await (await erc20.approve(await contracts.positionManager.getAddress(), ethers.MaxUint256)).wait();
+    await (await erc20.approve(await contracts.quoter.getAddress(), ethers.MaxUint256)).wait();
+  }
+
+  // Raw price: token1 units per token0 unit
+  const wethUnit = BigInt(10) ** BigInt(18);
+  const usdcPerWeth = ethers.parseUnits(String(spec.priceUsdc), 6);
+  const sqrtPriceX96 = wethIsToken0
+    ? BigInt(encodeSqrtRatioX96(usdcPerWeth.toString(), wethUnit.toString()).toString())
+    : BigInt(encodeSqrtRatioX96(wethUnit.toString(), usdcPerWeth.toString()).toString());
+
+  await (await contracts.factory.createPool(token0, token1, spec.fee)).wait();
+  const poolAddress: string = await contracts.factory.getPool(token0, token1, spec.fee);
+  const pool = new ethers.Contract(poolAddress, PoolArtifact.abi, signer);
+  await (await pool.initialize(sqrtPriceX96)).wait();
+
+  const spacing = TICK_SPACINGS[spec.fee];
+  const currentTick = Number((await pool.slot0()).tick);
+  const center = nearestUsableTick(currentTick, spacing);
+  const initialized = new Set<number>();
+
+  for (const position of spec.positions) {
+    const tickLower = position.lowerSpacings === "min"
+      ? nearestUsableTick(TickMath.MIN_TICK, spacing)
+      : center - position.lowerSpacings * spacing;
+    const tickUpper = position.upperSpacings === "max"
+      ? nearestUsableTick(TickMath.MAX_TICK, spacing)
+      : center + position.upperSpacings * spacing;
+    const usdcAmount = ethers.parseUnits(position.usdc, 6);
+    const wethAmount = (usdcAmount * wethUnit) / usdcPerWeth;
+
+    await (await contracts.positionManager.mint({
+      token0,
+      token1,
+      fee: spec.fee,
+      tickLower,
+      tickUpper,
+      amount0Desired: wethIsToken0 ? wethAmount : usdcAmount,
+      amount1Desired: wethIsToken0 ? usdcAmount : wethAmount,
+      amount0Min: 0,
+      amount1Min: 0,
+      recipient: signer.address,
+      deadline: Math.floor(Date.now() / 1000) + 3600,
+    })).wait();
+    initialized.add(tickLower);
+    initialized.add(tickUpper);
+  }
+
+  const slot0 = await pool.slot0();
+  const ticks = [];
+  for (const tick of Array.from(initialized).sort((a, b) => a - b)) {
+    const info = await pool.ticks(tick);
+    ticks.push({ tick, liquidityNet: info.liquidityNet.toString() });
+  }
+
+  const quote = async (tokenIn: string, tokenOut: string, amountIn: bigint) => {
+    const result = await contracts.quoter.quoteExactInputSingle.staticCall({
+      tokenIn,
+      tokenOut,
+      amountIn,
+      fee: spec.fee,
+      sqrtPriceLimitX96: 0,
+    });
+    return {
+      zeroForOne: BigInt(tokenIn) < BigInt(tokenOut),
+      amountIn: amountIn.toString(),
+      amountOut: result.amountOut.toString(),
+      sqrtPriceX96After: result.sqrtPriceX96After.toString(),
+      initializedTicksCrossed: Number(result.initializedTicksCrossed),
+    };
+  };
+
+  const quotes = [];
+  for (const amount of spec.wethIn) quotes.push(await quote(wethAddress, usdcAddress, ethers.parseEther(amount)));
+  for (const amount of spec.usdcIn) quotes.push(await quote(usdcAddress, wethAddress, ethers.parseUnits(amount, 6)));
+
+  return {
+    name: spec.name,
+    description: spec.description,
+    source: "QuoterV2 against UniswapV3Pool on the in-process Hardhat network (scripts/record-swap-fixtures.ts)",
+    wethIsToken0,
+    snapshot: {
+      sqrtPriceX96: slot0.sqrtPriceX96.toString(),
+      tick: Number(slot0.tick),
+      liquidity: (await pool.liquidity()).toString(),
+      fee: spec.fee,
+      tickSpacing: spacing,
+      token0Decimals: wethIsToken0 ? 18 : 6,
+      token1Decimals: wethIsToken0 ? 6 : 18,
+      ticks,
+      // Every position's ticks are listed, so no other tick is initialized
+      tickRange: {
+        lower: nearestUsableTick(TickMath.MIN_TICK, spacing),
+        upper: nearestUsableTick(TickMath.MAX_TICK, spacing),
+      },
+    },
+    quotes,
+  };
+}
+
+async function main() {
+  const [signer] = await ethers.getSigners();
+  const factory = await deploy(FactoryArtifact);
+  const factoryAddress = await factory.getAddress();
+  // WETH9 and the token descriptor are never called by mint / quote
+  const positionManager = await deploy(PositionManagerArtifact, [factoryAddress, signer.address, signer.address]);
+  const quoter = await deploy(QuoterV2Artifact, [factoryAddress, signer.address]);
+
+  await fs.mkdir(FIXTURE_DIR, { recursive: true });
+  for (const spec of POOLS) {
+    const fixture = await recordPool(spec, { factory, positionManager, quoter });
+    const file = path.join(FIXTURE_DIR, `${spec.name}.json`);
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2) + "\n");
+    console.log(` ${spec.name}: ${fixture.snapshot.ticks.length} ticks, ${fixture.quotes.length} quotes → ${file}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
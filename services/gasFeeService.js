@@ -1,12 +1,10 @@
 import { ethers } from 'ethers';
 import { getProvider } from '../utils/provider.js';
-import { TOKENS, CHAIN_IDS } from '../config/chains.js';
-
-// Uniswap V3 SwapRouter addresses
-const SWAP_ROUTER_ADDRESSES = {
-  BASE: '0x2626664c2603336E57B271c5C0b26F421741e481',
-  ARBITRUM: '0xE592427A0AEce92De3Edee1F18E0157C05861564'
-};
+import { getManagedProvider } from '../lib/rpc/provider-manager';
+import { getReferenceEthPrice } from '../lib/prices/reference-price';
+import { TOKENS } from '../config/chains.js';
+import { CHAINS, getUniswap } from '../lib/chains/registry';
+import { estimateL1DataFee, splitGasCost, serializeL1DataFee } from '../lib/gas/l1-fee';
 
 // SwapRouter ABI for exactInputSingle
 const SWAP_ROUTER_ABI = [
@@ -18,20 +16,24 @@ const L1_OPTIMISM_PORTAL_ABI = [
   'function depositTransaction(address _to, uint256 _value, uint64 _gasLimit, bool _isCreation, bytes memory _data) external payable'
 ];
 
+// Across SpokePool ABI, only used to size the Base deposit for its L1 data fee
+const ACROSS_SPOKE_POOL_ABI = [
+  'function depositV3(address depositor, address recipient, address inputToken, address outputToken, uint256 inputAmount, uint256 outputAmount, uint256 destinationChainId, address exclusiveRelayer, uint32 quoteTimestamp, uint32 fillDeadline, uint32 exclusivityDeadline, bytes message) external payable'
+];
+
 // Ethereum mainnet OptimismPortal address for Base
-const BASE_OPTIMISM_PORTAL_ADDRESS = '0x49048044D57e1C92A77f79988d21Fa8fAF74E97e';
+const BASE_OPTIMISM_PORTAL_ADDRESS = CHAINS.base.optimismPortal;
 
 /**
  * Calculate gas fees for depositing ETH from Ethereum mainnet to Base L2
  * @param {string} amountInEth - Amount of ETH to deposit (in ETH, e.g., "0.1")
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Object} Gas fee estimates
  */
-export async function calculateBaseDepositGasFees(amountInEth) {
+export async function calculateBaseDepositGasFees(amountInEth, referencePrice) {
   try {
     // Connect to Ethereum mainnet to estimate L1 gas
-    const mainnetProvider = new ethers.JsonRpcProvider(
-      process.env.MAINNET_RPC_URL || 'https://eth.llamarpc.com'
-    );
+    const mainnetProvider = getManagedProvider('ethereum');
 
     // Create portal contract instance
     const portalContract = new ethers.Contract(
@@ -79,8 +81,9 @@ export async function calculateBaseDepositGasFees(amountInEth) {
       eip1559GasCostEth = ethers.formatEther(eip1559GasCost);
     }
 
-    // Get ETH price in USD (approximate - you may want to use a price oracle)
-    const ethPriceUsd = await getEthPriceUsd();
+    // Get ETH price in USD from the reference price service
+    const reference = await resolveReferencePrice(referencePrice);
+    const ethPriceUsd = reference.priceUsd;
 
     return {
       chain: 'Ethereum Mainnet',
@@ -100,6 +103,7 @@ export async function calculateBaseDepositGasFees(amountInEth) {
         gasCostUsd: eip1559GasCostEth ? (parseFloat(eip1559GasCostEth) * ethPriceUsd).toFixed(2) : null
       } : null,
       l1Portal: BASE_OPTIMISM_PORTAL_ADDRESS,
+      referencePrice: reference,
       timestamp: new Date().toISOString()
     };
   } catch (error) {
@@ -111,15 +115,16 @@ export async function calculateBaseDepositGasFees(amountInEth) {
  * Calculate gas fees for swapping ETH to USDC on Arbitrum using Uniswap V3
  * @param {string} amountInEth - Amount of ETH to swap (in ETH, e.g., "0.1")
  * @param {number} feeTier - Fee tier (500 for 0.05%, 3000 for 0.3%, 10000 for 1%)
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Object} Gas fee estimates
  */
-export async function calculateArbitrumSwapGasFees(amountInEth, feeTier = 3000) {
+export async function calculateArbitrumSwapGasFees(amountInEth, feeTier = 3000, referencePrice) {
   try {
     const provider = getProvider('arbitrum');
 
     // Create SwapRouter contract instance
     const swapRouter = new ethers.Contract(
-      SWAP_ROUTER_ADDRESSES.ARBITRUM,
+      getUniswap('arbitrum').swapRouter,
       SWAP_ROUTER_ABI,
       provider
     );
@@ -160,6 +165,14 @@ export async function calculateArbitrumSwapGasFees(amountInEth, feeTier = 3000)
     const gasCostInWei = gasEstimate * gasPrice;
     const gasCostInEth = ethers.formatEther(gasCostInWei);
 
+    // The Arbitrum estimate already pays the L1 data fee; split it out
+    const l1Fee = await getL1DataFeeOrNull(provider, 'arbitrum', {
+      to: getUniswap('arbitrum').swapRouter,
+      data: swapRouter.interface.encodeFunctionData('exactInputSingle', [swapParams]),
+      value: amountInWei
+    });
+    const gasSplit = splitGasCost(gasCostInWei, l1Fee);
+
     // Calculate EIP-1559 gas cost
     let eip1559GasCost = null;
     let eip1559GasCostEth = null;
@@ -168,8 +181,9 @@ export async function calculateArbitrumSwapGasFees(amountInEth, feeTier = 3000)
       eip1559GasCostEth = ethers.formatEther(eip1559GasCost);
     }
 
-    // Get ETH price in USD
-    const ethPriceUsd = await getEthPriceUsd();
+    // Get ETH price in USD from the reference price service
+    const reference = await resolveReferencePrice(referencePrice);
+    const ethPriceUsd = reference.priceUsd;
 
     // Get expected output amount using quoter
     const expectedOutput = await getExpectedSwapOutput(amountInEth, feeTier);
@@ -188,6 +202,9 @@ export async function calculateArbitrumSwapGasFees(amountInEth, feeTier = 3000)
       gasCostWei: gasCostInWei.toString(),
       gasCostEth: gasCostInEth,
       gasCostUsd: (parseFloat(gasCostInEth) * ethPriceUsd).toFixed(2),
+      l2ExecutionCostUsd: weiToUsd(gasSplit.l2ExecutionWei, ethPriceUsd),
+      l1DataFeeUsd: weiToUsd(gasSplit.l1DataWei, ethPriceUsd),
+      l1DataFee: l1Fee && serializeL1DataFee(l1Fee),
       eip1559: maxFeePerGas && maxPriorityFeePerGas ? {
         maxFeePerGas: ethers.formatUnits(maxFeePerGas, 'gwei'),
         maxPriorityFeePerGas: ethers.formatUnits(maxPriorityFeePerGas, 'gwei'),
@@ -195,7 +212,8 @@ export async function calculateArbitrumSwapGasFees(amountInEth, feeTier = 3000)
         gasCostEth: eip1559GasCostEth,
         gasCostUsd: eip1559GasCostEth ? (parseFloat(eip1559GasCostEth) * ethPriceUsd).toFixed(2) : null
       } : null,
-      swapRouter: SWAP_ROUTER_ADDRESSES.ARBITRUM,
+      swapRouter: getUniswap('arbitrum').swapRouter,
+      referencePrice: reference,
       timestamp: new Date().toISOString()
     };
   } catch (error) {
@@ -206,9 +224,10 @@ export async function calculateArbitrumSwapGasFees(amountInEth, feeTier = 3000)
 /**
  * Calculate gas fees for withdrawing ETH from Arbitrum to Ethereum mainnet
  * @param {string} amountInEth - Amount of ETH to withdraw (in ETH, e.g., "0.1")
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Object} Gas fee estimates
  */
-export async function calculateArbitrumWithdrawGasFees(amountInEth) {
+export async function calculateArbitrumWithdrawGasFees(amountInEth, referencePrice) {
   try {
     const provider = getProvider('arbitrum');
 
@@ -256,8 +275,9 @@ export async function calculateArbitrumWithdrawGasFees(amountInEth) {
       eip1559GasCostEth = ethers.formatEther(eip1559GasCost);
     }
 
-    // Get ETH price in USD
-    const ethPriceUsd = await getEthPriceUsd();
+    // Get ETH price in USD from the reference price service
+    const reference = await resolveReferencePrice(referencePrice);
+    const ethPriceUsd = reference.priceUsd;
 
     return {
       chain: 'Arbitrum',
@@ -278,6 +298,7 @@ export async function calculateArbitrumWithdrawGasFees(amountInEth) {
       } : null,
       arbSysAddress: ARBSYS_ADDRESS,
       note: 'L1 gas cost for finalizing withdrawal on mainnet not included. Typical L1 finalization cost: 0.001-0.003 ETH',
+      referencePrice: reference,
       timestamp: new Date().toISOString()
     };
   } catch (error) {
@@ -300,10 +321,8 @@ async function getExpectedSwapOutput(amountInEth, feeTier) {
       'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96)) external returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)'
     ];
 
-    const QUOTER_V2_ADDRESS = '0x61fFE014bA17989E743c5F6cB21bF9697530B21e';
-
     const quoter = new ethers.Contract(
-      QUOTER_V2_ADDRESS,
+      getUniswap('arbitrum').quoter,
       QUOTER_V2_ABI,
       provider
     );
@@ -333,53 +352,55 @@ async function getExpectedSwapOutput(amountInEth, feeTier) {
 }
 
 /**
- * Get ETH price in USD (using Uniswap V3 as oracle)
- * @returns {number} ETH price in USD
+ * ETH/USD price to convert costs with: the caller's, else the shared reference price
+ * @param {Object} [referencePrice] - Result of getReferenceEthPrice()
+ * @returns {Promise<Object>} Reference price (priceUsd, source, detail, ...)
  */
-async function getEthPriceUsd() {
-  try {
-    const provider = getProvider('arbitrum');
-
-    // Pool ABI for getting price
-    const POOL_ABI = [
-      'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)'
-    ];
-
-    // ETH/USDC pool on Arbitrum (0.05% fee tier)
-    const ETH_USDC_POOL = '0xC6962004f452bE9203591991D15f6b388e09E8D0';
-
-    const pool = new ethers.Contract(ETH_USDC_POOL, POOL_ABI, provider);
-    const slot0 = await pool.slot0();
-    const sqrtPriceX96 = slot0[0];
-
-    // Calculate price from sqrtPriceX96
-    // price = (sqrtPriceX96 / 2^96)^2 * (10^(token1Decimals - token0Decimals))
-    const sqrtPrice = Number(sqrtPriceX96) / (2 ** 96);
-    const price = sqrtPrice ** 2;
-
-    // WETH is token0, USDC is token1, so we need to invert and adjust for decimals
-    // WETH has 18 decimals, USDC has 6 decimals
-    const ethPrice = price * (10 ** 12); // 10^(6-18) = 10^-12, so multiply by 10^12
+async function resolveReferencePrice(referencePrice) {
+  return referencePrice ?? getReferenceEthPrice();
+}
 
-    return ethPrice;
+/**
+ * Rollup L1 data fee of a transaction, or null when the oracle cannot be read
+ * (the cost is then reported without its L1 component)
+ * @param {ethers.Provider} provider - Provider for the chain
+ * @param {string} chain - Registry chain name
+ * @param {Object} tx - { to, data, value }
+ * @returns {Promise<Object|null>} Result of estimateL1DataFee()
+ */
+async function getL1DataFeeOrNull(provider, chain, tx) {
+  try {
+    return await estimateL1DataFee(provider, chain, tx);
   } catch (error) {
-    // Fallback to approximate price if oracle fails
-    console.error('Failed to fetch ETH price from Uniswap:', error.message);
-    return 3500; // Approximate fallback
+    console.warn(`L1 data fee unavailable on ${chain}: ${error.message}`);
+    return null;
   }
 }
 
+/**
+ * Convert a wei amount to a USD string (2 decimals)
+ * @param {bigint} wei - Amount in wei
+ * @param {number} ethPriceUsd - ETH/USD price
+ * @returns {string} USD amount
+ */
+function weiToUsd(wei, ethPriceUsd) {
+  return (parseFloat(ethers.formatEther(wei)) * ethPriceUsd).toFixed(2);
+}
+
 /**
  * Calculate total gas fees for a complete flow: deposit to Base, bridge to Arbitrum, and swap ETH to USDC
  * @param {string} amountInEth - Amount of ETH for the flow
  * @param {number} feeTier - Fee tier for swap (default 3000)
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Object} Combined gas fee estimates
  */
-export async function calculateCompleteFlowGasFees(amountInEth, feeTier = 3000) {
+export async function calculateCompleteFlowGasFees(amountInEth, feeTier = 3000, referencePrice) {
   try {
+    // Both steps are priced with the same ETH price
+    const reference = await resolveReferencePrice(referencePrice);
     const [depositFees, swapFees] = await Promise.all([
-      calculateBaseDepositGasFees(amountInEth),
-      calculateArbitrumSwapGasFees(amountInEth, feeTier)
+      calculateBaseDepositGasFees(amountInEth, reference),
+      calculateArbitrumSwapGasFees(amountInEth, feeTier, reference)
     ]);
 
     const totalGasCostEth = (
@@ -401,6 +422,13 @@ export async function calculateCompleteFlowGasFees(amountInEth, feeTier = 3000)
       },
       totalGasCostEth,
       totalGasCostUsd,
+      // Ethereum deposit tx, then the Arbitrum swap split into L2 execution and L1 data
+      components: {
+        l1TransactionUsd: depositFees.gasCostUsd,
+        l2ExecutionUsd: swapFees.l2ExecutionCostUsd,
+        l1DataUsd: swapFees.l1DataFeeUsd
+      },
+      referencePrice: reference,
       timestamp: new Date().toISOString()
     };
   } catch (error) {
@@ -411,16 +439,17 @@ export async function calculateCompleteFlowGasFees(amountInEth, feeTier = 3000)
 /**
  * Calculate bridge fees for ETH from Base to Arbitrum using Across Protocol
  * @param {string} amountInEth - Amount of ETH to bridge (in ETH, e.g., "0.1")
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Object} Bridge fee estimates including relayer fees and gas costs
  */
-export async function calculateAcrossBridgeFees(amountInEth) {
+export async function calculateAcrossBridgeFees(amountInEth, referencePrice) {
   try {
     const baseProvider = getProvider('base');
     
     // Across Protocol SpokePool address on Base
-    const BASE_SPOKE_POOL = '0x09aea4b2242abC8bb4BB78D537A67a245A7bEC64';
-    const ARBITRUM_CHAIN_ID = 42161;
-    const BASE_CHAIN_ID = 8453;
+    const BASE_SPOKE_POOL = CHAINS.base.acrossSpokePool;
+    const ARBITRUM_CHAIN_ID = CHAINS.arbitrum.chainId;
+    const BASE_CHAIN_ID = CHAINS.base.chainId;
     
     // Fetch suggested fees from Across API
     const amountInWei = ethers.parseEther(amountInEth);
@@ -464,20 +493,45 @@ export async function calculateAcrossBridgeFees(amountInEth) {
     const maxFeePerGas = feeData.maxFeePerGas;
     const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas;
     
+    // Base charges the L1 data fee on top of L2 execution
+    const sampleAddress = '0x0000000000000000000000000000000000000001';
+    const now = Math.floor(Date.now() / 1000);
+    const depositData = new ethers.Interface(ACROSS_SPOKE_POOL_ABI).encodeFunctionData('depositV3', [
+      sampleAddress,
+      sampleAddress,
+      TOKENS.BASE.WETH.address,
+      TOKENS.ARBITRUM.WETH.address,
+      amountInWei,
+      outputAmount,
+      ARBITRUM_CHAIN_ID,
+      ETH_ADDRESS,
+      now,
+      now + 6 * 60 * 60,
+      0,
+      '0x'
+    ]);
+    const l1Fee = await getL1DataFeeOrNull(baseProvider, 'base', {
+      to: BASE_SPOKE_POOL,
+      data: depositData,
+      value: amountInWei
+    });
+
     // Calculate gas costs
-    const gasCostInWei = typicalGasUsage * gasPrice;
+    const gasSplit = splitGasCost(typicalGasUsage * gasPrice, l1Fee);
+    const gasCostInWei = gasSplit.totalWei;
     const gasCostInEth = ethers.formatEther(gasCostInWei);
     
     // Calculate EIP-1559 gas cost
     let eip1559GasCost = null;
     let eip1559GasCostEth = null;
     if (maxFeePerGas && maxPriorityFeePerGas) {
-      eip1559GasCost = typicalGasUsage * maxFeePerGas;
+      eip1559GasCost = typicalGasUsage * maxFeePerGas + gasSplit.l1DataWei;
       eip1559GasCostEth = ethers.formatEther(eip1559GasCost);
     }
     
-    // Get ETH price for USD conversion
-    const ethPriceUsd = await getEthPriceUsd();
+    // Get ETH price in USD from the reference price service
+    const reference = await resolveReferencePrice(referencePrice);
+    const ethPriceUsd = reference.priceUsd;
     
     // Calculate relayer fees
     const relayerFeeEth = ethers.formatEther(totalRelayerFeeWei);
@@ -510,6 +564,9 @@ export async function calculateAcrossBridgeFees(amountInEth) {
           gasCostWei: gasCostInWei.toString(),
           gasCostEth: gasCostInEth,
           gasCostUsd: gasCostUsd,
+          l2ExecutionCostUsd: weiToUsd(gasSplit.l2ExecutionWei, ethPriceUsd),
+          l1DataFeeUsd: weiToUsd(gasSplit.l1DataWei, ethPriceUsd),
+          l1DataFee: l1Fee && serializeL1DataFee(l1Fee),
           eip1559: maxFeePerGas && maxPriorityFeePerGas ? {
             maxFeePerGas: ethers.formatUnits(maxFeePerGas, 'gwei'),
             maxPriorityFeePerGas: ethers.formatUnits(maxPriorityFeePerGas, 'gwei'),
@@ -529,6 +586,7 @@ export async function calculateAcrossBridgeFees(amountInEth) {
       },
       estimatedTime: '2-4 minutes',
       destinationChainId: ARBITRUM_CHAIN_ID,
+      referencePrice: reference,
       timestamp: new Date().toISOString()
     };
   } catch (error) {
@@ -539,13 +597,14 @@ export async function calculateAcrossBridgeFees(amountInEth) {
 /**
  * Calculate bridge slippage for ETH from Base to Arbitrum using Across Protocol
  * @param {string} amountInEth - Amount of ETH to bridge (in ETH, e.g., "0.1")
+ * @param {Object} [referencePrice] - ETH/USD price to use (default: lib/prices/reference-price.ts)
  * @returns {Object} Slippage analysis including LP fees, relayer fees, and total slippage
  */
-export async function calculateAcrossBridgeSlippage(amountInEth) {
+export async function calculateAcrossBridgeSlippage(amountInEth, referencePrice) {
   try {
     const amountInWei = ethers.parseEther(amountInEth);
-    const BASE_CHAIN_ID = 8453;
-    const ARBITRUM_CHAIN_ID = 42161;
+    const BASE_CHAIN_ID = CHAINS.base.chainId;
+    const ARBITRUM_CHAIN_ID = CHAINS.arbitrum.chainId;
     
     // Native ETH address used by Across
     const ETH_ADDRESS = '0x0000000000000000000000000000000000000000';
@@ -590,8 +649,9 @@ export async function calculateAcrossBridgeSlippage(amountInEth) {
     const relayerGasFeeBps = (relayerGasFeeWei * BigInt(10000)) / amountInWei;
     const relayerCapitalFeeBps = (relayerCapitalFeeWei * BigInt(10000)) / amountInWei;
     
-    // Get ETH price for USD conversion
-    const ethPriceUsd = await getEthPriceUsd();
+    // Get ETH price in USD from the reference price service
+    const reference = await resolveReferencePrice(referencePrice);
+    const ethPriceUsd = reference.priceUsd;
     
     // Format values
     const inputAmountEth = ethers.formatEther(amountInWei);
@@ -657,6 +717,7 @@ export async function calculateAcrossBridgeSlippage(amountInEth) {
       },
       estimatedTime: '2-4 minutes',
       dataSource: 'Across Protocol API (Real-time)',
+      referencePrice: reference,
       timestamp: new Date().toISOString()
     };
   } catch (error) {
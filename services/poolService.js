@@ -3,43 +3,34 @@ import { Pool, nearestUsableTick, TickMath, TICK_SPACINGS } from '@uniswap/v3-sd
 import { getProvider } from '../utils/provider.js';
 import { getChainConfig, FEE_TIERS } from '../config/chains.js';
 import { POOL_ABI, FACTORY_ABI } from '../config/abis.js';
+import { multicall, unwrap } from '../lib/rpc/multicall';
 import JSBI from 'jsbi';
 
-/**
- * Get pool address from factory
- */
-export async function getPoolAddress(chain, token0, token1, fee) {
-  const provider = getProvider(chain);
-  const config = getChainConfig(chain);
-  
-  const factory = new ethers.Contract(config.factory, FACTORY_ABI, provider);
-  const poolAddress = await factory.getPool(token0.address, token1.address, fee);
-  
-  if (poolAddress === ethers.ZeroAddress) {
-    throw new Error(`Pool does not exist for ${token0.symbol}/${token1.symbol} with fee ${fee}`);
-  }
-  
-  return poolAddress;
+const factoryInterface = new ethers.Interface(FACTORY_ABI);
+const poolInterface = new ethers.Interface(POOL_ABI);
+
+const POOL_STATE_METHODS = ['slot0', 'liquidity', 'token0', 'token1', 'fee', 'tickSpacing'];
+
+function factoryCall(chain, token0, token1, fee) {
+  return {
+    target: getChainConfig(chain).factory,
+    iface: factoryInterface,
+    method: 'getPool',
+    args: [token0.address, token1.address, fee]
+  };
+}
+
+function poolStateCalls(poolAddress) {
+  return POOL_STATE_METHODS.map(method => ({ target: poolAddress, iface: poolInterface, method }));
 }
 
 /**
- * Get pool instance with current state
+ * Build the SDK pool from the results of poolStateCalls()
  */
-export async function getPool(chain, token0, token1, fee) {
-  const provider = getProvider(chain);
-  const poolAddress = await getPoolAddress(chain, token0, token1, fee);
-  
-  const poolContract = new ethers.Contract(poolAddress, POOL_ABI, provider);
-  
-  // Fetch pool state
-  const [slot0, liquidity, token0Address, token1Address, poolFee, tickSpacing] = await Promise.all([
-    poolContract.slot0(),
-    poolContract.liquidity(),
-    poolContract.token0(),
-    poolContract.token1(),
-    poolContract.fee(),
-    poolContract.tickSpacing()
-  ]);
+function buildPool(token0, token1, poolAddress, results, blockNumber) {
+  const [slot0, liquidity, token0Address, , poolFee, tickSpacing] = results.map(
+    (result, i) => unwrap(result, `${POOL_STATE_METHODS[i]} of ${poolAddress}`)
+  );
   
   // Ensure token order matches pool
   const [tokenA, tokenB] = token0Address.toLowerCase() === token0.address.toLowerCase()
@@ -66,80 +57,156 @@ export async function getPool(chain, token0, token1, fee) {
     poolAddress,
     slot0,
     liquidity,
-    tickSpacing: Number(tickSpacing)
+    tickSpacing: Number(tickSpacing),
+    blockNumber
   };
 }
 
+/**
+ * Get pool address from factory
+ */
+export async function getPoolAddress(chain, token0, token1, fee) {
+  const provider = getProvider(chain);
+  
+  const { results } = await multicall(provider, [factoryCall(chain, token0, token1, fee)]);
+  const poolAddress = unwrap(results[0], 'getPool');
+  
+  if (poolAddress === ethers.ZeroAddress) {
+    throw new Error(`Pool does not exist for ${token0.symbol}/${token1.symbol} with fee ${fee}`);
+  }
+  
+  return poolAddress;
+}
+
+/**
+ * Get pool instance with current state
+ * All state is read in one multicall at a single block (latest unless blockTag is given)
+ */
+export async function getPool(chain, token0, token1, fee, blockTag) {
+  const provider = getProvider(chain);
+  const poolAddress = await getPoolAddress(chain, token0, token1, fee);
+  
+  const { blockNumber, results } = await multicall(provider, poolStateCalls(poolAddress), blockTag);
+  
+  return buildPool(token0, token1, poolAddress, results, blockNumber);
+}
+
 /**
  * Get all available pools for a token pair
+ * One multicall for the factory lookups, one for the state of every pool (same block)
  */
 export async function getAllPools(chain, token0, token1) {
-  const pools = [];
+  const provider = getProvider(chain);
   const feeTiers = Object.values(FEE_TIERS);
   
-  for (const fee of feeTiers) {
+  const { results: addressResults } = await multicall(
+    provider,
+    feeTiers.map(fee => factoryCall(chain, token0, token1, fee))
+  );
+  
+  const existing = [];
+  feeTiers.forEach((fee, i) => {
+    const poolAddress = addressResults[i].success ? addressResults[i].value : ethers.ZeroAddress;
+    if (poolAddress === ethers.ZeroAddress) {
+      // Pool doesn't exist for this fee tier, skip
+      console.log(`Pool not found for ${token0.symbol}/${token1.symbol} fee ${fee} on ${chain}`);
+      return;
+    }
+    existing.push({ fee, poolAddress });
+  });
+  
+  if (existing.length === 0) return [];
+  
+  const { blockNumber, results } = await multicall(
+    provider,
+    existing.flatMap(({ poolAddress }) => poolStateCalls(poolAddress))
+  );
+  
+  const pools = [];
+  const size = POOL_STATE_METHODS.length;
+  existing.forEach(({ fee, poolAddress }, i) => {
     try {
-      const poolData = await getPool(chain, token0, token1, fee);
       pools.push({
         fee,
-        ...poolData
+        ...buildPool(token0, token1, poolAddress, results.slice(i * size, (i + 1) * size), blockNumber)
       });
     } catch (error) {
-      // Pool doesn't exist for this fee tier, skip
-      console.log(`Pool not found for ${token0.symbol}/${token1.symbol} fee ${fee} on ${chain}: ${error.message}`);
-      continue;
+      console.log(`Pool state unavailable for ${token0.symbol}/${token1.symbol} fee ${fee} on ${chain}: ${error.message}`);
     }
-  }
+  });
   
   return pools;
 }
 
 /**
  * Get liquidity depth around current price
+ * All ticks are read in one multicall (at blockTag when given, so they match the pool state)
  */
-export async function getLiquidityDepth(chain, poolAddress, currentTick, tickSpacing, range = 100) {
+export async function getLiquidityDepth(chain, poolAddress, currentTick, tickSpacing, range = 100, blockTag) {
   const provider = getProvider(chain);
-  const poolContract = new ethers.Contract(poolAddress, POOL_ABI, provider);
   
   // Calculate tick range to query
   const tickLower = nearestUsableTick(currentTick - (tickSpacing * range), tickSpacing);
   const tickUpper = nearestUsableTick(currentTick + (tickSpacing * range), tickSpacing);
   
   const ticksData = [];
-  
-  // Query ticks in batches
   for (let tick = tickLower; tick <= tickUpper; tick += tickSpacing) {
     ticksData.push(tick);
   }
   
-  // Limit to 40 ticks max and fetch in parallel batches of 10
+  // Limit to 40 ticks max
   const limitedTicks = ticksData.slice(0, 40);
-  const batchSize = 10;
-  const results = [];
-  
-  for (let i = 0; i < limitedTicks.length; i += batchSize) {
-    const batch = limitedTicks.slice(i, i + batchSize);
-    const batchPromises = batch.map(async (tick) => {
-      try {
-        const tickInfo = await poolContract.ticks(tick);
-        if (tickInfo.liquidityGross > 0n) {
-          return {
-            tick,
-            liquidityGross: tickInfo.liquidityGross.toString(),
-            liquidityNet: tickInfo.liquidityNet.toString(),
-            initialized: tickInfo.initialized
-          };
-        }
-      } catch (error) {
-        return null;
-      }
-    });
-    
-    const batchResults = await Promise.all(batchPromises);
-    results.push(...batchResults.filter(r => r !== null));
-  }
   
-  return results;
+  const { results } = await multicall(
+    provider,
+    limitedTicks.map(tick => ({ target: poolAddress, iface: poolInterface, method: 'ticks', args: [tick] })),
+    blockTag
+  );
+  
+  return limitedTicks
+    .map((tick, i) => {
+      const tickInfo = results[i].value;
+      if (!results[i].success || tickInfo.liquidityGross === BigInt(0)) return null;
+      return {
+        tick,
+        liquidityGross: tickInfo.liquidityGross.toString(),
+        liquidityNet: tickInfo.liquidityNet.toString(),
+        initialized: tickInfo.initialized
+      };
+    })
+    .filter(r => r);
+}
+
+/**
+ * Get a serializable pool snapshot for the off-chain swap simulator
+ * (see parsePoolSnapshot in lib/dex/swap-simulator.ts)
+ * Pool state and ticks are read at the same block
+ */
+export async function getPoolSnapshot(chain, token0, token1, fee, range = 20) {
+  const { pool, poolAddress, slot0, liquidity, tickSpacing, blockNumber } = await getPool(chain, token0, token1, fee);
+  const currentTick = Number(slot0.tick);
+  
+  const ticks = await getLiquidityDepth(chain, poolAddress, currentTick, tickSpacing, range, blockNumber);
+  
+  return {
+    chain,
+    poolAddress,
+    blockNumber,
+    sqrtPriceX96: slot0.sqrtPriceX96.toString(),
+    tick: currentTick,
+    liquidity: liquidity.toString(),
+    fee: Number(fee),
+    tickSpacing,
+    token0: pool.token0.address,
+    token1: pool.token1.address,
+    token0Decimals: pool.token0.decimals,
+    token1Decimals: pool.token1.decimals,
+    ticks: ticks.map(t => ({
+      tick: t.tick,
+      liquidityNet: t.liquidityNet
+    })),
+    timestamp: new Date().toISOString()
+  };
 }
 
 /**
@@ -1,5 +1,6 @@
 import { getAllPools, tickToPrice } from './poolService.js';
 import { getChainConfig } from '../config/chains.js';
+import { CHAINS } from '../lib/chains/registry';
 import { getProvider } from '../utils/provider.js';
 
 /**
@@ -15,27 +16,24 @@ export async function getETHPrice(chain) {
     
     // Use specific pool for Base mainnet
     if (chain.toLowerCase() === 'base') {
-      poolAddress = '0x6c561B446416E1A00E8E93E221854d6eA4171372';
+      poolAddress = CHAINS.base.pools.ethUsdc;
       const provider = getProvider(chain);
       const { ethers } = await import('ethers');
       const { POOL_ABI } = await import('../config/abis.js');
       const { Pool } = await import('@uniswap/v3-sdk');
       const JSBI = (await import('jsbi')).default;
       
-      const poolContract = new ethers.Contract(poolAddress, POOL_ABI, provider);
+      const { multicall, unwrap } = await import('../lib/rpc/multicall');
+      const poolInterface = new ethers.Interface(POOL_ABI);
       
-      // Fetch pool state
-      [slot0, liquidity, fee] = await Promise.all([
-        poolContract.slot0(),
-        poolContract.liquidity(),
-        poolContract.fee()
-      ]);
-      
-      // Get token order from pool
-      const [token0Address, token1Address] = await Promise.all([
-        poolContract.token0(),
-        poolContract.token1()
-      ]);
+      // Fetch pool state in one call, all at the same block
+      const methods = ['slot0', 'liquidity', 'fee', 'token0'];
+      const { results } = await multicall(
+        provider,
+        methods.map(method => ({ target: poolAddress, iface: poolInterface, method }))
+      );
+      let token0Address;
+      [slot0, liquidity, fee, token0Address] = results.map((result, i) => unwrap(result, methods[i]));
       
       // Determine token order (WETH/USDC)
       const token0 = token0Address.toLowerCase() === WETH.address.toLowerCase() ? WETH : USDC;
@@ -0,0 +1,54 @@
+require("./helpers/register");
+
+const { expect } = require("chai");
+const path = require("path");
+const { loadFixture } = require("../lib/backtest/fixtures");
+const { runBacktest } = require("../lib/backtest/backtester");
+
+// 16 one-minute frames of both pools, committed with the repo
+const FIXTURE_DIR = path.join(__dirname, "..", "fixtures", "backtest");
+
+describe("backtester on the sample fixture", function () {
+  let saved;
+  let fixture;
+
+  before(async function () {
+    saved = process.env.BACKTEST_FIXTURE_DIR;
+    process.env.BACKTEST_FIXTURE_DIR = FIXTURE_DIR;
+    fixture = await loadFixture("sample-weth-usdc");
+  });
+
+  after(function () {
+    if (saved === undefined) delete process.env.BACKTEST_FIXTURE_DIR;
+    else process.env.BACKTEST_FIXTURE_DIR = saved;
+  });
+
+  it("reports hit rate, PnL and false EXECUTEs with the default thresholds", function () {
+    const report = runBacktest(fixture);
+
+    expect(report).to.include({
+      frames: 16,
+      resolvedFrames: 15,
+      executeCount: 6,
+      skipCount: 9,
+      hitCount: 3,
+      hitRate: 0.5,
+      falseExecuteCount: 3,
+      missedOpportunityCount: 5,
+    });
+    expect(report.cumulativePnlUsd).to.be.closeTo(26.32, 0.01);
+
+    const executes = report.results.filter((r) => r.decision === "EXECUTE");
+    expect(executes.map((r) => r.index)).to.deep.equal([2, 4, 5, 7, 9, 14]);
+    expect(executes.filter((r) => r.realizedNetProfitUsd <= 0).map((r) => r.index)).to.deep.equal([2, 5, 9]);
+  });
+
+  it("skips the anomalous print and leaves the last frame unrealized", function () {
+    const { results } = runBacktest(fixture);
+
+    expect(results[12].spreadPct).to.be.above(5);
+    expect(results[12]).to.include({ decision: "SKIP", earlyExit: true });
+    expect(results[12].reason).to.match(/anomalous/);
+    expect(results[15].realizedNetProfitUsd).to.equal(null);
+  });
+});
@@ -0,0 +1,157 @@
+require("./helpers/register");
+
+const { expect } = require("chai");
+const http = require("http");
+const hre = require("hardhat");
+const { BlockWatcher } = require("../lib/prices/block-watcher");
+
+const POLLING_INTERVAL_MS = 50;
+// Long enough for several polls: ethers also caches eth_blockNumber for 250ms
+const SETTLE_MS = 1_000;
+
+/**
+ * Serve the in-process Hardhat network over HTTP, as `npx hardhat node`
+ * would, counting the requests so a test can tell when reads stop
+ */
+function serveHardhat() {
+  const stats = { requests: 0 };
+  const handle = async ({ id, method, params }) => {
+    try {
+      return { jsonrpc: "2.0", id, result: await hre.network.provider.request({ method, params }) };
+    } catch (error) {
+      return { jsonrpc: "2.0", id, error: { code: error.code ?? -32603, message: error.message } };
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      stats.requests++;
+      const payload = JSON.parse(body);
+      const response = Array.isArray(payload) ? await Promise.all(payload.map(handle)) : await handle(payload);
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify(response));
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      resolve({ url: `http://127.0.0.1:${server.address().port}`, stats, close: () => new Promise((done) => server.close(done)) });
+    });
+  });
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function mine() {
+  await hre.network.provider.request({ method: "evm_mine", params: [] });
+  const block = await hre.network.provider.request({ method: "eth_getBlockByNumber", params: ["latest", false] });
+  return { number: Number(block.number), timestamp: Number(block.timestamp) };
+}
+
+async function waitFor(condition, label) {
+  const deadline = Date.now() + 10_000;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${label}`);
+    await sleep(10);
+  }
+}
+
+describe("BlockWatcher (HTTP polling) on the in-process Hardhat network", function () {
+  this.timeout(30_000);
+  let node;
+  let watcher;
+
+  before(async function () {
+    node = await serveHardhat();
+    // The in-process network starts on its first request: do it here, not in a watcher's first poll
+    await hre.network.provider.request({ method: "eth_blockNumber", params: [] });
+  });
+
+  after(async function () {
+    await node.close();
+  });
+
+  afterEach(function () {
+    watcher?.stop();
+    watcher = undefined;
+  });
+
+  /** Start a polling watcher and wait for its first poll, which only records the current block */
+  async function startWatcher(onBlock) {
+    const chainId = hre.network.config.chainId;
+    const requests = node.stats.requests;
+    watcher = new BlockWatcher("test", { chainId, rpcUrl: node.url, pollingIntervalMs: POLLING_INTERVAL_MS }, onBlock);
+    watcher.start();
+    await waitFor(() => node.stats.requests > requests, "the first poll");
+    await sleep(POLLING_INTERVAL_MS);
+  }
+
+  it("reports each new block once, with its number and timestamp", async function () {
+    const seen = [];
+    await startWatcher(async (block) => {
+      seen.push(block);
+    });
+    expect(watcher.mode).to.equal("polling");
+    const start = seen.length;
+
+    const mined = [];
+    for (let i = 0; i < 3; i++) {
+      mined.push(await mine());
+      await waitFor(() => seen.length === start + mined.length, `block ${mined[i].number}`);
+    }
+    await sleep(SETTLE_MS);
+
+    expect(seen.slice(start)).to.deep.equal(mined);
+    expect(watcher.latestBlock).to.deep.equal(mined[mined.length - 1]);
+  });
+
+  it("skips to the newest block when blocks arrive while one is being processed", async function () {
+    const seen = [];
+    let release;
+    let gate = null;
+    await startWatcher(async (block) => {
+      seen.push(block.number);
+      if (gate) await gate;
+    });
+
+    // Hold the handler on the next block while three more are mined
+    gate = new Promise((resolve) => (release = resolve));
+    const first = await mine();
+    await waitFor(() => seen.includes(first.number), `block ${first.number}`);
+    await mine();
+    await mine();
+    const last = await mine();
+    await sleep(SETTLE_MS);
+
+    gate = null;
+    release();
+    await waitFor(() => seen.includes(last.number), `block ${last.number}`);
+    await sleep(SETTLE_MS);
+
+    expect(seen.slice(seen.indexOf(first.number))).to.deep.equal([first.number, last.number]);
+  });
+
+  it("makes no further reads after stop()", async function () {
+    const seen = [];
+    await startWatcher(async (block) => {
+      seen.push(block.number);
+    });
+    const mined = await mine();
+    await waitFor(() => seen.includes(mined.number), `block ${mined.number}`);
+
+    watcher.stop();
+    await sleep(SETTLE_MS);
+    const requests = node.stats.requests;
+    const handled = seen.length;
+
+    await mine();
+    await mine();
+    await sleep(SETTLE_MS);
+
+    expect(node.stats.requests).to.equal(requests);
+    expect(seen).to.have.length(handled);
+    expect(() => watcher.start()).to.throw(/cannot be restarted/);
+  });
+});
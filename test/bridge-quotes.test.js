@@ -0,0 +1,264 @@
+require("./helpers/register");
+
+const { expect } = require("chai");
+const http = require("http");
+const { acrossProvider } = require("../lib/bridges/across");
+const { relayerProvider } = require("../lib/bridges/relayer");
+const { canonicalProvider } = require("../lib/bridges/canonical");
+const { compareBridges } = require("../lib/bridges/compare");
+
+const ONE_ETH = BigInt(10) ** BigInt(18);
+const GWEI = BigInt(10) ** BigInt(9);
+const ROUTE = { from: "base", to: "arbitrum", amountInWei: ONE_ETH };
+const REFERENCE_PRICE = { priceUsd: 3000 };
+
+// 1 gwei base fee on every chain, so gas is the same for every bridge's deposit
+const FEE_HISTORY = {
+  oldestBlock: "0x10",
+  baseFeePerGas: Array(5).fill("0x" + GWEI.toString(16)),
+  gasUsedRatio: Array(4).fill(0.5),
+  reward: Array(4).fill(["0x0", "0x0", "0x0"]),
+};
+
+/**
+ * One local server for everything the bridges call: the Across API under
+ * /across, the relayer quote under /relayer and a JSON-RPC node under /rpc
+ */
+function startStub(routes) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const url = new URL(req.url, "http://localhost");
+      const send = (status, json) => {
+        res.writeHead(status, { "content-type": "application/json" });
+        res.end(JSON.stringify(json));
+      };
+
+      if (url.pathname === "/rpc") {
+        const { id, method } = JSON.parse(body);
+        if (method === "eth_feeHistory") return send(200, { jsonrpc: "2.0", id, result: FEE_HISTORY });
+        if (method === "eth_blockNumber") return send(200, { jsonrpc: "2.0", id, result: "0x14" });
+        // The L1 data fee is optional: an unreadable one is skipped
+        return send(200, { jsonrpc: "2.0", id, error: { code: -32601, message: `${method} not stubbed` } });
+      }
+
+      requests.push({ path: url.pathname, query: Object.fromEntries(url.searchParams) });
+      const route = routes[url.pathname];
+      if (!route) return send(404, { error: "not found" });
+      const { status, json } = route(url.searchParams);
+      send(status, json);
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const url = `http://127.0.0.1:${server.address().port}`;
+      resolve({ url, requests, close: () => new Promise((done) => server.close(done)) });
+    });
+  });
+}
+
+describe("Bridge quotes against a local stub", function () {
+  const ENV = [
+    "ACROSS_API_URL",
+    "BRIDGE_RELAYER_QUOTE_URL",
+    "BRIDGE_RELAYER_FEE_BPS",
+    "BASE_RPC_URL",
+    "ARBITRUM_RPC_URL",
+    "MAINNET_RPC_URL",
+    "RPC_CACHE_TTL_MS",
+  ];
+  const saved = {};
+  let stub;
+  let across;
+  let relayer;
+
+  before(async function () {
+    stub = await startStub({
+      "/across/suggested-fees": (params) => across(params),
+      "/relayer": (params) => relayer(params),
+    });
+    for (const key of ENV) saved[key] = process.env[key];
+    process.env.ACROSS_API_URL = `${stub.url}/across`;
+    process.env.BRIDGE_RELAYER_QUOTE_URL = `${stub.url}/relayer`;
+    delete process.env.BRIDGE_RELAYER_FEE_BPS;
+    process.env.BASE_RPC_URL = `${stub.url}/rpc`;
+    process.env.ARBITRUM_RPC_URL = `${stub.url}/rpc`;
+    process.env.MAINNET_RPC_URL = `${stub.url}/rpc`;
+    process.env.RPC_CACHE_TTL_MS = "0";
+  });
+
+  after(async function () {
+    for (const key of ENV) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+    await stub.close();
+  });
+
+  beforeEach(function () {
+    stub.requests.length = 0;
+    across = () => ({
+      status: 200,
+      json: {
+        totalRelayFee: { total: (ONE_ETH / BigInt(200)).toString() },
+        estimatedFillTimeSec: 8,
+        limits: {
+          maxDepositInstant: (ONE_ETH * BigInt(5)).toString(),
+          maxDepositShortDelay: (ONE_ETH * BigInt(50)).toString(),
+          maxDeposit: (ONE_ETH * BigInt(500)).toString(),
+        },
+      },
+    });
+    relayer = () => ({ status: 200, json: { feeWei: (ONE_ETH / BigInt(250)).toString(), latencySec: 60, failureRisk: 0.01 } });
+  });
+
+  describe("Across", function () {
+    it("quotes the relay fee and fill time from the suggested-fees API", async function () {
+      const quote = await acrossProvider.quote(ROUTE);
+
+      expect(stub.requests).to.have.length(1);
+      expect(stub.requests[0].query).to.include({ originChainId: "8453", destinationChainId: "42161", amount: ONE_ETH.toString() });
+      expect(quote.protocolFeeWei).to.equal(ONE_ETH / BigInt(200));
+      expect(quote.expectedOutputWei).to.equal(ONE_ETH - ONE_ETH / BigInt(200));
+      expect(quote.latencySec).to.equal(8);
+      expect(quote.failureRisk).to.equal(0.01);
+      expect(quote.gasFeeWei).to.equal(GWEI * BigInt(250000));
+      expect(quote.source).to.equal("api");
+    });
+
+    it("prices a deposit over the short-delay limit as a slow, riskier fill", async function () {
+      const quote = await acrossProvider.quote({ ...ROUTE, amountInWei: ONE_ETH * BigInt(100) });
+
+      expect(quote.latencySec).to.equal(3 * 3600);
+      expect(quote.failureRisk).to.equal(0.1);
+    });
+
+    it("rejects amounts outside the deposit limits", async function () {
+      let error;
+      try {
+        await acrossProvider.quote({ ...ROUTE, amountInWei: ONE_ETH * BigInt(501) });
+      } catch (e) {
+        error = e;
+      }
+      expect(error?.message).to.match(/deposit limit of 500\.0 ETH/);
+
+      across = () => ({ status: 200, json: { isAmountTooLow: true, totalRelayFee: { total: "1" } } });
+      error = undefined;
+      try {
+        await acrossProvider.quote(ROUTE);
+      } catch (e) {
+        error = e;
+      }
+      expect(error?.message).to.match(/below the Across minimum/);
+    });
+
+    it("rejects a relay fee that would leave nothing to deliver", async function () {
+      across = () => ({ status: 200, json: { totalRelayFee: { total: ONE_ETH.toString() } } });
+      let error;
+      try {
+        await acrossProvider.quote(ROUTE);
+      } catch (e) {
+        error = e;
+      }
+      expect(error?.message).to.match(/exceeds the amount/);
+    });
+
+    it("surfaces the API status on an error response", async function () {
+      across = () => ({ status: 503, json: { message: "down" } });
+      let error;
+      try {
+        await acrossProvider.quote(ROUTE);
+      } catch (e) {
+        error = e;
+      }
+      expect(error?.message).to.match(/status 503/);
+    });
+  });
+
+  describe("Relayer", function () {
+    it("uses the live quote's fee, latency and failure risk", async function () {
+      const quote = await relayerProvider.quote(ROUTE);
+
+      expect(stub.requests[0].path).to.equal("/relayer");
+      expect(stub.requests[0].query).to.include({ originChainId: "8453", destinationChainId: "42161", amount: ONE_ETH.toString() });
+      expect(quote.protocolFeeWei).to.equal(ONE_ETH / BigInt(250));
+      expect(quote.latencySec).to.equal(60);
+      expect(quote.failureRisk).to.equal(0.01);
+      expect(quote.source).to.equal("api");
+    });
+
+    it("rejects a quote without feeWei or with a fee above the amount", async function () {
+      relayer = () => ({ status: 200, json: { latencySec: 60 } });
+      let error;
+      try {
+        await relayerProvider.quote(ROUTE);
+      } catch (e) {
+        error = e;
+      }
+      expect(error?.message).to.match(/no feeWei/);
+
+      relayer = () => ({ status: 200, json: { feeWei: (ONE_ETH * BigInt(2)).toString() } });
+      error = undefined;
+      try {
+        await relayerProvider.quote(ROUTE);
+      } catch (e) {
+        error = e;
+      }
+      expect(error?.message).to.match(/exceeds the amount/);
+    });
+  });
+
+  describe("compareBridges", function () {
+    const CONFIG = { maxLatencySec: 3600, latencyCostBpsPerHour: 5 };
+    const providers = [acrossProvider, canonicalProvider, relayerProvider];
+
+    it("excludes the week-long canonical route even when it is cheapest", async function () {
+      // No protocol fee on the canonical bridge: only gas, below the relay fees
+      const comparison = await compareBridges(ROUTE, REFERENCE_PRICE, providers, CONFIG);
+
+      expect(comparison.excluded.map((q) => q.bridge)).to.deep.equal(["canonical"]);
+      expect(comparison.excluded[0].totalFeeUsd).to.be.below(comparison.selected.totalFeeUsd);
+      expect([comparison.selected, ...comparison.alternatives].map((q) => q.bridge)).to.have.members(["across", "relayer"]);
+      expect(comparison.failed).to.deep.equal([]);
+    });
+
+    it("ranks on fee plus failure risk and time in transit", async function () {
+      // Cheapest relayer fee, but a 5% chance of losing the transfer
+      relayer = () => ({ status: 200, json: { feeWei: (ONE_ETH / BigInt(250)).toString(), latencySec: 60, failureRisk: 0.05 } });
+      let comparison = await compareBridges(ROUTE, REFERENCE_PRICE, providers, CONFIG);
+      expect(comparison.selected.bridge).to.equal("across");
+      expect(comparison.selected.totalFeeUsd).to.be.above(comparison.alternatives[0].totalFeeUsd);
+
+      // Same risk as Across, but 50 minutes in transit at 50 bps/hour
+      relayer = () => ({ status: 200, json: { feeWei: (ONE_ETH / BigInt(250)).toString(), latencySec: 3000, failureRisk: 0.01 } });
+      comparison = await compareBridges(ROUTE, REFERENCE_PRICE, providers, { ...CONFIG, latencyCostBpsPerHour: 50 });
+      expect(comparison.selected.bridge).to.equal("across");
+
+      relayer = () => ({ status: 200, json: { feeWei: (ONE_ETH / BigInt(250)).toString(), latencySec: 60, failureRisk: 0.01 } });
+      comparison = await compareBridges(ROUTE, REFERENCE_PRICE, providers, CONFIG);
+      expect(comparison.selected.bridge).to.equal("relayer");
+    });
+
+    it("reports failed bridges and throws when every quote is too slow", async function () {
+      across = () => ({ status: 500, json: {} });
+      relayer = () => ({ status: 200, json: { feeWei: "1000", latencySec: 7200 } });
+
+      let error;
+      try {
+        await compareBridges(ROUTE, REFERENCE_PRICE, providers, CONFIG);
+      } catch (e) {
+        error = e;
+      }
+      expect(error?.message).to.match(/No bridge within the .* latency limit/);
+      expect(error?.message).to.include("relayer").and.to.include("canonical");
+
+      relayer = () => ({ status: 200, json: { feeWei: "1000", latencySec: 60 } });
+      const comparison = await compareBridges(ROUTE, REFERENCE_PRICE, providers, CONFIG);
+      expect(comparison.selected.bridge).to.equal("relayer");
+      expect(comparison.failed.map((f) => f.bridge)).to.deep.equal(["across"]);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+require("./helpers/register");
+
+const { expect } = require("chai");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { NextRequest } = require("next/server");
+const { POST } = require("../app/api/decide/route");
+
+// Ambiguous enough to get past the early exits and reach the model
+const REQUEST = {
+  spreadPercent: 0.6,
+  netProfitUsd: 25,
+  gasCostUsd: 1,
+  slippageUsd: 1,
+  feesUsd: 2,
+  tradeSizeUsd: 1000,
+  policy: "balanced",
+};
+
+async function decide(modelResponse) {
+  process.env.MOCK_RISK_MODEL_RESPONSES = JSON.stringify({ decision: modelResponse });
+  const response = await POST(new NextRequest("http://localhost/api/decide", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(REQUEST),
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+function lastValidation() {
+  const entries = fs.readFileSync(process.env.JOURNAL_PATH, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+  return entries.filter((entry) => entry.kind === "validation").pop();
+}
+
+describe("/api/decide with RISK_MODEL_PROVIDER=mock", function () {
+  const saved = {};
+  let dir;
+
+  before(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "decide-"));
+    for (const key of ["RISK_MODEL_PROVIDER", "MOCK_RISK_MODEL_RESPONSES", "JOURNAL_PATH"]) saved[key] = process.env[key];
+    process.env.RISK_MODEL_PROVIDER = "mock";
+    process.env.JOURNAL_PATH = path.join(dir, "journal.jsonl");
+  });
+
+  after(function () {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("uses valid model output as is", async function () {
+    const { status, body } = await decide({ decision: "EXECUTE", reason: "Risks are manageable", confidence: 0.8 });
+
+    expect(status).to.equal(200);
+    expect(body.decision.source).to.equal("model");
+    expect(body.decision.decision).to.equal("EXECUTE");
+    expect(body.decision.reason).to.equal("Risks are manageable");
+    expect(body.decision.confidence).to.equal(0.8);
+    expect(body.trace.model.provider).to.equal("mock");
+    expect(body.validationErrors).to.equal(undefined);
+  });
+
+  it("repairs trivially malformed model output", async function () {
+    const { body } = await decide('Sure:\n```json\n{ "decision": " execute. ", "confidence": "1.4" }\n```');
+
+    expect(body.decision.source).to.equal("model");
+    expect(body.decision.decision).to.equal("EXECUTE");
+    expect(body.decision.confidence).to.equal(1);
+    expect(body.decision.reason).to.equal("AI decision completed");
+    expect(lastValidation().data.outcome).to.equal("repaired");
+  });
+
+  it("falls back to the rules when model output is invalid", async function () {
+    const { status, body } = await decide({ decision: "execute now", reason: "Go", confidence: 0.9 });
+
+    expect(status).to.equal(200);
+    expect(body.decision.source).to.equal("fallback");
+    expect(body.decision.decision).to.be.oneOf(["EXECUTE", "SKIP"]);
+    expect(body.validationErrors).to.be.an("array").that.is.not.empty;
+    expect(body.trace.model.error).to.match(/invalid decision output/);
+    expect(lastValidation().data.outcome).to.equal("rejected");
+  });
+
+  it("falls back to the rules when the provider config is invalid", async function () {
+    const post = async () => {
+      const response = await POST(new NextRequest("http://localhost/api/decide", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(REQUEST),
+      }));
+      return { status: response.status, body: await response.json() };
+    };
+
+    process.env.MOCK_RISK_MODEL_RESPONSES = "{ decision: EXECUTE";
+    let { status, body } = await post();
+    expect(status).to.equal(200);
+    expect(body.decision.source).to.equal("fallback");
+
+    process.env.RISK_MODEL_PROVIDER = "gemnii";
+    try {
+      ({ status, body } = await post());
+    } finally {
+      process.env.RISK_MODEL_PROVIDER = "mock";
+    }
+    expect(status).to.equal(200);
+    expect(body.decision.source).to.equal("fallback");
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Load the app's TypeScript modules from mocha tests
+ *
+ * Registers ts-node (transpile only, CommonJS) and resolves the `@/` path
+ * alias from tsconfig.json to the repository root, as Next.js does.
+ */
+
+const Module = require("module");
+const path = require("path");
+
+const ROOT = path.resolve(__dirname, "../..");
+
+require("ts-node").register({
+  transpileOnly: true,
+  project: path.join(ROOT, "tsconfig.hardhat.json"),
+  compilerOptions: { module: "commonjs", moduleResolution: "node", jsx: "react-jsx" },
+});
+
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  const mapped = request.startsWith("@/") ? path.join(ROOT, request.slice(2)) : request;
+  return resolveFilename.call(this, mapped, ...rest);
+};
@@ -0,0 +1,155 @@
+require("./helpers/register");
+
+const { expect } = require("chai");
+const { PriceHub } = require("../lib/prices/price-hub");
+
+const INTERVAL_MS = 20;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(condition, label) {
+  const deadline = Date.now() + 5_000;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${label}`);
+    await sleep(5);
+  }
+}
+
+/** Parse SSE text into events, skipping the retry line and heartbeat comments */
+function parseEvents(text) {
+  return text
+    .split("\n\n")
+    .map((block) => Object.fromEntries(block.split("\n").filter((line) => /^(id|event|data): /.test(line)).map((line) => {
+      const [field, ...value] = line.split(": ");
+      return [field, value.join(": ")];
+    })))
+    .filter((fields) => fields.id !== undefined)
+    .map((fields) => ({ id: Number(fields.id), event: fields.event, data: JSON.parse(fields.data) }));
+}
+
+/** A client that reads as fast as the hub writes */
+function connect(hub, lastEventId) {
+  const reader = hub.subscribe(lastEventId).getReader();
+  const decoder = new TextDecoder();
+  const client = { events: [], text: "" };
+
+  const pump = async () => {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      client.text += decoder.decode(value, { stream: true });
+      const end = client.text.lastIndexOf("\n\n") + 2;
+      client.events.push(...parseEvents(client.text.slice(0, end)));
+      client.text = client.text.slice(end);
+    }
+  };
+  client.done = pump();
+  client.close = async () => {
+    await reader.cancel();
+    await client.done;
+  };
+  return client;
+}
+
+const ticks = (events) => events.map((e) => e.data.simulation.tick);
+
+describe("PriceHub with the simulated source", function () {
+  let hub;
+  let clients;
+
+  beforeEach(function () {
+    hub = new PriceHub({ source: "simulated", intervalMs: INTERVAL_MS, simulation: { seed: 7 } });
+    clients = [];
+  });
+
+  afterEach(async function () {
+    await Promise.all(clients.map((client) => client.close()));
+  });
+
+  function open(lastEventId) {
+    const client = connect(hub, lastEventId);
+    clients.push(client);
+    return client;
+  }
+
+  it("fans one poll loop out to every subscriber", async function () {
+    const startedAt = Date.now();
+    const a = open();
+    const b = open();
+    expect(hub.stats()).to.include({ subscribers: 2, running: true });
+
+    await sleep(INTERVAL_MS * 10);
+    await waitFor(() => a.events.length >= 5 && b.events.length >= 5, "five updates on both streams");
+    const elapsed = Date.now() - startedAt;
+    const shared = Math.min(a.events.length, b.events.length);
+    const first = a.events.slice(0, shared);
+
+    // A loop per subscriber would publish twice per interval
+    expect(hub.stats().lastEventId).to.be.at.most(Math.ceil(elapsed / INTERVAL_MS) + 1);
+    expect(b.events.slice(0, shared)).to.deep.equal(first);
+    expect(first.map((e) => e.id)).to.deep.equal(first.map((_, i) => first[0].id + i));
+    expect(ticks(first)).to.deep.equal(ticks(first).map((_, i) => ticks(first)[0] + i));
+    first.forEach((e) => {
+      expect(e.event).to.equal("price-update");
+      expect(e.data.source).to.equal("simulated");
+      expect(e.data.simulation.seed).to.equal(7);
+    });
+    expect(hub.latest().simulation.tick).to.equal(ticks(a.events)[a.events.length - 1]);
+  });
+
+  it("replays buffered events after a Last-Event-ID and only the latest otherwise", async function () {
+    const a = open();
+    await waitFor(() => a.events.length >= 5, "five updates");
+
+    const resumed = open(2);
+    await waitFor(() => resumed.events.length >= 3, "the replay");
+    expect(resumed.events.map((e) => e.id).slice(0, 3)).to.deep.equal([3, 4, 5]);
+
+    // No Last-Event-ID: the newest update only, then live events
+    const fresh = open();
+    await waitFor(() => fresh.events.length >= 2, "a fresh client's updates");
+    const latestId = fresh.events[0].id;
+    expect(latestId).to.be.at.least(5);
+    expect(fresh.events[1].id).to.equal(latestId + 1);
+  });
+
+  it("holds only the newest update for a client that stops reading", async function () {
+    const reader = hub.subscribe().getReader();
+
+    // The queue holds 8 chunks (the retry line plus 7 updates); later updates replace each other
+    await waitFor(() => hub.stats().droppedUpdates >= 3, "dropped updates");
+    const chunks = [];
+    for (let i = 0; i < 9; i++) {
+      const { value } = await reader.read();
+      chunks.push(new TextDecoder().decode(value));
+    }
+    const ids = parseEvents(chunks.join("")).map((e) => e.id);
+
+    expect(ids.slice(0, 7)).to.deep.equal([1, 2, 3, 4, 5, 6, 7]);
+    // Ids 8-10 were replaced before the client caught up
+    expect(ids[7]).to.be.at.least(11);
+    await reader.cancel();
+  });
+
+  it("stops the poll loop when the last subscriber leaves and restarts on the next", async function () {
+    const a = open();
+    const b = open();
+    await waitFor(() => a.events.length >= 3, "three updates");
+
+    await a.close();
+    expect(hub.stats()).to.include({ subscribers: 1, running: true });
+    await b.close();
+    clients = [];
+    expect(hub.stats()).to.include({ subscribers: 0, running: false });
+
+    const stoppedAt = hub.stats().lastEventId;
+    await sleep(INTERVAL_MS * 10);
+    expect(hub.stats().lastEventId).to.equal(stoppedAt);
+
+    // Resuming from the last id replays nothing; a single new loop continues the sequence
+    const c = open(stoppedAt);
+    await waitFor(() => c.events.length >= 4, "updates after the restart");
+    expect(hub.stats().running).to.equal(true);
+    expect(c.events.map((e) => e.id)).to.deep.equal(c.events.map((_, i) => stoppedAt + 1 + i));
+  });
+});
@@ -0,0 +1,108 @@
+require("./helpers/register");
+
+const { expect } = require("chai");
+const fs = require("fs");
+const path = require("path");
+const { parsePoolSnapshot, simulateExactInput } = require("../lib/dex/swap-simulator");
+const { calculateFullProfit, simulateArbitrageLegs } = require("../lib/math/profit");
+
+// Recorded by scripts/record-swap-fixtures.ts
+const FIXTURE_DIR = path.join(__dirname, "..", "fixtures", "swap-simulator");
+const fixtures = fs.readdirSync(FIXTURE_DIR)
+  .filter((file) => file.endsWith(".json"))
+  .map((file) => JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), "utf8")));
+
+function loadFixture(name) {
+  const fixture = fixtures.find((f) => f.name === name);
+  return { ...fixture, snapshot: parsePoolSnapshot(fixture.snapshot) };
+}
+
+function leg(fixture, snapshot = fixture.snapshot) {
+  return { snapshot, wethIsToken0: fixture.wethIsToken0 };
+}
+
+function spotPrice(fixture) {
+  const { snapshot } = fixture;
+  const raw = (Number(snapshot.sqrtPriceX96) / 2 ** 96) ** 2 * 10 ** (snapshot.token0Decimals - snapshot.token1Decimals);
+  return fixture.wethIsToken0 ? raw : 1 / raw;
+}
+
+describe("swap simulator", function () {
+  for (const raw of fixtures) {
+    describe(raw.name, function () {
+      const fixture = loadFixture(raw.name);
+
+      for (const quote of fixture.quotes) {
+        it(`matches QuoterV2 for ${quote.amountIn} ${quote.zeroForOne ? "token0 → token1" : "token1 → token0"}`, function () {
+          const result = simulateExactInput(fixture.snapshot, BigInt(quote.amountIn), quote.zeroForOne);
+
+          expect(result.amountOut.toString()).to.equal(quote.amountOut);
+          expect(result.sqrtPriceX96After.toString()).to.equal(quote.sqrtPriceX96After);
+          expect(result.initializedTicksCrossed).to.equal(quote.initializedTicksCrossed);
+          expect(result.partialFill).to.equal(false);
+          expect(result.leftSnapshotRange).to.equal(false);
+        });
+      }
+    });
+  }
+
+  it("flags swaps that leave the known tick range", function () {
+    const fixture = loadFixture("weth-usdc-3000");
+    const crossing = fixture.quotes.find((q) => q.initializedTicksCrossed > 1);
+    // Only the concentrated positions' ticks, and no scanned range to vouch for the rest
+    const truncated = {
+      ...fixture.snapshot,
+      ticks: fixture.snapshot.ticks.filter((t) => Math.abs(t.tick) < 800000),
+      tickRange: undefined,
+    };
+
+    expect(simulateExactInput(truncated, BigInt(crossing.amountIn), crossing.zeroForOne).leftSnapshotRange).to.equal(true);
+    expect(simulateExactInput({ ...truncated, ticks: [] }, BigInt(1e6), false).leftSnapshotRange).to.equal(true);
+  });
+
+  it("flags partial fills when a pool runs out of liquidity", function () {
+    const fixture = loadFixture("weth-usdc-500");
+    const amountIn = BigInt(100000) * BigInt(10) ** BigInt(18);
+    const result = simulateExactInput(fixture.snapshot, amountIn, fixture.wethIsToken0);
+
+    expect(result.partialFill).to.equal(true);
+    expect(result.amountIn < amountIn).to.equal(true);
+  });
+});
+
+describe("arbitrage leg simulation", function () {
+  const buyPool = loadFixture("weth-usdc-500");    // ~2500 USDC / WETH
+  const sellPool = loadFixture("weth-usdc-3000");  // ~3000 USDC / WETH
+  const params = {
+    amountInWei: BigInt(10) ** BigInt(18),
+    ethPriceUsd: 2750,
+    priceA: spotPrice(buyPool),
+    priceB: spotPrice(sellPool),
+    quoteAmountOut: BigInt(0),
+    gasPrice: BigInt(1e9),
+    poolFeeBps: 3000,
+  };
+
+  it("sells the WETH the buy leg produced", function () {
+    const legs = simulateArbitrageLegs(params.amountInWei, params.priceA, params.priceB, leg(buyPool), leg(sellPool), 2750);
+
+    expect(legs.sell.amountIn).to.equal(legs.buy.amountOut);
+    expect(legs.buy.amountOut < params.amountInWei).to.equal(true);
+  });
+
+  it("labels the slippage source", function () {
+    const simulated = calculateFullProfit({ ...params, poolA: leg(buyPool), poolB: leg(sellPool) });
+    expect(simulated.slippageSource).to.equal("simulated");
+
+    const withoutTicks = leg(sellPool, { ...sellPool.snapshot, ticks: [], tickRange: undefined });
+    const constant = calculateFullProfit({ ...params, poolA: leg(buyPool), poolB: withoutTicks });
+    expect(constant.slippageSource).to.equal("constant-liquidity");
+
+    expect(calculateFullProfit(params).slippageSource).to.equal("estimated");
+  });
+
+  it("rejects sizes a pool cannot fill", function () {
+    const tooLarge = { ...params, amountInWei: BigInt(100000) * BigInt(10) ** BigInt(18) };
+    expect(() => calculateFullProfit({ ...tooLarge, poolA: leg(buyPool), poolB: leg(sellPool) })).to.throw(/liquidity exhausted/);
+  });
+});
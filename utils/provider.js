@@ -1,22 +1,18 @@
-import { ethers } from 'ethers';
 import dotenv from 'dotenv';
+import { getManagedProvider } from '../lib/rpc/provider-manager';
+import { DEPLOYMENTS } from '../lib/chains/registry';
 
 dotenv.config();
 
-const RPC_URLS = {
-  base: process.env.BASE_RPC_URL || 'https://mainnet.base.org',
-  arbitrum: process.env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc'
-};
+// Mainnet chains served by the shared RPC provider manager
+// (BASE_RPC_URL(S) / ARBITRUM_RPC_URL(S); see lib/rpc/provider-manager.ts)
+const SUPPORTED_CHAINS = Object.values(DEPLOYMENTS.mainnet);
 
-// Create a fresh provider for each request to avoid caching
+// Shared provider with endpoint failover; read calls are cached for a couple of seconds
 export const getProvider = (chain) => {
   const chainLower = chain.toLowerCase();
-  if (!RPC_URLS[chainLower]) {
+  if (!SUPPORTED_CHAINS.includes(chainLower)) {
     throw new Error(`Unsupported chain: ${chain}`);
   }
-  // Create new provider instance each time to bypass any caching
-  return new ethers.JsonRpcProvider(RPC_URLS[chainLower], undefined, {
-    staticNetwork: true,
-    batchMaxCount: 1 // Disable batching to ensure fresh data
-  });
+  return getManagedProvider(chainLower);
 };